@@ -2,6 +2,7 @@ import { app, BrowserWindow, dialog, ipcMain, safeStorage } from 'electron';
 import { spawn, ChildProcess } from 'child_process';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
 import net from 'net';
 import log from 'electron-log/main';
 
@@ -151,6 +152,95 @@ ipcMain.handle('dialog-save-file', async (_event, jsonContent: string, defaultNa
   return filePath;
 });
 
+// IPC handler: Export a generated file (scripts, reports)
+ipcMain.handle('dialog-export-file', async (_event, content: string | Uint8Array, defaultName: string, filters: { name: string; extensions: string[] }[]) => {
+  const { canceled, filePath } = await dialog.showSaveDialog({
+    title: 'Export',
+    defaultPath: defaultName,
+    filters,
+  });
+  if (canceled || !filePath) return null;
+  if (typeof content === 'string') fs.writeFileSync(filePath, content, 'utf-8');
+  else fs.writeFileSync(filePath, Buffer.from(content));
+  return filePath;
+});
+
+// IPC handler: Export a set of generated files into a new subfolder of a chosen folder
+ipcMain.handle('dialog-export-folder', async (_event, files: { path: string; content: string }[], folderName: string) => {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    title: 'Choose Export Folder',
+    properties: ['openDirectory', 'createDirectory'],
+  });
+  if (canceled || filePaths.length === 0) return null;
+
+  // The folder name comes from the renderer; keep it a single, valid path segment
+  const safeName = path.basename(folderName).replace(/[<>:"/\\|?*\x00-\x1f]/g, '_').replace(/^\.+$/, '_') || 'export';
+  const target = path.join(filePaths[0], safeName);
+  for (const file of files) {
+    const full = path.resolve(target, file.path);
+    // Never write outside the export folder
+    if (!full.startsWith(path.resolve(target) + path.sep)) continue;
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, file.content, 'utf-8');
+  }
+  log.info(`Exported ${files.length} files to ${target}`);
+  return target;
+});
+
+// A4 landscape at 96 dpi, minus 10mm margins and a footer line
+const PDF_TILE_WIDTH = 1046;
+const PDF_TILE_HEIGHT = 690;
+
+// IPC handler: Export a diagram SVG as a multi-page tiled PDF
+ipcMain.handle('export-diagram-pdf', async (_event, svg: string, width: number, height: number, defaultName: string) => {
+  const { canceled, filePath } = await dialog.showSaveDialog({
+    title: 'Export PDF',
+    defaultPath: defaultName,
+    filters: [{ name: 'PDF Documents', extensions: ['pdf'] }],
+  });
+  if (canceled || !filePath) return null;
+
+  const cols = Math.max(1, Math.ceil(width / PDF_TILE_WIDTH));
+  const rows = Math.max(1, Math.ceil(height / PDF_TILE_HEIGHT));
+  const pages: string[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      pages.push(`<div class="page"><div class="tile"><img src="diagram.svg" style="left:${-c * PDF_TILE_WIDTH}px;top:${-r * PDF_TILE_HEIGHT}px"></div>`
+        + `<div class="footer">${path.basename(filePath)} — row ${r + 1}/${rows}, column ${c + 1}/${cols}</div></div>`);
+    }
+  }
+  const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><style>
+    @page { size: A4 landscape; margin: 0; }
+    body { margin: 0; }
+    .page { width: 297mm; height: 210mm; position: relative; overflow: hidden; page-break-after: always; }
+    .page:last-child { page-break-after: auto; }
+    .tile { position: absolute; left: 10mm; top: 10mm; width: ${PDF_TILE_WIDTH}px; height: ${PDF_TILE_HEIGHT}px; overflow: hidden; }
+    .tile img { position: absolute; width: ${width}px; height: ${height}px; }
+    .footer { position: absolute; left: 10mm; bottom: 6mm; font: 9px sans-serif; color: #888; }
+  </style></head><body>${pages.join('')}</body></html>`;
+
+  // Write to a temp folder so the SVG is loaded once rather than inlined per page
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dbanalyser-pdf-'));
+  const printWindow = new BrowserWindow({ show: false, webPreferences: { sandbox: true } });
+  try {
+    fs.writeFileSync(path.join(tempDir, 'diagram.svg'), svg, 'utf-8');
+    fs.writeFileSync(path.join(tempDir, 'index.html'), html, 'utf-8');
+    await printWindow.loadFile(path.join(tempDir, 'index.html'));
+    const pdf = await printWindow.webContents.printToPDF({
+      pageSize: 'A4',
+      landscape: true,
+      printBackground: true,
+      margins: { marginType: 'none' },
+    });
+    fs.writeFileSync(filePath, pdf);
+    log.info(`Exported ${cols * rows}-page PDF to ${filePath}`);
+    return filePath;
+  } finally {
+    printWindow.destroy();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+});
+
 // IPC handler: Open .dba file
 ipcMain.handle('dialog-open-file', async () => {
   const { canceled, filePaths } = await dialog.showOpenDialog({
@@ -163,6 +253,35 @@ ipcMain.handle('dialog-open-file', async () => {
   return { filePath: filePaths[0], content };
 });
 
+// IPC handler: Open a folder of .sql scripts (searched recursively)
+ipcMain.handle('dialog-open-sql-folder', async () => {
+  const { canceled, filePaths } = await dialog.showOpenDialog({
+    title: 'Import SQL Scripts',
+    properties: ['openDirectory'],
+  });
+  if (canceled || filePaths.length === 0) return null;
+
+  const folderPath = filePaths[0];
+  const files: { path: string; content: string }[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && entry.name !== 'node_modules' && entry.name !== 'bin' && entry.name !== 'obj') walk(full);
+      } else if (entry.name.toLowerCase().endsWith('.sql')) {
+        // SSMS "Generate Scripts" writes UTF-16; SSDT projects often carry a UTF-8 BOM
+        const bytes = fs.readFileSync(full);
+        const content = bytes[0] === 0xff && bytes[1] === 0xfe ? bytes.toString('utf16le') : bytes.toString('utf-8');
+        files.push({ path: path.relative(folderPath, full), content: content.replace(/^\uFEFF/, '') });
+      }
+    }
+  };
+  walk(folderPath);
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  log.info(`Read ${files.length} SQL scripts from ${folderPath}`);
+  return { folderPath, files };
+});
+
 app.whenReady().then(async () => {
   log.info(`DbAnalyser v${app.getVersion()} starting`);
 
@@ -13,6 +13,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('safe-storage-decrypt', cipherBase64),
   saveFile: (jsonContent: string, defaultName: string): Promise<string | null> =>
     ipcRenderer.invoke('dialog-save-file', jsonContent, defaultName),
+  exportFile: (content: string | Uint8Array, defaultName: string, filters: { name: string; extensions: string[] }[]): Promise<string | null> =>
+    ipcRenderer.invoke('dialog-export-file', content, defaultName, filters),
+  exportFolder: (files: { path: string; content: string }[], folderName: string): Promise<string | null> =>
+    ipcRenderer.invoke('dialog-export-folder', files, folderName),
+  exportDiagramPdf: (svg: string, width: number, height: number, defaultName: string): Promise<string | null> =>
+    ipcRenderer.invoke('export-diagram-pdf', svg, width, height, defaultName),
   openFile: (): Promise<{ filePath: string; content: string } | null> =>
     ipcRenderer.invoke('dialog-open-file'),
+  openSqlFolder: (): Promise<{ folderPath: string; files: { path: string; content: string }[] } | null> =>
+    ipcRenderer.invoke('dialog-open-sql-folder'),
 });
@@ -10,8 +10,11 @@ import { SchemaPage } from './components/schema/SchemaPage';
 import { ProfilingPage } from './components/profiling/ProfilingPage';
 import { RelationshipsPage } from './components/relationships/RelationshipsPage';
 import { QualityPage } from './components/quality/QualityPage';
+import { ComplexityPage } from './components/complexity/ComplexityPage';
 import { IndexingPage } from './components/indexing/IndexingPage';
 import { UsagePage } from './components/usage/UsagePage';
+import { ComparePage } from './components/compare/ComparePage';
+import { PiiPage } from './components/pii/PiiPage';
 
 export default function App() {
   const sessionId = useStore((s) => s.sessionId);
@@ -32,8 +35,11 @@ export default function App() {
         <Route path="/profiling" element={<ProfilingPage />} />
         <Route path="/relationships" element={<RelationshipsPage />} />
         <Route path="/quality" element={<QualityPage />} />
+        <Route path="/complexity" element={<ComplexityPage />} />
         <Route path="/indexing" element={<IndexingPage />} />
         <Route path="/usage" element={<UsagePage />} />
+        <Route path="/pii" element={<PiiPage />} />
+        <Route path="/compare" element={<ComparePage />} />
       </Routes>
     </AppShell>
   );
@@ -0,0 +1,65 @@
+import type { DbaFile } from './types';
+import { parseDdlScripts } from '../hooks/useDdlParser';
+
+// Show the open dialog and parse the chosen .dba file.
+// Returns null when the dialog is cancelled; throws with a user-facing message on invalid files.
+export async function openDbaFile(): Promise<{ data: DbaFile; filePath: string } | null> {
+  const result = await window.electronAPI?.openFile();
+  if (!result) return null;
+
+  let data: DbaFile;
+  try {
+    data = JSON.parse(result.content) as DbaFile;
+  } catch {
+    throw new Error('Could not read file. Make sure it is a valid .dba file.');
+  }
+  if (data.version !== 1 || !data.result) {
+    throw new Error('Invalid or unsupported .dba file format.');
+  }
+  return { data, filePath: result.filePath };
+}
+
+// Show the folder dialog and parse every .sql script under it into an offline analysis.
+// Returns null when the dialog is cancelled; throws when the folder holds nothing usable.
+export async function openSqlFolder(): Promise<{ data: DbaFile; filePath: string } | null> {
+  const result = await window.electronAPI?.openSqlFolder();
+  if (!result) return null;
+  if (result.files.length === 0) {
+    throw new Error('No .sql files found in the selected folder.');
+  }
+
+  const databaseName = result.folderPath.split(/[\\/]/).filter(Boolean).pop() ?? 'scripts';
+  const { schema, relationships, warnings } = parseDdlScripts(result.files, databaseName);
+  const objectCount = schema.tables.length + schema.views.length + schema.storedProcedures.length + schema.functions.length + schema.triggers.length;
+  if (objectCount === 0) {
+    throw new Error('No CREATE TABLE, VIEW, PROCEDURE, FUNCTION or TRIGGER statements found.');
+  }
+
+  const data: DbaFile = {
+    version: 1,
+    savedAt: new Date().toISOString(),
+    appVersion: __APP_VERSION__,
+    metadata: {
+      serverName: null,
+      databaseName,
+      isServerMode: false,
+      analyzerStatus: { schema: 'loaded', profiling: 'idle', relationships: 'loaded', quality: 'idle', usage: 'idle', indexing: 'idle' },
+    },
+    result: {
+      databaseName,
+      analyzedAt: new Date().toISOString(),
+      schema,
+      profiles: null,
+      relationships,
+      qualityIssues: null,
+      usageAnalysis: null,
+      indexRecommendations: null,
+      indexInventory: null,
+      isServerMode: false,
+      databases: [],
+      failedDatabases: [],
+    },
+  };
+  warnings.forEach((w) => window.electronAPI?.log.warn('SQL import:', w));
+  return { data, filePath: result.folderPath };
+}
@@ -326,8 +326,75 @@ export interface DbaFile {
     analyzerStatus: Record<AnalyzerName, AnalyzerStatus>;
   };
   result: AnalysisResult;
+  annotations?: AnnotationMap;
+  piiDecisions?: PiiDecisionMap;
+  subjectAreas?: SubjectAreaMap;
+  schemaDrafts?: SchemaDraftMap;
+  deletions?: Deletions;
 }
 
+// ── Annotations ─────────────────────────────────────────────────────────────
+
+export interface Annotation {
+  description: string;
+  owner: string;
+  tags: string[];
+  notes: string;
+  updatedAt: string;
+}
+
+// Keyed by object fullName, or `fullName:column` for columns
+export type AnnotationMap = Record<string, Annotation>;
+
+// ── PII classification ──────────────────────────────────────────────────────
+
+export type PiiCategory = 'email' | 'phone' | 'nationalId' | 'iban' | 'name' | 'birthDate';
+
+export interface PiiDecision {
+  category: PiiCategory;
+  status: 'accepted' | 'rejected';
+  updatedAt: string;
+}
+
+// Reviewed suggestions keyed by `fullName:column`
+export type PiiDecisionMap = Record<string, PiiDecision>;
+
+// ── Deletions ───────────────────────────────────────────────────────────────
+
+// When each key was deleted, so merging an older copy doesn't bring it back
+export type DeletionMap = Record<string, string>;
+
+export interface Deletions {
+  annotations?: DeletionMap;
+  piiDecisions?: DeletionMap;
+  subjectAreas?: DeletionMap;
+  schemaDrafts?: DeletionMap;
+}
+
+// ── ERD subject areas ───────────────────────────────────────────────────────
+
+export interface SubjectArea {
+  objects: string[];                                     // fullNames drawn in the area
+  positions: Record<string, { x: number; y: number }>;   // pinned node positions
+  viewport: { x: number; y: number; zoom: number } | null;
+  collapsed: string[];                                   // tables showing key columns only
+  updatedAt: string;
+}
+
+// Keyed by area name
+export type SubjectAreaMap = Record<string, SubjectArea>;
+
+// ── ERD design drafts ───────────────────────────────────────────────────────
+
+// Sketched schema changes, drawn over the loaded schema and exported as DDL
+export interface SchemaDraft {
+  tables: Record<string, TableInfo>;   // added or edited tables by fullName, as they look after the change
+  updatedAt: string;
+}
+
+// Keyed by draft name
+export type SchemaDraftMap = Record<string, SchemaDraft>;
+
 // ── Analyzer Names ──────────────────────────────────────────────────────────
 
 export type AnalyzerName = 'schema' | 'profiling' | 'relationships' | 'quality' | 'usage' | 'indexing';
@@ -0,0 +1,142 @@
+import { useState, useMemo } from 'react';
+import { diffSchemas, countChanges } from '../../hooks/useSchemaDiff';
+import { openDbaFile } from '../../api/dbaFile';
+import { CHANGE_CONFIG } from '../shared/ChangeBadge';
+import { SchemaDiffView } from './SchemaDiffView';
+import { MigrationScript } from './MigrationScript';
+import type { DbaFile } from '../../api/types';
+import type { ChangeKind } from '../../hooks/useSchemaDiff';
+
+interface Snapshot {
+  file: DbaFile;
+  filePath: string;
+}
+
+function SnapshotSlot({ label, snapshot, onOpen }: {
+  label: string;
+  snapshot: Snapshot | null;
+  onOpen: () => void;
+}) {
+  const fileName = snapshot?.filePath.split(/[\\/]/).pop();
+  const meta = snapshot?.file.metadata;
+
+  return (
+    <div className="flex-1 bg-bg-card border border-border rounded-lg p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-text-muted uppercase tracking-wide">{label}</span>
+        <button
+          onClick={onOpen}
+          className="px-3 py-1 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors"
+        >
+          {snapshot ? 'Change…' : 'Open .dba…'}
+        </button>
+      </div>
+      {snapshot ? (
+        <div className="space-y-0.5">
+          <p className="text-sm text-text-primary font-medium truncate">{fileName}</p>
+          <p className="text-xs text-text-secondary">
+            {meta?.isServerMode ? `Server: ${meta.serverName}` : (meta?.databaseName ?? snapshot.file.result.databaseName)}
+          </p>
+          <p className="text-xs text-text-muted">Saved {new Date(snapshot.file.savedAt).toLocaleString()}</p>
+        </div>
+      ) : (
+        <p className="text-sm text-text-muted">No snapshot selected</p>
+      )}
+    </div>
+  );
+}
+
+export function ComparePage() {
+  const [before, setBefore] = useState<Snapshot | null>(null);
+  const [after, setAfter] = useState<Snapshot | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [view, setView] = useState<'changes' | 'migration'>('changes');
+
+  const openSnapshot = async (setter: (s: Snapshot) => void) => {
+    setFileError(null);
+    try {
+      const opened = await openDbaFile();
+      if (!opened) return; // cancelled
+      if (!opened.data.result.schema) {
+        setFileError('This .dba file contains no schema data to compare.');
+        return;
+      }
+      setter({ file: opened.data, filePath: opened.filePath });
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : 'Could not read file.');
+    }
+  };
+
+  const diff = useMemo(() => {
+    const a = before?.file.result.schema;
+    const b = after?.file.result.schema;
+    if (!a || !b) return null;
+    return diffSchemas(a, b);
+  }, [before, after]);
+
+  const counts = useMemo(() => (diff ? countChanges(diff) : null), [diff]);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-text-primary">Compare Snapshots</h2>
+        <p className="text-xs text-text-muted mt-1">Review schema drift between two saved analyses.</p>
+      </div>
+
+      <div className="flex gap-3 items-stretch">
+        <SnapshotSlot label="Before" snapshot={before} onOpen={() => openSnapshot(setBefore)} />
+        <button
+          onClick={() => { setBefore(after); setAfter(before); }}
+          disabled={!before && !after}
+          className="self-center px-2 py-1 rounded text-text-secondary hover:text-accent transition-colors disabled:opacity-30"
+          title="Swap snapshots"
+        >
+          ⇄
+        </button>
+        <SnapshotSlot label="After" snapshot={after} onOpen={() => openSnapshot(setAfter)} />
+      </div>
+
+      {fileError && (
+        <p className="text-xs text-severity-error">{fileError}</p>
+      )}
+
+      {diff && counts && (
+        <>
+          <div className="flex gap-3">
+            {(Object.keys(CHANGE_CONFIG) as ChangeKind[]).map((kind) => (
+              <div key={kind} className="bg-bg-card border border-border rounded-lg px-4 py-3 flex items-center gap-2">
+                <span style={{ color: CHANGE_CONFIG[kind].color }} className="text-lg font-bold">
+                  {CHANGE_CONFIG[kind].icon}
+                </span>
+                <div>
+                  <p className="text-lg font-bold text-text-primary">{counts[kind]}</p>
+                  <p className="text-xs text-text-secondary">{CHANGE_CONFIG[kind].label}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-1 border-b border-border pb-2">
+            {([['changes', 'Changes'], ['migration', 'Migration Script']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setView(key)}
+                className={`px-3 py-1.5 rounded-t text-xs transition-colors ${
+                  view === key
+                    ? 'bg-bg-card text-accent border border-border border-b-0'
+                    : 'text-text-secondary hover:text-text-primary'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {view === 'changes'
+            ? <SchemaDiffView diff={diff} />
+            : <MigrationScript before={before!.file.result.schema!} after={after!.file.result.schema!} />}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { Fragment, useMemo, useState } from 'react';
+import { diffLines } from '../../hooks/useSchemaDiff';
+
+// Unchanged lines kept around each hunk when collapsed
+const CONTEXT_LINES = 3;
+
+export function DefinitionDiff({ before, after }: { before: string; after: string }) {
+  const [showAll, setShowAll] = useState(false);
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+
+  const visible = useMemo(() => {
+    if (showAll) return lines.map((line) => ({ line, gap: 0 }));
+    const keep = new Array(lines.length).fill(false);
+    lines.forEach((l, i) => {
+      if (l.type === 'same') return;
+      for (let j = Math.max(0, i - CONTEXT_LINES); j <= Math.min(lines.length - 1, i + CONTEXT_LINES); j++) keep[j] = true;
+    });
+    const rows: { line: (typeof lines)[number]; gap: number }[] = [];
+    let skipped = 0;
+    lines.forEach((line, i) => {
+      if (!keep[i]) { skipped++; return; }
+      rows.push({ line, gap: skipped });
+      skipped = 0;
+    });
+    if (skipped > 0 && rows.length > 0) rows.push({ line: { type: 'same', text: '', oldLine: null, newLine: null }, gap: skipped });
+    return rows;
+  }, [lines, showAll]);
+
+  return (
+    <div className="rounded border border-border bg-bg-secondary">
+      <div className="flex justify-end px-3 py-1.5 border-b border-border">
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-[10px] text-text-muted hover:text-text-primary transition-colors"
+        >
+          {showAll ? 'Show changes only' : 'Show full definition'}
+        </button>
+      </div>
+      <div className="overflow-x-auto max-h-[50vh] overflow-y-auto">
+        <table className="w-full text-[11px] font-mono leading-relaxed select-text">
+          <tbody>
+            {visible.map(({ line, gap }, i) => (
+              <Fragment key={i}>
+                {gap > 0 && (
+                  <tr>
+                    <td colSpan={3} className="px-3 py-0.5 text-text-muted bg-bg-card/50 text-center">
+                      ⋯ {gap} unchanged line{gap !== 1 ? 's' : ''}
+                    </td>
+                  </tr>
+                )}
+                {(line.oldLine !== null || line.newLine !== null) && (
+                  <tr
+                    className={
+                      line.type === 'added' ? 'bg-node-view/10' :
+                      line.type === 'removed' ? 'bg-severity-error/10' : ''
+                    }
+                  >
+                    <td className="px-2 text-right text-text-muted select-none w-10">{line.oldLine ?? ''}</td>
+                    <td className="px-2 text-right text-text-muted select-none w-10">{line.newLine ?? ''}</td>
+                    <td
+                      className={`px-3 whitespace-pre ${
+                        line.type === 'added' ? 'text-node-view' :
+                        line.type === 'removed' ? 'text-severity-error' : 'text-text-secondary'
+                      }`}
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
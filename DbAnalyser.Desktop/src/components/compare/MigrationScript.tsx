@@ -0,0 +1,58 @@
+import { useState, useMemo } from 'react';
+import { generateMigration, SQL_DIALECT_LABELS, type SqlDialect } from '../../hooks/useDdlGenerator';
+import type { DatabaseSchema } from '../../api/types';
+
+export function MigrationScript({ before, after }: { before: DatabaseSchema; after: DatabaseSchema }) {
+  const [dialect, setDialect] = useState<SqlDialect>('sqlserver');
+  const [copied, setCopied] = useState(false);
+  const script = useMemo(() => generateMigration(before, after, dialect), [before, after, dialect]);
+
+  const handleSave = async () => {
+    await window.electronAPI?.exportFile(script, `migration-${dialect}.sql`, [{ name: 'SQL Scripts', extensions: ['sql'] }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-text-muted">Dialect:</span>
+        {(Object.keys(SQL_DIALECT_LABELS) as SqlDialect[]).map((d) => (
+          <button
+            key={d}
+            onClick={() => setDialect(d)}
+            className={`px-2.5 py-1 rounded text-xs border transition-colors ${
+              dialect === d
+                ? 'border-accent/50 text-accent bg-accent/10'
+                : 'border-border text-text-secondary hover:text-text-primary'
+            }`}
+          >
+            {SQL_DIALECT_LABELS[d]}
+          </button>
+        ))}
+        <span className="ml-auto flex gap-2">
+          <button
+            onClick={() => {
+              navigator.clipboard.writeText(script);
+              setCopied(true);
+              setTimeout(() => setCopied(false), 2000);
+            }}
+            className="px-3 py-1.5 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors"
+          >
+            {copied ? 'Copied!' : 'Copy'}
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-3 py-1.5 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors"
+          >
+            Save .sql
+          </button>
+        </span>
+      </div>
+      <p className="text-xs text-text-muted">
+        Foreign keys are dropped first, then tables change, then foreign keys are re-created. Review before running.
+      </p>
+      <pre className="px-4 py-3 rounded border border-border bg-bg-secondary text-[11px] font-mono text-text-secondary overflow-x-auto whitespace-pre leading-relaxed max-h-[60vh] overflow-y-auto select-text">
+        {script}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState, useMemo } from 'react';
+import { FilterBar } from '../shared/FilterBar';
+import { ChangeBadge, CHANGE_CONFIG } from '../shared/ChangeBadge';
+import { DefinitionDiff } from './DefinitionDiff';
+import type { SchemaDiff, DiffCategory, ItemChange, TableChange, ChangeKind } from '../../hooks/useSchemaDiff';
+
+const CATEGORY_LABELS: Record<DiffCategory, string> = {
+  tables: 'Tables',
+  views: 'Views',
+  procedures: 'Procedures',
+  functions: 'Functions',
+  triggers: 'Triggers',
+};
+
+export function SchemaDiffView({ diff }: { diff: SchemaDiff }) {
+  const categories = (Object.keys(CATEGORY_LABELS) as DiffCategory[]).filter((c) => diff[c].length > 0);
+  const [activeCategory, setActiveCategory] = useState<DiffCategory | null>(null);
+  const [activeKinds, setActiveKinds] = useState<Set<string>>(() => new Set(['added', 'removed', 'changed']));
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const category = activeCategory && diff[activeCategory].length > 0 ? activeCategory : categories[0];
+
+  const kindFilters = useMemo(() => {
+    const items = category ? diff[category] : [];
+    return (Object.keys(CHANGE_CONFIG) as ChangeKind[]).map((kind) => ({
+      key: kind,
+      label: CHANGE_CONFIG[kind].label,
+      count: items.filter((c) => c.kind === kind).length,
+      color: CHANGE_CONFIG[kind].color,
+    }));
+  }, [diff, category]);
+
+  if (!category) {
+    return <p className="text-text-muted text-sm">No schema differences found.</p>;
+  }
+
+  const changes = (diff[category] as ItemChange<unknown>[]).filter((c) => activeKinds.has(c.kind));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-1 border-b border-border pb-2">
+        {categories.map((cat) => (
+          <button
+            key={cat}
+            onClick={() => { setActiveCategory(cat); setExpanded(null); }}
+            className={`px-3 py-1.5 rounded-t text-xs transition-colors ${
+              category === cat
+                ? 'bg-bg-card text-accent border border-border border-b-0'
+                : 'text-text-secondary hover:text-text-primary'
+            }`}
+          >
+            {CATEGORY_LABELS[cat]} ({diff[cat].length})
+          </button>
+        ))}
+      </div>
+
+      <FilterBar
+        label="Changes"
+        items={kindFilters}
+        active={activeKinds}
+        onToggle={(key) => {
+          setActiveKinds((prev) => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key); else next.add(key);
+            return next;
+          });
+        }}
+      />
+
+      <div className="rounded border border-border divide-y divide-border/50">
+        {changes.map((change) => {
+          const isExpanded = expanded === change.name;
+          return (
+            <div key={change.name}>
+              <button
+                onClick={() => setExpanded(isExpanded ? null : change.name)}
+                className={`w-full flex items-center gap-2 px-3 py-2 text-left text-sm hover:bg-bg-hover transition-colors ${isExpanded ? 'bg-bg-hover' : ''}`}
+              >
+                <span className={`text-[10px] text-text-muted transition-transform inline-block ${isExpanded ? 'rotate-90' : ''}`}>&#9654;</span>
+                <span className="text-text-primary">{change.name}</span>
+                <ChangeBadge kind={change.kind} />
+                {change.details.length > 0 && (
+                  <span className="ml-auto text-xs text-text-muted truncate max-w-[50%]">
+                    {change.details.length} change{change.details.length !== 1 ? 's' : ''}
+                  </span>
+                )}
+              </button>
+              {isExpanded && (
+                <div className="px-3 py-3 bg-bg-secondary/50">
+                  {category === 'tables'
+                    ? <TableChangeDetail change={change as TableChange} />
+                    : <DefinitionChangeDetail change={change} />}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {changes.length === 0 && (
+          <p className="px-3 py-6 text-sm text-text-muted text-center">No changes match the active filters.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TableChangeDetail({ change }: { change: TableChange }) {
+  if (change.kind !== 'changed') {
+    const table = change.after ?? change.before!;
+    return (
+      <p className="text-xs text-text-secondary">
+        {table.columns.length} columns, {table.indexes.length} indexes, {table.foreignKeys.length} foreign keys
+      </p>
+    );
+  }
+
+  const sections: { label: string; items: ItemChange<unknown>[] }[] = [
+    { label: 'Columns', items: change.columns },
+    { label: 'Indexes', items: change.indexes },
+    { label: 'Foreign Keys', items: change.foreignKeys },
+  ];
+
+  return (
+    <div className="space-y-3">
+      {sections.filter((s) => s.items.length > 0).map((section) => (
+        <div key={section.label}>
+          <h4 className="text-xs font-medium text-text-secondary mb-1">{section.label} ({section.items.length})</h4>
+          <div className="space-y-1">
+            {section.items.map((item) => (
+              <div key={item.name} className="flex items-center gap-2 text-xs">
+                <ChangeBadge kind={item.kind} />
+                <span className="text-text-primary font-mono">{item.name}</span>
+                {item.details.length > 0 && (
+                  <span className="text-text-muted">{item.details.join(', ')}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DefinitionChangeDetail({ change }: { change: ItemChange<unknown> }) {
+  const before = (change.before as { definition?: string } | null)?.definition ?? '';
+  const after = (change.after as { definition?: string } | null)?.definition ?? '';
+
+  return (
+    <div className="space-y-2">
+      {change.details.length > 0 && (
+        <ul className="text-xs text-text-secondary list-disc pl-5">
+          {change.details.map((d) => <li key={d}>{d}</li>)}
+        </ul>
+      )}
+      <DefinitionDiff before={before} after={after} />
+    </div>
+  );
+}
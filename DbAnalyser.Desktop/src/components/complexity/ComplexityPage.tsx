@@ -0,0 +1,173 @@
+import { useState, useMemo } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { useAnalyzer } from '../../hooks/useAnalyzer';
+import { useRoutineComplexity, type RoutineComplexity } from '../../hooks/useRoutineComplexity';
+import { DataTable } from '../shared/DataTable';
+import { FilterBar } from '../shared/FilterBar';
+import { AnalyzerLoader } from '../shared/AnalyzerLoader';
+import { ComplexityTreemap } from './ComplexityTreemap';
+import { OBJECT_TYPE_COLORS } from '../../api/types';
+import type { ColumnDef } from '@tanstack/react-table';
+
+type SizeMetric = 'linesOfCode' | 'statements' | 'cyclomatic';
+
+const SIZE_METRICS: Record<SizeMetric, string> = {
+  linesOfCode: 'Lines',
+  statements: 'Statements',
+  cyclomatic: 'Complexity',
+};
+
+// Conventional cyclomatic complexity bands
+const COMPLEXITY_BANDS: { max: number; label: string; color: string }[] = [
+  { max: 10, label: '1–10 simple', color: '#4ecca3' },
+  { max: 20, label: '11–20 moderate', color: '#f0a500' },
+  { max: 50, label: '21–50 complex', color: '#ff7043' },
+  { max: Infinity, label: '50+ untestable', color: '#e94560' },
+];
+
+const bandOf = (r: RoutineComplexity) => COMPLEXITY_BANDS.find((b) => r.cyclomatic <= b.max)!;
+const ROUTINE_TYPES = ['Procedure', 'Function'] as const;
+
+export function ComplexityPage() {
+  const { status, error, progress, refresh, cancel } = useAnalyzer('schema');
+  const schema = useStore((s) => s.result?.schema);
+
+  return (
+    <AnalyzerLoader status={status} error={error} onRefresh={refresh} onCancel={cancel} analyzerName="schema" progress={progress}>
+      {schema && <ComplexityContent />}
+    </AnalyzerLoader>
+  );
+}
+
+function ComplexityContent() {
+  const metrics = useRoutineComplexity();
+  const openObject = useStore((s) => s.openObject);
+  const [sizeBy, setSizeBy] = useState<SizeMetric>('linesOfCode');
+  const [activeTypes, setActiveTypes] = useState<Set<string>>(() => new Set(ROUTINE_TYPES));
+
+  // Most complex first, so the table opens on the refactoring candidates
+  const routines = useMemo(
+    () => (metrics ?? [])
+      .filter((r) => activeTypes.has(r.type))
+      .sort((a, b) => b.cyclomatic - a.cyclomatic || b.linesOfCode - a.linesOfCode),
+    [metrics, activeTypes],
+  );
+  const size = useMemo(() => (r: RoutineComplexity) => r[sizeBy], [sizeBy]);
+
+  const typeFilters = ROUTINE_TYPES.map((t) => ({
+    key: t,
+    label: t === 'Procedure' ? 'Procedures' : 'Functions',
+    count: metrics?.filter((r) => r.type === t).length ?? 0,
+    color: OBJECT_TYPE_COLORS[t],
+  }));
+
+  const toggleType = (key: string) => {
+    setActiveTypes((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const columns: ColumnDef<RoutineComplexity, any>[] = [
+    {
+      header: 'Routine',
+      accessorKey: 'name',
+      cell: ({ row }) => (
+        <button
+          onClick={() => openObject(row.original.name)}
+          className="text-left text-text-primary hover:text-accent hover:underline"
+        >
+          {row.original.name}
+        </button>
+      ),
+    },
+    {
+      header: 'Type',
+      accessorKey: 'type',
+      cell: ({ getValue }) => <span style={{ color: OBJECT_TYPE_COLORS[getValue() as string] }}>{getValue()}</span>,
+    },
+    { header: 'Lines', accessorKey: 'linesOfCode' },
+    { header: 'Statements', accessorKey: 'statements' },
+    {
+      header: 'Complexity',
+      accessorKey: 'cyclomatic',
+      cell: ({ row }) => <span style={{ color: bandOf(row.original).color }}>{row.original.cyclomatic}</span>,
+    },
+    { header: 'Nesting', accessorKey: 'nesting' },
+    {
+      header: 'Tables',
+      accessorFn: (r) => r.tables.length,
+      cell: ({ row }) => <span title={row.original.tables.join('\n')}>{row.original.tables.length}</span>,
+    },
+    { header: 'Writes', accessorKey: 'writes' },
+    { header: 'Reads', accessorKey: 'reads' },
+  ];
+
+  if (!metrics || metrics.length === 0) {
+    return (
+      <div className="space-y-4">
+        <h2 className="text-lg font-semibold text-text-primary">Complexity</h2>
+        <p className="text-text-muted">No stored procedure or function definitions to measure.</p>
+      </div>
+    );
+  }
+
+  const totalLines = routines.reduce((sum, r) => sum + r.linesOfCode, 0);
+  const average = routines.length > 0 ? routines.reduce((sum, r) => sum + r.cyclomatic, 0) / routines.length : 0;
+  const complex = routines.filter((r) => r.cyclomatic > 20).length;
+  const stats = [
+    { label: 'Routines', value: routines.length.toLocaleString() },
+    { label: 'Lines of code', value: totalLines.toLocaleString() },
+    { label: 'Average complexity', value: average.toFixed(1) },
+    { label: 'Complexity over 20', value: complex.toLocaleString() },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <h2 className="text-lg font-semibold text-text-primary">Complexity</h2>
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-text-muted mr-1">Size by</span>
+          {(Object.keys(SIZE_METRICS) as SizeMetric[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setSizeBy(m)}
+              className={`px-2 py-1 rounded text-[10px] font-medium transition-colors ${
+                sizeBy === m ? 'bg-accent/20 text-accent' : 'text-text-muted hover:text-text-secondary'
+              }`}
+            >
+              {SIZE_METRICS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        {stats.map((s) => (
+          <div key={s.label} className="bg-bg-card border border-border rounded-lg px-4 py-3">
+            <p className="text-lg font-bold text-text-primary">{s.value}</p>
+            <p className="text-xs text-text-secondary">{s.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <FilterBar label="Types" items={typeFilters} active={activeTypes} onToggle={toggleType} />
+
+      <div className="space-y-2">
+        <ComplexityTreemap routines={routines} size={size} color={(r) => bandOf(r).color} onSelect={(r) => openObject(r.name)} />
+        <div className="flex flex-wrap items-center gap-3 text-[10px] text-text-muted">
+          <span>Area: {SIZE_METRICS[sizeBy].toLowerCase()} · Color: cyclomatic complexity</span>
+          {COMPLEXITY_BANDS.map((b) => (
+            <span key={b.label} className="flex items-center gap-1">
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: b.color }} />
+              {b.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <DataTable data={routines} columns={columns} searchPlaceholder="Filter routines..." />
+    </div>
+  );
+}
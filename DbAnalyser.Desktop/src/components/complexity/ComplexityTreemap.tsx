@@ -0,0 +1,122 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type { RoutineComplexity } from '../../hooks/useRoutineComplexity';
+
+interface Tile {
+  routine: RoutineComplexity;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Worst aspect ratio of a row of areas laid along a side
+function worst(areas: number[], side: number): number {
+  const sum = areas.reduce((a, b) => a + b, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+}
+
+// Squarified treemap (Bruls, Huizing, van Wijk): fill rows while the worst aspect ratio improves
+function squarify(routines: RoutineComplexity[], size: (r: RoutineComplexity) => number, width: number, height: number): Tile[] {
+  const items = routines.filter((r) => size(r) > 0).sort((a, b) => size(b) - size(a));
+  const total = items.reduce((sum, r) => sum + size(r), 0);
+  if (total === 0 || width <= 0 || height <= 0) return [];
+  const scale = (width * height) / total;
+
+  const tiles: Tile[] = [];
+  let x = 0;
+  let y = 0;
+  let w = width;
+  let h = height;
+  let row: RoutineComplexity[] = [];
+
+  const layoutRow = () => {
+    const areas = row.map((r) => size(r) * scale);
+    const sum = areas.reduce((a, b) => a + b, 0);
+    if (w >= h) {
+      // Column along the left edge
+      const colWidth = sum / h;
+      let offset = y;
+      row.forEach((r, k) => {
+        const tileHeight = areas[k] / colWidth;
+        tiles.push({ routine: r, x, y: offset, w: colWidth, h: tileHeight });
+        offset += tileHeight;
+      });
+      x += colWidth;
+      w -= colWidth;
+    } else {
+      // Row along the top edge
+      const rowHeight = sum / w;
+      let offset = x;
+      row.forEach((r, k) => {
+        const tileWidth = areas[k] / rowHeight;
+        tiles.push({ routine: r, x: offset, y, w: tileWidth, h: rowHeight });
+        offset += tileWidth;
+      });
+      y += rowHeight;
+      h -= rowHeight;
+    }
+    row = [];
+  };
+
+  items.forEach((item) => {
+    const side = Math.min(w, h);
+    const current = row.map((r) => size(r) * scale);
+    if (row.length > 0 && worst([...current, size(item) * scale], side) > worst(current, side)) layoutRow();
+    row.push(item);
+  });
+  if (row.length > 0) layoutRow();
+  return tiles;
+}
+
+interface ComplexityTreemapProps {
+  routines: RoutineComplexity[];
+  size: (r: RoutineComplexity) => number;
+  color: (r: RoutineComplexity) => string;
+  onSelect: (r: RoutineComplexity) => void;
+  height?: number;
+}
+
+/** Routines as rectangles sized by one metric and colored by another. */
+export function ComplexityTreemap({ routines, size, color, onSelect, height = 360 }: ComplexityTreemapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const resize = () => setWidth(container.clientWidth);
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const tiles = useMemo(() => squarify(routines, size, width, height), [routines, size, width, height]);
+
+  return (
+    <div ref={containerRef} className="relative w-full overflow-hidden rounded border border-border bg-bg-primary" style={{ height }}>
+      {tiles.map(({ routine, x, y, w, h }) => (
+        <button
+          key={routine.name}
+          onClick={() => onSelect(routine)}
+          className="absolute overflow-hidden border border-bg-primary text-left hover:brightness-125 transition-[filter]"
+          style={{ left: x, top: y, width: w, height: h, backgroundColor: color(routine) }}
+          title={`${routine.name} (${routine.type})\n${routine.linesOfCode} lines · ${routine.statements} statements · complexity ${routine.cyclomatic} · nesting ${routine.nesting}`}
+        >
+          {w > 60 && h > 18 && (
+            <span className="block px-1.5 py-0.5 text-[10px] leading-tight text-bg-primary font-medium truncate">
+              {routine.name}
+            </span>
+          )}
+          {w > 60 && h > 34 && (
+            <span className="block px-1.5 text-[10px] leading-tight text-bg-primary/80 truncate">
+              {routine.cyclomatic} · {routine.linesOfCode} LOC
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
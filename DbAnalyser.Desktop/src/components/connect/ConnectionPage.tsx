@@ -1,11 +1,11 @@
 import { useEffect, useState } from 'react';
 import { useStore } from '../../hooks/useStore';
 import { api } from '../../api/client';
+import { openDbaFile, openSqlFolder } from '../../api/dbaFile';
 import { ConnectionForm, DEFAULT_FIELDS, parseConnectionString, buildConnectionString } from './ConnectionForm';
 import { ConnectionHistory } from './ConnectionHistory';
 import type { ConnectionFields } from './ConnectionForm';
 import type { ConnectionHistoryEntry } from '../../hooks/useStore';
-import type { DbaFile } from '../../api/types';
 
 const PROVIDER_LABELS: Record<string, string> = {
   sqlserver: 'SQL Server',
@@ -59,17 +59,23 @@ export function ConnectionPage() {
 
   const handleOpenFile = async () => {
     setFileError(null);
-    const result = await window.electronAPI?.openFile();
-    if (!result) return; // cancelled
     try {
-      const data = JSON.parse(result.content) as DbaFile;
-      if (data.version !== 1 || !data.result) {
-        setFileError('Invalid or unsupported .dba file format.');
-        return;
-      }
-      loadFromFile(data, result.filePath);
-    } catch {
-      setFileError('Could not read file. Make sure it is a valid .dba file.');
+      const opened = await openDbaFile();
+      if (!opened) return; // cancelled
+      loadFromFile(opened.data, opened.filePath);
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : 'Could not read file.');
+    }
+  };
+
+  const handleImportFolder = async () => {
+    setFileError(null);
+    try {
+      const imported = await openSqlFolder();
+      if (!imported) return; // cancelled
+      loadFromFile(imported.data, imported.filePath);
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : 'Could not read SQL scripts.');
     }
   };
 
@@ -145,12 +151,21 @@ export function ConnectionPage() {
           <div className="flex-1 h-px bg-border" />
         </div>
 
-        <button
-          onClick={handleOpenFile}
-          className="w-full py-2.5 rounded border border-border text-sm text-text-secondary hover:text-text-primary hover:border-accent/50 transition-colors"
-        >
-          Open Saved Analysis
-        </button>
+        <div className="flex gap-3">
+          <button
+            onClick={handleOpenFile}
+            className="flex-1 py-2.5 rounded border border-border text-sm text-text-secondary hover:text-text-primary hover:border-accent/50 transition-colors"
+          >
+            Open Saved Analysis
+          </button>
+          <button
+            onClick={handleImportFolder}
+            title="Build the schema from a folder of CREATE TABLE/VIEW/PROCEDURE scripts"
+            className="flex-1 py-2.5 rounded border border-border text-sm text-text-secondary hover:text-text-primary hover:border-accent/50 transition-colors"
+          >
+            Import SQL Scripts
+          </button>
+        </div>
 
         {fileError && (
           <p className="text-xs text-severity-error text-center">{fileError}</p>
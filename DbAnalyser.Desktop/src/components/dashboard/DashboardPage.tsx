@@ -2,12 +2,31 @@ import { useMemo, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useStore } from '../../hooks/useStore';
 import { useAnalyzer } from '../../hooks/useAnalyzer';
+import { useBaselineChanges } from '../../hooks/useBaseline';
+import { CHANGE_CONFIG } from '../shared/ChangeBadge';
+import { SchemaDiffView } from '../compare/SchemaDiffView';
+import type { ChangeKind, DiffCategory } from '../../hooks/useSchemaDiff';
 
 interface StatCard {
   label: string;
   value: number;
   page: string;
   color?: string;
+  category?: DiffCategory;
+}
+
+function DeltaCounts({ counts }: { counts: Record<ChangeKind, number> }) {
+  const kinds = (Object.keys(CHANGE_CONFIG) as ChangeKind[]).filter((k) => counts[k] > 0);
+  if (kinds.length === 0) return null;
+  return (
+    <span className="flex gap-1.5 text-[10px] font-medium">
+      {kinds.map((k) => (
+        <span key={k} style={{ color: CHANGE_CONFIG[k].color }} title={`${CHANGE_CONFIG[k].label} since baseline`}>
+          {CHANGE_CONFIG[k].icon}{counts[k]}
+        </span>
+      ))}
+    </span>
+  );
 }
 
 function SkeletonCard() {
@@ -62,12 +81,12 @@ export function DashboardPage() {
     const rels = result?.relationships;
 
     if (schema) {
-      c.push({ label: 'Tables', value: schema.tables.length, page: '/schema', color: '#e94560' });
-      c.push({ label: 'Views', value: schema.views.length, page: '/schema', color: '#4ecca3' });
-      c.push({ label: 'Procedures', value: schema.storedProcedures.length, page: '/schema', color: '#f0a500' });
-      c.push({ label: 'Functions', value: schema.functions.length, page: '/schema', color: '#bb86fc' });
+      c.push({ label: 'Tables', value: schema.tables.length, page: '/schema', color: '#e94560', category: 'tables' });
+      c.push({ label: 'Views', value: schema.views.length, page: '/schema', color: '#4ecca3', category: 'views' });
+      c.push({ label: 'Procedures', value: schema.storedProcedures.length, page: '/schema', color: '#f0a500', category: 'procedures' });
+      c.push({ label: 'Functions', value: schema.functions.length, page: '/schema', color: '#bb86fc', category: 'functions' });
       if (schema.triggers.length > 0)
-        c.push({ label: 'Triggers', value: schema.triggers.length, page: '/schema', color: '#ff7043' });
+        c.push({ label: 'Triggers', value: schema.triggers.length, page: '/schema', color: '#ff7043', category: 'triggers' });
       if (schema.synonyms.length > 0)
         c.push({ label: 'Synonyms', value: schema.synonyms.length, page: '/schema', color: '#78909c' });
       if (schema.jobs.length > 0)
@@ -96,6 +115,9 @@ export function DashboardPage() {
     return c;
   }, [result]);
 
+  const baseline = useStore((s) => s.baseline);
+  const baselineChanges = useBaselineChanges();
+
   const progress = useStore((s) => s.progress);
   const schemaLoading = schemaStatus === 'loading' || schemaStatus === 'idle';
   const relsLoading = relsStatus === 'loading' || relsStatus === 'idle';
@@ -190,12 +212,17 @@ export function DashboardPage() {
             onClick={() => navigate(card.page)}
             className="bg-bg-card border border-border rounded-lg p-4 text-left hover:border-accent/50 hover:bg-bg-hover transition-colors group"
           >
-            <p
-              className="text-2xl font-bold"
-              style={{ color: card.color ?? '#4fc3f7' }}
-            >
-              {card.value}
-            </p>
+            <div className="flex items-baseline justify-between gap-2">
+              <p
+                className="text-2xl font-bold"
+                style={{ color: card.color ?? '#4fc3f7' }}
+              >
+                {card.value}
+              </p>
+              {baselineChanges && card.category && (
+                <DeltaCounts counts={baselineChanges.byCategory[card.category]} />
+              )}
+            </div>
             <p className="text-xs text-text-secondary mt-1 group-hover:text-text-primary transition-colors">
               {card.label}
             </p>
@@ -209,6 +236,19 @@ export function DashboardPage() {
         ) : null}
       </div>
 
+      {baseline && baselineChanges && (
+        <div className="bg-bg-card border border-border rounded-lg p-4 space-y-3">
+          <div className="flex items-center gap-3">
+            <h3 className="text-sm font-medium text-text-primary">Changes Since Baseline</h3>
+            <DeltaCounts counts={baselineChanges.totals} />
+            <span className="ml-auto text-xs text-text-muted">
+              Baseline saved {new Date(baseline.file.savedAt).toLocaleString()}
+            </span>
+          </div>
+          <SchemaDiffView diff={baselineChanges.diff} />
+        </div>
+      )}
+
       {result?.profiles && result.profiles.length > 0 && (
         <div className="bg-bg-card border border-border rounded-lg p-4">
           <h3 className="text-sm font-medium text-text-primary mb-3">Largest Tables</h3>
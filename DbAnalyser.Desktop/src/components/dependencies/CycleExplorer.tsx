@@ -0,0 +1,216 @@
+import { useState, useMemo, useCallback } from 'react';
+import {
+  ReactFlow,
+  Background,
+  MarkerType,
+  type Node,
+  type Edge,
+  useNodesState,
+  useEdgesState,
+  ReactFlowProvider,
+} from '@xyflow/react';
+import '@xyflow/react/dist/style.css';
+import { useStore } from '../../hooks/useStore';
+import { GraphControls } from '../shared/GraphControls';
+import { getLayoutedElements } from '../../hooks/useDagreLayout';
+import { OBJECT_TYPE_COLORS } from '../../api/types';
+import { PATH_HIGHLIGHT_COLOR } from '../../hooks/usePathFinder';
+import { analyzeCycle, describeBreak, type Cycle, type CycleAnalysis, type CycleEdge } from '../../hooks/useCycleDetection';
+
+const BREAK_COLOR = '#ff6b6b';
+const SHOWN_CYCLES = 200;
+
+const edgeId = (e: CycleEdge) => `${e.from}|${e.to}`;
+
+/**
+ * Each circular dependency on its own: the component as a subgraph, the elementary cycles in it
+ * and the smallest set of FKs or dependencies to defer so objects can be created in order.
+ */
+export function CycleExplorer({ cycles }: { cycles: Cycle[] }) {
+  const result = useStore((s) => s.result)!;
+  const deps = result.relationships!.dependencies;
+  const [selected, setSelected] = useState(0);
+  const cycle = cycles[Math.min(selected, cycles.length - 1)];
+
+  const analysis = useMemo(
+    () => cycle && analyzeCycle(cycle, deps, result.relationships!, result.schema),
+    [cycle, deps, result],
+  );
+
+  if (cycles.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center bg-bg-secondary border border-border rounded-lg">
+        <p className="text-text-muted text-sm">No circular dependencies.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex gap-3">
+      <div className="w-56 shrink-0 flex flex-col bg-bg-card border border-border rounded-lg overflow-hidden">
+        <h3 className="px-3 py-2 border-b border-border text-sm font-semibold text-text-primary">
+          {cycles.length} Circular {cycles.length === 1 ? 'Group' : 'Groups'}
+        </h3>
+        <div className="flex-1 overflow-y-auto py-1">
+          {cycles.map((c, i) => (
+            <button
+              key={i}
+              onClick={() => setSelected(i)}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs transition-colors ${
+                c === cycle ? 'bg-bg-hover' : 'hover:bg-bg-hover/50'
+              }`}
+              title={c.nodes.join('\n')}
+            >
+              <span className="text-text-primary truncate">{[...c.nodes].sort()[0].split('.').pop()}</span>
+              <span className="ml-auto text-text-muted flex-shrink-0">{c.nodes.length} objects</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {analysis && (
+        <ReactFlowProvider>
+          <CycleDetail key={analysis.nodes.join('|')} analysis={analysis} />
+        </ReactFlowProvider>
+      )}
+    </div>
+  );
+}
+
+function CycleDetail({ analysis }: { analysis: CycleAnalysis }) {
+  const deps = useStore((s) => s.result!.relationships!.dependencies);
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const breaks = useMemo(() => new Set(analysis.feedbackEdges.map(edgeId)), [analysis]);
+
+  const highlightedPath = highlighted !== null ? analysis.elementary[highlighted] : null;
+  const highlightedEdges = useMemo(
+    () => highlightedPath && new Set(highlightedPath.map((from, i) => `${from}|${highlightedPath[(i + 1) % highlightedPath.length]}`)),
+    [highlightedPath],
+  );
+
+  const { graphNodes, graphEdges } = useMemo(() => {
+    const typeMap = new Map(deps.map((d) => [d.fullName, d.objectType]));
+    const nodes: Node[] = analysis.nodes.map((name) => ({
+      id: name,
+      position: { x: 0, y: 0 },
+      data: { label: name.split('.').pop() ?? name },
+      style: {
+        background: OBJECT_TYPE_COLORS[typeMap.get(name) ?? 'Table'] ?? '#666',
+        color: '#fff',
+        border: 'none',
+        borderRadius: '6px',
+        padding: '6px 12px',
+        fontSize: '11px',
+        fontWeight: 500,
+        minWidth: 100,
+        textAlign: 'center' as const,
+        opacity: !highlightedPath || highlightedPath.includes(name) ? 1 : 0.35,
+      },
+    }));
+
+    // Edges point from the dependent object to what it depends on
+    const edges: Edge[] = analysis.edges.map((e) => {
+      const isBreak = breaks.has(edgeId(e));
+      const isHighlighted = highlightedEdges?.has(edgeId(e));
+      const stroke = isHighlighted ? PATH_HIGHLIGHT_COLOR : isBreak ? BREAK_COLOR : e.kind === 'fk' ? '#4fc3f7' : '#78909c';
+      return {
+        id: edgeId(e),
+        source: e.from,
+        target: e.to,
+        label: e.label,
+        labelStyle: { fontSize: 9, fill: '#888' },
+        markerEnd: { type: MarkerType.ArrowClosed, color: stroke },
+        style: {
+          stroke,
+          strokeWidth: isHighlighted || isBreak ? 2 : 1,
+          strokeDasharray: isBreak ? '5 3' : undefined,
+          opacity: highlightedEdges && !isHighlighted ? 0.25 : 1,
+        },
+      };
+    });
+
+    const laid = getLayoutedElements(nodes, edges, { direction: 'LR', rankSep: 60, nodeSep: 20 });
+    return { graphNodes: laid.nodes, graphEdges: laid.edges };
+  }, [analysis, deps, breaks, highlightedPath, highlightedEdges]);
+
+  const [nodes, setNodes, onNodesChange] = useNodesState(graphNodes);
+  const [edges, setEdges, onEdgesChange] = useEdgesState(graphEdges);
+
+  useMemo(() => {
+    setNodes(graphNodes);
+    setEdges(graphEdges);
+  }, [graphNodes, graphEdges, setNodes, setEdges]);
+
+  const handleAutoLayout = useCallback(() => {
+    const laid = getLayoutedElements(nodes, edges, { direction: 'LR', rankSep: 60, nodeSep: 20 });
+    setNodes(laid.nodes);
+  }, [nodes, edges, setNodes]);
+
+  return (
+    <>
+      <div className="flex-1 min-w-0 bg-bg-secondary border border-border rounded-lg relative">
+        <ReactFlow
+          nodes={nodes}
+          edges={edges}
+          onNodesChange={onNodesChange}
+          onEdgesChange={onEdgesChange}
+          fitView
+          minZoom={0.1}
+          maxZoom={3}
+        >
+          <Background />
+          <GraphControls onAutoLayout={handleAutoLayout} />
+        </ReactFlow>
+      </div>
+
+      <div className="w-80 shrink-0 flex flex-col gap-3 min-h-0">
+        <div className="bg-bg-card border border-border rounded-lg overflow-hidden flex flex-col max-h-[55%]">
+          <h3 className="px-3 py-2 border-b border-border text-sm font-semibold text-text-primary">
+            Break {analysis.feedbackEdges.length === 1 ? 'Point' : 'Points'}
+            <span className="ml-2 text-xs font-normal text-text-muted">
+              defer {analysis.feedbackEdges.length} of {analysis.edges.length}
+            </span>
+          </h3>
+          <div className="overflow-y-auto px-3 py-2 space-y-2">
+            {analysis.feedbackEdges.map((e) => (
+              <div key={edgeId(e)} className="text-xs">
+                <p className="text-text-primary">
+                  <span className="text-severity-error">{e.from.split('.').pop()} → {e.to.split('.').pop()}</span>
+                  <span className="ml-2 text-text-muted">
+                    {e.kind === 'fk' ? `${e.nullable ? 'nullable ' : ''}FK ${e.label}` : e.label}
+                  </span>
+                </p>
+                <p className="text-text-secondary">{describeBreak(e)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 bg-bg-card border border-border rounded-lg overflow-hidden flex flex-col">
+          <h3 className="px-3 py-2 border-b border-border text-sm font-semibold text-text-primary">
+            Cycles
+            <span className="ml-2 text-xs font-normal text-text-muted">
+              {analysis.truncated ? `first ${analysis.elementary.length}` : analysis.elementary.length}
+            </span>
+          </h3>
+          <div className="flex-1 overflow-y-auto py-1">
+            {analysis.elementary.slice(0, SHOWN_CYCLES).map((path, i) => (
+              <button
+                key={i}
+                onClick={() => setHighlighted(highlighted === i ? null : i)}
+                className={`w-full px-3 py-1 text-left text-xs transition-colors ${
+                  highlighted === i ? 'bg-bg-hover text-accent' : 'text-text-secondary hover:bg-bg-hover/50'
+                }`}
+              >
+                {[...path, path[0]].map((n) => n.split('.').pop()).join(' → ')}
+              </button>
+            ))}
+            {analysis.elementary.length > SHOWN_CYCLES && (
+              <p className="px-3 py-1 text-xs text-text-muted">and {analysis.elementary.length - SHOWN_CYCLES} more</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,13 +1,23 @@
 import type { Cycle } from '../../hooks/useCycleDetection';
 
-export function CycleWarning({ cycles }: { cycles: Cycle[] }) {
+export function CycleWarning({ cycles, onExplore }: { cycles: Cycle[]; onExplore?: () => void }) {
   if (cycles.length === 0) return null;
 
   return (
     <div className="bg-severity-error/10 border border-severity-error/30 rounded-lg px-4 py-3">
-      <p className="text-sm font-medium text-severity-error mb-2">
-        {cycles.length} Circular Dependency {cycles.length === 1 ? 'Cycle' : 'Cycles'} Detected
-      </p>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-severity-error">
+          {cycles.length} Circular Dependency {cycles.length === 1 ? 'Cycle' : 'Cycles'} Detected
+        </p>
+        {onExplore && (
+          <button
+            onClick={onExplore}
+            className="px-2 py-1 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors"
+          >
+            Explore
+          </button>
+        )}
+      </div>
       <div className="space-y-1">
         {cycles.map((cycle, i) => (
           <p key={i} className="text-xs text-text-secondary">
@@ -1,17 +1,33 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useStore } from '../../hooks/useStore';
 import { useAnalyzer } from '../../hooks/useAnalyzer';
 import { FilterBar } from '../shared/FilterBar';
 import { AnalyzerLoader } from '../shared/AnalyzerLoader';
 import { CycleWarning } from './CycleWarning';
+import { CycleExplorer } from './CycleExplorer';
 import { detectCycles } from '../../hooks/useCycleDetection';
+import { useBaselineChanges } from '../../hooks/useBaseline';
 import { OBJECT_TYPE_COLORS } from '../../api/types';
-import { ForceGraph, type GraphNode, type GraphEdge } from './ForceGraph';
+import { ForceGraph, type GraphNode, type GraphEdge, type GraphHighlight } from './ForceGraph';
+import { PathFinder } from './PathFinder';
+import { ModulesPanel } from './ModulesPanel';
+import { LoadOrderMenu } from './LoadOrderMenu';
+import { pathEdgeKey } from '../../hooks/usePathFinder';
+import { useModuleDetection, type ModuleGranularity } from '../../hooks/useModuleDetection';
+import { ImportanceTable } from './ImportanceTable';
+import {
+  CENTRALITY_METRICS,
+  formatMetric,
+  metricValue,
+  useCentrality,
+  type CentralityMetric,
+} from '../../hooks/useCentrality';
 
 function DependencyGraphInner() {
   const result = useStore((s) => s.result)!;
   const rels = result.relationships!;
   const deps = rels.dependencies;
+  const baselineChanges = useBaselineChanges();
 
   // Filters
   const nodeTypes = useMemo(() => {
@@ -49,6 +65,29 @@ function DependencyGraphInner() {
 
   const [activeNodes, setActiveNodes] = useState(() => new Set(nodeTypes.map((t) => t.key)));
   const [activeEdges, setActiveEdges] = useState(() => new Set(edgeTypes.map((t) => t.key)));
+  const highlightedPath = useStore((s) => s.highlightedPath);
+  const [showPathFinder, setShowPathFinder] = useState(() => highlightedPath !== null);
+  const [showModules, setShowModules] = useState(false);
+  const [granularity, setGranularity] = useState<ModuleGranularity>('normal');
+  const [selectedModule, setSelectedModule] = useState<string | null>(null);
+  const modules = useModuleDetection(showModules ? granularity : null);
+  const [view, setView] = useState<'graph' | 'rankings' | 'cycles'>('graph');
+  const [sizeMetric, setSizeMetric] = useState<CentralityMetric>('importance');
+  const centrality = useCentrality(sizeMetric !== 'importance');
+
+  // Make sure every object on a highlighted path is drawn
+  useEffect(() => {
+    if (!highlightedPath) return;
+    const types = highlightedPath.nodes
+      .map((n) => deps.find((d) => d.fullName === n)?.objectType.toLowerCase())
+      .filter((t): t is string => !!t);
+    setActiveNodes((prev) => (types.every((t) => prev.has(t)) ? prev : new Set([...prev, ...types])));
+  }, [highlightedPath, deps]);
+
+  const pathHighlight = useMemo<GraphHighlight | null>(() => highlightedPath && {
+    nodes: new Set(highlightedPath.nodes),
+    edges: new Set(highlightedPath.hops.map((h) => pathEdgeKey(h.from, h.to))),
+  }, [highlightedPath]);
 
   // Cycle detection
   const cycles = useMemo(() => detectCycles(deps), [deps]);
@@ -68,6 +107,9 @@ function DependencyGraphInner() {
         impact: d.transitiveImpact.length,
         score: d.importanceScore,
         database: d.databaseName,
+        change: baselineChanges?.objects.get(d.fullName),
+        module: modules?.moduleOf.get(d.fullName),
+        size: centrality ? metricValue(sizeMetric, d.importanceScore, centrality.get(d.fullName)) : undefined,
       };
     });
 
@@ -129,7 +171,21 @@ function DependencyGraphInner() {
     }
 
     return { graphNodes: gNodes, graphEdges: gEdges };
-  }, [deps, rels, activeNodes, activeEdges]);
+  }, [deps, rels, activeNodes, activeEdges, baselineChanges, modules, centrality, sizeMetric]);
+
+  const sizeBy = useMemo(
+    () => (centrality ? { label: CENTRALITY_METRICS[sizeMetric].label, format: (v: number) => formatMetric(sizeMetric, v) } : null),
+    [centrality, sizeMetric],
+  );
+
+  // A module picked in the Modules panel takes over the highlight from a found path
+  const highlight = useMemo<GraphHighlight | null>(() => {
+    const module = selectedModule && modules?.modules.find((m) => m.name === selectedModule);
+    if (!module) return pathHighlight;
+    const members = new Set(module.members);
+    const inner = graphEdges.filter((e) => members.has(graphNodes[e.source].id) && members.has(graphNodes[e.target].id));
+    return { nodes: members, edges: new Set(inner.map((e) => pathEdgeKey(graphNodes[e.source].id, graphNodes[e.target].id))) };
+  }, [selectedModule, modules, pathHighlight, graphNodes, graphEdges]);
 
   const toggleNode = (key: string) => {
     setActiveNodes((prev) => {
@@ -153,8 +209,39 @@ function DependencyGraphInner() {
         <div className="flex items-center gap-3">
           <h2 className="text-lg font-semibold text-text-primary">Dependency Graph</h2>
           <span className="text-xs text-text-muted">{graphNodes.length} objects</span>
+          <div className="flex items-center gap-1 ml-2">
+            {(['graph', 'rankings', 'cycles'] as const).map((v) => (
+              <button
+                key={v}
+                onClick={() => setView(v)}
+                className={`px-2 py-1 rounded text-[10px] font-medium transition-colors ${
+                  view === v ? 'bg-accent/20 text-accent' : 'text-text-muted hover:text-text-secondary'
+                }`}
+              >
+                {v === 'graph' ? 'Graph' : v === 'rankings' ? 'Rankings' : 'Cycles'}
+              </button>
+            ))}
+          </div>
         </div>
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowPathFinder(!showPathFinder)}
+            className={`px-3 py-1.5 rounded text-xs border transition-colors ${
+              showPathFinder ? 'text-accent border-accent/50' : 'text-text-secondary hover:text-accent border-border hover:border-accent/50'
+            }`}
+          >
+            Find path
+          </button>
+          <button
+            onClick={() => { setShowModules(!showModules); setSelectedModule(null); }}
+            className={`px-3 py-1.5 rounded text-xs border transition-colors ${
+              showModules ? 'text-accent border-accent/50' : 'text-text-secondary hover:text-accent border-border hover:border-accent/50'
+            }`}
+            title="Detect modules of closely related objects"
+          >
+            Modules
+          </button>
+          <LoadOrderMenu />
           {rels.implicitRelationships.length > 0 && (
             <div className="flex items-center gap-1.5 bg-severity-warning/10 border border-severity-warning/30 rounded-full px-3 py-1 text-xs text-severity-warning">
               {rels.implicitRelationships.length} missing FK{rels.implicitRelationships.length > 1 ? 's' : ''}
@@ -163,17 +250,60 @@ function DependencyGraphInner() {
         </div>
       </div>
 
-      <CycleWarning cycles={cycles} />
+      {view !== 'cycles' && <CycleWarning cycles={cycles} onExplore={() => setView('cycles')} />}
 
-      <div className="flex items-center gap-6 shrink-0">
-        <FilterBar label="Objects" items={nodeTypes} active={activeNodes} onToggle={toggleNode} />
-        <div className="w-px h-4 bg-border" />
-        <FilterBar label="Relations" items={edgeTypes} active={activeEdges} onToggle={toggleEdge} />
-      </div>
+      {showPathFinder && (
+        <div className="shrink-0">
+          <PathFinder />
+        </div>
+      )}
 
-      <div className="flex-1 min-h-0 bg-bg-secondary border border-border rounded-lg relative">
-        <ForceGraph nodes={graphNodes} edges={graphEdges} />
-      </div>
+      {view === 'rankings' ? (
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          <ImportanceTable dependencies={deps} />
+        </div>
+      ) : view === 'cycles' ? (
+        <div className="flex-1 min-h-0">
+          <CycleExplorer cycles={cycles} />
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center gap-6 shrink-0">
+            <FilterBar label="Objects" items={nodeTypes} active={activeNodes} onToggle={toggleNode} />
+            <div className="w-px h-4 bg-border" />
+            <FilterBar label="Relations" items={edgeTypes} active={activeEdges} onToggle={toggleEdge} />
+            <label className="ml-auto flex items-center gap-1.5 text-xs text-text-secondary" title={CENTRALITY_METRICS[sizeMetric].description}>
+              Size by
+              <select
+                value={sizeMetric}
+                onChange={(e) => setSizeMetric(e.target.value as CentralityMetric)}
+                className="bg-bg-card border border-border rounded px-1.5 py-0.5 text-xs text-text-primary focus:outline-none focus:border-accent [&>option]:bg-bg-card [&>option]:text-text-primary"
+              >
+                {(Object.keys(CENTRALITY_METRICS) as CentralityMetric[]).map((m) => (
+                  <option key={m} value={m}>{m === 'importance' ? 'Importance' : CENTRALITY_METRICS[m].label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex-1 min-h-0 flex gap-3">
+            <div className="flex-1 min-w-0 bg-bg-secondary border border-border rounded-lg relative">
+              <ForceGraph nodes={graphNodes} edges={graphEdges} highlight={highlight} hulls={modules ? 'module' : 'database'} sizeBy={sizeBy} />
+            </div>
+            {modules && (
+              <div className="w-72 shrink-0">
+                <ModulesPanel
+                  detection={modules}
+                  granularity={granularity}
+                  onGranularityChange={(g) => { setGranularity(g); setSelectedModule(null); }}
+                  selected={selectedModule}
+                  onSelect={setSelectedModule}
+                />
+              </div>
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -1,6 +1,10 @@
 import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { OBJECT_TYPE_COLORS } from '../../api/types';
 import { getDatabaseColor } from '../dashboard/DashboardPage';
+import { CHANGE_CONFIG } from '../shared/ChangeBadge';
+import type { ChangeKind } from '../../hooks/useSchemaDiff';
+import { pathEdgeKey, PATH_HIGHLIGHT_COLOR } from '../../hooks/usePathFinder';
+import type { ForceLayoutRequest, ForceLayoutResponse } from '../../workers/forceLayout.worker';
 
 export interface GraphNode {
   id: string;
@@ -11,6 +15,9 @@ export interface GraphNode {
   impact: number;
   score: number;
   database?: string;
+  change?: ChangeKind; // drift against the pinned baseline
+  module?: string;     // detected module, when hulls group by module
+  size?: number;       // drives the node radius instead of score, see sizeBy
 }
 
 export interface GraphEdge {
@@ -20,19 +27,17 @@ export interface GraphEdge {
   crossDatabase?: boolean;
 }
 
+export interface GraphHighlight {
+  nodes: Set<string>;   // node ids
+  edges: Set<string>;   // pathEdgeKey of the two node ids
+}
+
 interface ForceGraphProps {
   nodes: GraphNode[];
   edges: GraphEdge[];
-}
-
-interface SimNode extends GraphNode {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  radius: number;
-  fx?: number;
-  fy?: number;
+  highlight?: GraphHighlight | null; // everything else is dimmed
+  hulls?: 'database' | 'module';     // what the convex hulls group by (default database)
+  sizeBy?: { label: string; format: (value: number) => string } | null; // metric carried in GraphNode.size
 }
 
 type NodeShape = 'circle' | 'diamond' | 'rect';
@@ -116,6 +121,13 @@ function padHull(hull: { x: number; y: number }[], cx: number, cy: number, paddi
 const MIN_ZOOM = 0.1;
 const MAX_ZOOM = 5;
 const ZOOM_STEP = 1.2;
+const AUTO_FIT_AT = 150;
+// Hulls are recomputed every few ticks rather than on every frame
+const HULL_INTERVAL = 10;
+// Labels and arrowheads are skipped on large graphs until the user zooms in far enough to read them
+const LABEL_NODE_LIMIT = 300;
+const LABEL_MIN_ZOOM = 0.7;
+const ARROW_EDGE_LIMIT = 3000;
 
 // Module-level cache for settled node positions so revisiting the page is instant
 interface CachedLayout {
@@ -125,19 +137,118 @@ interface CachedLayout {
 let layoutCache: CachedLayout | null = null;
 let layoutCacheKey = '';
 
-export function ForceGraph({ nodes, edges }: ForceGraphProps) {
+interface Hull {
+  name: string;
+  color: string;
+  cx: number;
+  cy: number;
+  points: { x: number; y: number }[]; // padded hull, or the raw points for one or two nodes
+}
+
+interface EdgeStyle {
+  stroke: string;
+  dash: number[];
+  width: number;
+  alpha: number;
+  indices: number[];
+}
+
+function computeHulls(positions: Float32Array, groups: Int32Array, names: string[]): Hull[] {
+  const members = names.map(() => [] as { x: number; y: number }[]);
+  for (let i = 0; i < groups.length; i++) {
+    if (groups[i] >= 0) members[groups[i]].push({ x: positions[i * 2], y: positions[i * 2 + 1] });
+  }
+  return names.flatMap((name, g) => {
+    const points = members[g];
+    if (points.length === 0) return [];
+    let cx = 0, cy = 0;
+    points.forEach((p) => { cx += p.x; cy += p.y; });
+    cx /= points.length;
+    cy /= points.length;
+    return [{
+      name,
+      color: getDatabaseColor(name),
+      cx,
+      cy,
+      points: points.length < 3 ? points : padHull(convexHull(points), cx, cy, 30),
+    }];
+  });
+}
+
+function traceHull(ctx: CanvasRenderingContext2D, hull: Hull) {
+  const pad = 40;
+  const pts = hull.points;
+  ctx.beginPath();
+  if (pts.length === 1) {
+    ctx.arc(pts[0].x, pts[0].y, pad, 0, Math.PI * 2);
+  } else if (pts.length === 2) {
+    // Capsule around the two nodes
+    const a = Math.atan2(pts[1].y - pts[0].y, pts[1].x - pts[0].x);
+    ctx.arc(pts[1].x, pts[1].y, pad, a + Math.PI / 2, a - Math.PI / 2, true);
+    ctx.arc(pts[0].x, pts[0].y, pad, a - Math.PI / 2, a + Math.PI / 2, true);
+  } else {
+    pts.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  }
+  ctx.closePath();
+}
+
+function traceNode(ctx: CanvasRenderingContext2D, shape: NodeShape, x: number, y: number, r: number) {
+  ctx.beginPath();
+  if (shape === 'diamond') {
+    ctx.moveTo(x, y - r);
+    ctx.lineTo(x + r, y);
+    ctx.lineTo(x, y + r);
+    ctx.lineTo(x - r, y);
+    ctx.closePath();
+  } else if (shape === 'rect') {
+    ctx.roundRect(x - r, y - r, r * 2, r * 2, 4);
+  } else {
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+  }
+}
+
+/** Edge from the rim of the source to the rim of the target, with an optional arrowhead at the target. */
+function traceEdge(ctx: CanvasRenderingContext2D, pos: Float32Array, radii: Float32Array, s: number, t: number, arrowSize: number) {
+  const sx = pos[s * 2], sy = pos[s * 2 + 1];
+  const tx = pos[t * 2], ty = pos[t * 2 + 1];
+  const dx = tx - sx;
+  const dy = ty - sy;
+  const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+  const ux = dx / dist, uy = dy / dist;
+  const ex = tx - ux * radii[t], ey = ty - uy * radii[t];
+  ctx.moveTo(sx + ux * radii[s], sy + uy * radii[s]);
+  ctx.lineTo(ex, ey);
+  if (arrowSize > 0) {
+    ctx.moveTo(ex, ey);
+    ctx.lineTo(ex - ux * arrowSize - uy * arrowSize / 2, ey - uy * arrowSize + ux * arrowSize / 2);
+    ctx.moveTo(ex, ey);
+    ctx.lineTo(ex - ux * arrowSize + uy * arrowSize / 2, ey - uy * arrowSize - ux * arrowSize / 2);
+  }
+}
+
+/**
+ * Force-directed dependency graph. The layout runs in a Web Worker (Barnes-Hut repulsion) and the
+ * graph is painted on a canvas, so it stays interactive with tens of thousands of objects.
+ */
+export function ForceGraph({ nodes, edges, highlight, hulls = 'database', sizeBy }: ForceGraphProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  const svgRef = useRef<SVGSVGElement>(null);
-  const simNodesRef = useRef<SimNode[]>([]);
-  const animRef = useRef<number>(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const positionsRef = useRef<Float32Array>(new Float32Array(0));
+  const hullsRef = useRef<Hull[]>([]);
+  const hoveredRef = useRef<number | null>(null);
+  const dirtyRef = useRef(true);
+  const drawRef = useRef<() => void>(() => {});
   const dragRef = useRef<{
     nodeIndex: number | null;
     offset: { x: number; y: number };
+    at: { x: number; y: number };
     isPan: boolean;
     panStart: { x: number; y: number };
   }>({
     nodeIndex: null,
     offset: { x: 0, y: 0 },
+    at: { x: 0, y: 0 },
     isPan: false,
     panStart: { x: 0, y: 0 },
   });
@@ -151,8 +262,6 @@ export function ForceGraph({ nodes, edges }: ForceGraphProps) {
     node: GraphNode | null;
   }>({ visible: false, x: 0, y: 0, node: null });
 
-  const [hoveredNode, setHoveredNode] = useState<number | null>(null);
-
   // Compute which distinct types are present for the legend
   const presentTypes = useMemo(() => {
     const types = new Set(nodes.map((n) => n.type));
@@ -165,42 +274,122 @@ export function ForceGraph({ nodes, edges }: ForceGraphProps) {
     return dbs.size > 1 ? [...dbs] : [];
   }, [nodes]);
   const hasDatabases = databases.length > 0;
+
+  // Hulls group nodes by database, or by detected module; the layout clusters the same groups
+  const groupNames = useMemo(
+    () => (hulls === 'module' ? [...new Set(nodes.map((n) => n.module).filter(Boolean) as string[])] : databases),
+    [nodes, hulls, databases],
+  );
   const hasCrossDbEdges = useMemo(() => edges.some((e) => e.crossDatabase), [edges]);
 
+  // Per-node drawing attributes, computed once per node set
+  const nodeStyles = useMemo(() => {
+    const maxScore = nodes.reduce((m, n) => Math.max(m, n.score), 1);
+    const sizeOf = (n: GraphNode) => n.size ?? n.score;
+    const maxSize = nodes.reduce((m, n) => Math.max(m, sizeOf(n)), 0) || 1;
+    const radii = new Float32Array(nodes.length);
+    nodes.forEach((n, i) => { radii[i] = 6 + (sizeOf(n) / maxSize) * 20; });
+    return {
+      radii,
+      fills: nodes.map((n) => getNodeFill(n, maxScore)),
+      shapes: nodes.map((n) => getNodeShape(n.type)),
+      fontSizes: Array.from(radii, (r) => Math.max(9, Math.min(13, 8 + r / 4))),
+    };
+  }, [nodes]);
+
+  // Only edges between known nodes are simulated and drawn
+  const validEdges = useMemo(
+    () => edges.map((e, i) => i).filter((i) => edges[i].source < nodes.length && edges[i].target < nodes.length),
+    [nodes, edges],
+  );
+
+  // Edges grouped by stroke style so each group is drawn as one path
+  const edgeStyles = useMemo(() => {
+    const byKey = new Map<string, EdgeStyle>();
+    validEdges.forEach((i) => {
+      const e = edges[i];
+      const stroke = getEdgeStroke(e.type, e.crossDatabase);
+      const dash = getEdgeDash(e.type, e.crossDatabase);
+      const key = `${stroke}|${dash}|${!!e.crossDatabase}`;
+      let style = byKey.get(key);
+      if (!style) {
+        style = {
+          stroke,
+          dash: dash ? dash.split(',').map(Number) : [],
+          width: getEdgeWidth(e.type, e.crossDatabase),
+          alpha: e.crossDatabase ? 0.7 : 0.4,
+          indices: [],
+        };
+        byKey.set(key, style);
+      }
+      style.indices.push(i);
+    });
+    return [...byKey.values()];
+  }, [edges, validEdges]);
+
+  // Edges touching each node, for the hover emphasis
+  const incidentEdges = useMemo(() => {
+    const incident: number[][] = nodes.map(() => []);
+    validEdges.forEach((i) => {
+      incident[edges[i].source].push(i);
+      incident[edges[i].target].push(i);
+    });
+    return incident;
+  }, [nodes, edges, validEdges]);
+
+  const highlighted = useMemo(() => {
+    if (!highlight) return null;
+    const nodeIdx = new Set<number>();
+    nodes.forEach((n, i) => { if (highlight.nodes.has(n.id)) nodeIdx.add(i); });
+    const edgeIdx = validEdges.filter((i) => highlight.edges.has(pathEdgeKey(nodes[edges[i].source].id, nodes[edges[i].target].id)));
+    return { nodes: nodeIdx, edges: edgeIdx };
+  }, [highlight, nodes, edges, validEdges]);
+
   // Convert screen-relative coords to world coords (accounting for zoom/pan)
   const screenToWorld = useCallback((sx: number, sy: number) => {
     const v = viewRef.current;
     return { x: (sx - v.panX) / v.scale, y: (sy - v.panY) / v.scale };
   }, []);
 
-  // Apply the current viewport transform to the SVG <g> wrapper
-  const applyViewTransform = useCallback(() => {
-    const svg = svgRef.current;
-    if (!svg) return;
-    const vp = svg.querySelector<SVGGElement>('.fg-viewport');
-    if (!vp) return;
-    const v = viewRef.current;
-    vp.setAttribute('transform', `translate(${v.panX},${v.panY}) scale(${v.scale})`);
+  const requestDraw = useCallback(() => {
+    dirtyRef.current = true;
   }, []);
 
+  const nodeAt = useCallback((wx: number, wy: number): number | null => {
+    const pos = positionsRef.current;
+    const { radii } = nodeStyles;
+    const count = Math.min(radii.length, pos.length / 2);
+    for (let i = 0; i < count; i++) {
+      const r = radii[i] + 5;
+      const dx = wx - pos[i * 2];
+      const dy = wy - pos[i * 2 + 1];
+      if (dx * dx + dy * dy < r * r) return i;
+    }
+    return null;
+  }, [nodeStyles]);
+
   // Fit all nodes into view
   const fitToView = useCallback(() => {
     const container = containerRef.current;
-    const simNodes = simNodesRef.current;
-    if (!container || simNodes.length === 0) return;
+    const pos = positionsRef.current;
+    const { radii } = nodeStyles;
+    if (!container || pos.length === 0) return;
     const w = container.clientWidth;
     const h = container.clientHeight;
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-    simNodes.forEach((n) => {
-      minX = Math.min(minX, n.x - n.radius);
-      minY = Math.min(minY, n.y - n.radius);
-      maxX = Math.max(maxX, n.x + n.radius);
-      maxY = Math.max(maxY, n.y + n.radius);
-    });
+    for (let i = 0; i < pos.length / 2; i++) {
+      const r = radii[i] ?? 0;
+      minX = Math.min(minX, pos[i * 2] - r);
+      minY = Math.min(minY, pos[i * 2 + 1] - r);
+      maxX = Math.max(maxX, pos[i * 2] + r);
+      maxY = Math.max(maxY, pos[i * 2 + 1] + r);
+    }
     const padding = 60;
     const bw = maxX - minX + padding * 2;
     const bh = maxY - minY + padding * 2;
-    const scale = Math.max(0.3, Math.min(w / bw, h / bh, 2));
+    // Very large graphs may need to zoom out further than the old SVG floor of 0.3
+    const minFit = nodes.length > 2000 ? MIN_ZOOM : 0.3;
+    const scale = Math.max(minFit, Math.min(w / bw, h / bh, 2));
     const cx = (minX + maxX) / 2;
     const cy = (minY + maxY) / 2;
     viewRef.current = {
@@ -208,42 +397,49 @@ export function ForceGraph({ nodes, edges }: ForceGraphProps) {
       panX: w / 2 - cx * scale,
       panY: h / 2 - cy * scale,
     };
-    applyViewTransform();
-  }, [applyViewTransform]);
+    requestDraw();
+  }, [nodeStyles, nodes.length, requestDraw]);
 
-  // Initialize simulation nodes whenever input changes
+  // Start a layout worker whenever the graph changes
   useEffect(() => {
     const container = containerRef.current;
     if (!container || nodes.length === 0) return;
 
     const width = container.clientWidth;
     const height = container.clientHeight;
-    const maxScore = Math.max(...nodes.map((n) => n.score), 1);
 
     // Scale simulation space with node count so larger datasets spread out
     const N = nodes.length;
     const scaleFactor = Math.max(1, Math.sqrt(N / 30));
-    const repulsion = 800 * scaleFactor;
-    const edgeRestLength = 120 * scaleFactor;
 
     // Check if we have cached positions for this exact node set
     const cacheKey = nodes.map((n) => n.id).sort().join('|');
     const hasCache = layoutCache !== null && layoutCacheKey === cacheKey;
 
-    const simNodes: SimNode[] = nodes.map((n, i) => {
+    const positions = new Float32Array(N * 2);
+    const r = Math.min(width, height) * 0.35 * scaleFactor;
+    nodes.forEach((n, i) => {
       const cached = hasCache ? layoutCache!.positions.get(n.id) : undefined;
       const angle = (2 * Math.PI * i) / N;
-      const r = Math.min(width, height) * 0.35 * scaleFactor;
-      return {
-        ...n,
-        x: cached?.x ?? (width / 2 + r * Math.cos(angle)),
-        y: cached?.y ?? (height / 2 + r * Math.sin(angle)),
-        vx: 0,
-        vy: 0,
-        radius: 6 + (n.score / maxScore) * 20,
-      };
+      positions[i * 2] = cached?.x ?? (width / 2 + r * Math.cos(angle));
+      positions[i * 2 + 1] = cached?.y ?? (height / 2 + r * Math.sin(angle));
+    });
+    positionsRef.current = positions;
+
+    const groupIndex = new Map(groupNames.map((g, i) => [g, i]));
+    const groups = new Int32Array(N);
+    nodes.forEach((n, i) => {
+      const group = hulls === 'module' ? n.module : n.database;
+      groups[i] = group ? groupIndex.get(group) ?? -1 : -1;
+    });
+    const hasGroups = groupNames.length > 0;
+    hullsRef.current = hasGroups ? computeHulls(positions, groups, groupNames) : [];
+
+    const edgeList = new Uint32Array(validEdges.length * 2);
+    validEdges.forEach((e, i) => {
+      edgeList[i * 2] = edges[e].source;
+      edgeList[i * 2 + 1] = edges[e].target;
     });
-    simNodesRef.current = simNodes;
 
     // Restore cached viewport or reset
     if (hasCache) {
@@ -251,258 +447,233 @@ export function ForceGraph({ nodes, edges }: ForceGraphProps) {
     } else {
       viewRef.current = { scale: 1, panX: 0, panY: 0 };
     }
-
-    let tickCount = hasCache ? 999 : 0; // Skip auto-fit if restoring from cache
-    const autoFitAt = 150;
-
-    // Force simulation tick
-    const tick = () => {
-      const nodeCount = simNodes.length;
-      const w = container.clientWidth;
-      const h = container.clientHeight;
-      const dragNodeIdx = dragRef.current.nodeIndex;
-
-      // Repulsion (all pairs)
-      for (let i = 0; i < nodeCount; i++) {
-        for (let j = i + 1; j < nodeCount; j++) {
-          const dx = simNodes[i].x - simNodes[j].x;
-          const dy = simNodes[i].y - simNodes[j].y;
-          const dist = Math.sqrt(dx * dx + dy * dy) || 1;
-          const force = repulsion / (dist * dist);
-          const fx = (dx / dist) * force;
-          const fy = (dy / dist) * force;
-          simNodes[i].vx += fx;
-          simNodes[i].vy += fy;
-          simNodes[j].vx -= fx;
-          simNodes[j].vy -= fy;
-        }
+    requestDraw();
+
+    const worker = new Worker(new URL('../../workers/forceLayout.worker.ts', import.meta.url), { type: 'module' });
+    let fitted = hasCache; // Skip auto-fit if restoring from cache
+    worker.onmessage = (e: MessageEvent<ForceLayoutResponse>) => {
+      const { positions: next, tick, settled } = e.data;
+      // The worker lags the pointer by a message; keep the dragged node under the cursor
+      const drag = dragRef.current;
+      if (drag.nodeIndex !== null) {
+        next[drag.nodeIndex * 2] = drag.at.x;
+        next[drag.nodeIndex * 2 + 1] = drag.at.y;
       }
-
-      // Attraction (edges)
-      edges.forEach((e) => {
-        if (e.source >= nodeCount || e.target >= nodeCount) return;
-        const s = simNodes[e.source];
-        const t = simNodes[e.target];
-        const dx = t.x - s.x;
-        const dy = t.y - s.y;
-        const dist = Math.sqrt(dx * dx + dy * dy) || 1;
-        const force = (dist - edgeRestLength) * 0.005;
-        const fx = (dx / dist) * force;
-        const fy = (dy / dist) * force;
-        s.vx += fx;
-        s.vy += fy;
-        t.vx -= fx;
-        t.vy -= fy;
-      });
-
-      // Database clustering force — same-db nodes attract toward group centroid
-      if (hasDatabases) {
-        const dbGroups = new Map<string, SimNode[]>();
-        simNodes.forEach((n) => {
-          if (!n.database) return;
-          let group = dbGroups.get(n.database);
-          if (!group) { group = []; dbGroups.set(n.database, group); }
-          group.push(n);
-        });
-        dbGroups.forEach((group) => {
-          if (group.length < 2) return;
-          let cx = 0, cy = 0;
-          group.forEach((n) => { cx += n.x; cy += n.y; });
-          cx /= group.length;
-          cy /= group.length;
-          group.forEach((n) => {
-            n.vx += (cx - n.x) * 0.003;
-            n.vy += (cy - n.y) * 0.003;
-          });
-        });
+      positionsRef.current = next;
+      if (hasGroups && (tick % HULL_INTERVAL === 0 || settled || drag.nodeIndex !== null)) {
+        hullsRef.current = computeHulls(next, groups, groupNames);
       }
-
-      // Center gravity — pull toward container center
-      const gravityStrength = 0.001;
-      const centerX = w / 2;
-      const centerY = h / 2;
-      simNodes.forEach((n) => {
-        n.vx += (centerX - n.x) * gravityStrength;
-        n.vy += (centerY - n.y) * gravityStrength;
-      });
-
-      // Apply velocity — no hard boundary clamping, let the graph grow freely
-      simNodes.forEach((n, i) => {
-        if (i === dragNodeIdx) {
-          n.x = n.fx!;
-          n.y = n.fy!;
-          n.vx = 0;
-          n.vy = 0;
-          return;
-        }
-        n.vx *= 0.85;
-        n.vy *= 0.85;
-        n.x += n.vx;
-        n.y += n.vy;
-      });
-
       // Auto-fit once after initial settling
-      tickCount++;
-      if (tickCount === autoFitAt) {
+      if (!fitted && (tick >= AUTO_FIT_AT || settled)) {
+        fitted = true;
         fitToView();
       }
+      requestDraw();
+    };
+    const request: ForceLayoutRequest = {
+      type: 'init',
+      options: {
+        positions: positions.slice(),
+        edges: edgeList,
+        groups,
+        repulsion: 800 * scaleFactor,
+        edgeRestLength: 120 * scaleFactor,
+        centerX: width / 2,
+        centerY: height / 2,
+      },
+    };
+    worker.postMessage(request);
+    workerRef.current = worker;
 
-      // Update SVG elements directly for performance
-      const svg = svgRef.current;
-      if (!svg) return;
-
-      // Update database hulls
-      if (hasDatabases) {
-        const dbGroups = new Map<string, SimNode[]>();
-        simNodes.forEach((n) => {
-          if (!n.database) return;
-          let group = dbGroups.get(n.database);
-          if (!group) { group = []; dbGroups.set(n.database, group); }
-          group.push(n);
-        });
-        dbGroups.forEach((group, db) => {
-          const hullPath = svg.querySelector<SVGPathElement>(`[data-hull="${db}"]`);
-          const hullLabel = svg.querySelector<SVGTextElement>(`[data-hull-label="${db}"]`);
-          if (!hullPath) return;
-          // Compute centroid
-          let cx = 0, cy = 0;
-          group.forEach((n) => { cx += n.x; cy += n.y; });
-          cx /= group.length;
-          cy /= group.length;
-          // Compute convex hull and pad it
-          const points = group.map((n) => ({ x: n.x, y: n.y }));
-          if (points.length < 3) {
-            // For 1-2 nodes, draw a circle/ellipse-ish path around them
-            const pad = 40;
-            const d = points.length === 1
-              ? `M ${cx - pad} ${cy} A ${pad} ${pad} 0 1 1 ${cx + pad} ${cy} A ${pad} ${pad} 0 1 1 ${cx - pad} ${cy} Z`
-              : (() => {
-                const dx = points[1].x - points[0].x;
-                const dy = points[1].y - points[0].y;
-                const len = Math.sqrt(dx * dx + dy * dy) || 1;
-                const nx = -dy / len * pad, ny = dx / len * pad;
-                return `M ${points[0].x + nx} ${points[0].y + ny} L ${points[1].x + nx} ${points[1].y + ny} A ${pad} ${pad} 0 0 1 ${points[1].x - nx} ${points[1].y - ny} L ${points[0].x - nx} ${points[0].y - ny} A ${pad} ${pad} 0 0 1 ${points[0].x + nx} ${points[0].y + ny} Z`;
-              })();
-            hullPath.setAttribute('d', d);
-          } else {
-            const hull = padHull(convexHull(points), cx, cy, 30);
-            const d = hull.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ') + ' Z';
-            hullPath.setAttribute('d', d);
-          }
-          if (hullLabel) {
-            hullLabel.setAttribute('x', String(cx));
-            hullLabel.setAttribute('y', String(cy));
-          }
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      // Cache settled positions and viewport for instant restore on revisit
+      const latest = positionsRef.current;
+      const cached = new Map<string, { x: number; y: number }>();
+      nodes.forEach((n, i) => cached.set(n.id, { x: latest[i * 2], y: latest[i * 2 + 1] }));
+      layoutCache = { positions: cached, view: { ...viewRef.current } };
+      layoutCacheKey = cacheKey;
+    };
+  }, [nodes, edges, validEdges, groupNames, hulls, fitToView, requestDraw]);
+
+  // Keep the canvas backing store in step with its size and the device pixel ratio
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    if (!container || !canvas) return;
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      canvas.width = Math.max(1, Math.round(container.clientWidth * dpr));
+      canvas.height = Math.max(1, Math.round(container.clientHeight * dpr));
+      const request: ForceLayoutRequest = { type: 'center', x: container.clientWidth / 2, y: container.clientHeight / 2 };
+      workerRef.current?.postMessage(request);
+      requestDraw();
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [requestDraw]);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const pos = positionsRef.current;
+    const count = Math.min(nodes.length, pos.length / 2);
+    const { radii, fills, shapes, fontSizes } = nodeStyles;
+    const v = viewRef.current;
+    const dpr = window.devicePixelRatio || 1;
+    const hovered = hoveredRef.current;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(dpr * v.scale, 0, 0, dpr * v.scale, dpr * v.panX, dpr * v.panY);
+
+    // Visible world rectangle, for culling nodes and labels
+    const pad = 40;
+    const left = -v.panX / v.scale - pad;
+    const top = -v.panY / v.scale - pad;
+    const right = (canvas.width / dpr - v.panX) / v.scale + pad;
+    const bottom = (canvas.height / dpr - v.panY) / v.scale + pad;
+    const visible = (i: number) => {
+      const x = pos[i * 2], y = pos[i * 2 + 1];
+      return x > left - radii[i] && x < right + radii[i] && y > top - radii[i] && y < bottom + radii[i];
+    };
+
+    // Database hulls (behind edges)
+    hullsRef.current.forEach((hull) => {
+      traceHull(ctx, hull);
+      ctx.globalAlpha = 0.1;
+      ctx.fillStyle = hull.color;
+      ctx.fill();
+      ctx.globalAlpha = 0.3;
+      ctx.strokeStyle = hull.color;
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([]);
+      ctx.stroke();
+      ctx.globalAlpha = 0.6;
+      ctx.font = `bold 12px ${getComputedStyle(canvas).fontFamily}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(hull.name, hull.cx, hull.cy);
+    });
+
+    // Edges, one path per style
+    const arrows = validEdges.length <= ARROW_EDGE_LIMIT;
+    const strokeEdges = (indices: number[], style: { stroke: string; dash: number[]; width: number; alpha: number }) => {
+      ctx.globalAlpha = style.alpha;
+      ctx.strokeStyle = style.stroke;
+      ctx.lineWidth = style.width;
+      ctx.setLineDash(style.dash);
+      ctx.beginPath();
+      indices.forEach((i) => traceEdge(ctx, pos, radii, edges[i].source, edges[i].target, arrows ? style.width * 6 : 0));
+      ctx.stroke();
+    };
+    if (pos.length >= nodes.length * 2) {
+      edgeStyles.forEach((style) => strokeEdges(style.indices, highlighted ? { ...style, alpha: 0.08 } : style));
+      if (hovered !== null) {
+        incidentEdges[hovered].forEach((i) => {
+          const e = edges[i];
+          strokeEdges([i], {
+            stroke: getEdgeStroke(e.type, e.crossDatabase),
+            dash: getEdgeDash(e.type, e.crossDatabase)?.split(',').map(Number) ?? [],
+            width: getEdgeWidth(e.type, e.crossDatabase, true),
+            alpha: 1,
+          });
         });
       }
+      if (highlighted && highlighted.edges.length > 0) {
+        strokeEdges(highlighted.edges, { stroke: PATH_HIGHLIGHT_COLOR, dash: [], width: 3, alpha: 1 });
+      }
+    }
 
-      // Update edges
-      const edgeLines = svg.querySelectorAll<SVGLineElement>('.fg-edge');
-      edgeLines.forEach((line, idx) => {
-        const e = edges[idx];
-        if (!e || e.source >= N || e.target >= N) return;
-        const s = simNodes[e.source];
-        const t = simNodes[e.target];
-        const dx = t.x - s.x;
-        const dy = t.y - s.y;
-        const dist = Math.sqrt(dx * dx + dy * dy) || 1;
-        const offsetS = s.radius / dist;
-        const offsetT = t.radius / dist;
-        line.setAttribute('x1', String(s.x + dx * offsetS));
-        line.setAttribute('y1', String(s.y + dy * offsetS));
-        line.setAttribute('x2', String(t.x - dx * offsetT));
-        line.setAttribute('y2', String(t.y - dy * offsetT));
-      });
-
-      // Update nodes
-      const nodeEls = svg.querySelectorAll<SVGElement>('.fg-node');
-      nodeEls.forEach((el, idx) => {
-        const n = simNodes[idx];
-        if (!n) return;
-        const shape = getNodeShape(n.type);
-        if (shape === 'diamond') {
-          const r = n.radius;
-          (el as SVGPolygonElement).setAttribute(
-            'points',
-            `${n.x},${n.y - r} ${n.x + r},${n.y} ${n.x},${n.y + r} ${n.x - r},${n.y}`,
-          );
-        } else if (shape === 'rect') {
-          const r = n.radius;
-          el.setAttribute('x', String(n.x - r));
-          el.setAttribute('y', String(n.y - r));
-          el.setAttribute('width', String(r * 2));
-          el.setAttribute('height', String(r * 2));
-        } else {
-          el.setAttribute('cx', String(n.x));
-          el.setAttribute('cy', String(n.y));
-        }
-      });
-
-      // Update labels
-      const labelEls = svg.querySelectorAll<SVGTextElement>('.fg-label');
-      labelEls.forEach((el, idx) => {
-        const n = simNodes[idx];
-        if (!n) return;
-        el.setAttribute('x', String(n.x));
-        el.setAttribute('y', String(n.y + n.radius + 14));
-      });
-
-      // Update viewport transform
-      applyViewTransform();
-
-      animRef.current = requestAnimationFrame(tick);
-    };
+    // Nodes; outlines are dropped once they would be thinner than a pixel
+    ctx.setLineDash([]);
+    const outlines = v.scale >= 0.25;
+    for (let i = 0; i < count; i++) {
+      if (!visible(i)) continue;
+      const onPath = highlighted?.nodes.has(i);
+      const change = nodes[i].change;
+      traceNode(ctx, shapes[i], pos[i * 2], pos[i * 2 + 1], radii[i]);
+      ctx.globalAlpha = highlighted && !onPath ? 0.2 : 1;
+      ctx.fillStyle = fills[i];
+      ctx.fill();
+      if (outlines || onPath || change || i === hovered) {
+        ctx.strokeStyle = onPath ? PATH_HIGHLIGHT_COLOR : change ? CHANGE_CONFIG[change].color : '#e0e0e0';
+        ctx.lineWidth = i === hovered || onPath ? 3 : change ? 2.5 : 1;
+        ctx.stroke();
+      }
+    }
 
-    animRef.current = requestAnimationFrame(tick);
+    // Labels
+    const allLabels = nodes.length <= LABEL_NODE_LIMIT || v.scale >= LABEL_MIN_ZOOM;
+    const fontFamily = getComputedStyle(canvas).fontFamily;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillStyle = '#e0e0e0';
+    for (let i = 0; i < count; i++) {
+      const onPath = highlighted?.nodes.has(i);
+      if (!(allLabels || onPath || i === hovered) || !visible(i)) continue;
+      ctx.globalAlpha = highlighted && !onPath ? 0.2 : 1;
+      ctx.font = `${fontSizes[i]}px ${fontFamily}`;
+      ctx.fillText(nodes[i].label, pos[i * 2], pos[i * 2 + 1] + radii[i] + 14);
+    }
+    ctx.globalAlpha = 1;
+  }, [nodes, edges, validEdges, nodeStyles, edgeStyles, incidentEdges, highlighted]);
 
-    return () => {
-      cancelAnimationFrame(animRef.current);
-      // Cache settled positions and viewport for instant restore on revisit
-      const positions = new Map<string, { x: number; y: number }>();
-      simNodes.forEach((n) => positions.set(n.id, { x: n.x, y: n.y }));
-      layoutCache = { positions, view: { ...viewRef.current } };
-      layoutCacheKey = cacheKey;
+  // Paint on animation frames, only when something changed
+  useEffect(() => {
+    drawRef.current = draw;
+    requestDraw();
+  }, [draw, requestDraw]);
+
+  useEffect(() => {
+    let frame = 0;
+    const loop = () => {
+      if (dirtyRef.current) {
+        dirtyRef.current = false;
+        drawRef.current();
+      }
+      frame = requestAnimationFrame(loop);
     };
-  }, [nodes, edges, hasDatabases, applyViewTransform, fitToView]);
+    frame = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frame);
+  }, []);
 
   // Mouse handlers for drag and pan
   const handleMouseDown = useCallback(
-    (e: React.MouseEvent<SVGSVGElement>) => {
-      const svg = svgRef.current;
-      if (!svg) return;
-      const rect = svg.getBoundingClientRect();
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const rect = canvas.getBoundingClientRect();
       const sx = e.clientX - rect.left;
       const sy = e.clientY - rect.top;
       const { x: mx, y: my } = screenToWorld(sx, sy);
 
-      const simNodes = simNodesRef.current;
-      let hitNode = false;
-      for (let i = 0; i < simNodes.length; i++) {
-        const n = simNodes[i];
-        if (Math.hypot(mx - n.x, my - n.y) < n.radius + 5) {
-          dragRef.current = { nodeIndex: i, offset: { x: mx - n.x, y: my - n.y }, isPan: false, panStart: { x: 0, y: 0 } };
-          simNodes[i].fx = n.x;
-          simNodes[i].fy = n.y;
-          svg.style.cursor = 'grabbing';
-          hitNode = true;
-          break;
-        }
-      }
-      // Pan on background drag
-      if (!hitNode) {
-        dragRef.current = { nodeIndex: null, offset: { x: 0, y: 0 }, isPan: true, panStart: { x: sx, y: sy } };
-
-        svg.style.cursor = 'move';
+      const hit = nodeAt(mx, my);
+      if (hit !== null) {
+        const pos = positionsRef.current;
+        const at = { x: pos[hit * 2], y: pos[hit * 2 + 1] };
+        dragRef.current = { nodeIndex: hit, offset: { x: mx - at.x, y: my - at.y }, at, isPan: false, panStart: { x: 0, y: 0 } };
+        const request: ForceLayoutRequest = { type: 'drag', index: hit, ...at };
+        workerRef.current?.postMessage(request);
+        canvas.style.cursor = 'grabbing';
+      } else {
+        // Pan on background drag
+        dragRef.current = { nodeIndex: null, offset: { x: 0, y: 0 }, at: { x: 0, y: 0 }, isPan: true, panStart: { x: sx, y: sy } };
+        canvas.style.cursor = 'move';
       }
     },
-    [screenToWorld],
+    [screenToWorld, nodeAt],
   );
 
   const handleMouseMove = useCallback(
-    (e: React.MouseEvent<SVGSVGElement>) => {
-      const svg = svgRef.current;
-      if (!svg) return;
-      const rect = svg.getBoundingClientRect();
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const rect = canvas.getBoundingClientRect();
       const sx = e.clientX - rect.left;
       const sy = e.clientY - rect.top;
 
@@ -514,69 +685,64 @@ export function ForceGraph({ nodes, edges }: ForceGraphProps) {
         v.panX += dx;
         v.panY += dy;
         dragRef.current.panStart = { x: sx, y: sy };
-        applyViewTransform();
+        requestDraw();
         return;
       }
 
       const { x: mx, y: my } = screenToWorld(sx, sy);
-      const simNodes = simNodesRef.current;
 
       if (dragRef.current.nodeIndex !== null) {
         const idx = dragRef.current.nodeIndex;
-        simNodes[idx].fx = mx - dragRef.current.offset.x;
-        simNodes[idx].fy = my - dragRef.current.offset.y;
+        const at = { x: mx - dragRef.current.offset.x, y: my - dragRef.current.offset.y };
+        dragRef.current.at = at;
+        positionsRef.current[idx * 2] = at.x;
+        positionsRef.current[idx * 2 + 1] = at.y;
+        const request: ForceLayoutRequest = { type: 'drag', index: idx, ...at };
+        workerRef.current?.postMessage(request);
+        requestDraw();
         return;
       }
 
       // Hover detection
-      let found = false;
-      for (let i = 0; i < simNodes.length; i++) {
-        const n = simNodes[i];
-        if (Math.hypot(mx - n.x, my - n.y) < n.radius + 5) {
-          setTooltip({ visible: true, x: e.clientX, y: e.clientY, node: n });
-          setHoveredNode(i);
-          svg.style.cursor = 'grab';
-          found = true;
-          break;
-        }
+      const hit = nodeAt(mx, my);
+      if (hit !== null) {
+        setTooltip({ visible: true, x: e.clientX, y: e.clientY, node: nodes[hit] });
+        canvas.style.cursor = 'grab';
+      } else {
+        if (tooltip.visible) setTooltip((t) => (t.visible ? { ...t, visible: false, node: null } : t));
+        canvas.style.cursor = 'default';
       }
-      if (!found) {
-        if (tooltip.visible) {
-          setTooltip((t) => (t.visible ? { ...t, visible: false, node: null } : t));
-          setHoveredNode(null);
-        }
-        svg.style.cursor = 'default';
+      if (hoveredRef.current !== hit) {
+        hoveredRef.current = hit;
+        requestDraw();
       }
     },
-    [tooltip.visible, screenToWorld, applyViewTransform],
+    [tooltip.visible, nodes, screenToWorld, nodeAt, requestDraw],
   );
 
   const handleMouseUp = useCallback(() => {
-    const simNodes = simNodesRef.current;
-    const idx = dragRef.current.nodeIndex;
-    if (idx !== null) {
-      simNodes[idx].x = simNodes[idx].fx!;
-      simNodes[idx].y = simNodes[idx].fy!;
-      delete simNodes[idx].fx;
-      delete simNodes[idx].fy;
+    if (dragRef.current.nodeIndex !== null) {
+      const request: ForceLayoutRequest = { type: 'release' };
+      workerRef.current?.postMessage(request);
     }
-    dragRef.current = { nodeIndex: null, offset: { x: 0, y: 0 }, isPan: false, panStart: { x: 0, y: 0 } };
-    if (svgRef.current) svgRef.current.style.cursor = 'default';
+    dragRef.current = { nodeIndex: null, offset: { x: 0, y: 0 }, at: { x: 0, y: 0 }, isPan: false, panStart: { x: 0, y: 0 } };
+    if (canvasRef.current) canvasRef.current.style.cursor = 'default';
   }, []);
 
   const handleMouseLeave = useCallback(() => {
     handleMouseUp();
     setTooltip((t) => (t.visible ? { ...t, visible: false, node: null } : t));
-    setHoveredNode(null);
-  }, [handleMouseUp]);
+    hoveredRef.current = null;
+    requestDraw();
+  }, [handleMouseUp, requestDraw]);
 
   // Wheel zoom (centered on mouse position)
   const handleWheel = useCallback(
-    (e: React.WheelEvent<SVGSVGElement>) => {
+    (e: React.WheelEvent<HTMLCanvasElement>) => {
       e.preventDefault();
-      const svg = svgRef.current;
-      if (!svg) return;
-      const rect = svg.getBoundingClientRect();
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const rect = canvas.getBoundingClientRect();
       const sx = e.clientX - rect.left;
       const sy = e.clientY - rect.top;
       const v = viewRef.current;
@@ -586,9 +752,9 @@ export function ForceGraph({ nodes, edges }: ForceGraphProps) {
       v.panX = sx - (sx - v.panX) * (newScale / v.scale);
       v.panY = sy - (sy - v.panY) * (newScale / v.scale);
       v.scale = newScale;
-      applyViewTransform();
+      requestDraw();
     },
-    [applyViewTransform],
+    [requestDraw],
   );
 
   // Zoom button handlers
@@ -602,8 +768,8 @@ export function ForceGraph({ nodes, edges }: ForceGraphProps) {
     v.panX = cx - (cx - v.panX) * (newScale / v.scale);
     v.panY = cy - (cy - v.panY) * (newScale / v.scale);
     v.scale = newScale;
-    applyViewTransform();
-  }, [applyViewTransform]);
+    requestDraw();
+  }, [requestDraw]);
 
   const handleZoomOut = useCallback(() => {
     const container = containerRef.current;
@@ -615,8 +781,8 @@ export function ForceGraph({ nodes, edges }: ForceGraphProps) {
     v.panX = cx - (cx - v.panX) * (newScale / v.scale);
     v.panY = cy - (cy - v.panY) * (newScale / v.scale);
     v.scale = newScale;
-    applyViewTransform();
-  }, [applyViewTransform]);
+    requestDraw();
+  }, [requestDraw]);
 
   const handleZoomReset = fitToView;
 
@@ -638,8 +804,6 @@ export function ForceGraph({ nodes, edges }: ForceGraphProps) {
     return () => document.removeEventListener('fullscreenchange', onFsChange);
   }, []);
 
-  const maxScore = Math.max(...nodes.map((n) => n.score), 1);
-
   // Build the legend dynamically from types present in the data
   const legendItems = useMemo(() => {
     const items: { symbol: string; color: string; label: string }[] = [];
@@ -664,163 +828,15 @@ export function ForceGraph({ nodes, edges }: ForceGraphProps) {
 
   return (
     <div ref={containerRef} className={`relative w-full h-full ${isFullscreen ? 'bg-bg-secondary' : ''}`}>
-      <svg
-        ref={svgRef}
-        className="w-full h-full"
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full"
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseLeave}
         onWheel={handleWheel}
-      >
-        <defs>
-          <marker
-            id="fg-arrow"
-            viewBox="0 0 10 10"
-            refX="10"
-            refY="5"
-            markerWidth="6"
-            markerHeight="6"
-            orient="auto-start-reverse"
-          >
-            <path d="M 0 0 L 10 5 L 0 10 z" fill="#4fc3f7" />
-          </marker>
-          <marker
-            id="fg-arrow-crossdb"
-            viewBox="0 0 10 10"
-            refX="10"
-            refY="5"
-            markerWidth="6"
-            markerHeight="6"
-            orient="auto-start-reverse"
-          >
-            <path d="M 0 0 L 10 5 L 0 10 z" fill="#ff6b6b" />
-          </marker>
-        </defs>
-
-        <g className="fg-viewport">
-        {/* Database hulls (behind edges) */}
-        {hasDatabases && (
-          <g className="fg-hulls">
-            {databases.map((db) => {
-              const color = getDatabaseColor(db);
-              return (
-                <g key={db}>
-                  <path
-                    data-hull={db}
-                    fill={color}
-                    fillOpacity={0.1}
-                    stroke={color}
-                    strokeOpacity={0.3}
-                    strokeWidth={1.5}
-                    d=""
-                  />
-                  <text
-                    data-hull-label={db}
-                    fill={color}
-                    fillOpacity={0.6}
-                    fontSize={12}
-                    fontWeight="bold"
-                    textAnchor="middle"
-                    dominantBaseline="central"
-                    pointerEvents="none"
-                  >
-                    {db}
-                  </text>
-                </g>
-              );
-            })}
-          </g>
-        )}
-
-        {/* Edges */}
-        <g>
-          {edges.map((e, i) => {
-            const isHovered =
-              hoveredNode !== null && (e.source === hoveredNode || e.target === hoveredNode);
-            return (
-              <line
-                key={i}
-                className="fg-edge"
-                stroke={getEdgeStroke(e.type, e.crossDatabase)}
-                strokeOpacity={isHovered ? 1 : e.crossDatabase ? 0.7 : 0.4}
-                strokeWidth={getEdgeWidth(e.type, e.crossDatabase, isHovered)}
-                strokeDasharray={getEdgeDash(e.type, e.crossDatabase)}
-                markerEnd={e.crossDatabase ? 'url(#fg-arrow-crossdb)' : 'url(#fg-arrow)'}
-              />
-            );
-          })}
-        </g>
-
-        {/* Nodes */}
-        <g>
-          {nodes.map((n, i) => {
-            const isHovered = hoveredNode === i;
-            const radius = 6 + (n.score / maxScore) * 20;
-            const fill = getNodeFill(n, maxScore);
-            const shape = getNodeShape(n.type);
-
-            if (shape === 'diamond') {
-              return (
-                <polygon
-                  key={n.id}
-                  className="fg-node"
-                  fill={fill}
-                  stroke="#e0e0e0"
-                  strokeWidth={isHovered ? 3 : 1}
-                  points="0,0 0,0 0,0 0,0"
-                />
-              );
-            }
-            if (shape === 'rect') {
-              return (
-                <rect
-                  key={n.id}
-                  className="fg-node"
-                  rx={4}
-                  ry={4}
-                  fill={fill}
-                  stroke="#e0e0e0"
-                  strokeWidth={isHovered ? 3 : 1}
-                  width={radius * 2}
-                  height={radius * 2}
-                />
-              );
-            }
-            return (
-              <circle
-                key={n.id}
-                className="fg-node"
-                r={radius}
-                fill={fill}
-                stroke="#e0e0e0"
-                strokeWidth={isHovered ? 3 : 1}
-              />
-            );
-          })}
-        </g>
-
-        {/* Labels */}
-        <g>
-          {nodes.map((n) => {
-            const radius = 6 + (n.score / maxScore) * 20;
-            const fontSize = Math.max(9, Math.min(13, 8 + radius / 4));
-            return (
-              <text
-                key={n.id}
-                className="fg-label"
-                fontSize={fontSize}
-                fill="#e0e0e0"
-                textAnchor="middle"
-                pointerEvents="none"
-              >
-                {n.label}
-              </text>
-            );
-          })}
-        </g>
-        </g>{/* /fg-viewport */}
-      </svg>
+      />
 
       {/* Zoom & fullscreen controls */}
       <div className="absolute top-2 right-2 flex flex-col gap-1">
@@ -907,12 +923,18 @@ export function ForceGraph({ nodes, edges }: ForceGraphProps) {
           Impact: {tooltip.node.impact}
           <br />
           Score: {tooltip.node.score}
+          {sizeBy && tooltip.node.size !== undefined && (
+            <>
+              <br />
+              {sizeBy.label}: {sizeBy.format(tooltip.node.size)}
+            </>
+          )}
         </div>
       )}
 
       {/* Legend */}
       <div className="absolute bottom-2 left-2 flex flex-wrap items-center gap-4 text-xs text-text-muted bg-bg-primary/80 rounded px-3 py-1.5 border border-border">
-        <span>Drag nodes to rearrange. Hover for details. Node size = importance.</span>
+        <span>Drag nodes to rearrange. Hover for details. Node size = {sizeBy ? sizeBy.label : 'importance'}.</span>
         {legendItems.map((item) => (
           <span key={item.label} className="flex items-center gap-1">
             <span style={{ color: item.color }}>{item.symbol}</span> {item.label}
@@ -2,12 +2,25 @@ import { useState, useMemo } from 'react';
 import { DataTable } from '../shared/DataTable';
 import type { ColumnDef } from '@tanstack/react-table';
 import type { TableDependency } from '../../api/types';
+import {
+  ARTICULATION_DESCRIPTION,
+  CENTRALITY_METRICS,
+  formatMetric,
+  metricValue,
+  useCentrality,
+  type CentralityMetric,
+} from '../../hooks/useCentrality';
+
+function MetricHeader({ label, description }: { label: string; description: string }) {
+  return <span title={description} className="cursor-help border-b border-dotted border-text-muted">{label}</span>;
+}
 
 export function ImportanceTable({ dependencies }: { dependencies: TableDependency[] }) {
   const [expanded, setExpanded] = useState<string | null>(null);
+  const centrality = useCentrality();
 
   const sorted = useMemo(
-    () => [...dependencies].filter((d) => d.importanceScore > 0).sort((a, b) => b.importanceScore - a.importanceScore),
+    () => [...dependencies].filter((d) => d.importanceScore > 0 || d.directConnections > 0).sort((a, b) => b.importanceScore - a.importanceScore),
     [dependencies]
   );
 
@@ -27,10 +40,26 @@ export function ImportanceTable({ dependencies }: { dependencies: TableDependenc
       ),
     },
     { header: 'Type', accessorKey: 'objectType' },
-    { header: 'Score', accessorKey: 'importanceScore' },
-    { header: 'Referenced By', accessorFn: (r) => r.referencedBy.length },
-    { header: 'Depends On', accessorFn: (r) => r.dependsOn.length },
-    { header: 'Transitive Impact', accessorFn: (r) => r.transitiveImpact.length },
+    ...(Object.keys(CENTRALITY_METRICS) as CentralityMetric[]).map((metric): ColumnDef<TableDependency, any> => ({
+      id: metric,
+      header: () => <MetricHeader {...CENTRALITY_METRICS[metric]} />,
+      accessorFn: (r) => metricValue(metric, r.importanceScore, centrality?.get(r.fullName)),
+      cell: ({ getValue }) => formatMetric(metric, getValue()),
+      sortDescFirst: true,
+    })),
+    {
+      id: 'articulation',
+      header: () => <MetricHeader label="Cut Point" description={ARTICULATION_DESCRIPTION} />,
+      accessorFn: (r) => (centrality?.get(r.fullName)?.isArticulation ? 1 : 0),
+      cell: ({ getValue }) => (getValue() ? <span className="text-severity-warning">Yes</span> : <span className="text-text-muted">—</span>),
+      sortDescFirst: true,
+    },
+    {
+      id: 'transitiveImpact',
+      header: () => <MetricHeader label="Transitive Impact" description="Objects affected directly or indirectly by a change to this one" />,
+      accessorFn: (r) => r.transitiveImpact.length,
+      sortDescFirst: true,
+    },
   ];
 
   return (
@@ -0,0 +1,61 @@
+import { useState, useEffect, useRef } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { computeLoadOrder, generateLoadOrderExport, type LoadOrderFormat } from '../../hooks/useLoadOrder';
+import type { SqlDialect } from '../../hooks/useDdlGenerator';
+
+const EXPORTS: { label: string; format: LoadOrderFormat; dialect?: SqlDialect; extension: string; filterName: string }[] = [
+  { label: 'CSV', format: 'csv', extension: 'csv', filterName: 'CSV Files' },
+  { label: 'JSON', format: 'json', extension: 'json', filterName: 'JSON Files' },
+  { label: 'SQL script (SQL Server)', format: 'sql', dialect: 'sqlserver', extension: 'sql', filterName: 'SQL Scripts' },
+  { label: 'SQL script (PostgreSQL)', format: 'sql', dialect: 'postgresql', extension: 'sql', filterName: 'SQL Scripts' },
+];
+
+/** Exports the FK-safe insert/delete order of all tables for ETL and test-fixture tooling. */
+export function LoadOrderMenu() {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const result = useStore((s) => s.result)!;
+  const databaseName = useStore((s) => s.databaseName);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const handleExport = async (item: (typeof EXPORTS)[number]) => {
+    setOpen(false);
+    const order = computeLoadOrder(result.relationships!, result.schema);
+    const content = generateLoadOrderExport(order, item.format, item.dialect);
+    const suffix = item.dialect ? `-${item.dialect}` : '';
+    await window.electronAPI?.exportFile(content, `${databaseName ?? 'database'}-load-order${suffix}.${item.extension}`, [{ name: item.filterName, extensions: [item.extension] }]);
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-3 py-1.5 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors"
+        title="Table order for loading and purging data without violating foreign keys"
+      >
+        Load order ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-48 bg-bg-card border border-border rounded shadow-lg z-20 py-1">
+          {EXPORTS.map((item) => (
+            <button
+              key={item.label}
+              onClick={() => handleExport(item)}
+              className="w-full text-left px-3 py-1.5 text-xs text-text-secondary hover:text-text-primary hover:bg-bg-hover transition-colors"
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
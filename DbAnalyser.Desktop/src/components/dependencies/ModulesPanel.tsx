@@ -0,0 +1,178 @@
+import { useState, useEffect, useRef } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { getDatabaseColor } from '../dashboard/DashboardPage';
+import {
+  generateModuleExport,
+  type ModuleDetection,
+  type ModuleExportFormat,
+  type ModuleGranularity,
+} from '../../hooks/useModuleDetection';
+
+const EXPORT_FORMATS: Record<ModuleExportFormat, { label: string; extension: string; filterName: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', filterName: 'Markdown Files' },
+  csv: { label: 'CSV', extension: 'csv', filterName: 'CSV Files' },
+  json: { label: 'JSON', extension: 'json', filterName: 'JSON Files' },
+};
+
+const GRANULARITIES: { key: ModuleGranularity; label: string }[] = [
+  { key: 'coarse', label: 'Coarse' },
+  { key: 'normal', label: 'Normal' },
+  { key: 'fine', label: 'Fine' },
+];
+
+const SHOWN_MEMBERS = 50;
+
+interface ModulesPanelProps {
+  detection: ModuleDetection;
+  granularity: ModuleGranularity;
+  onGranularityChange: (granularity: ModuleGranularity) => void;
+  selected: string | null;
+  onSelect: (module: string | null) => void;
+}
+
+/**
+ * Modules found by community detection over the dependency graph: groups of objects that relate
+ * mostly to each other, as candidate boundaries when splitting a database into services.
+ */
+export function ModulesPanel({ detection, granularity, onGranularityChange, selected, onSelect }: ModulesPanelProps) {
+  const { modules, standalone, modularity } = detection;
+
+  return (
+    <div className="h-full flex flex-col bg-bg-card border border-border rounded-lg overflow-hidden">
+      <div className="px-3 py-2 border-b border-border space-y-2">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-semibold text-text-primary">Modules</h3>
+          <span className="text-xs text-text-muted" title="Modularity: how much more the relations stay inside modules than chance would predict (0-1)">
+            {modules.length} · Q {modularity.toFixed(2)}
+          </span>
+          <div className="ml-auto">
+            <ExportMenu detection={detection} />
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          {GRANULARITIES.map((g) => (
+            <button
+              key={g.key}
+              onClick={() => onGranularityChange(g.key)}
+              className={`px-2 py-1 rounded text-[10px] font-medium transition-colors ${
+                granularity === g.key ? 'bg-accent/20 text-accent' : 'text-text-muted hover:text-text-secondary'
+              }`}
+            >
+              {g.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-1">
+        {modules.length === 0 && (
+          <p className="px-3 py-2 text-xs text-text-muted">No related objects to group.</p>
+        )}
+        {modules.map((m) => {
+          const isSelected = selected === m.name;
+          return (
+            <div key={m.name}>
+              <button
+                onClick={() => onSelect(isSelected ? null : m.name)}
+                className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs transition-colors ${
+                  isSelected ? 'bg-bg-hover' : 'hover:bg-bg-hover/50'
+                }`}
+              >
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: getDatabaseColor(m.name) }} />
+                <span className="text-text-primary truncate">{m.name}</span>
+                <span className="ml-auto text-text-muted flex-shrink-0">{m.members.length}</span>
+                <span
+                  className={`w-9 text-right flex-shrink-0 ${m.cohesion >= 0.7 ? 'text-text-secondary' : 'text-severity-warning'}`}
+                  title={`${m.internalEdges} relations inside, ${m.externalEdges} to other modules`}
+                >
+                  {Math.round(m.cohesion * 100)}%
+                </span>
+              </button>
+              {isSelected && (
+                <div className="px-3 pb-2 pl-7 space-y-2 text-xs">
+                  <div>
+                    <p className="text-text-muted mb-0.5">{m.tables} table{m.tables !== 1 ? 's' : ''}, {m.members.length - m.tables} other</p>
+                    {m.members.slice(0, SHOWN_MEMBERS).map((name) => (
+                      <p key={name} className="text-text-secondary truncate" title={name}>{name}</p>
+                    ))}
+                    {m.members.length > SHOWN_MEMBERS && (
+                      <p className="text-text-muted">and {m.members.length - SHOWN_MEMBERS} more</p>
+                    )}
+                  </div>
+                  {m.links.length > 0 && (
+                    <div>
+                      <p className="text-text-muted mb-0.5">Connected to</p>
+                      {m.links.map((l) => (
+                        <button
+                          key={l.module}
+                          onClick={() => onSelect(l.module)}
+                          className="w-full flex items-center gap-2 text-left text-text-secondary hover:text-accent transition-colors"
+                        >
+                          <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: getDatabaseColor(l.module) }} />
+                          <span className="truncate">{l.module}</span>
+                          <span className="ml-auto text-text-muted">{l.edges}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {standalone.length > 0 && (
+          <p className="px-3 py-2 text-xs text-text-muted" title={standalone.join('\n')}>
+            {standalone.length} standalone object{standalone.length !== 1 ? 's' : ''} without relations
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ExportMenu({ detection }: { detection: ModuleDetection }) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+  const rels = useStore((s) => s.result!.relationships!);
+  const databaseName = useStore((s) => s.databaseName);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const handleExport = async (format: ModuleExportFormat) => {
+    setOpen(false);
+    const { extension, filterName } = EXPORT_FORMATS[format];
+    const content = generateModuleExport(detection, rels, format);
+    await window.electronAPI?.exportFile(content, `${databaseName ?? 'database'}-modules.${extension}`, [{ name: filterName, extensions: [extension] }]);
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-2 py-1 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors"
+      >
+        Export ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-36 bg-bg-card border border-border rounded shadow-lg z-20 py-1">
+          {(Object.keys(EXPORT_FORMATS) as ModuleExportFormat[]).map((f) => (
+            <button
+              key={f}
+              onClick={() => handleExport(f)}
+              className="w-full text-left px-3 py-1.5 text-xs text-text-secondary hover:text-text-primary hover:bg-bg-hover transition-colors"
+            >
+              {EXPORT_FORMATS[f].label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState, useMemo } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { useStore } from '../../hooks/useStore';
+import { OBJECT_TYPE_COLORS } from '../../api/types';
+import {
+  PATH_EDGE_LABELS,
+  PATH_HIGHLIGHT_COLOR,
+  searchPaths,
+  type ObjectPath,
+  type PathEdgeKind,
+  type PathSearchResult,
+} from '../../hooks/usePathFinder';
+
+const KIND_COLORS: Record<PathEdgeKind, string> = {
+  fk: '#4fc3f7',
+  implicit: '#78909c',
+  dependency: '#4ecca3',
+};
+
+const MAX_HOPS = [2, 3, 4, 5, 6, 8];
+const SHOWN_PATHS = 50;
+
+const buttonClass = 'px-3 py-1.5 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors disabled:opacity-50';
+
+interface PickerObject {
+  name: string;
+  type: string;
+}
+
+function ObjectPicker({ value, onChange, objects, placeholder }: { value: string; onChange: (name: string) => void; objects: PickerObject[]; placeholder: string }) {
+  const [query, setQuery] = useState(value);
+  const [open, setOpen] = useState(false);
+
+  const suggestions = useMemo(() => {
+    if (!query.trim()) return [];
+    const q = query.toLowerCase();
+    return objects.filter((o) => o.name.toLowerCase().includes(q)).slice(0, 10);
+  }, [objects, query]);
+
+  return (
+    <div className="relative w-64">
+      <input
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setOpen(true); }}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        placeholder={placeholder}
+        className="w-full bg-bg-card border border-border rounded px-3 py-1.5 text-xs text-text-primary placeholder:text-text-muted focus:border-accent focus:outline-none"
+      />
+      {open && suggestions.length > 0 && (
+        <div className="absolute top-full left-0 right-0 mt-1 bg-bg-card border border-border rounded shadow-lg z-20 max-h-60 overflow-y-auto">
+          {suggestions.map((s) => (
+            <button
+              key={s.name}
+              onClick={() => {
+                onChange(s.name);
+                setQuery(s.name);
+                setOpen(false);
+              }}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-bg-hover text-xs transition-colors"
+            >
+              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: OBJECT_TYPE_COLORS[s.type] ?? '#666' }} />
+              <span className="text-text-primary truncate">{s.name}</span>
+              <span className="ml-auto text-text-muted">{s.type}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PathRow({ path, selected, onSelect }: { path: ObjectPath; selected: boolean; onSelect: () => void }) {
+  return (
+    <button
+      onClick={onSelect}
+      className={`w-full text-left px-3 py-1.5 rounded text-xs flex flex-wrap items-center gap-1 transition-colors ${
+        selected ? 'bg-bg-hover' : 'hover:bg-bg-hover/50'
+      }`}
+      style={selected ? { boxShadow: `inset 2px 0 0 ${PATH_HIGHLIGHT_COLOR}` } : undefined}
+    >
+      <span className="text-text-muted w-10 flex-shrink-0">{path.hops.length} hop{path.hops.length !== 1 ? 's' : ''}</span>
+      <span className="text-text-primary">{path.nodes[0]}</span>
+      {path.hops.map((hop, i) => (
+        <span key={i} className="flex items-center gap-1">
+          <span style={{ color: KIND_COLORS[hop.kind] }} title={`${PATH_EDGE_LABELS[hop.kind]}: ${hop.label}`}>
+            {hop.reversed ? '←' : '→'}
+          </span>
+          <span className="text-text-primary">{hop.to}</span>
+        </span>
+      ))}
+    </button>
+  );
+}
+
+/**
+ * Find how two objects are connected through foreign keys, implicit relationships and object
+ * dependencies. The selected path is kept in the store so the dependency graph and the ERD both draw it.
+ */
+export function PathFinder() {
+  const rels = useStore((s) => s.result!.relationships!);
+  const highlightedPath = useStore((s) => s.highlightedPath);
+  const setHighlightedPath = useStore((s) => s.setHighlightedPath);
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  const objects = useMemo(
+    () => rels.dependencies.map((d) => ({ name: d.fullName, type: d.objectType })),
+    [rels.dependencies],
+  );
+
+  const [from, setFrom] = useState(highlightedPath?.nodes[0] ?? '');
+  const [to, setTo] = useState(highlightedPath?.nodes[highlightedPath.nodes.length - 1] ?? '');
+  const [kinds, setKinds] = useState<Set<PathEdgeKind>>(() => new Set(['fk', 'implicit', 'dependency']));
+  const [directed, setDirected] = useState(false);
+  const [maxHops, setMaxHops] = useState(4);
+  const [result, setResult] = useState<PathSearchResult | null>(null);
+
+  const handleFind = () => {
+    const found = searchPaths(rels, from, to, { kinds, minConfidence: 0.7, directed }, maxHops);
+    setResult(found);
+    setHighlightedPath(found.shortest);
+  };
+
+  const toggleKind = (kind: PathEdgeKind) => {
+    setKinds((prev) => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind); else next.add(kind);
+      return next;
+    });
+  };
+
+  const isSelected = (path: ObjectPath) =>
+    !!highlightedPath && highlightedPath.hops.length === path.hops.length
+    && highlightedPath.hops.every((h, i) => h.to === path.hops[i].to && h.kind === path.hops[i].kind);
+
+  // The shortest path is usually also the first simple path; list it once
+  const shortestListed = result?.shortest && result.paths.some((p) => p.nodes.join('|') === result.shortest!.nodes.join('|'));
+
+  return (
+    <div className="bg-bg-card border border-border rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <ObjectPicker value={from} onChange={setFrom} objects={objects} placeholder="From object..." />
+        <span className="text-text-muted text-xs">to</span>
+        <ObjectPicker value={to} onChange={setTo} objects={objects} placeholder="To object..." />
+        <button onClick={handleFind} disabled={!from || !to || from === to || kinds.size === 0} className={buttonClass}>
+          Find paths
+        </button>
+        {highlightedPath && (
+          <>
+            {location.pathname !== '/erd' && (
+              <button onClick={() => navigate('/erd')} className={buttonClass}>Show on ERD</button>
+            )}
+            {location.pathname !== '/dependencies' && (
+              <button onClick={() => navigate('/dependencies')} className={buttonClass}>Show on graph</button>
+            )}
+            <button onClick={() => setHighlightedPath(null)} className="text-xs text-text-muted hover:text-text-primary transition-colors">
+              Clear highlight
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-text-secondary">
+        {(Object.keys(PATH_EDGE_LABELS) as PathEdgeKind[]).map((k) => (
+          <label key={k} className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={kinds.has(k)} onChange={() => toggleKind(k)} className="rounded border-border accent-accent" />
+            <span style={{ color: KIND_COLORS[k] }}>{PATH_EDGE_LABELS[k]}</span>
+          </label>
+        ))}
+        <label className="flex items-center gap-1.5 cursor-pointer" title="Only follow edges from the referencing object to the one it references">
+          <input type="checkbox" checked={directed} onChange={(e) => setDirected(e.target.checked)} className="rounded border-border accent-accent" />
+          Directed
+        </label>
+        <label className="flex items-center gap-1.5">
+          Max hops
+          <select
+            value={maxHops}
+            onChange={(e) => setMaxHops(Number(e.target.value))}
+            className="bg-bg-card border border-border rounded px-1.5 py-0.5 text-xs text-text-primary focus:outline-none focus:border-accent [&>option]:bg-bg-card [&>option]:text-text-primary"
+          >
+            {MAX_HOPS.map((n) => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {result && (
+        result.shortest ? (
+          <div className="space-y-1">
+            <p className="text-xs text-text-muted">
+              Shortest path: {result.shortest.hops.length} hop{result.shortest.hops.length !== 1 ? 's' : ''}.
+              {' '}{result.paths.length}{result.truncated ? '+' : ''} simple path{result.paths.length !== 1 ? 's' : ''} within {maxHops} hops
+              {result.paths.length > SHOWN_PATHS && `, showing the first ${SHOWN_PATHS}`}.
+            </p>
+            <div className="max-h-56 overflow-y-auto">
+              {!shortestListed && (
+                <PathRow path={result.shortest} selected={isSelected(result.shortest)} onSelect={() => setHighlightedPath(result.shortest)} />
+              )}
+              {result.paths.slice(0, SHOWN_PATHS).map((p, i) => (
+                <PathRow key={i} path={p} selected={isSelected(p)} onSelect={() => setHighlightedPath(p)} />
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-text-muted">These objects are not connected through the selected relations.</p>
+        )
+      )}
+    </div>
+  );
+}
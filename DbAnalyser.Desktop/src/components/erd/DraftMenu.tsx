@@ -0,0 +1,117 @@
+import { useState, useEffect, useRef } from 'react';
+import { SQL_DIALECT_LABELS, type SqlDialect } from '../../hooks/useDdlGenerator';
+
+interface DraftMenuProps {
+  drafts: string[];
+  active: string | null;
+  changedTables: number;
+  onSelect: (name: string | null) => void;
+  onCreate: (name: string) => void;
+  onExport: (dialect: SqlDialect) => void;
+  onDelete: () => void;
+}
+
+/** Enter design mode on a named draft of schema changes, export it as DDL or throw it away. */
+export function DraftMenu({ drafts, active, changedTables, onSelect, onCreate, onExport, onDelete }: DraftMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const trimmed = name.trim();
+  const exists = drafts.includes(trimmed);
+
+  const handleCreate = () => {
+    if (!trimmed || exists) return;
+    onCreate(trimmed);
+    setName('');
+    setOpen(false);
+  };
+
+  const itemClass = 'w-full text-left px-3 py-1.5 text-xs hover:bg-bg-hover transition-colors';
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`px-3 py-1.5 rounded text-xs border transition-colors max-w-[200px] truncate ${
+          active ? 'text-accent border-accent/50' : 'text-text-secondary hover:text-accent border-border hover:border-accent/50'
+        }`}
+        title="Sketch schema changes over the loaded schema and export them as DDL"
+      >
+        {active ? `Design: ${active}` : 'Design'} ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-60 bg-bg-card border border-border rounded shadow-lg z-20 py-1">
+          <button
+            onClick={() => { onSelect(null); setOpen(false); }}
+            className={`${itemClass} ${active === null ? 'text-accent' : 'text-text-secondary hover:text-text-primary'}`}
+          >
+            Loaded schema
+          </button>
+          {drafts.map((d) => (
+            <button
+              key={d}
+              onClick={() => { onSelect(d); setOpen(false); }}
+              className={`${itemClass} truncate ${active === d ? 'text-accent' : 'text-text-secondary hover:text-text-primary'}`}
+            >
+              {d}
+            </button>
+          ))}
+
+          <div className="my-1 border-t border-border" />
+          <div className="px-3 py-1.5 space-y-1">
+            <p className="text-[10px] text-text-muted">New draft</p>
+            <div className="flex gap-1">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                placeholder="Draft name"
+                className="flex-1 min-w-0 bg-bg-primary border border-border rounded px-2 py-1 text-xs text-text-primary placeholder:text-text-muted focus:border-accent focus:outline-none"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={!trimmed || exists}
+                className="px-2 py-1 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors disabled:opacity-50"
+              >
+                Create
+              </button>
+            </div>
+            {exists && <p className="text-[10px] text-severity-warning">A draft with this name exists</p>}
+          </div>
+
+          {active && (
+            <>
+              <div className="my-1 border-t border-border" />
+              {(Object.keys(SQL_DIALECT_LABELS) as SqlDialect[]).map((dialect) => (
+                <button
+                  key={dialect}
+                  onClick={() => { onExport(dialect); setOpen(false); }}
+                  disabled={changedTables === 0}
+                  className={`${itemClass} text-text-secondary hover:text-text-primary disabled:opacity-50`}
+                >
+                  Export DDL ({SQL_DIALECT_LABELS[dialect]})
+                </button>
+              ))}
+              <button
+                onClick={() => { onDelete(); setOpen(false); }}
+                className={`${itemClass} text-severity-error`}
+              >
+                Delete "{active}"
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
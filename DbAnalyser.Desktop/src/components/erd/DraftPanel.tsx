@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { ChangeBadge } from '../shared/ChangeBadge';
+import { formatColumnType, parseColumnType } from '../../hooks/useDdlGenerator';
+import { draftColumn } from '../../hooks/useSchemaDraft';
+import type { ChangeKind } from '../../hooks/useSchemaDiff';
+import type { ColumnInfo, TableInfo } from '../../api/types';
+
+interface DraftPanelProps {
+  table: TableInfo | null;      // selected table as drafted
+  original: TableInfo | null;   // the same table in the loaded schema; null when the draft adds it
+  edited: boolean;
+  defaultSchema: string;
+  onAddTable: (schemaName: string, tableName: string) => boolean;
+  onChange: (table: TableInfo) => void;
+  onRevert: () => void;
+}
+
+const inputClass = 'min-w-0 bg-bg-primary border border-border rounded px-1.5 py-0.5 text-xs text-text-primary placeholder:text-text-muted focus:border-accent focus:outline-none';
+const buttonClass = 'px-2 py-1 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors disabled:opacity-50';
+
+function columnChange(col: ColumnInfo, original: TableInfo | null): ChangeKind | undefined {
+  const before = original?.columns.find((c) => c.name === col.name);
+  if (!before) return 'added';
+  const changed = formatColumnType(before) !== formatColumnType(col)
+    || before.isNullable !== col.isNullable
+    || before.isPrimaryKey !== col.isPrimaryKey;
+  return changed ? 'changed' : undefined;
+}
+
+// Commits on blur or Enter so half-typed types don't reach the draft
+function TypeInput({ column, onCommit }: { column: ColumnInfo; onCommit: (type: string) => void }) {
+  const formatted = formatColumnType(column);
+  const [value, setValue] = useState(formatted);
+  useEffect(() => setValue(formatted), [formatted]);
+
+  const commit = () => {
+    const type = value.trim();
+    if (type && type !== formatted) onCommit(type);
+    else setValue(formatted);
+  };
+
+  return (
+    <input
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+      disabled={column.isComputed}
+      className={`${inputClass} w-28`}
+    />
+  );
+}
+
+/** Side panel of the ERD design mode: add tables and edit the columns and FKs of the selected one. */
+export function DraftPanel({ table, original, edited, defaultSchema, onAddTable, onChange, onRevert }: DraftPanelProps) {
+  const [schemaName, setSchemaName] = useState(defaultSchema);
+  const [tableName, setTableName] = useState('');
+  const [tableExists, setTableExists] = useState(false);
+  const [columnName, setColumnName] = useState('');
+  const [columnType, setColumnType] = useState('nvarchar(100)');
+
+  const handleAddTable = () => {
+    if (!schemaName.trim() || !tableName.trim()) return;
+    const added = onAddTable(schemaName.trim(), tableName.trim());
+    setTableExists(!added);
+    if (added) setTableName('');
+  };
+
+  const updateColumn = (name: string, patch: Partial<ColumnInfo>) => {
+    if (!table) return;
+    onChange({ ...table, columns: table.columns.map((c) => (c.name === name ? { ...c, ...patch } : c)) });
+  };
+
+  // Only columns and FKs the draft added can be removed again
+  const removeColumn = (name: string) => {
+    if (!table) return;
+    onChange({
+      ...table,
+      columns: table.columns.filter((c) => c.name !== name).map((c, i) => ({ ...c, ordinalPosition: i + 1 })),
+      foreignKeys: table.foreignKeys.filter((fk) => fk.fromColumn !== name),
+    });
+  };
+
+  const removeForeignKey = (name: string) => {
+    if (!table) return;
+    onChange({ ...table, foreignKeys: table.foreignKeys.filter((fk) => fk.name !== name) });
+  };
+
+  const newColumnName = columnName.trim();
+  const columnExists = !!table?.columns.some((c) => c.name.toLowerCase() === newColumnName.toLowerCase());
+
+  const handleAddColumn = () => {
+    if (!table || !newColumnName || !columnType.trim() || columnExists) return;
+    onChange({ ...table, columns: [...table.columns, draftColumn(newColumnName, columnType, table.columns.length + 1)] });
+    setColumnName('');
+  };
+
+  const originalFks = new Set(original?.foreignKeys.map((fk) => fk.name));
+  const foreignKeys = [...new Map(table?.foreignKeys.map((fk) => [fk.name, fk])).values()];
+
+  return (
+    <div className="w-80 shrink-0 flex flex-col gap-3 min-h-0">
+      <div className="bg-bg-card border border-border rounded-lg p-3 space-y-2">
+        <h3 className="text-sm font-semibold text-text-primary">Add Table</h3>
+        <div className="flex gap-1">
+          <input
+            value={schemaName}
+            onChange={(e) => setSchemaName(e.target.value)}
+            placeholder="Schema"
+            className={`${inputClass} w-20`}
+          />
+          <input
+            value={tableName}
+            onChange={(e) => { setTableName(e.target.value); setTableExists(false); }}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAddTable(); }}
+            placeholder="Table name"
+            className={`${inputClass} flex-1`}
+          />
+          <button onClick={handleAddTable} disabled={!schemaName.trim() || !tableName.trim()} className={buttonClass}>
+            Add
+          </button>
+        </div>
+        {tableExists && <p className="text-[10px] text-severity-warning">A table with this name exists</p>}
+        <p className="text-[10px] text-text-muted">
+          Drag from a column to a column of another table to add a foreign key; drag between table headers to reference the primary key.
+        </p>
+      </div>
+
+      {!table ? (
+        <p className="text-xs text-text-muted px-1">Select a table to change its columns.</p>
+      ) : (
+        <div className="flex-1 min-h-0 bg-bg-card border border-border rounded-lg overflow-hidden flex flex-col">
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+            <h3 className="flex-1 text-sm font-semibold text-text-primary truncate" title={table.fullName}>{table.fullName}</h3>
+            {!original && <ChangeBadge kind="added" />}
+            {edited && (
+              <button
+                onClick={onRevert}
+                className="text-[10px] text-text-muted hover:text-severity-error transition-colors"
+                title={original ? 'Undo all draft changes to this table' : 'Remove this table from the draft'}
+              >
+                {original ? 'Discard changes' : 'Remove'}
+              </button>
+            )}
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-3 py-2 space-y-3">
+            <div className="space-y-1">
+              <div className="flex items-center gap-1.5 text-[10px] text-text-muted">
+                <span className="flex-1">Column</span>
+                <span className="w-28">Type</span>
+                <span className="w-6 text-center" title="Nullable">Null</span>
+                <span className="w-6 text-center" title="Primary key">PK</span>
+                <span className="w-3" />
+              </div>
+              {table.columns.map((col) => {
+                const change = columnChange(col, original);
+                return (
+                  <div key={col.name} className="flex items-center gap-1.5 text-xs">
+                    <span className="flex-1 min-w-0 flex items-center gap-1">
+                      <span className="truncate text-text-primary" title={col.name}>{col.name}</span>
+                      {change && <ChangeBadge kind={change} />}
+                    </span>
+                    <TypeInput column={col} onCommit={(type) => updateColumn(col.name, parseColumnType(type))} />
+                    <input
+                      type="checkbox"
+                      checked={col.isNullable}
+                      disabled={col.isPrimaryKey}
+                      onChange={(e) => updateColumn(col.name, { isNullable: e.target.checked })}
+                      className="w-6 accent-accent"
+                    />
+                    <input
+                      type="checkbox"
+                      checked={col.isPrimaryKey}
+                      onChange={(e) => updateColumn(col.name, { isPrimaryKey: e.target.checked, ...(e.target.checked && { isNullable: false }) })}
+                      className="w-6 accent-accent"
+                    />
+                    {change === 'added' ? (
+                      <button
+                        onClick={() => removeColumn(col.name)}
+                        className="w-3 text-text-muted hover:text-severity-error"
+                        title="Remove column"
+                      >
+                        ×
+                      </button>
+                    ) : (
+                      <span className="w-3" />
+                    )}
+                  </div>
+                );
+              })}
+              <div className="flex items-center gap-1.5 pt-1">
+                <input
+                  value={columnName}
+                  onChange={(e) => setColumnName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleAddColumn(); }}
+                  placeholder="New column"
+                  className={`${inputClass} flex-1`}
+                />
+                <input
+                  value={columnType}
+                  onChange={(e) => setColumnType(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleAddColumn(); }}
+                  placeholder="Type"
+                  className={`${inputClass} w-28`}
+                />
+                <button onClick={handleAddColumn} disabled={!newColumnName || !columnType.trim() || columnExists} className={buttonClass}>
+                  Add
+                </button>
+              </div>
+              {columnExists && <p className="text-[10px] text-severity-warning">Column already exists</p>}
+            </div>
+
+            {foreignKeys.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-[10px] text-text-muted">Foreign keys</p>
+                {foreignKeys.map((fk) => (
+                  <div key={fk.name} className="flex items-center gap-1.5 text-xs">
+                    <span className="flex-1 min-w-0 truncate text-text-secondary" title={fk.name}>
+                      {fk.fromColumn} → {fk.toTable}.{fk.toColumn}
+                    </span>
+                    {!originalFks.has(fk.name) && (
+                      <>
+                        <ChangeBadge kind="added" />
+                        <button
+                          onClick={() => removeForeignKey(fk.name)}
+                          className="w-3 text-text-muted hover:text-severity-error"
+                          title="Remove foreign key"
+                        >
+                          ×
+                        </button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Node, Edge } from '@xyflow/react';
+import { useStore } from '../../hooks/useStore';
+import { renderErdSvg, svgToPng } from '../../hooks/useErdExport';
+import { generateDiagramText, DIAGRAM_FORMATS, type DiagramFormat } from '../../hooks/useDiagramText';
+
+type ImageFormat = 'svg' | 'png' | 'pdf';
+
+const IMAGE_FORMATS: { key: ImageFormat; label: string }[] = [
+  { key: 'svg', label: 'SVG image' },
+  { key: 'png', label: 'PNG image' },
+  { key: 'pdf', label: 'PDF (tiled pages)' },
+];
+
+export function ErdExportMenu({ nodes, edges }: { nodes: Node[]; edges: Edge[] }) {
+  const databaseName = useStore((s) => s.result?.databaseName);
+  const schema = useStore((s) => s.result?.schema);
+  const relationships = useStore((s) => s.result?.relationships);
+  const annotations = useStore((s) => s.annotations);
+  const [open, setOpen] = useState(false);
+  const [includeImplicit, setIncludeImplicit] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as globalThis.Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const baseName = `${databaseName ?? 'database'}-erd`;
+
+  const handleExport = async (format: ImageFormat) => {
+    setOpen(false);
+    setBusy(true);
+    try {
+      const rendered = renderErdSvg(nodes, edges);
+      if (format === 'svg') {
+        await window.electronAPI?.exportFile(rendered.svg, `${baseName}.svg`, [{ name: 'SVG Images', extensions: ['svg'] }]);
+      } else if (format === 'png') {
+        const png = await svgToPng(rendered);
+        await window.electronAPI?.exportFile(png, `${baseName}.png`, [{ name: 'PNG Images', extensions: ['png'] }]);
+      } else {
+        await window.electronAPI?.exportDiagramPdf(rendered.svg, rendered.width, rendered.height, `${baseName}.pdf`);
+      }
+    } catch (err) {
+      window.electronAPI?.log.error('ERD export failed:', err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Text formats only contain the tables and views currently on the diagram
+  const handleTextExport = async (format: DiagramFormat) => {
+    if (!schema) return;
+    setOpen(false);
+    const text = generateDiagramText(format, schema, relationships ?? null, {
+      objects: new Set(nodes.map((n) => n.id)),
+      includeImplicit,
+      annotations,
+    });
+    const { extension, filterName } = DIAGRAM_FORMATS[format];
+    await window.electronAPI?.exportFile(text, `${baseName}.${extension}`, [{ name: filterName, extensions: [extension] }]);
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={busy || nodes.length === 0}
+        className="px-3 py-1.5 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors disabled:opacity-50"
+      >
+        {busy ? 'Exporting…' : 'Export ▾'}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-56 bg-bg-card border border-border rounded shadow-lg z-20 py-1">
+          {IMAGE_FORMATS.map((f) => (
+            <button
+              key={f.key}
+              onClick={() => handleExport(f.key)}
+              className="w-full text-left px-3 py-1.5 text-xs text-text-secondary hover:text-text-primary hover:bg-bg-hover transition-colors"
+            >
+              {f.label}
+            </button>
+          ))}
+          <div className="my-1 border-t border-border" />
+          {(Object.keys(DIAGRAM_FORMATS) as DiagramFormat[]).map((f) => (
+            <button
+              key={f}
+              onClick={() => handleTextExport(f)}
+              className="w-full text-left px-3 py-1.5 text-xs text-text-secondary hover:text-text-primary hover:bg-bg-hover transition-colors"
+            >
+              {DIAGRAM_FORMATS[f].label} (.{DIAGRAM_FORMATS[f].extension})
+            </button>
+          ))}
+          <label className="flex items-center gap-2 px-3 py-1.5 text-xs text-text-muted cursor-pointer hover:text-text-secondary">
+            <input
+              type="checkbox"
+              checked={includeImplicit}
+              onChange={(e) => setIncludeImplicit(e.target.checked)}
+              className="accent-accent"
+            />
+            Include implicit relationships
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
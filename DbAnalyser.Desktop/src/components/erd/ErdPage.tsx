@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { useState, useMemo, useCallback, useEffect, useRef, createContext, useContext, type CSSProperties } from 'react';
 import {
   ReactFlow,
   Background,
@@ -10,54 +10,118 @@ import {
   useEdgesState,
   ReactFlowProvider,
   type EdgeProps,
+  type XYPosition,
   BaseEdge,
   getBezierPath,
+  getSmoothStepPath,
+  useReactFlow,
   type Viewport,
+  type Connection,
+  ConnectionMode,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 import { useStore } from '../../hooks/useStore';
 import { useAnalyzer } from '../../hooks/useAnalyzer';
 import { FilterBar } from '../shared/FilterBar';
 import { GraphControls } from '../shared/GraphControls';
+import { ErdExportMenu } from './ErdExportMenu';
 import { AnalyzerLoader } from '../shared/AnalyzerLoader';
-import { getLayoutedElements } from '../../hooks/useDagreLayout';
+import { useErdLayout, ERD_LAYOUT_ENGINES, type ErdLayoutEngine } from '../../hooks/useErdLayout';
 import { OBJECT_TYPE_COLORS } from '../../api/types';
-import type { TableInfo, ColumnInfo } from '../../api/types';
+import type { TableInfo, ColumnInfo, SubjectArea, SchemaDraft } from '../../api/types';
 import { getDatabaseColor } from '../dashboard/DashboardPage';
+import { buildChanges, useBaselineChanges, type BaselineChanges } from '../../hooks/useBaseline';
+import { CHANGE_CONFIG } from '../shared/ChangeBadge';
+import type { ChangeKind } from '../../hooks/useSchemaDiff';
+import { PII_CATEGORIES, usePiiColumns, type PiiReviewItem } from '../../hooks/usePiiClassifier';
+import { pathEdgeKey, PATH_HIGHLIGHT_COLOR } from '../../hooks/usePathFinder';
+import { PathFinder } from '../dependencies/PathFinder';
+import { SubjectAreaMenu } from './SubjectAreaMenu';
+import { DraftMenu } from './DraftMenu';
+import { DraftPanel } from './DraftPanel';
+import { addDraftForeignKey, applyDraft, draftTable, generateDraftDdl } from '../../hooks/useSchemaDraft';
+import type { SqlDialect } from '../../hooks/useDdlGenerator';
+
+// Outline nodes that were added or changed since the pinned baseline
+function changeOutline(kind: ChangeKind | undefined): CSSProperties | undefined {
+  return kind ? { boxShadow: `0 0 0 2px ${CHANGE_CONFIG[kind].color}` } : undefined;
+}
 
 // ── Custom Table Node ───────────────────────────────────────────────────────
 
-function TableNode({ data }: { data: { table: TableInfo; color: string } }) {
-  const { table, color } = data;
+type TableNodeData = { table: TableInfo; color: string; collapsed?: boolean };
+
+const MAX_NON_PK_COLUMNS = 15;
+
+// Non-key columns drawn on a table node; collapsed tables keep only their key columns
+function shownColumns(table: TableInfo, collapsed?: boolean): ColumnInfo[] {
+  const fkColumnNames = new Set(table.foreignKeys.map((fk) => fk.fromColumn));
+  const nonPkColumns = table.columns.filter((c) => !c.isPrimaryKey);
+  return collapsed ? nonPkColumns.filter((c) => fkColumnNames.has(c.name)) : nonPkColumns.slice(0, MAX_NON_PK_COLUMNS);
+}
+
+// Lets a table node collapse itself without putting callbacks into node data
+const CollapseContext = createContext<(id: string) => void>(() => {});
+
+// Set in design mode: the active draft's changes, outlined instead of the baseline drift
+const DraftContext = createContext<BaselineChanges | null>(null);
+
+function TableNode({ id, data }: { id: string; data: TableNodeData }) {
+  const { table, color, collapsed } = data;
+  const toggleCollapsed = useContext(CollapseContext);
   const pkColumns = table.columns.filter((c) => c.isPrimaryKey);
   const fkColumnNames = new Set(table.foreignKeys.map((fk) => fk.fromColumn));
   const nonPkColumns = table.columns.filter((c) => !c.isPrimaryKey);
+  const visibleColumns = shownColumns(table, collapsed);
+  const baselineChanges = useBaselineChanges();
+  const changes = useContext(DraftContext) ?? baselineChanges;
+  const tableChange = changes?.objects.get(table.fullName);
+  const columnChanges = changes?.columns.get(table.fullName);
+  const piiOverlay = useStore((s) => s.piiOverlay);
+  const piiColumns = usePiiColumns(table.fullName);
+  const pii = piiOverlay ? piiColumns : undefined;
 
   return (
-    <div className="bg-bg-card border border-border rounded-md shadow-lg min-w-[180px] text-[11px] overflow-hidden relative">
-      <Handle type="target" position={Position.Top} className="!bg-accent !w-2 !h-2 !border-0" />
+    <div
+      className="bg-bg-card border border-border rounded-md shadow-lg min-w-[180px] text-[11px] overflow-hidden relative"
+      style={changeOutline(tableChange)}
+    >
+      <Handle type="target" position={Position.Top} isConnectableStart={false} className="!bg-accent !w-2 !h-2 !border-0" />
       <Handle type="source" position={Position.Bottom} className="!bg-accent !w-2 !h-2 !border-0" />
-      <Handle type="target" position={Position.Left} id="left-target" className="!bg-accent !w-2 !h-2 !border-0" />
+      <Handle type="target" position={Position.Left} id="left-target" isConnectableStart={false} className="!bg-accent !w-2 !h-2 !border-0" />
       <Handle type="source" position={Position.Right} id="right-source" className="!bg-accent !w-2 !h-2 !border-0" />
       <div
-        className="px-3 py-2 font-semibold text-white text-xs"
+        className="px-3 py-2 font-semibold text-white text-xs flex items-center gap-2"
         style={{ backgroundColor: color }}
       >
-        {table.fullName}
+        <span className="flex-1">{table.fullName}</span>
+        {tableChange && <span title={`${CHANGE_CONFIG[tableChange].label} since baseline`}>{CHANGE_CONFIG[tableChange].icon}</span>}
+        {pii && pii.size > 0 && (
+          <span className="text-[9px] px-1 rounded bg-black/30" title={`${pii.size} column${pii.size !== 1 ? 's' : ''} with personal data`}>
+            PII {pii.size}
+          </span>
+        )}
+        <button
+          onClick={() => toggleCollapsed(id)}
+          className="nodrag opacity-70 hover:opacity-100"
+          title={collapsed ? 'Show all columns' : 'Show key columns only'}
+        >
+          {collapsed ? '▸' : '▾'}
+        </button>
       </div>
       <div className="divide-y divide-border/50">
         {pkColumns.map((col) => (
-          <ColumnRow key={col.name} col={col} isPk isFk={fkColumnNames.has(col.name)} />
+          <ColumnRow key={col.name} col={col} isPk isFk={fkColumnNames.has(col.name)} change={columnChanges?.get(col.name)} pii={pii?.get(col.name)} />
         ))}
-        {pkColumns.length > 0 && nonPkColumns.length > 0 && (
+        {pkColumns.length > 0 && visibleColumns.length > 0 && (
           <div className="border-t border-border" />
         )}
-        {nonPkColumns.slice(0, 15).map((col) => (
-          <ColumnRow key={col.name} col={col} isPk={false} isFk={fkColumnNames.has(col.name)} />
+        {visibleColumns.map((col) => (
+          <ColumnRow key={col.name} col={col} isPk={false} isFk={fkColumnNames.has(col.name)} change={columnChanges?.get(col.name)} pii={pii?.get(col.name)} />
         ))}
-        {nonPkColumns.length > 15 && (
+        {nonPkColumns.length > visibleColumns.length && (
           <div className="px-3 py-1 text-text-muted text-center">
-            ... {nonPkColumns.length - 15} more
+            ... {nonPkColumns.length - visibleColumns.length} more
           </div>
         )}
       </div>
@@ -65,9 +129,36 @@ function TableNode({ data }: { data: { table: TableInfo; color: string } }) {
   );
 }
 
-function ColumnRow({ col, isPk, isFk }: { col: ColumnInfo; isPk: boolean; isFk: boolean }) {
+// Column-level edges attach here, on whichever side faces the other table; in design mode
+// the source handles show up so new FKs can be dragged from a column
+const COLUMN_HANDLE = '!w-1 !h-1 !min-w-0 !min-h-0 !border-0 !bg-transparent';
+const COLUMN_HANDLE_DESIGN = '!w-1.5 !h-1.5 !min-w-0 !min-h-0 !border-0 !bg-accent';
+
+function columnHandleId(column: string, type: 'source' | 'target', side: 'left' | 'right'): string {
+  return `col:${column}:${type}:${side}`;
+}
+
+function ColumnRow({ col, isPk, isFk, change, pii }: { col: ColumnInfo; isPk: boolean; isFk: boolean; change?: ChangeKind; pii?: PiiReviewItem }) {
+  const piiColor = pii ? PII_CATEGORIES[pii.category].color : null;
+  const designing = useContext(DraftContext) !== null;
   return (
-    <div className="flex items-center gap-1.5 px-3 py-1 hover:bg-bg-hover/50">
+    <div
+      className="relative flex items-center gap-1.5 px-3 py-1 hover:bg-bg-hover/50"
+      style={change ? { backgroundColor: `${CHANGE_CONFIG[change].color}1f` } : piiColor ? { backgroundColor: `${piiColor}1f` } : undefined}
+      title={change
+        ? `${CHANGE_CONFIG[change].label} since baseline`
+        : pii ? `${PII_CATEGORIES[pii.category].label}${pii.status === 'pending' ? ' (suggested, not reviewed)' : ''}` : undefined}
+    >
+      {(['left', 'right'] as const).map((side) => (['target', 'source'] as const).map((type) => (
+        <Handle
+          key={`${type}-${side}`}
+          type={type}
+          position={side === 'left' ? Position.Left : Position.Right}
+          id={columnHandleId(col.name, type, side)}
+          isConnectable={designing}
+          className={designing && type === 'source' ? COLUMN_HANDLE_DESIGN : COLUMN_HANDLE}
+        />
+      )))}
       <span className="flex gap-0.5 w-8 flex-shrink-0">
         {isPk && <span className="text-[9px] px-0.5 rounded bg-accent/20 text-accent">PK</span>}
         {isFk && <span className="text-[9px] px-0.5 rounded bg-node-view/20 text-node-view">FK</span>}
@@ -75,6 +166,14 @@ function ColumnRow({ col, isPk, isFk }: { col: ColumnInfo; isPk: boolean; isFk:
       <span className={`flex-1 truncate ${isPk ? 'text-text-primary font-medium' : 'text-text-secondary'}`}>
         {col.name}
       </span>
+      {pii && piiColor && (
+        <span
+          className={`text-[9px] px-0.5 rounded flex-shrink-0 ${pii.status === 'pending' ? 'border border-dashed' : ''}`}
+          style={{ color: piiColor, backgroundColor: `${piiColor}26`, borderColor: piiColor }}
+        >
+          {PII_CATEGORIES[pii.category].label}
+        </span>
+      )}
       <span className="text-text-muted text-[10px] flex-shrink-0">{col.dataType}</span>
       {!col.isNullable && <span className="text-severity-warning text-[9px]">*</span>}
     </div>
@@ -83,10 +182,14 @@ function ColumnRow({ col, isPk, isFk }: { col: ColumnInfo; isPk: boolean; isFk:
 
 // ── Compact Object Node ─────────────────────────────────────────────────────
 
-function CompactNode({ data }: { data: { label: string; type: string; detail?: string; color: string } }) {
+function CompactNode({ id, data }: { id: string; data: { label: string; type: string; detail?: string; color: string } }) {
   const { label, type, detail, color } = data;
+  const change = useBaselineChanges()?.objects.get(id);
   return (
-    <div className="bg-bg-card border border-border rounded-md shadow-md text-[11px] overflow-hidden min-w-[140px]">
+    <div
+      className="bg-bg-card border border-border rounded-md shadow-md text-[11px] overflow-hidden min-w-[140px]"
+      style={changeOutline(change)}
+    >
       <Handle type="target" position={Position.Top} className="!bg-accent !w-2 !h-2 !border-0" />
       <Handle type="source" position={Position.Bottom} className="!bg-accent !w-2 !h-2 !border-0" />
       <Handle type="target" position={Position.Left} id="left-target" className="!bg-accent !w-2 !h-2 !border-0" />
@@ -104,11 +207,32 @@ function CompactNode({ data }: { data: { label: string; type: string; detail?: s
 
 // ── Crow's foot edge ────────────────────────────────────────────────────────
 
+// ELK layouts leave room for right-angled routes, so edges follow them instead of curving
+const OrthogonalContext = createContext(false);
+
+// How far a route end may sit from its handle (handles overhang the node border) before the
+// route is treated as stale, e.g. after a table was dragged
+const ROUTE_TOLERANCE = 12;
+
+// Extra ELK runs allowed while column handles change sides between layouts
+const ELK_HANDLE_PASSES = 2;
+
+const near = (a: XYPosition, x: number, y: number) => Math.abs(a.x - x) <= ROUTE_TOLERANCE && Math.abs(a.y - y) <= ROUTE_TOLERANCE;
+
 function CrowsFootEdge(props: EdgeProps) {
-  const { sourceX, sourceY, targetX, targetY, style, markerEnd } = props;
-  const [edgePath] = getBezierPath({
-    sourceX, sourceY, targetX, targetY,
-  });
+  const { sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition, style, markerEnd, data } = props;
+  const orthogonal = useContext(OrthogonalContext);
+  const points = (data as { points?: XYPosition[] } | undefined)?.points;
+  let edgePath: string;
+  if (orthogonal && points && near(points[0], sourceX, sourceY) && near(points[points.length - 1], targetX, targetY)) {
+    // ELK's route, with its ends moved onto the handles
+    const route = [{ x: sourceX, y: sourceY }, ...points.slice(1, -1), { x: targetX, y: targetY }];
+    edgePath = route.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+  } else {
+    [edgePath] = orthogonal
+      ? getSmoothStepPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition, borderRadius: 6 })
+      : getBezierPath({ sourceX, sourceY, sourcePosition, targetX, targetY, targetPosition });
+  }
 
   return <BaseEdge path={edgePath} style={style} markerEnd={markerEnd} />;
 }
@@ -116,6 +240,38 @@ function CrowsFootEdge(props: EdgeProps) {
 const nodeTypes = { tableNode: TableNode, compactNode: CompactNode };
 const edgeTypes = { crowsfoot: CrowsFootEdge };
 
+/** Point edges that carry a column pair at the rows of those columns, when both are drawn. */
+function attachColumnHandles(edges: Edge[], nodes: Node[]): Edge[] {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const visible = new Map<string, Set<string>>();
+  const isVisible = (node: Node, column: string) => {
+    if (node.type !== 'tableNode') return false;
+    if (!visible.has(node.id)) {
+      const { table, collapsed } = node.data as TableNodeData;
+      const names = table.columns.filter((c) => c.isPrimaryKey).map((c) => c.name);
+      shownColumns(table, collapsed).forEach((c) => names.push(c.name));
+      visible.set(node.id, new Set(names));
+    }
+    return visible.get(node.id)!.has(column);
+  };
+
+  return edges.map((e) => {
+    const columns = e.data as { fromColumn?: string; toColumn?: string } | undefined;
+    const source = byId.get(e.source);
+    const target = byId.get(e.target);
+    if (!columns?.fromColumn || !columns.toColumn || !source || !target) return e;
+    // Self references loop out on the right; otherwise leave from the side facing the target
+    const rightward = e.source === e.target || source.position.x <= target.position.x;
+    return {
+      ...e,
+      sourceHandle: isVisible(source, columns.fromColumn) ? columnHandleId(columns.fromColumn, 'source', rightward ? 'right' : 'left') : null,
+      targetHandle: isVisible(target, columns.toColumn)
+        ? columnHandleId(columns.toColumn, 'target', e.source === e.target || !rightward ? 'right' : 'left')
+        : null,
+    };
+  });
+}
+
 // ── Layout cache for instant restore on revisit ─────────────────────────────
 
 interface ErdCachedLayout {
@@ -124,6 +280,10 @@ interface ErdCachedLayout {
 }
 let erdLayoutCache: ErdCachedLayout | null = null;
 let erdLayoutCacheKey = '';
+// Subject area and design draft shown when the page was left
+let erdActiveArea: string | null = null;
+let erdActiveDraft: string | null = null;
+let erdLayoutEngine: ErdLayoutEngine = 'dagre';
 
 // ── ERD Graph ───────────────────────────────────────────────────────────────
 
@@ -132,6 +292,30 @@ function ErdGraphInner() {
   const schema = result.schema!;
   const rels = result.relationships;
   const isServerMode = useStore((s) => s.isServerMode);
+  const piiOverlay = useStore((s) => s.piiOverlay);
+  const togglePiiOverlay = useStore((s) => s.togglePiiOverlay);
+  const highlightedPath = useStore((s) => s.highlightedPath);
+  const [showPathFinder, setShowPathFinder] = useState(() => highlightedPath !== null);
+  const subjectAreas = useStore((s) => s.subjectAreas);
+  const setSubjectArea = useStore((s) => s.setSubjectArea);
+  const schemaDrafts = useStore((s) => s.schemaDrafts);
+  const setSchemaDraft = useStore((s) => s.setSchemaDraft);
+  const { fitView, setViewport, getViewport, screenToFlowPosition } = useReactFlow();
+
+  // A subject area replaces the filters with its own objects, positions, zoom and collapsed tables
+  const [activeArea, setActiveArea] = useState<string | null>(() => (erdActiveArea && subjectAreas[erdActiveArea] ? erdActiveArea : null));
+  const area: SubjectArea | null = activeArea ? subjectAreas[activeArea] ?? null : null;
+  const areaRef = useRef(area);
+  areaRef.current = area;
+  const areaObjects = area?.objects;
+
+  // A design draft overlays its added and edited tables on the loaded schema
+  const [activeDraft, setActiveDraft] = useState<string | null>(() => (erdActiveDraft && schemaDrafts[erdActiveDraft] ? erdActiveDraft : null));
+  const draft: SchemaDraft | null = activeDraft ? schemaDrafts[activeDraft] ?? null : null;
+  const designSchema = useMemo(() => (draft ? applyDraft(schema, draft) : schema), [schema, draft]);
+  const draftChanges = useMemo(() => (draft ? buildChanges(schema, designSchema) : null), [schema, designSchema, draft]);
+  // Draft edits keep every node where it is on screen instead of laying out again
+  const keepLayout = useRef<Map<string, { position: { x: number; y: number }; collapsed: boolean }> | null>(null);
 
   // Database filters (server mode only)
   const databaseFilters = useMemo(() => {
@@ -167,6 +351,17 @@ function ErdGraphInner() {
   }, [schema]);
 
   const [activeTypes, setActiveTypes] = useState(() => new Set(['table', 'view']));
+  const [showImplicit, setShowImplicit] = useState(true);
+  const [minConfidence, setMinConfidence] = useState(0.7);
+
+  // Make sure every object on a highlighted path is drawn
+  useEffect(() => {
+    if (!highlightedPath || !rels) return;
+    const types = highlightedPath.nodes
+      .map((n) => rels.dependencies.find((d) => d.fullName === n)?.objectType.toLowerCase())
+      .filter((t): t is string => !!t && objectTypes.some((o) => o.key === t));
+    setActiveTypes((prev) => (types.every((t) => prev.has(t)) ? prev : new Set([...prev, ...types])));
+  }, [highlightedPath, rels, objectTypes]);
 
   // Helper: get node color based on mode
   const getColor = useCallback((objectType: string, dbName?: string) => {
@@ -180,12 +375,15 @@ function ErdGraphInner() {
     return dbName ? activeDatabases.has(dbName) : true;
   }, [isServerMode, activeDatabases]);
 
-  const { initialNodes, initialEdges, cacheKey } = useMemo(() => {
+  const { initialNodes, initialEdges, cacheKey, needsLayout } = useMemo(() => {
     const nodes: Node[] = [];
     const edges: Edge[] = [];
+    const inArea = areaObjects ? new Set(areaObjects) : null;
+    const showType = (type: string) => inArea !== null || activeTypes.has(type);
+    const show = (fullName: string, dbName?: string) => (inArea ? inArea.has(fullName) : dbFilter(dbName));
 
-    if (activeTypes.has('table')) {
-      schema.tables.filter((t) => dbFilter(t.databaseName)).forEach((table) => {
+    if (showType('table')) {
+      designSchema.tables.filter((t) => show(t.fullName, t.databaseName) || !!draft?.tables[t.fullName]).forEach((table) => {
         nodes.push({
           id: table.fullName,
           type: 'tableNode',
@@ -197,8 +395,8 @@ function ErdGraphInner() {
       });
     }
 
-    if (activeTypes.has('view')) {
-      schema.views.filter((v) => dbFilter(v.databaseName)).forEach((view) => {
+    if (showType('view')) {
+      schema.views.filter((v) => show(v.fullName, v.databaseName)).forEach((view) => {
         const tableEquiv: TableInfo = {
           schemaName: view.schemaName,
           tableName: view.viewName,
@@ -219,8 +417,8 @@ function ErdGraphInner() {
       });
     }
 
-    if (activeTypes.has('procedure')) {
-      schema.storedProcedures.filter((sp) => dbFilter(sp.databaseName)).forEach((sp) => {
+    if (showType('procedure')) {
+      schema.storedProcedures.filter((sp) => show(sp.fullName, sp.databaseName)).forEach((sp) => {
         const label = sp.fullName.split('.').pop() ?? sp.fullName;
         nodes.push({
           id: sp.fullName,
@@ -233,8 +431,8 @@ function ErdGraphInner() {
       });
     }
 
-    if (activeTypes.has('function')) {
-      schema.functions.filter((fn) => dbFilter(fn.databaseName)).forEach((fn) => {
+    if (showType('function')) {
+      schema.functions.filter((fn) => show(fn.fullName, fn.databaseName)).forEach((fn) => {
         const label = fn.fullName.split('.').pop() ?? fn.fullName;
         nodes.push({
           id: fn.fullName,
@@ -247,8 +445,8 @@ function ErdGraphInner() {
       });
     }
 
-    if (activeTypes.has('trigger')) {
-      schema.triggers.filter((t) => dbFilter(t.databaseName)).forEach((trg) => {
+    if (showType('trigger')) {
+      schema.triggers.filter((t) => show(t.fullName, t.databaseName)).forEach((trg) => {
         const label = trg.fullName.split('.').pop() ?? trg.fullName;
         nodes.push({
           id: trg.fullName,
@@ -261,8 +459,8 @@ function ErdGraphInner() {
       });
     }
 
-    if (activeTypes.has('synonym')) {
-      schema.synonyms.filter((s) => dbFilter(s.databaseName)).forEach((syn) => {
+    if (showType('synonym')) {
+      schema.synonyms.filter((s) => show(s.fullName, s.databaseName)).forEach((syn) => {
         const label = syn.fullName.split('.').pop() ?? syn.fullName;
         nodes.push({
           id: syn.fullName,
@@ -295,6 +493,7 @@ function ErdGraphInner() {
             style: { stroke: '#4fc3f7', strokeWidth: 1.5 },
             label: fk.name.length > 30 ? '' : fk.name,
             labelStyle: { fontSize: 9, fill: '#888' },
+            data: { fromColumn: fk.fromColumn, toColumn: fk.toColumn },
           });
         }
       });
@@ -314,30 +513,31 @@ function ErdGraphInner() {
             });
           }
         });
+    }
 
-      // Implicit FK edges (dotted)
-      rels.implicitRelationships
-        .filter((r) => r.confidence >= 0.7)
-        .forEach((r, i) => {
-          const from = r.fromDatabase
-            ? `${r.fromDatabase}.${r.fromSchema}.${r.fromTable}`
-            : `${r.fromSchema}.${r.fromTable}`;
-          const to = r.toDatabase
-            ? `${r.toDatabase}.${r.toSchema}.${r.toTable}`
-            : `${r.toSchema}.${r.toTable}`;
-          if (nodeSet.has(from) && nodeSet.has(to)) {
-            edges.push({
-              id: `erd-impl-${i}`,
-              source: from,
-              target: to,
-              style: { stroke: '#78909c', strokeDasharray: '2 4', strokeWidth: 1 },
-            });
-          }
-        });
+    // FKs sketched in the draft are not in the analyzed relationships
+    if (draft) {
+      const loaded = new Map(schema.tables.map((t) => [t.fullName, new Set(t.foreignKeys.map((fk) => fk.name))]));
+      Object.values(draft.tables).forEach((table) => table.foreignKeys.forEach((fk) => {
+        if (loaded.get(table.fullName)?.has(fk.name)) return;
+        const to = fk.toDatabase ? `${fk.toDatabase}.${fk.toSchema}.${fk.toTable}` : `${fk.toSchema}.${fk.toTable}`;
+        if (nodeSet.has(table.fullName) && nodeSet.has(to)) {
+          edges.push({
+            id: `erd-draft-fk-${table.fullName}.${fk.name}.${fk.fromColumn}`,
+            source: table.fullName,
+            target: to,
+            type: 'crowsfoot',
+            style: { stroke: CHANGE_CONFIG.added.color, strokeWidth: 1.5 },
+            label: fk.name,
+            labelStyle: { fontSize: 9, fill: '#888' },
+            data: { fromColumn: fk.fromColumn, toColumn: fk.toColumn },
+          });
+        }
+      }));
     }
 
     // Trigger → parent table edges
-    if (activeTypes.has('trigger')) {
+    if (showType('trigger')) {
       schema.triggers.forEach((trg, i) => {
         if (nodeSet.has(trg.fullName) && nodeSet.has(trg.parentFullName)) {
           edges.push({
@@ -350,29 +550,31 @@ function ErdGraphInner() {
       });
     }
 
-    const laid = getLayoutedElements(nodes, edges, {
-      rankSep: 200,
-      nodeSep: 40,
-      nodeWidth: 240,
-      nodeHeight: 250,
-    });
-
-    // Check cache — restore positions if same node set
+    // Positions kept across a draft edit, else pinned positions of the subject area, else the
+    // cache — restore positions if same node set. Anything left unplaced is laid out by the
+    // layout worker once the nodes are shown.
     const cacheKey = nodes.map((n) => n.id).sort().join('|');
-    if (erdLayoutCache && erdLayoutCacheKey === cacheKey) {
-      const cached = erdLayoutCache;
-      laid.nodes.forEach((n) => {
-        const pos = cached.positions.get(n.id);
-        if (pos) n.position = pos;
-      });
-    }
+    const kept = keepLayout.current;
+    const pinned = inArea ? areaRef.current : null;
+    const cached = !inArea && erdLayoutCache && erdLayoutCacheKey === cacheKey ? erdLayoutCache.positions : null;
+    const collapsed = new Set(pinned?.collapsed);
+    let placed = 0;
+    nodes.forEach((n) => {
+      const keep = kept?.get(n.id);
+      const pos = keep?.position ?? pinned?.positions[n.id] ?? cached?.get(n.id);
+      if (pos) {
+        n.position = pos;
+        placed++;
+      }
+      if (keep ? keep.collapsed : collapsed.has(n.id)) n.data = { ...n.data, collapsed: true };
+    });
 
-    return { initialNodes: laid.nodes, initialEdges: laid.edges, cacheKey };
-  }, [schema, rels, activeTypes, getColor, dbFilter]);
+    return { initialNodes: nodes, initialEdges: edges, cacheKey, needsLayout: placed < nodes.length };
+  }, [schema, designSchema, draft, rels, activeTypes, getColor, dbFilter, areaObjects]);
 
   // Check cache match at render time so we know whether to fitView or restore
-  const hasCache = erdLayoutCache !== null && erdLayoutCacheKey === cacheKey;
-  const cachedViewport = hasCache ? erdLayoutCache!.viewport : null;
+  const hasCache = !area && erdLayoutCache !== null && erdLayoutCacheKey === cacheKey;
+  const cachedViewport = area ? area.viewport : hasCache ? erdLayoutCache!.viewport : null;
   const cacheKeyRef = useRef(cacheKey);
   cacheKeyRef.current = cacheKey;
 
@@ -381,11 +583,70 @@ function ErdGraphInner() {
   const nodesRef = useRef(nodes);
   nodesRef.current = nodes;
   const viewportRef = useRef<Viewport | null>(null);
+  // Set when a layout change should be written back into the active subject area
+  const persistPending = useRef(false);
+
+  // ── Layout (computed in a worker) ──
+
+  const computeLayout = useErdLayout();
+  const [layoutEngine, setLayoutEngine] = useState<ErdLayoutEngine>(erdLayoutEngine);
+  const [layingOut, setLayingOut] = useState(false);
+  const layingOutRef = useRef(layingOut);
+  layingOutRef.current = layingOut;
+  const layoutRun = useRef(0);
+
+  // Only the latest run is applied; positions merge into the current nodes, which may have
+  // been collapsed or expanded while the worker was busy
+  const runLayout = useCallback(async (source: Node[], layoutEdges: Edge[], engine: ErdLayoutEngine, keep?: SubjectArea['positions']) => {
+    const run = ++layoutRun.current;
+    setLayingOut(true);
+    try {
+      let routed = attachColumnHandles(layoutEdges, source);
+      let laid = await computeLayout(source, routed, engine);
+      // ELK routes between the column handles it was given; moving tables can flip an edge to the
+      // other side of a table, so lay out again until the handles settle
+      for (let pass = 0; engine === 'elk' && pass < ELK_HANDLE_PASSES; pass++) {
+        if (run !== layoutRun.current) return;
+        const next = attachColumnHandles(layoutEdges, laid.nodes);
+        if (next.every((e, i) => e.sourceHandle === routed[i].sourceHandle && e.targetHandle === routed[i].targetHandle)) break;
+        routed = next;
+        laid = await computeLayout(source, routed, engine);
+      }
+      if (run !== layoutRun.current) return;
+      const { routes } = laid;
+      const positions = new Map(laid.nodes.map((n) => [n.id, keep?.[n.id] ?? n.position]));
+      persistPending.current = true;
+      setNodes((nds) => nds.map((n) => (positions.has(n.id) ? { ...n, position: positions.get(n.id)! } : n)));
+      // Other engines clear any route left by an earlier ELK run
+      setEdges((eds) => eds.map((e) => {
+        const points = routes.get(e.id);
+        return points || (e.data as { points?: XYPosition[] } | undefined)?.points
+          ? { ...e, data: { ...e.data, points } }
+          : e;
+      }));
+      setTimeout(() => fitView({ padding: 0.05 }), 50);
+    } catch (err) {
+      window.electronAPI?.log.error('ERD layout failed:', err instanceof Error ? err.message : String(err));
+    } finally {
+      if (run === layoutRun.current) setLayingOut(false);
+    }
+  }, [computeLayout, setNodes, setEdges, fitView]);
 
   useEffect(() => {
+    const kept = keepLayout.current;
+    keepLayout.current = null;
     setNodes(initialNodes);
     setEdges(initialEdges);
-  }, [initialNodes, initialEdges, setNodes, setEdges]);
+    if (needsLayout) {
+      const keep = kept
+        ? { ...areaRef.current?.positions, ...Object.fromEntries([...kept].map(([id, k]) => [id, k.position])) }
+        : areaRef.current?.positions;
+      runLayout(initialNodes, initialEdges, erdLayoutEngine, keep);
+    } else {
+      layoutRun.current++;
+      setLayingOut(false);
+    }
+  }, [initialNodes, initialEdges, needsLayout, setNodes, setEdges, runLayout]);
 
   // Restore cached viewport or fitView after ReactFlow fully initializes
   const handleInit = useCallback((instance: any) => {
@@ -402,9 +663,11 @@ function ErdGraphInner() {
     viewportRef.current = vp;
   }, []);
 
-  // Save positions and viewport on unmount
+  // Save positions and viewport on unmount; subject areas keep their own
   useEffect(() => {
     return () => {
+      // Nothing worth caching while the first layout is still in the worker
+      if (areaRef.current || layingOutRef.current) return;
       const positions = new Map<string, { x: number; y: number }>();
       nodesRef.current.forEach((n) => positions.set(n.id, { ...n.position }));
       erdLayoutCache = { positions, viewport: viewportRef.current };
@@ -412,72 +675,403 @@ function ErdGraphInner() {
     };
   }, []);
 
-  const handleAutoLayout = useCallback(() => {
-    const laid = getLayoutedElements(nodes, edges, {
-      rankSep: 200,
-      nodeSep: 40,
-      nodeWidth: 240,
-      nodeHeight: 250,
+  // ── Subject areas ──
+
+  const saveArea = useCallback((name: string, objects: string[], viewport: Viewport | null, moved: Node[] = []) => {
+    const keep = new Set(objects);
+    const current = new Map(nodesRef.current.map((n) => [n.id, n]));
+    moved.forEach((n) => current.set(n.id, n));
+    const positions: SubjectArea['positions'] = {};
+    current.forEach((n) => {
+      if (keep.has(n.id)) positions[n.id] = { x: Math.round(n.position.x), y: Math.round(n.position.y) };
+    });
+    setSubjectArea(name, {
+      objects,
+      positions,
+      viewport,
+      collapsed: [...current.values()].filter((n) => keep.has(n.id) && n.data.collapsed).map((n) => n.id),
+      updatedAt: new Date().toISOString(),
     });
-    setNodes(laid.nodes);
-  }, [nodes, edges, setNodes]);
+  }, [setSubjectArea]);
+
+  // Write layout edits straight back into the active area
+  const persistArea = useCallback((moved: Node[] = []) => {
+    if (!activeArea || !areaRef.current) return;
+    saveArea(activeArea, areaRef.current.objects, viewportRef.current ?? getViewport(), moved);
+  }, [activeArea, saveArea, getViewport]);
+
+  useEffect(() => {
+    if (!persistPending.current) return;
+    persistPending.current = false;
+    persistArea();
+  }, [nodes, persistArea]);
+
+  const toggleCollapsed = useCallback((id: string) => {
+    persistPending.current = true;
+    setNodes((nds) => nds.map((n) => (n.id === id ? { ...n, data: { ...n.data, collapsed: !n.data.collapsed } } : n)));
+  }, [setNodes]);
+
+  // Switching areas restores the saved zoom; the first render is handled by handleInit
+  const areaSwitched = useRef(false);
+  useEffect(() => {
+    erdActiveArea = activeArea;
+    if (!areaSwitched.current) {
+      areaSwitched.current = true;
+      return;
+    }
+    const viewport = areaRef.current?.viewport;
+    setTimeout(() => (viewport ? setViewport(viewport) : fitView({ padding: 0.05 })), 50);
+  }, [activeArea, setViewport, fitView]);
+
+  const selectedIds = nodes.filter((n) => n.selected).map((n) => n.id);
+
+  const handleCreateArea = (name: string) => {
+    // From the selected nodes when there are any, else everything on screen
+    const objects = selectedIds.length > 0 ? selectedIds : nodes.map((n) => n.id);
+    saveArea(name, objects, selectedIds.length > 0 ? null : viewportRef.current);
+    setActiveArea(name);
+  };
+
+  const handleRemoveSelected = () => {
+    if (!activeArea || !area) return;
+    const removed = new Set(selectedIds);
+    saveArea(activeArea, area.objects.filter((id) => !removed.has(id)), viewportRef.current);
+  };
+
+  const handleDeleteArea = () => {
+    if (!activeArea) return;
+    setSubjectArea(activeArea, null);
+    setActiveArea(null);
+  };
+
+  // ── Design drafts ──
+
+  useEffect(() => {
+    erdActiveDraft = activeDraft;
+  }, [activeDraft]);
+
+  const designTables = useMemo(() => new Map(designSchema.tables.map((t) => [t.fullName, t])), [designSchema]);
+  const loadedTables = useMemo(() => new Map(schema.tables.map((t) => [t.fullName, t])), [schema]);
+  const selectedTable = selectedIds.length === 1 ? designTables.get(selectedIds[0]) ?? null : null;
+
+  const keepOnScreen = (added?: { id: string; position: { x: number; y: number } }) => {
+    const keep = new Map(nodesRef.current.map((n) => [n.id, { position: n.position, collapsed: !!n.data.collapsed }]));
+    if (added) keep.set(added.id, { position: added.position, collapsed: false });
+    keepLayout.current = keep;
+  };
+
+  const saveDraft = (name: string, tables: SchemaDraft['tables'], added?: { id: string; position: { x: number; y: number } }) => {
+    keepOnScreen(added);
+    setSchemaDraft(name, { tables, updatedAt: new Date().toISOString() });
+  };
+
+  const handleSelectDraft = (name: string | null) => {
+    keepOnScreen();
+    setActiveDraft(name);
+  };
+
+  const handleCreateDraft = (name: string) => {
+    saveDraft(name, {});
+    setActiveDraft(name);
+  };
+
+  const handleDeleteDraft = () => {
+    if (!activeDraft) return;
+    keepOnScreen();
+    setSchemaDraft(activeDraft, null);
+    setActiveDraft(null);
+  };
+
+  const handleExportDraft = async (dialect: SqlDialect) => {
+    if (!activeDraft || !draft) return;
+    const content = generateDraftDdl(schema, activeDraft, draft, dialect);
+    await window.electronAPI?.exportFile(content, `${activeDraft}-${dialect}.sql`, [{ name: 'SQL Scripts', extensions: ['sql'] }]);
+  };
+
+  const updateDraftTable = (table: TableInfo) => {
+    if (!activeDraft || !draft) return;
+    saveDraft(activeDraft, { ...draft.tables, [table.fullName]: table });
+  };
+
+  // Dropping a table the draft added also drops the draft FKs that point at it
+  const revertDraftTable = (fullName: string) => {
+    if (!activeDraft || !draft) return;
+    const { [fullName]: _reverted, ...rest } = draft.tables;
+    if (!loadedTables.has(fullName)) {
+      Object.entries(rest).forEach(([name, t]) => {
+        const foreignKeys = t.foreignKeys.filter((fk) => (fk.toDatabase ? `${fk.toDatabase}.${fk.toSchema}.${fk.toTable}` : `${fk.toSchema}.${fk.toTable}`) !== fullName);
+        if (foreignKeys.length !== t.foreignKeys.length) rest[name] = { ...t, foreignKeys };
+      });
+    }
+    saveDraft(activeDraft, rest);
+  };
+
+  const handleAddTable = (schemaName: string, tableName: string): boolean => {
+    if (!activeDraft || !draft) return false;
+    const databaseName = isServerMode ? (selectedTable ?? schema.tables[0])?.databaseName : undefined;
+    const table = draftTable(schemaName, tableName, databaseName);
+    if (designTables.has(table.fullName)) return false;
+    const bounds = document.querySelector('.react-flow')?.getBoundingClientRect();
+    const position = bounds
+      ? screenToFlowPosition({ x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 3 })
+      : { x: 0, y: 0 };
+    saveDraft(activeDraft, { ...draft.tables, [table.fullName]: table }, { id: table.fullName, position });
+    return true;
+  };
+
+  // Dragging from a column (or a table's source handle) to another table adds an FK
+  const handleConnect = (connection: Connection) => {
+    const from = designTables.get(connection.source);
+    const to = designTables.get(connection.target);
+    if (!from || !to) return;
+    const columnOf = (handle: string | null | undefined) => /^col:(.*):(?:source|target):(?:left|right)$/.exec(handle ?? '')?.[1];
+    const updated = addDraftForeignKey(from, to, columnOf(connection.sourceHandle), columnOf(connection.targetHandle));
+    if (updated) updateDraftTable(updated);
+  };
+
+  // Implicit relationships stay out of the layout so the confidence slider doesn't move tables around
+  const implicitEdges = useMemo(() => {
+    if (!rels || !showImplicit) return [];
+    const nodeSet = new Set(initialNodes.map((n) => n.id));
+    const result: Edge[] = [];
+    rels.implicitRelationships.forEach((r, i) => {
+      if (r.confidence < minConfidence) return;
+      const from = r.fromDatabase
+        ? `${r.fromDatabase}.${r.fromSchema}.${r.fromTable}`
+        : `${r.fromSchema}.${r.fromTable}`;
+      const to = r.toDatabase
+        ? `${r.toDatabase}.${r.toSchema}.${r.toTable}`
+        : `${r.toSchema}.${r.toTable}`;
+      if (nodeSet.has(from) && nodeSet.has(to)) {
+        result.push({
+          id: `erd-impl-${i}`,
+          source: from,
+          target: to,
+          type: 'crowsfoot',
+          style: { stroke: '#78909c', strokeDasharray: '6 4', strokeWidth: 1 },
+          label: `${Math.round(r.confidence * 100)}%`,
+          labelStyle: { fontSize: 9, fill: '#888' },
+          data: { fromColumn: r.fromColumn, toColumn: r.toColumn },
+        });
+      }
+    });
+    return result;
+  }, [rels, showImplicit, minConfidence, initialNodes]);
+
+  const allEdges = useMemo(() => [...edges, ...implicitEdges], [edges, implicitEdges]);
+  const routedEdges = useMemo(() => attachColumnHandles(allEdges, nodes), [allEdges, nodes]);
+
+  // Dim everything off the highlighted path; the stored nodes stay untouched for layout and export
+  const { displayNodes, displayEdges } = useMemo(() => {
+    if (!highlightedPath) return { displayNodes: nodes, displayEdges: routedEdges };
+    const onPath = new Set(highlightedPath.nodes);
+    const pathEdges = new Set(highlightedPath.hops.map((h) => pathEdgeKey(h.from, h.to)));
+    return {
+      displayNodes: nodes.map((n) => ({
+        ...n,
+        style: onPath.has(n.id)
+          ? { ...n.style, boxShadow: `0 0 0 3px ${PATH_HIGHLIGHT_COLOR}`, borderRadius: 6 }
+          : { ...n.style, opacity: 0.25 },
+      })),
+      displayEdges: routedEdges.map((e) => (pathEdges.has(pathEdgeKey(e.source, e.target))
+        ? { ...e, animated: true, style: { ...e.style, stroke: PATH_HIGHLIGHT_COLOR, strokeWidth: 3, opacity: 1 } }
+        : { ...e, style: { ...e.style, opacity: 0.15 } })),
+    };
+  }, [nodes, routedEdges, highlightedPath]);
+
+  const handleAutoLayout = useCallback(() => {
+    runLayout(nodes, edges, layoutEngine);
+  }, [nodes, edges, layoutEngine, runLayout]);
+
+  const handleLayoutEngine = (engine: ErdLayoutEngine) => {
+    erdLayoutEngine = engine;
+    setLayoutEngine(engine);
+    runLayout(nodes, edges, engine);
+  };
 
   return (
     <div className="flex flex-col gap-3 h-[calc(100vh-104px)] overflow-hidden">
       <div className="flex items-center justify-between shrink-0">
         <h2 className="text-lg font-semibold text-text-primary">Entity Relationship Diagram</h2>
-        <span className="text-xs text-text-muted">{nodes.length} objects</span>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-text-muted">{nodes.length} objects</span>
+          {rels && (
+            <button
+              onClick={() => setShowPathFinder(!showPathFinder)}
+              className={`px-3 py-1.5 rounded text-xs border transition-colors ${
+                showPathFinder ? 'text-accent border-accent/50' : 'text-text-secondary hover:text-accent border-border hover:border-accent/50'
+              }`}
+            >
+              Find path
+            </button>
+          )}
+          <button
+            onClick={togglePiiOverlay}
+            className={`px-3 py-1.5 rounded text-xs border transition-colors ${
+              piiOverlay ? 'text-accent border-accent/50' : 'text-text-secondary hover:text-accent border-border hover:border-accent/50'
+            }`}
+            title="Highlight columns classified as personal data (dashed: suggested, not yet reviewed)"
+          >
+            PII overlay
+          </button>
+          <div className="flex items-center gap-1" title="Layout used by auto layout">
+            {ERD_LAYOUT_ENGINES.map((e) => (
+              <button
+                key={e.key}
+                onClick={() => handleLayoutEngine(e.key)}
+                title={e.title}
+                className={`px-2 py-1 rounded text-[10px] font-medium transition-colors ${
+                  layoutEngine === e.key ? 'bg-accent/20 text-accent' : 'text-text-muted hover:text-text-secondary'
+                }`}
+              >
+                {e.label}
+              </button>
+            ))}
+          </div>
+          <DraftMenu
+            drafts={Object.keys(schemaDrafts).sort((a, b) => a.localeCompare(b))}
+            active={draft ? activeDraft : null}
+            changedTables={draft ? Object.keys(draft.tables).length : 0}
+            onSelect={handleSelectDraft}
+            onCreate={handleCreateDraft}
+            onExport={handleExportDraft}
+            onDelete={handleDeleteDraft}
+          />
+          <SubjectAreaMenu
+            areas={Object.keys(subjectAreas).sort((a, b) => a.localeCompare(b))}
+            active={area ? activeArea : null}
+            selectedCount={selectedIds.length}
+            onSelect={setActiveArea}
+            onCreate={handleCreateArea}
+            onRemoveSelected={handleRemoveSelected}
+            onDelete={handleDeleteArea}
+          />
+          <ErdExportMenu nodes={nodes} edges={allEdges} />
+        </div>
       </div>
 
       <div className="shrink-0 flex items-center gap-6 flex-wrap">
-        {isServerMode && databaseFilters.length > 0 && (
+        <div
+          className={`flex items-center gap-6 flex-wrap ${area ? 'opacity-50 pointer-events-none' : ''}`}
+          title={area ? 'Filters do not apply while a subject area is shown' : undefined}
+        >
+          {isServerMode && databaseFilters.length > 0 && (
+            <>
+              <FilterBar
+                label="Databases"
+                items={databaseFilters}
+                active={activeDatabases}
+                onToggle={(key) => {
+                  setActiveDatabases((prev) => {
+                    const next = new Set(prev);
+                    if (next.has(key)) next.delete(key); else next.add(key);
+                    return next;
+                  });
+                }}
+              />
+              <div className="w-px h-4 bg-border" />
+            </>
+          )}
+          <FilterBar
+            label="Objects"
+            items={objectTypes}
+            active={activeTypes}
+            onToggle={(key) => {
+              setActiveTypes((prev) => {
+                const next = new Set(prev);
+                if (next.has(key)) next.delete(key); else next.add(key);
+                return next;
+              });
+            }}
+          />
+        </div>
+        {rels && rels.implicitRelationships.length > 0 && (
           <>
-            <FilterBar
-              label="Databases"
-              items={databaseFilters}
-              active={activeDatabases}
-              onToggle={(key) => {
-                setActiveDatabases((prev) => {
-                  const next = new Set(prev);
-                  if (next.has(key)) next.delete(key); else next.add(key);
-                  return next;
-                });
-              }}
-            />
             <div className="w-px h-4 bg-border" />
+            <label className="flex items-center gap-1.5 text-xs text-text-secondary cursor-pointer" title="Draw relationships inferred from column names and data as dashed edges">
+              <input
+                type="checkbox"
+                checked={showImplicit}
+                onChange={(e) => setShowImplicit(e.target.checked)}
+                className="accent-accent"
+              />
+              Implicit FKs
+            </label>
+            {showImplicit && (
+              <label className="flex items-center gap-1.5 text-xs text-text-muted" title="Minimum confidence of implicit relationships to draw">
+                min
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={minConfidence}
+                  onChange={(e) => setMinConfidence(Number(e.target.value))}
+                  className="w-24 accent-accent"
+                />
+                <span className="w-8 text-text-secondary">{Math.round(minConfidence * 100)}%</span>
+              </label>
+            )}
           </>
         )}
-        <FilterBar
-          label="Objects"
-          items={objectTypes}
-          active={activeTypes}
-          onToggle={(key) => {
-            setActiveTypes((prev) => {
-              const next = new Set(prev);
-              if (next.has(key)) next.delete(key); else next.add(key);
-              return next;
-            });
-          }}
-        />
       </div>
 
-      <div className="flex-1 min-h-0 bg-bg-secondary border border-border rounded-lg relative">
-        <ReactFlow
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={onNodesChange}
-          onEdgesChange={onEdgesChange}
-          nodeTypes={nodeTypes}
-          edgeTypes={edgeTypes}
-          onInit={handleInit}
-          onViewportChange={handleViewportChange}
-          fitView={false}
-          minZoom={0.05}
-          maxZoom={2}
-        >
-          <Background />
-          <GraphControls onAutoLayout={handleAutoLayout} />
-        </ReactFlow>
+      {rels && showPathFinder && (
+        <div className="shrink-0">
+          <PathFinder />
+        </div>
+      )}
+
+      <div className="flex-1 min-h-0 flex gap-3">
+        <div className="flex-1 min-w-0 bg-bg-secondary border border-border rounded-lg relative">
+          <CollapseContext.Provider value={toggleCollapsed}>
+            <OrthogonalContext.Provider value={layoutEngine === 'elk'}>
+              <DraftContext.Provider value={draftChanges}>
+                <ReactFlow
+                  nodes={displayNodes}
+                  edges={displayEdges}
+                  onNodesChange={onNodesChange}
+                  onEdgesChange={onEdgesChange}
+                  nodeTypes={nodeTypes}
+                  edgeTypes={edgeTypes}
+                  onInit={handleInit}
+                  onViewportChange={handleViewportChange}
+                  onNodeDragStop={(_event, _node, moved) => persistArea(moved)}
+                  onMoveEnd={() => persistArea()}
+                  nodesConnectable={!!draft}
+                  connectionMode={ConnectionMode.Loose}
+                  onConnect={handleConnect}
+                  fitView={false}
+                  minZoom={0.05}
+                  maxZoom={2}
+                >
+                  <Background />
+                  <GraphControls onAutoLayout={handleAutoLayout} />
+                </ReactFlow>
+              </DraftContext.Provider>
+            </OrthogonalContext.Provider>
+          </CollapseContext.Provider>
+          {layingOut && (
+            <div className="absolute inset-0 flex items-center justify-center bg-bg-secondary/70 rounded-lg z-10">
+              <div className="flex items-center gap-2 text-xs text-text-secondary">
+                <div className="w-4 h-4 border-2 border-accent border-t-transparent rounded-full animate-spin shrink-0" />
+                Laying out {nodes.length} objects...
+              </div>
+            </div>
+          )}
+        </div>
+        {draft && (
+          <DraftPanel
+            key={activeDraft}
+            table={selectedTable}
+            original={selectedTable ? loadedTables.get(selectedTable.fullName) ?? null : null}
+            edited={!!selectedTable && selectedTable.fullName in draft.tables}
+            defaultSchema={selectedTable?.schemaName ?? 'dbo'}
+            onAddTable={handleAddTable}
+            onChange={updateDraftTable}
+            onRevert={() => selectedTable && revertDraftTable(selectedTable.fullName)}
+          />
+        )}
       </div>
     </div>
   );
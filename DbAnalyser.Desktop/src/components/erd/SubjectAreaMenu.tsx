@@ -0,0 +1,116 @@
+import { useState, useEffect, useRef } from 'react';
+
+interface SubjectAreaMenuProps {
+  areas: string[];
+  active: string | null;
+  selectedCount: number;
+  onSelect: (name: string | null) => void;
+  onCreate: (name: string) => void;
+  onRemoveSelected: () => void;
+  onDelete: () => void;
+}
+
+/** Switch between saved subject areas of the ERD, or save the current view as a new one. */
+export function SubjectAreaMenu({ areas, active, selectedCount, onSelect, onCreate, onRemoveSelected, onDelete }: SubjectAreaMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const trimmed = name.trim();
+  const exists = areas.includes(trimmed);
+
+  const handleCreate = () => {
+    if (!trimmed || exists) return;
+    onCreate(trimmed);
+    setName('');
+    setOpen(false);
+  };
+
+  const itemClass = 'w-full text-left px-3 py-1.5 text-xs hover:bg-bg-hover transition-colors';
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`px-3 py-1.5 rounded text-xs border transition-colors max-w-[200px] truncate ${
+          active ? 'text-accent border-accent/50' : 'text-text-secondary hover:text-accent border-border hover:border-accent/50'
+        }`}
+        title="Saved subsets of the diagram with their own layout"
+      >
+        {active ?? 'All objects'} ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-60 bg-bg-card border border-border rounded shadow-lg z-20 py-1">
+          <button
+            onClick={() => { onSelect(null); setOpen(false); }}
+            className={`${itemClass} ${active === null ? 'text-accent' : 'text-text-secondary hover:text-text-primary'}`}
+          >
+            All objects
+          </button>
+          {areas.map((a) => (
+            <button
+              key={a}
+              onClick={() => { onSelect(a); setOpen(false); }}
+              className={`${itemClass} truncate ${active === a ? 'text-accent' : 'text-text-secondary hover:text-text-primary'}`}
+            >
+              {a}
+            </button>
+          ))}
+
+          <div className="my-1 border-t border-border" />
+          <div className="px-3 py-1.5 space-y-1">
+            <p className="text-[10px] text-text-muted">
+              Save {selectedCount > 0 ? `${selectedCount} selected` : 'everything shown'} as a subject area
+            </p>
+            <div className="flex gap-1">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                placeholder="Area name"
+                className="flex-1 min-w-0 bg-bg-primary border border-border rounded px-2 py-1 text-xs text-text-primary placeholder:text-text-muted focus:border-accent focus:outline-none"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={!trimmed || exists}
+                className="px-2 py-1 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+            {exists && <p className="text-[10px] text-severity-warning">An area with this name exists</p>}
+          </div>
+
+          {active && (
+            <>
+              <div className="my-1 border-t border-border" />
+              {selectedCount > 0 && (
+                <button
+                  onClick={() => { onRemoveSelected(); setOpen(false); }}
+                  className={`${itemClass} text-text-secondary hover:text-text-primary`}
+                >
+                  Remove {selectedCount} selected from area
+                </button>
+              )}
+              <button
+                onClick={() => { onDelete(); setOpen(false); }}
+                className={`${itemClass} text-severity-error`}
+              >
+                Delete "{active}"
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { generateDataDictionary, DICTIONARY_FORMATS, type DictionaryFormat } from '../../hooks/useDataDictionary';
+
+export function DataDictionaryMenu() {
+  const result = useStore((s) => s.result);
+  const annotations = useStore((s) => s.annotations);
+  const [open, setOpen] = useState(false);
+  const [exportedTo, setExportedTo] = useState<string | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  useEffect(() => {
+    if (!exportedTo) return;
+    const timer = setTimeout(() => setExportedTo(null), 3000);
+    return () => clearTimeout(timer);
+  }, [exportedTo]);
+
+  if (!result?.schema) return null;
+
+  const handleExport = async (format: DictionaryFormat) => {
+    setOpen(false);
+    try {
+      const files = generateDataDictionary(result, format, annotations);
+      const folder = await window.electronAPI?.exportFolder(files, `${result.databaseName}-dictionary`);
+      if (folder) setExportedTo(folder);
+    } catch (err) {
+      window.electronAPI?.log.error('Data dictionary export failed:', err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-3 py-1.5 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors"
+        title={exportedTo ? `Exported to ${exportedTo}` : 'Export a browsable data dictionary'}
+      >
+        {exportedTo ? 'Exported ✓' : 'Dictionary ▾'}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-44 bg-bg-card border border-border rounded shadow-lg z-20 py-1">
+          {(Object.keys(DICTIONARY_FORMATS) as DictionaryFormat[]).map((f) => (
+            <button
+              key={f}
+              onClick={() => handleExport(f)}
+              className="w-full text-left px-3 py-1.5 text-xs text-text-secondary hover:text-text-primary hover:bg-bg-hover transition-colors"
+            >
+              {DICTIONARY_FORMATS[f]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 import { useStore } from '../../hooks/useStore';
+import { useBaselineChanges } from '../../hooks/useBaseline';
 import { api } from '../../api/client';
+import { openDbaFile } from '../../api/dbaFile';
+import { DataDictionaryMenu } from './DataDictionaryMenu';
 import type { DbaFile } from '../../api/types';
 
 export function Header() {
@@ -12,6 +15,15 @@ export function Header() {
   const isFileSession = useStore((s) => s.isFileSession);
   const disconnect = useStore((s) => s.disconnect);
   const toggleSearch = useStore((s) => s.toggleSearch);
+  const baseline = useStore((s) => s.baseline);
+  const setBaseline = useStore((s) => s.setBaseline);
+  const clearBaseline = useStore((s) => s.clearBaseline);
+  const annotations = useStore((s) => s.annotations);
+  const piiDecisions = useStore((s) => s.piiDecisions);
+  const subjectAreas = useStore((s) => s.subjectAreas);
+  const schemaDrafts = useStore((s) => s.schemaDrafts);
+  const deletions = useStore((s) => s.deletions);
+  const baselineChanges = useBaselineChanges();
 
   const handleDisconnect = async () => {
     if (sessionId && !isFileSession) {
@@ -33,11 +45,30 @@ export function Header() {
         analyzerStatus,
       },
       result,
+      ...(Object.keys(annotations).length > 0 && { annotations }),
+      ...(Object.keys(piiDecisions).length > 0 && { piiDecisions }),
+      ...(Object.keys(subjectAreas).length > 0 && { subjectAreas }),
+      ...(Object.keys(schemaDrafts).length > 0 && { schemaDrafts }),
+      ...(Object.values(deletions).some((d) => Object.keys(d).length > 0) && { deletions }),
     };
     const defaultName = `${databaseName ?? serverName ?? 'analysis'}.dba`;
     await window.electronAPI?.saveFile(JSON.stringify(dba, null, 2), defaultName);
   };
 
+  const handlePinBaseline = async () => {
+    try {
+      const opened = await openDbaFile();
+      if (!opened) return; // cancelled
+      setBaseline(opened.data, opened.filePath);
+    } catch (err) {
+      window.electronAPI?.log.warn('Could not pin baseline:', err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const baselineTotal = baselineChanges
+    ? baselineChanges.totals.added + baselineChanges.totals.removed + baselineChanges.totals.changed
+    : 0;
+
   return (
     <header className="h-14 bg-bg-secondary border-b border-border flex items-center px-6 gap-4 flex-shrink-0">
       <h1 className="text-sm font-medium text-text-primary">
@@ -52,6 +83,28 @@ export function Header() {
         <kbd className="text-[10px] px-1 py-0.5 rounded bg-bg-primary border border-border">Ctrl+K</kbd>
       </button>
 
+      {baseline ? (
+        <span className="flex items-center gap-2 px-3 py-1.5 rounded text-xs border border-severity-warning/30 bg-severity-warning/10 text-severity-warning">
+          <span className="truncate max-w-40" title={baseline.filePath}>
+            Baseline: {baseline.filePath.split(/[\\/]/).pop()}
+          </span>
+          {baselineChanges && <span className="text-text-secondary">{baselineTotal} change{baselineTotal !== 1 ? 's' : ''}</span>}
+          <button onClick={clearBaseline} className="hover:text-text-primary transition-colors" title="Unpin baseline">
+            ✕
+          </button>
+        </span>
+      ) : result?.schema && (
+        <button
+          onClick={handlePinBaseline}
+          className="px-3 py-1.5 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors"
+          title="Compare this session against a saved .dba file"
+        >
+          Pin Baseline
+        </button>
+      )}
+
+      <DataDictionaryMenu />
+
       {result && (
         <button
           onClick={handleSave}
@@ -11,8 +11,11 @@ const NAV_ITEMS: { path: string; label: string; icon: string; analyzer?: Analyze
   { path: '/profiling', label: 'Profiling', icon: '⊠', analyzer: 'profiling' },
   { path: '/relationships', label: 'Relationships', icon: '⋈', analyzer: 'relationships' },
   { path: '/quality', label: 'Quality', icon: '⚑', analyzer: 'quality' },
+  { path: '/complexity', label: 'Complexity', icon: '▦', analyzer: 'schema' },
   { path: '/indexing', label: 'Indexing', icon: '⊕', analyzer: 'indexing' },
   { path: '/usage', label: 'Usage', icon: '◎', analyzer: 'usage' },
+  { path: '/pii', label: 'Sensitive Data', icon: '⚿', analyzer: 'schema' },
+  { path: '/compare', label: 'Compare', icon: '⇄' },
 ];
 
 function StatusDot({ status }: { status: AnalyzerStatus }) {
@@ -0,0 +1,218 @@
+import { useState, useMemo, useCallback } from 'react';
+import {
+  ReactFlow,
+  Background,
+  type Node,
+  type Edge,
+  useNodesState,
+  useEdgesState,
+} from '@xyflow/react';
+import { useStore } from '../../hooks/useStore';
+import { useAnalyzer } from '../../hooks/useAnalyzer';
+import { GraphControls } from '../shared/GraphControls';
+import { AnalyzerLoader } from '../shared/AnalyzerLoader';
+import { getLayoutedElements } from '../../hooks/useDagreLayout';
+import { OBJECT_TYPE_COLORS } from '../../api/types';
+import {
+  columnKey,
+  splitColumnKey,
+  traceColumnLineage,
+  useColumnLineage,
+  type ColumnLineageEdge,
+} from '../../hooks/useColumnLineage';
+
+const KIND_LABELS: Record<ColumnLineageEdge['kind'], string> = {
+  select: 'view',
+  insert: 'INSERT',
+  update: 'UPDATE',
+};
+
+export function ColumnLineage() {
+  const { status, error, progress, refresh, cancel } = useAnalyzer('schema');
+  const schema = useStore((s) => s.result?.schema);
+
+  return (
+    <AnalyzerLoader status={status} error={error} onRefresh={refresh} onCancel={cancel} analyzerName="schema" progress={progress}>
+      {schema && <ColumnLineageInner />}
+    </AnalyzerLoader>
+  );
+}
+
+function ColumnLineageInner() {
+  const schema = useStore((s) => s.result!.schema!);
+  const graph = useColumnLineage()!;
+
+  const allObjects = useMemo(() => [
+    ...schema.tables.map((t) => ({ name: t.fullName, type: 'Table', columns: t.columns.map((c) => c.name) })),
+    ...schema.views.map((v) => ({ name: v.fullName, type: 'View', columns: v.columns.map((c) => c.name) })),
+  ], [schema]);
+
+  // Columns that appear on either end of a flow
+  const linked = useMemo(() => {
+    const s = new Set<string>();
+    graph.edges.forEach((e) => { s.add(e.from); s.add(e.to); });
+    return s;
+  }, [graph]);
+
+  const [query, setQuery] = useState('');
+  const [object, setObject] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const suggestions = useMemo(() => {
+    if (!query.trim()) return [];
+    const q = query.toLowerCase();
+    return allObjects.filter((o) => o.name.toLowerCase().includes(q)).slice(0, 10);
+  }, [allObjects, query]);
+
+  const objectColumns = allObjects.find((o) => o.name === object)?.columns ?? [];
+
+  const trace = useMemo(() => (selected ? traceColumnLineage(graph, selected) : null), [graph, selected]);
+
+  const { graphNodes, graphEdges } = useMemo(() => {
+    if (!trace) return { graphNodes: [], graphEdges: [] };
+
+    const keys = [trace.selected, ...[...trace.upstream.values()].flat(), ...[...trace.downstream.values()].flat()];
+    const nodes: Node[] = keys.map((key) => {
+      const { objectName, column } = splitColumnKey(key);
+      const isCenter = key === trace.selected;
+      const type = graph.objectTypes.get(objectName) ?? 'Table';
+      return {
+        id: key,
+        position: { x: 0, y: 0 },
+        data: { label: `${objectName.split('.').pop()}.${column}` },
+        style: {
+          background: isCenter ? '#4fc3f7' : OBJECT_TYPE_COLORS[type] ?? '#666',
+          color: '#fff',
+          border: isCenter ? '3px solid #fff' : 'none',
+          borderRadius: '6px',
+          padding: '6px 12px',
+          fontSize: '11px',
+          fontWeight: isCenter ? 700 : 500,
+          minWidth: 120,
+          textAlign: 'center' as const,
+        },
+      };
+    });
+
+    // Name the routine on flows it creates; a view's own columns need no label
+    const edges: Edge[] = trace.edges.map((e) => ({
+      id: `${e.from}|${e.to}|${e.via}`,
+      source: e.from,
+      target: e.to,
+      label: e.via !== splitColumnKey(e.to).objectName ? `${KIND_LABELS[e.kind]} · ${e.via.split('.').pop()}` : undefined,
+      labelStyle: { fontSize: 9, fill: '#888' },
+      style: { stroke: '#4fc3f7', strokeWidth: 1, strokeDasharray: e.direct ? undefined : '5 3' },
+    }));
+
+    const laid = getLayoutedElements(nodes, edges, { direction: 'LR', rankSep: 60, nodeSep: 10 });
+    return { graphNodes: laid.nodes, graphEdges: laid.edges };
+  }, [trace, graph]);
+
+  const [nodes, setNodes, onNodesChange] = useNodesState(graphNodes);
+  const [edges, setEdges, onEdgesChange] = useEdgesState(graphEdges);
+
+  useMemo(() => {
+    setNodes(graphNodes);
+    setEdges(graphEdges);
+  }, [graphNodes, graphEdges, setNodes, setEdges]);
+
+  const handleAutoLayout = useCallback(() => {
+    const laid = getLayoutedElements(nodes, edges, { direction: 'LR', rankSep: 60, nodeSep: 10 });
+    setNodes(laid.nodes);
+  }, [nodes, edges, setNodes]);
+
+  const pickObject = (name: string) => {
+    setObject(name);
+    setQuery(name);
+    setSelected(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative max-w-md">
+        <input
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); }}
+          placeholder="Search for a table or view..."
+          className="w-full bg-bg-card border border-border rounded px-3 py-2 text-sm text-text-primary placeholder:text-text-muted focus:border-accent focus:outline-none"
+        />
+        {suggestions.length > 0 && query.trim() && query !== object && (
+          <div className="absolute top-full left-0 right-0 mt-1 bg-bg-card border border-border rounded shadow-lg z-10 max-h-60 overflow-y-auto">
+            {suggestions.map((s) => (
+              <button
+                key={s.name}
+                onClick={() => pickObject(s.name)}
+                className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-bg-hover text-sm transition-colors"
+              >
+                <span
+                  className="w-2 h-2 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: OBJECT_TYPE_COLORS[s.type] ?? '#666' }}
+                />
+                <span className="text-text-primary truncate">{s.name}</span>
+                <span className="ml-auto text-xs text-text-muted">{s.type}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {object && (
+        <div className="flex flex-wrap gap-1.5">
+          {objectColumns.map((col) => {
+            const key = columnKey(object, col);
+            const hasLineage = linked.has(key);
+            return (
+              <button
+                key={col}
+                onClick={() => setSelected(key)}
+                disabled={!hasLineage}
+                title={hasLineage ? undefined : 'No view or procedure reads or writes this column'}
+                className={`px-2 py-1 rounded text-xs border transition-colors disabled:opacity-40 ${
+                  selected === key
+                    ? 'bg-accent/20 text-accent border-accent/50'
+                    : 'text-text-secondary border-border hover:text-text-primary hover:border-accent/50'
+                }`}
+              >
+                {col}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {trace ? (
+        <div className="space-y-2">
+          <div className="flex gap-3 text-xs text-text-secondary">
+            <span>Upstream: {[...trace.upstream.values()].flat().length} columns</span>
+            <span>Downstream: {[...trace.downstream.values()].flat().length} columns</span>
+            <span className="ml-auto text-text-muted">Dashed: value is computed, not copied</span>
+          </div>
+          <div className="h-[600px] bg-bg-secondary border border-border rounded-lg relative">
+            <ReactFlow
+              nodes={nodes}
+              edges={edges}
+              onNodesChange={onNodesChange}
+              onEdgesChange={onEdgesChange}
+              fitView
+              minZoom={0.1}
+              maxZoom={3}
+            >
+              <Background />
+              <GraphControls onAutoLayout={handleAutoLayout} />
+            </ReactFlow>
+          </div>
+        </div>
+      ) : (
+        <div className="h-[400px] flex flex-col items-center justify-center gap-1 bg-bg-secondary border border-border rounded-lg">
+          <p className="text-text-muted text-sm">
+            {object ? 'Select a column to view its lineage' : 'Select a table or view, then one of its columns'}
+          </p>
+          <p className="text-text-muted text-xs">
+            {graph.edges.length} column flows parsed from {graph.parsed} view and procedure definitions.
+            Dynamic SQL and temp tables are not followed.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
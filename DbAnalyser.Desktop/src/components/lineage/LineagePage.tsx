@@ -16,11 +16,17 @@ import { AnalyzerLoader } from '../shared/AnalyzerLoader';
 import { computeLineage } from '../../hooks/useLineage';
 import { getLayoutedElements } from '../../hooks/useDagreLayout';
 import { OBJECT_TYPE_COLORS } from '../../api/types';
+import { useBaselineChanges } from '../../hooks/useBaseline';
+import { CHANGE_CONFIG } from '../shared/ChangeBadge';
+import { ColumnLineage } from './ColumnLineage';
+
+type Granularity = 'object' | 'column';
 
 function LineageGraphInner() {
   const result = useStore((s) => s.result)!;
   const rels = result.relationships!;
   const deps = rels.dependencies;
+  const baselineChanges = useBaselineChanges();
 
   const allObjects = useMemo(() => {
     const objects: { name: string; type: string }[] = [];
@@ -61,6 +67,7 @@ function LineageGraphInner() {
       const type = typeMap.get(name) ?? 'Table';
       const color = OBJECT_TYPE_COLORS[type] ?? '#666';
       const isCenter = side === 'center';
+      const change = baselineChanges?.objects.get(name);
 
       nodes.push({
         id: name,
@@ -70,6 +77,7 @@ function LineageGraphInner() {
           background: isCenter ? '#4fc3f7' : color,
           color: '#fff',
           border: isCenter ? '3px solid #fff' : 'none',
+          boxShadow: change ? `0 0 0 2px ${CHANGE_CONFIG[change].color}` : undefined,
           borderRadius: '6px',
           padding: '6px 12px',
           fontSize: '11px',
@@ -150,7 +158,7 @@ function LineageGraphInner() {
       nodeSep: 10,
     });
     return { graphNodes: laid.nodes, graphEdges: laid.edges };
-  }, [lineage, deps, typeMap]);
+  }, [lineage, deps, typeMap, baselineChanges]);
 
   const [nodes, setNodes, onNodesChange] = useNodesState(graphNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(graphEdges);
@@ -171,8 +179,6 @@ function LineageGraphInner() {
 
   return (
     <div className="space-y-4">
-      <h2 className="text-lg font-semibold text-text-primary">Data Lineage</h2>
-
       <div className="relative max-w-md">
         <input
           value={query}
@@ -234,15 +240,41 @@ function LineageGraphInner() {
 }
 
 export function LineagePage() {
+  const [granularity, setGranularity] = useState<Granularity>('object');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <h2 className="text-lg font-semibold text-text-primary">Data Lineage</h2>
+        <div className="flex items-center gap-1">
+          {(['object', 'column'] as Granularity[]).map((g) => (
+            <button
+              key={g}
+              onClick={() => setGranularity(g)}
+              className={`px-2 py-1 rounded text-[10px] font-medium transition-colors ${
+                granularity === g ? 'bg-accent/20 text-accent' : 'text-text-muted hover:text-text-secondary'
+              }`}
+            >
+              {g === 'object' ? 'Objects' : 'Columns'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <ReactFlowProvider>
+        {granularity === 'object' ? <ObjectLineage /> : <ColumnLineage />}
+      </ReactFlowProvider>
+    </div>
+  );
+}
+
+function ObjectLineage() {
   const { status, error, progress, refresh } = useAnalyzer('relationships');
   const rels = useStore((s) => s.result?.relationships);
 
   return (
     <AnalyzerLoader status={status} error={error} onRefresh={refresh} analyzerName="relationships" progress={progress}>
       {rels && rels.dependencies.length > 0 ? (
-        <ReactFlowProvider>
-          <LineageGraphInner />
-        </ReactFlowProvider>
+        <LineageGraphInner />
       ) : (
         <p className="text-text-muted">No dependency data available for lineage.</p>
       )}
@@ -0,0 +1,289 @@
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { useAnalyzer } from '../../hooks/useAnalyzer';
+import { DataTable } from '../shared/DataTable';
+import { FilterBar } from '../shared/FilterBar';
+import { AnalyzerLoader } from '../shared/AnalyzerLoader';
+import {
+  PII_CATEGORIES,
+  usePiiReview,
+  generatePiiReport,
+  type PiiReviewItem,
+  type PiiReviewStatus,
+  type PiiReportFormat,
+} from '../../hooks/usePiiClassifier';
+import type { ColumnDef } from '@tanstack/react-table';
+import type { PiiCategory } from '../../api/types';
+
+const STATUS_TABS: { key: PiiReviewStatus | 'all'; label: string }[] = [
+  { key: 'pending', label: 'To review' },
+  { key: 'accepted', label: 'Accepted' },
+  { key: 'rejected', label: 'Rejected' },
+  { key: 'all', label: 'All' },
+];
+
+const REPORT_FORMATS: Record<PiiReportFormat, { label: string; extension: string; filterName: string }> = {
+  csv: { label: 'CSV', extension: 'csv', filterName: 'CSV Files' },
+  markdown: { label: 'Markdown', extension: 'md', filterName: 'Markdown Files' },
+};
+
+// Bulk accept only what the classifier is quite sure about
+const BULK_ACCEPT_CONFIDENCE = 0.8;
+
+export function PiiPage() {
+  const { status, error, progress, refresh, cancel } = useAnalyzer('schema');
+  const schema = useStore((s) => s.result?.schema);
+
+  return (
+    <AnalyzerLoader status={status} error={error} onRefresh={refresh} onCancel={cancel} analyzerName="schema" progress={progress}>
+      {schema && <PiiContent />}
+    </AnalyzerLoader>
+  );
+}
+
+function PiiContent() {
+  const items = usePiiReview();
+  const setPiiDecision = useStore((s) => s.setPiiDecision);
+  const hasProfiles = useStore((s) => !!s.result?.profiles);
+  const profilingStatus = useStore((s) => s.analyzerStatus.profiling);
+  const isFileSession = useStore((s) => s.isFileSession);
+  const isServerMode = useStore((s) => s.isServerMode);
+  const runAnalyzer = useStore((s) => s.runAnalyzer);
+  const [tab, setTab] = useState<PiiReviewStatus | 'all'>('pending');
+  const [activeCategories, setActiveCategories] = useState<Set<string>>(() => new Set(Object.keys(PII_CATEGORIES)));
+
+  const decide = (item: PiiReviewItem, status: PiiReviewStatus, category: PiiCategory = item.category) => {
+    setPiiDecision(item.key, status === 'pending' ? null : { category, status, updatedAt: new Date().toISOString() });
+  };
+
+  const categoryFilters = useMemo(() => (Object.keys(PII_CATEGORIES) as PiiCategory[]).map((c) => ({
+    key: c,
+    label: PII_CATEGORIES[c].label,
+    count: items.filter((i) => i.category === c && i.status !== 'rejected').length,
+    color: PII_CATEGORIES[c].color,
+  })), [items]);
+
+  const visible = items.filter((i) => (tab === 'all' || i.status === tab) && activeCategories.has(i.category));
+  const bulkCandidates = items.filter((i) => i.status === 'pending' && i.confidence >= BULK_ACCEPT_CONFIDENCE);
+
+  const columns: ColumnDef<PiiReviewItem, any>[] = [
+    {
+      header: 'Column',
+      accessorFn: (r) => `${r.objectName}.${r.column}`,
+      cell: ({ row }) => (
+        <span>
+          <span className="text-text-muted">{row.original.objectName}.</span>
+          <span className="text-text-primary font-medium">{row.original.column}</span>
+        </span>
+      ),
+    },
+    { header: 'Type', accessorKey: 'dataType' },
+    {
+      header: 'Category',
+      accessorFn: (r) => PII_CATEGORIES[r.category].label,
+      cell: ({ row }) => (
+        <select
+          value={row.original.category}
+          onChange={(e) => decide(row.original, 'accepted', e.target.value as PiiCategory)}
+          className="bg-bg-card border border-border rounded px-1.5 py-0.5 text-xs focus:outline-none focus:border-accent [&>option]:bg-bg-card [&>option]:text-text-primary"
+          style={{ color: PII_CATEGORIES[row.original.category].color }}
+          title="Choosing a category accepts the classification"
+        >
+          {(Object.keys(PII_CATEGORIES) as PiiCategory[]).map((c) => (
+            <option key={c} value={c}>{PII_CATEGORIES[c].label}</option>
+          ))}
+        </select>
+      ),
+    },
+    {
+      header: 'Confidence',
+      accessorKey: 'confidence',
+      cell: ({ row }) => row.original.suggested ? (
+        <span className="flex items-center gap-2">
+          <span className="w-16 h-1.5 rounded bg-bg-hover overflow-hidden">
+            <span className="block h-full bg-accent" style={{ width: `${row.original.confidence * 100}%` }} />
+          </span>
+          <span className="text-xs text-text-secondary">{Math.round(row.original.confidence * 100)}%</span>
+        </span>
+      ) : <span className="text-text-muted">—</span>,
+    },
+    {
+      header: 'Evidence',
+      accessorFn: (r) => r.reasons.join('; '),
+      cell: ({ row }) => (
+        <ul className="text-xs text-text-secondary space-y-0.5">
+          {row.original.reasons.map((r) => <li key={r}>{r}</li>)}
+        </ul>
+      ),
+    },
+    {
+      header: 'Review',
+      accessorKey: 'status',
+      cell: ({ row }) => {
+        const item = row.original;
+        return (
+          <span className="flex items-center gap-1.5">
+            {item.status !== 'accepted' && (
+              <button
+                onClick={() => decide(item, 'accepted')}
+                className="px-2 py-0.5 rounded text-xs border border-border text-text-secondary hover:text-green-400 hover:border-green-400/50 transition-colors"
+              >
+                Accept
+              </button>
+            )}
+            {item.status !== 'rejected' && (
+              <button
+                onClick={() => decide(item, 'rejected')}
+                className="px-2 py-0.5 rounded text-xs border border-border text-text-secondary hover:text-severity-error hover:border-severity-error/50 transition-colors"
+              >
+                Reject
+              </button>
+            )}
+            {item.status !== 'pending' && item.suggested && (
+              <button
+                onClick={() => decide(item, 'pending')}
+                className="text-xs text-text-muted hover:text-text-primary transition-colors"
+                title="Undo the decision"
+              >
+                Reset
+              </button>
+            )}
+          </span>
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <h2 className="text-lg font-semibold text-text-primary">Sensitive Data</h2>
+        <div className="ml-auto flex items-center gap-2">
+          {bulkCandidates.length > 0 && (
+            <button
+              onClick={() => bulkCandidates.forEach((i) => decide(i, 'accepted'))}
+              className="px-3 py-1.5 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors"
+            >
+              Accept {bulkCandidates.length} with ≥ {Math.round(BULK_ACCEPT_CONFIDENCE * 100)}% confidence
+            </button>
+          )}
+          <PiiReportMenu items={items} />
+        </div>
+      </div>
+
+      {!hasProfiles && (
+        <div className="flex items-center gap-3 px-4 py-2.5 rounded border border-border bg-bg-card text-xs text-text-secondary">
+          <span>Suggestions use column names and types only. Profiling adds min/max sample values as evidence.</span>
+          {!isFileSession && !isServerMode && (
+            <button
+              onClick={() => runAnalyzer('profiling')}
+              disabled={profilingStatus === 'loading'}
+              className="ml-auto px-3 py-1 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors disabled:opacity-50"
+            >
+              {profilingStatus === 'loading' ? 'Profiling...' : 'Run profiling'}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        {(Object.keys(PII_CATEGORIES) as PiiCategory[]).map((c) => {
+          const accepted = items.filter((i) => i.category === c && i.status === 'accepted').length;
+          const pending = items.filter((i) => i.category === c && i.status === 'pending').length;
+          if (accepted + pending === 0) return null;
+          return (
+            <div key={c} className="bg-bg-card border border-border rounded-lg px-4 py-3">
+              <p className="text-lg font-bold" style={{ color: PII_CATEGORIES[c].color }}>{accepted}</p>
+              <p className="text-xs text-text-secondary">{PII_CATEGORIES[c].label}</p>
+              {pending > 0 && <p className="text-[10px] text-text-muted">+{pending} to review</p>}
+            </div>
+          );
+        })}
+      </div>
+
+      <FilterBar
+        label="Categories"
+        items={categoryFilters}
+        active={activeCategories}
+        onToggle={(key) => {
+          setActiveCategories((prev) => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key); else next.add(key);
+            return next;
+          });
+        }}
+      />
+
+      <div className="flex flex-wrap gap-1 border-b border-border pb-2">
+        {STATUS_TABS.map((t) => (
+          <button
+            key={t.key}
+            onClick={() => setTab(t.key)}
+            className={`px-3 py-1.5 rounded-t text-xs transition-colors ${
+              tab === t.key
+                ? 'bg-bg-card text-accent border border-border border-b-0'
+                : 'text-text-secondary hover:text-text-primary'
+            }`}
+          >
+            {t.label} ({t.key === 'all' ? items.length : items.filter((i) => i.status === t.key).length})
+          </button>
+        ))}
+      </div>
+
+      {visible.length > 0 ? (
+        <DataTable data={visible} columns={columns} searchPlaceholder="Filter columns..." pageSize={50} />
+      ) : (
+        <p className="text-text-muted text-sm">
+          {items.length === 0 ? 'No columns look like personal data.' : 'Nothing here.'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function PiiReportMenu({ items }: { items: PiiReviewItem[] }) {
+  const databaseName = useStore((s) => s.result?.databaseName ?? 'database');
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const handleExport = async (format: PiiReportFormat) => {
+    setOpen(false);
+    const { extension, filterName } = REPORT_FORMATS[format];
+    const content = generatePiiReport(items, format, databaseName);
+    await window.electronAPI?.exportFile(content, `${databaseName}-pii.${extension}`, [{ name: filterName, extensions: [extension] }]);
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={items.length === 0}
+        className="px-3 py-1.5 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors disabled:opacity-50"
+      >
+        Report ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-44 bg-bg-card border border-border rounded shadow-lg z-20 py-1">
+          {(Object.keys(REPORT_FORMATS) as PiiReportFormat[]).map((f) => (
+            <button
+              key={f}
+              onClick={() => handleExport(f)}
+              className="w-full text-left px-3 py-1.5 text-xs text-text-secondary hover:text-text-primary hover:bg-bg-hover transition-colors"
+            >
+              {REPORT_FORMATS[f].label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
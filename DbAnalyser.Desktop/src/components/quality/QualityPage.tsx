@@ -1,9 +1,11 @@
-import { useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { useStore } from '../../hooks/useStore';
 import { useAnalyzer } from '../../hooks/useAnalyzer';
+import { useCodeIssues, type CodeIssue } from '../../hooks/useSqlLinter';
 import { DataTable } from '../shared/DataTable';
 import { AnalyzerLoader, RefreshButton } from '../shared/AnalyzerLoader';
 import type { ColumnDef } from '@tanstack/react-table';
+import { OBJECT_TYPE_COLORS } from '../../api/types';
 import type { QualityIssue, IssueSeverity } from '../../api/types';
 
 const SEVERITY_CONFIG: Record<IssueSeverity, { color: string; icon: string; label: string }> = {
@@ -12,20 +14,137 @@ const SEVERITY_CONFIG: Record<IssueSeverity, { color: string; icon: string; labe
   info: { color: '#4fc3f7', icon: 'ℹ', label: 'Info' },
 };
 
+type QualityTab = 'data' | 'code';
+
+function severityColumn<T extends QualityIssue>(): ColumnDef<T, any> {
+  return {
+    header: 'Severity',
+    accessorKey: 'severity',
+    cell: ({ getValue }) => {
+      const s = getValue() as IssueSeverity;
+      const cfg = SEVERITY_CONFIG[s];
+      return (
+        <span className="flex items-center gap-1.5" style={{ color: cfg.color }}>
+          {cfg.icon} {s}
+        </span>
+      );
+    },
+  };
+}
+
+function recommendationColumn<T extends QualityIssue>(): ColumnDef<T, any> {
+  return {
+    header: 'Recommendation',
+    accessorKey: 'recommendation',
+    cell: ({ getValue }) => getValue() ?? '—',
+  };
+}
+
+const DATA_COLUMNS: ColumnDef<QualityIssue, any>[] = [
+  severityColumn(),
+  { header: 'Category', accessorKey: 'category' },
+  { header: 'Object', accessorKey: 'objectName' },
+  { header: 'Description', accessorKey: 'description' },
+  recommendationColumn(),
+];
+
 export function QualityPage() {
+  const [tab, setTab] = useState<QualityTab>('data');
+  const dataCount = useStore((s) => s.result?.qualityIssues?.length);
+  const codeCount = useCodeIssues()?.length;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-text-primary">Quality</h2>
+      <div className="flex flex-wrap gap-1 border-b border-border pb-2">
+        {([['data', 'Data', dataCount], ['code', 'Code', codeCount]] as const).map(([key, label, count]) => (
+          <button
+            key={key}
+            onClick={() => setTab(key)}
+            className={`px-3 py-1.5 rounded-t text-xs transition-colors ${
+              tab === key
+                ? 'bg-bg-card text-accent border border-border border-b-0'
+                : 'text-text-secondary hover:text-text-primary'
+            }`}
+          >
+            {label}{count !== undefined && ` (${count})`}
+          </button>
+        ))}
+      </div>
+      {tab === 'data' ? <DataQuality /> : <CodeQuality />}
+    </div>
+  );
+}
+
+function DataQuality() {
   const { status, error, progress, refresh, cancel } = useAnalyzer('quality');
   const issues = useStore((s) => s.result?.qualityIssues);
 
   return (
     <AnalyzerLoader status={status} error={error} onRefresh={refresh} onCancel={cancel} analyzerName="quality" progress={progress}>
-      <QualityContent issues={issues ?? []} refresh={refresh} loading={status === 'loading'} />
+      <QualityContent
+        issues={issues ?? []}
+        columns={DATA_COLUMNS}
+        refresh={refresh}
+        loading={status === 'loading'}
+        empty="No quality issues detected."
+      />
     </AnalyzerLoader>
   );
 }
 
-function QualityContent({ issues, refresh, loading }: { issues: QualityIssue[]; refresh: () => void; loading: boolean }) {
+// Lint findings come from the loaded definitions, so the tab only needs the schema analyzer
+function CodeQuality() {
+  const { status, error, progress, refresh, cancel } = useAnalyzer('schema');
+  const issues = useCodeIssues();
+  const openObject = useStore((s) => s.openObject);
+
+  const columns = useMemo<ColumnDef<CodeIssue, any>[]>(() => [
+    severityColumn(),
+    { header: 'Category', accessorKey: 'category' },
+    {
+      header: 'Object',
+      accessorKey: 'objectName',
+      cell: ({ row }) => (
+        <button
+          onClick={() => openObject(row.original.objectName, row.original.line)}
+          className="text-left hover:underline"
+          style={{ color: OBJECT_TYPE_COLORS[row.original.objectType] }}
+          title={`Open the ${row.original.objectType.toLowerCase()} definition at line ${row.original.line}`}
+        >
+          {row.original.objectName}
+        </button>
+      ),
+    },
+    { header: 'Line', accessorKey: 'line' },
+    { header: 'Description', accessorKey: 'description' },
+    recommendationColumn(),
+  ], [openObject]);
+
+  return (
+    <AnalyzerLoader status={status} error={error} onRefresh={refresh} onCancel={cancel} analyzerName="schema" progress={progress}>
+      <QualityContent
+        issues={issues ?? []}
+        columns={columns}
+        refresh={refresh}
+        loading={status === 'loading'}
+        empty="No issues found in view, procedure, function or trigger code."
+      />
+    </AnalyzerLoader>
+  );
+}
+
+interface QualityContentProps<T extends QualityIssue> {
+  issues: T[];
+  columns: ColumnDef<T, any>[];
+  refresh: () => void;
+  loading: boolean;
+  empty: string;
+}
+
+function QualityContent<T extends QualityIssue>({ issues, columns, refresh, loading, empty }: QualityContentProps<T>) {
   const grouped = useMemo(() => {
-    const groups: Record<IssueSeverity, QualityIssue[]> = {
+    const groups: Record<IssueSeverity, T[]> = {
       error: [],
       warning: [],
       info: [],
@@ -36,48 +155,16 @@ function QualityContent({ issues, refresh, loading }: { issues: QualityIssue[];
 
   if (issues.length === 0) {
     return (
-      <div className="space-y-4">
-        <div className="flex items-center gap-2">
-          <h2 className="text-lg font-semibold text-text-primary">Quality</h2>
-          <RefreshButton onClick={refresh} loading={loading} />
-        </div>
-        <p className="text-text-muted">No quality issues detected.</p>
+      <div className="flex items-center gap-2">
+        <p className="text-text-muted">{empty}</p>
+        <RefreshButton onClick={refresh} loading={loading} />
       </div>
     );
   }
 
-  const columns: ColumnDef<QualityIssue, any>[] = [
-    {
-      header: 'Severity',
-      accessorKey: 'severity',
-      cell: ({ getValue }) => {
-        const s = getValue() as IssueSeverity;
-        const cfg = SEVERITY_CONFIG[s];
-        return (
-          <span className="flex items-center gap-1.5" style={{ color: cfg.color }}>
-            {cfg.icon} {s}
-          </span>
-        );
-      },
-    },
-    { header: 'Category', accessorKey: 'category' },
-    { header: 'Object', accessorKey: 'objectName' },
-    { header: 'Description', accessorKey: 'description' },
-    {
-      header: 'Recommendation',
-      accessorKey: 'recommendation',
-      cell: ({ getValue }) => getValue() ?? '—',
-    },
-  ];
-
   return (
     <div className="space-y-6">
-      <div className="flex items-center gap-2">
-        <h2 className="text-lg font-semibold text-text-primary">Quality</h2>
-        <RefreshButton onClick={refresh} loading={loading} />
-      </div>
-
-      <div className="flex gap-3">
+      <div className="flex items-center gap-3">
         {(Object.entries(SEVERITY_CONFIG) as [IssueSeverity, typeof SEVERITY_CONFIG.error][]).map(
           ([sev, cfg]) => {
             const count = grouped[sev].length;
@@ -98,6 +185,7 @@ function QualityContent({ issues, refresh, loading }: { issues: QualityIssue[];
             );
           }
         )}
+        <RefreshButton onClick={refresh} loading={loading} />
       </div>
 
       {(['error', 'warning', 'info'] as IssueSeverity[]).map((sev) => {
@@ -0,0 +1,171 @@
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { DataTable } from '../shared/DataTable';
+import { OBJECT_TYPE_COLORS } from '../../api/types';
+import {
+  describeTarget,
+  generateImpactChecklist,
+  useImpactAnalysis,
+  type ImpactChange,
+  type ImpactChecklistFormat,
+  type ImpactItem,
+  type ImpactTarget,
+} from '../../hooks/useImpactAnalysis';
+import type { ColumnDef } from '@tanstack/react-table';
+import type { TableInfo } from '../../api/types';
+
+const CHECKLIST_FORMATS: Record<ImpactChecklistFormat, { label: string; extension: string; filterName: string }> = {
+  markdown: { label: 'Markdown checklist', extension: 'md', filterName: 'Markdown Files' },
+  csv: { label: 'CSV', extension: 'csv', filterName: 'CSV Files' },
+};
+
+const TYPE_COLORS: Record<string, string> = {
+  ...OBJECT_TYPE_COLORS,
+  'Job Step': '#f0a500',
+  'Foreign Key': '#4fc3f7',
+  Index: '#9e9e9e',
+};
+
+const selectClass = 'bg-bg-card border border-border rounded px-2 py-1 text-xs text-text-primary focus:outline-none focus:border-accent [&>option]:bg-bg-card [&>option]:text-text-primary';
+
+interface ImpactAnalysisProps {
+  table: TableInfo;
+  column: string | null;
+  onColumnChange: (column: string | null) => void;
+}
+
+export function ImpactAnalysis({ table, column, onColumnChange }: ImpactAnalysisProps) {
+  const [change, setChange] = useState<ImpactChange>('drop');
+  const hasRelationships = useStore((s) => !!s.result?.relationships);
+  const relationshipsStatus = useStore((s) => s.analyzerStatus.relationships);
+  const isFileSession = useStore((s) => s.isFileSession);
+  const runAnalyzer = useStore((s) => s.runAnalyzer);
+
+  const target = useMemo<ImpactTarget>(() => ({ table, column, change }), [table, column, change]);
+  const items = useImpactAnalysis(target);
+  const confirmed = items.filter((i) => i.certainty === 'confirmed').length;
+
+  const columns: ColumnDef<ImpactItem, any>[] = [
+    {
+      header: 'Object',
+      accessorKey: 'name',
+      cell: ({ row }) => (
+        <span className="flex items-center gap-1.5">
+          <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: TYPE_COLORS[row.original.type] ?? '#666' }} />
+          <span className="text-text-primary">{row.original.name}</span>
+        </span>
+      ),
+    },
+    { header: 'Type', accessorKey: 'type' },
+    { header: 'Importance', accessorKey: 'importanceScore' },
+    {
+      header: 'Certainty',
+      accessorKey: 'certainty',
+      cell: ({ getValue }) => getValue() === 'confirmed'
+        ? <span className="text-severity-error">Breaks</span>
+        : <span className="text-severity-warning">Check</span>,
+    },
+    {
+      header: 'Path',
+      accessorFn: (r) => r.depth,
+      cell: ({ row }) => row.original.depth === 1
+        ? <span className="text-text-muted">direct</span>
+        : <span className="text-text-secondary">via {row.original.via}</span>,
+    },
+    { header: 'Reason', accessorKey: 'reason', cell: ({ getValue }) => <span className="text-xs text-text-secondary">{getValue()}</span> },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-text-secondary">
+        <span>What breaks if I</span>
+        <select value={change} onChange={(e) => setChange(e.target.value as ImpactChange)} className={selectClass}>
+          <option value="drop">drop</option>
+          <option value="rename">rename</option>
+        </select>
+        <select value={column ?? ''} onChange={(e) => onColumnChange(e.target.value || null)} className={selectClass}>
+          <option value="">the whole table</option>
+          {table.columns.map((c) => (
+            <option key={c.name} value={c.name}>column {c.name}</option>
+          ))}
+        </select>
+        <span>?</span>
+        <div className="ml-auto">
+          <ChecklistMenu target={target} items={items} />
+        </div>
+      </div>
+
+      {!hasRelationships && (
+        <div className="flex items-center gap-3 px-4 py-2.5 rounded border border-border bg-bg-card text-xs text-text-secondary">
+          <span>Without the relationships analysis only definitions that name the table are searched, without transitive dependents.</span>
+          {!isFileSession && (
+            <button
+              onClick={() => runAnalyzer('relationships')}
+              disabled={relationshipsStatus === 'loading'}
+              className="ml-auto px-3 py-1 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors disabled:opacity-50"
+            >
+              {relationshipsStatus === 'loading' ? 'Analyzing...' : 'Run relationships'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {items.length > 0 ? (
+        <>
+          <p className="text-xs text-text-muted">
+            {items.length} affected by {describeTarget(target)}: {confirmed} break, {items.length - confirmed} to check.
+          </p>
+          <DataTable data={items} columns={columns} searchable={false} pageSize={50} />
+        </>
+      ) : (
+        <p className="text-text-muted text-sm">Nothing depends on {column ? `column ${column}` : 'this table'}.</p>
+      )}
+    </div>
+  );
+}
+
+function ChecklistMenu({ target, items }: { target: ImpactTarget; items: ImpactItem[] }) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [open]);
+
+  const handleExport = async (format: ImpactChecklistFormat) => {
+    setOpen(false);
+    const { extension, filterName } = CHECKLIST_FORMATS[format];
+    const content = generateImpactChecklist(target, items, format);
+    const base = [target.table.tableName, target.column, target.change].filter(Boolean).join('-');
+    await window.electronAPI?.exportFile(content, `${base}-impact.${extension}`, [{ name: filterName, extensions: [extension] }]);
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-3 py-1.5 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors"
+      >
+        Checklist ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-44 bg-bg-card border border-border rounded shadow-lg z-20 py-1">
+          {(Object.keys(CHECKLIST_FORMATS) as ImpactChecklistFormat[]).map((f) => (
+            <button
+              key={f}
+              onClick={() => handleExport(f)}
+              className="w-full text-left px-3 py-1.5 text-xs text-text-secondary hover:text-text-primary hover:bg-bg-hover transition-colors"
+            >
+              {CHECKLIST_FORMATS[f].label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,11 @@ import { useAnalyzer } from '../../hooks/useAnalyzer';
 import { DataTable } from '../shared/DataTable';
 import { AnalyzerLoader, RefreshButton } from '../shared/AnalyzerLoader';
 import { TableDetail } from './TableDetail';
+import { ChangeBadge } from '../shared/ChangeBadge';
+import { AnnotationEditor } from '../shared/AnnotationEditor';
+import { SqlCode } from '../shared/SqlCode';
+import { useBaselineChanges } from '../../hooks/useBaseline';
+import { useColumnAnnotations } from '../../hooks/useAnnotations';
 import {
   useReactTable,
   getCoreRowModel,
@@ -18,26 +23,26 @@ import type { DatabaseSchema, TableInfo, ViewInfo, ColumnInfo, StoredProcedureIn
 
 type TabKey = 'tables' | 'views' | 'procedures' | 'functions' | 'triggers' | 'synonyms' | 'sequences' | 'types' | 'jobs';
 
-/* ── Inline SQL code block with Copy button ────────────────────────────── */
+/* ── Baseline drift ────────────────────────────────────────────────────── */
 
-function SqlDefinition({ definition }: { definition: string }) {
-  const [copied, setCopied] = useState(false);
+function BaselineBadge({ name }: { name: string }) {
+  const kind = useBaselineChanges()?.objects.get(name);
+  return kind ? <ChangeBadge kind={kind} /> : null;
+}
 
+// Removed objects no longer exist in the live schema, so list them above the table
+function RemovedSinceBaseline({ tab }: { tab: TabKey }) {
+  const baselineChanges = useBaselineChanges();
+  if (!baselineChanges || !(tab in baselineChanges.diff)) return null;
+  const removed = baselineChanges.diff[tab as keyof typeof baselineChanges.diff].filter((c) => c.kind === 'removed');
+  if (removed.length === 0) return null;
   return (
-    <div className="relative group/code mt-2 rounded border border-border bg-bg-secondary">
-      <button
-        onClick={() => {
-          navigator.clipboard.writeText(definition);
-          setCopied(true);
-          setTimeout(() => setCopied(false), 2000);
-        }}
-        className="absolute top-2 right-2 px-2 py-1 rounded text-[10px] bg-bg-card border border-border text-text-muted hover:text-text-primary hover:border-accent/50 transition-colors opacity-0 group-hover/code:opacity-100"
-      >
-        {copied ? 'Copied!' : 'Copy'}
-      </button>
-      <pre className="px-4 py-3 text-[11px] font-mono text-text-secondary overflow-x-auto whitespace-pre leading-relaxed max-h-[50vh] overflow-y-auto select-text">
-        {definition}
-      </pre>
+    <div className="flex flex-wrap items-center gap-1.5 text-xs text-text-muted">
+      <ChangeBadge kind="removed" />
+      <span>Since baseline:</span>
+      {removed.map((c) => (
+        <span key={c.name} className="px-1.5 py-0.5 rounded bg-bg-card border border-border line-through">{c.name}</span>
+      ))}
     </div>
   );
 }
@@ -45,6 +50,8 @@ function SqlDefinition({ definition }: { definition: string }) {
 /* ── View Detail (similar to TableDetail) ──────────────────────────────── */
 
 function ViewDetail({ view }: { view: ViewInfo }) {
+  const [editingColumn, setEditingColumn] = useState<string | null>(null);
+  const columnAnnotations = useColumnAnnotations(view.fullName);
   const columnCols: ColumnDef<ColumnInfo, any>[] = [
     { header: '#', accessorKey: 'ordinalPosition', size: 40 },
     {
@@ -72,11 +79,34 @@ function ViewDetail({ view }: { view: ViewInfo }) {
     },
     { header: 'Nullable', accessorKey: 'isNullable', cell: ({ getValue }) => getValue() ? 'Yes' : 'No' },
     { header: 'Computed', accessorKey: 'isComputed', cell: ({ getValue }) => getValue() ? 'Yes' : '' },
+    {
+      header: 'Description',
+      accessorFn: (r) => columnAnnotations.get(r.name)?.description ?? '',
+      cell: ({ row, getValue }) => (
+        <span className="group/desc flex items-center gap-1.5">
+          <span className="text-text-secondary" title={columnAnnotations.get(row.original.name)?.notes || undefined}>
+            {getValue()}
+          </span>
+          <button
+            onClick={() => setEditingColumn(row.original.name)}
+            className="text-xs text-text-muted hover:text-accent transition-colors opacity-0 group-hover/desc:opacity-100"
+            title="Annotate column"
+          >
+            ✎
+          </button>
+        </span>
+      ),
+    },
   ];
 
   return (
     <div className="space-y-6">
-      <h3 className="text-base font-semibold text-text-primary">{view.fullName}</h3>
+      <h3 className="text-base font-semibold text-text-primary flex items-center gap-2">
+        {view.fullName}
+        <BaselineBadge name={view.fullName} />
+      </h3>
+
+      <AnnotationEditor objectName={view.fullName} />
 
       {view.columns.length > 0 && (
         <div>
@@ -84,13 +114,24 @@ function ViewDetail({ view }: { view: ViewInfo }) {
             Columns ({view.columns.length})
           </h4>
           <DataTable data={view.columns} columns={columnCols} searchable={false} pageSize={100} />
+          {editingColumn && (
+            <div className="mt-2">
+              <AnnotationEditor
+                key={editingColumn}
+                objectName={view.fullName}
+                column={editingColumn}
+                autoEdit
+                onClose={() => setEditingColumn(null)}
+              />
+            </div>
+          )}
         </div>
       )}
 
       {view.definition && (
         <div>
           <h4 className="text-sm font-medium text-text-secondary mb-2">SQL Definition</h4>
-          <SqlDefinition definition={view.definition} />
+          <SqlCode code={view.definition} objectName={view.fullName} />
         </div>
       )}
     </div>
@@ -228,16 +269,19 @@ function SchemaContent({
           <ViewDetail view={viewDetail} />
         </div>
       ) : (
-        <SchemaTabContent
-          tab={activeTab}
-          schema={schema}
-          profiles={profiles ?? null}
-          relationships={relationships ?? null}
-          expandedDef={expandedDef}
-          onSelectTable={setSelectedTable}
-          onSelectView={setSelectedView}
-          onToggleDef={(name) => setExpandedDef(expandedDef === name ? null : name)}
-        />
+        <div className="space-y-3">
+          <RemovedSinceBaseline tab={activeTab} />
+          <SchemaTabContent
+            tab={activeTab}
+            schema={schema}
+            profiles={profiles ?? null}
+            relationships={relationships ?? null}
+            expandedDef={expandedDef}
+            onSelectTable={setSelectedTable}
+            onSelectView={setSelectedView}
+            onToggleDef={(name) => setExpandedDef(expandedDef === name ? null : name)}
+          />
+        </div>
       )}
     </div>
   );
@@ -264,6 +308,15 @@ function SchemaTabContent({
   onSelectView: (name: string) => void;
   onToggleDef: (name: string) => void;
 }) {
+  const annotations = useStore((s) => s.annotations);
+  const descriptionColumn = {
+    header: 'Description',
+    accessorFn: (r: { fullName: string }) => annotations[r.fullName]?.description ?? '',
+    cell: ({ getValue }: { getValue: () => unknown }) => (
+      <span className="text-text-secondary">{getValue() as string}</span>
+    ),
+  };
+
   // Build lookup maps once
   const rowCountMap = useMemo(() => {
     if (!profiles) return new Map<string, number>();
@@ -289,12 +342,15 @@ function SchemaTabContent({
           header: 'Table',
           accessorKey: 'fullName',
           cell: ({ row }) => (
-            <button
-              onClick={() => onSelectTable(row.original.fullName)}
-              className="text-accent hover:text-accent-hover transition-colors"
-            >
-              {row.original.fullName}
-            </button>
+            <span className="flex items-center gap-1.5">
+              <button
+                onClick={() => onSelectTable(row.original.fullName)}
+                className="text-accent hover:text-accent-hover transition-colors"
+              >
+                {row.original.fullName}
+              </button>
+              <BaselineBadge name={row.original.fullName} />
+            </span>
           ),
         },
         { header: 'Columns', accessorFn: (r) => r.columns.length },
@@ -312,6 +368,7 @@ function SchemaTabContent({
           header: 'PK',
           accessorFn: (r) => r.columns.filter((c) => c.isPrimaryKey).map((c) => c.name).join(', '),
         },
+        descriptionColumn,
       ];
       return <DataTable data={schema.tables} columns={columns} searchPlaceholder="Filter tables..." />;
     }
@@ -322,12 +379,15 @@ function SchemaTabContent({
           header: 'View',
           accessorKey: 'fullName',
           cell: ({ row }) => (
-            <button
-              onClick={() => onSelectView(row.original.fullName)}
-              className="text-accent hover:text-accent-hover transition-colors"
-            >
-              {row.original.fullName}
-            </button>
+            <span className="flex items-center gap-1.5">
+              <button
+                onClick={() => onSelectView(row.original.fullName)}
+                className="text-accent hover:text-accent-hover transition-colors"
+              >
+                {row.original.fullName}
+              </button>
+              <BaselineBadge name={row.original.fullName} />
+            </span>
           ),
         },
         { header: 'Columns', accessorFn: (r) => r.columns.length },
@@ -339,6 +399,7 @@ function SchemaTabContent({
             return v > 0 ? v : <span className="text-text-muted">0</span>;
           },
         },
+        descriptionColumn,
       ];
       return <DataTable data={schema.views} columns={columns} searchPlaceholder="Filter views..." />;
     }
@@ -355,6 +416,7 @@ function SchemaTabContent({
             >
               <span className={`text-[10px] transition-transform inline-block ${expandedDef === row.original.fullName ? 'rotate-90' : ''}`}>&#9654;</span>
               {row.original.fullName}
+              <BaselineBadge name={row.original.fullName} />
             </button>
           ),
         },
@@ -374,6 +436,7 @@ function SchemaTabContent({
             return v ? new Date(v).toLocaleDateString() : '—';
           },
         },
+        descriptionColumn,
       ];
       return (
         <ExpandableDataTable
@@ -399,6 +462,7 @@ function SchemaTabContent({
             >
               <span className={`text-[10px] transition-transform inline-block ${expandedDef === row.original.fullName ? 'rotate-90' : ''}`}>&#9654;</span>
               {row.original.fullName}
+              <BaselineBadge name={row.original.fullName} />
             </button>
           ),
         },
@@ -419,6 +483,7 @@ function SchemaTabContent({
             return v ? new Date(v).toLocaleDateString() : '—';
           },
         },
+        descriptionColumn,
       ];
       return (
         <ExpandableDataTable
@@ -444,6 +509,7 @@ function SchemaTabContent({
             >
               <span className={`text-[10px] transition-transform inline-block ${expandedDef === row.original.fullName ? 'rotate-90' : ''}`}>&#9654;</span>
               {row.original.fullName}
+              <BaselineBadge name={row.original.fullName} />
             </button>
           ),
         },
@@ -451,6 +517,7 @@ function SchemaTabContent({
         { header: 'Type', accessorKey: 'triggerType' },
         { header: 'Events', accessorKey: 'triggerEvents' },
         { header: 'Enabled', accessorKey: 'isEnabled', cell: ({ getValue }) => getValue() ? 'Yes' : 'No' },
+        descriptionColumn,
       ];
       return (
         <ExpandableDataTable
@@ -581,7 +648,7 @@ function ExpandableDataTable<T>({
               const isExpanded = expandedDef === key;
 
               return (
-                <ExpandableRow key={row.id} row={row} isExpanded={isExpanded} definition={def} />
+                <ExpandableRow key={row.id} row={row} isExpanded={isExpanded} objectName={key} definition={def} />
               );
             })}
           </tbody>
@@ -618,9 +685,10 @@ function ExpandableDataTable<T>({
   );
 }
 
-function ExpandableRow({ row, isExpanded, definition }: {
+function ExpandableRow({ row, isExpanded, objectName, definition }: {
   row: any;
   isExpanded: boolean;
+  objectName: string;
   definition: string | undefined;
 }) {
   const colSpan = row.getVisibleCells().length;
@@ -634,10 +702,15 @@ function ExpandableRow({ row, isExpanded, definition }: {
           </td>
         ))}
       </tr>
-      {isExpanded && definition && (
+      {isExpanded && (
         <tr>
           <td colSpan={colSpan} className="px-3 py-2">
-            <SqlDefinition definition={definition} />
+            <AnnotationEditor objectName={objectName} />
+            {definition && (
+              <div className="mt-2">
+                <SqlCode code={definition} objectName={objectName} />
+              </div>
+            )}
           </td>
         </tr>
       )}
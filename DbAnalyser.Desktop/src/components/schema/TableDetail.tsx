@@ -1,61 +1,35 @@
 import { useState, useMemo } from 'react';
 import { DataTable } from '../shared/DataTable';
+import { ChangeBadge } from '../shared/ChangeBadge';
+import { AnnotationEditor } from '../shared/AnnotationEditor';
+import { ImpactAnalysis } from './ImpactAnalysis';
+import { useBaselineChanges } from '../../hooks/useBaseline';
+import { useColumnAnnotations } from '../../hooks/useAnnotations';
+import { formatColumnType, generateDdl } from '../../hooks/useDdlGenerator';
 import type { ColumnDef } from '@tanstack/react-table';
 import type { TableInfo, ColumnInfo, IndexInfo, ForeignKeyInfo } from '../../api/types';
 
-function formatColumnType(r: ColumnInfo): string {
-  let t = r.dataType;
-  if (r.maxLength !== null && r.maxLength > 0 && !['int', 'bigint', 'bit', 'datetime', 'date', 'float', 'real', 'uniqueidentifier'].includes(r.dataType))
-    t += `(${r.maxLength === -1 ? 'max' : r.maxLength})`;
-  if (r.precision !== null && r.scale !== null && ['decimal', 'numeric'].includes(r.dataType))
-    t += `(${r.precision},${r.scale})`;
-  return t;
-}
-
-function generateDdl(table: TableInfo): string {
-  const lines: string[] = [];
-  lines.push(`CREATE TABLE [${table.schemaName}].[${table.tableName}] (`);
-
-  const colLines: string[] = table.columns.map((c) => {
-    let line = `    [${c.name}] ${formatColumnType(c).toUpperCase()}`;
-    if (c.isIdentity) line += ' IDENTITY';
-    if (c.isComputed) line += ' /* computed */';
-    else line += c.isNullable ? ' NULL' : ' NOT NULL';
-    if (c.defaultValue) line += ` DEFAULT ${c.defaultValue}`;
-    return line;
-  });
-
-  const pkCols = table.columns.filter((c) => c.isPrimaryKey);
-  if (pkCols.length > 0) {
-    colLines.push(`    CONSTRAINT [PK_${table.tableName}] PRIMARY KEY (${pkCols.map((c) => `[${c.name}]`).join(', ')})`);
-  }
-
-  lines.push(colLines.join(',\n'));
-  lines.push(');');
-
-  if (table.foreignKeys.length > 0) {
-    lines.push('');
-    for (const fk of table.foreignKeys) {
-      lines.push(`ALTER TABLE [${table.schemaName}].[${table.tableName}]`);
-      lines.push(`    ADD CONSTRAINT [${fk.name}] FOREIGN KEY ([${fk.fromColumn}])`);
-      lines.push(`    REFERENCES [${fk.toSchema}].[${fk.toTable}] ([${fk.toColumn}]);`);
-    }
-  }
-
-  return lines.join('\n');
-}
-
 export function TableDetail({ table }: { table: TableInfo }) {
   const [showDdl, setShowDdl] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [editingColumn, setEditingColumn] = useState<string | null>(null);
+  const [showImpact, setShowImpact] = useState(false);
+  const [impactColumn, setImpactColumn] = useState<string | null>(null);
+  const columnAnnotations = useColumnAnnotations(table.fullName);
   const ddl = useMemo(() => generateDdl(table), [table]);
+  const baselineChanges = useBaselineChanges();
+  const tableChange = baselineChanges?.objects.get(table.fullName);
+  const columnChanges = baselineChanges?.columns.get(table.fullName);
+  const removedColumns = columnChanges
+    ? [...columnChanges].filter(([, kind]) => kind === 'removed').map(([name]) => name)
+    : [];
   const columnCols: ColumnDef<ColumnInfo, any>[] = [
     { header: '#', accessorKey: 'ordinalPosition', size: 40 },
     {
       header: 'Name',
       accessorKey: 'name',
       cell: ({ row }) => (
-        <span className="flex items-center gap-1.5">
+        <span className="group/name flex items-center gap-1.5">
           {row.original.name}
           {row.original.isPrimaryKey && (
             <span className="text-[10px] px-1 rounded bg-accent/20 text-accent">PK</span>
@@ -63,6 +37,19 @@ export function TableDetail({ table }: { table: TableInfo }) {
           {row.original.isIdentity && (
             <span className="text-[10px] px-1 rounded bg-node-function/20 text-node-function">ID</span>
           )}
+          {columnChanges?.has(row.original.name) && (
+            <ChangeBadge kind={columnChanges.get(row.original.name)!} />
+          )}
+          <button
+            onClick={() => {
+              setImpactColumn(row.original.name);
+              setShowImpact(true);
+            }}
+            className="text-[10px] text-text-muted hover:text-accent transition-colors opacity-0 group-hover/name:opacity-100"
+            title="What breaks if this column is dropped or renamed?"
+          >
+            Impact
+          </button>
         </span>
       ),
     },
@@ -70,6 +57,24 @@ export function TableDetail({ table }: { table: TableInfo }) {
     { header: 'Nullable', accessorKey: 'isNullable', cell: ({ getValue }) => getValue() ? 'Yes' : 'No' },
     { header: 'Computed', accessorKey: 'isComputed', cell: ({ getValue }) => getValue() ? 'Yes' : '' },
     { header: 'Default', accessorKey: 'defaultValue', cell: ({ getValue }) => getValue() ?? '' },
+    {
+      header: 'Description',
+      accessorFn: (r) => columnAnnotations.get(r.name)?.description ?? '',
+      cell: ({ row, getValue }) => (
+        <span className="group/desc flex items-center gap-1.5">
+          <span className="text-text-secondary" title={columnAnnotations.get(row.original.name)?.notes || undefined}>
+            {getValue()}
+          </span>
+          <button
+            onClick={() => setEditingColumn(row.original.name)}
+            className="text-xs text-text-muted hover:text-accent transition-colors opacity-0 group-hover/desc:opacity-100"
+            title="Annotate column"
+          >
+            ✎
+          </button>
+        </span>
+      ),
+    },
   ];
 
   const indexCols: ColumnDef<IndexInfo, any>[] = [
@@ -90,13 +95,35 @@ export function TableDetail({ table }: { table: TableInfo }) {
 
   return (
     <div className="space-y-6">
-      <h3 className="text-base font-semibold text-text-primary">{table.fullName}</h3>
+      <h3 className="text-base font-semibold text-text-primary flex items-center gap-2">
+        {table.fullName}
+        {tableChange && <ChangeBadge kind={tableChange} />}
+      </h3>
+
+      <AnnotationEditor objectName={table.fullName} />
 
       <div>
         <h4 className="text-sm font-medium text-text-secondary mb-2">
           Columns ({table.columns.length})
         </h4>
         <DataTable data={table.columns} columns={columnCols} searchable={false} pageSize={100} />
+        {editingColumn && (
+          <div className="mt-2">
+            <AnnotationEditor
+              key={editingColumn}
+              objectName={table.fullName}
+              column={editingColumn}
+              autoEdit
+              onClose={() => setEditingColumn(null)}
+            />
+          </div>
+        )}
+        {removedColumns.length > 0 && (
+          <p className="mt-2 flex items-center gap-1.5 text-xs text-text-muted">
+            <ChangeBadge kind="removed" />
+            Since baseline: {removedColumns.join(', ')}
+          </p>
+        )}
       </div>
 
       {table.indexes.length > 0 && (
@@ -117,6 +144,21 @@ export function TableDetail({ table }: { table: TableInfo }) {
         </div>
       )}
 
+      <div>
+        <button
+          onClick={() => setShowImpact(!showImpact)}
+          className="text-sm font-medium text-text-secondary hover:text-text-primary transition-colors flex items-center gap-1.5"
+        >
+          <span className={`text-[10px] transition-transform inline-block ${showImpact ? 'rotate-90' : ''}`}>&#9654;</span>
+          Impact Analysis
+        </button>
+        {showImpact && (
+          <div className="mt-2">
+            <ImpactAnalysis table={table} column={impactColumn} onColumnChange={setImpactColumn} />
+          </div>
+        )}
+      </div>
+
       <div>
         <button
           onClick={() => setShowDdl(!showDdl)}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { annotationKey, isEmptyAnnotation, useAnnotation } from '../../hooks/useAnnotations';
+
+const inputClass = 'w-full bg-bg-primary border border-border rounded px-2.5 py-1.5 text-xs text-text-primary placeholder:text-text-muted focus:border-accent focus:outline-none';
+const buttonClass = 'px-3 py-1.5 rounded text-xs text-text-secondary hover:text-accent border border-border hover:border-accent/50 transition-colors';
+
+export function AnnotationTags({ tags }: { tags: string[] }) {
+  return (
+    <>
+      {tags.map((t) => (
+        <span key={t} className="text-[10px] px-1.5 py-0.5 rounded bg-accent/15 text-accent">#{t}</span>
+      ))}
+    </>
+  );
+}
+
+interface AnnotationEditorProps {
+  objectName: string;
+  column?: string;
+  /** Start in edit mode and call onClose when done (used for inline column editing). */
+  autoEdit?: boolean;
+  onClose?: () => void;
+}
+
+export function AnnotationEditor({ objectName, column, autoEdit = false, onClose }: AnnotationEditorProps) {
+  const annotation = useAnnotation(objectName, column);
+  const setAnnotation = useStore((s) => s.setAnnotation);
+  const toDraft = () => ({
+    description: annotation?.description ?? '',
+    owner: annotation?.owner ?? '',
+    tags: annotation?.tags.join(', ') ?? '',
+    notes: annotation?.notes ?? '',
+  });
+  const [editing, setEditing] = useState(autoEdit);
+  const [draft, setDraft] = useState(toDraft);
+
+  const startEdit = () => {
+    setDraft(toDraft());
+    setEditing(true);
+  };
+
+  const close = () => {
+    setEditing(false);
+    onClose?.();
+  };
+
+  const handleSave = () => {
+    const next = {
+      description: draft.description.trim(),
+      owner: draft.owner.trim(),
+      tags: [...new Set(draft.tags.split(',').map((t) => t.trim().replace(/^#/, '')).filter(Boolean))],
+      notes: draft.notes.trim(),
+    };
+    const key = annotationKey(objectName, column);
+    setAnnotation(key, isEmptyAnnotation(next) ? null : { ...next, updatedAt: new Date().toISOString() });
+    close();
+  };
+
+  const handleClear = () => {
+    setAnnotation(annotationKey(objectName, column), null);
+    close();
+  };
+
+  const target = column ? `${objectName}.${column}` : objectName;
+
+  if (editing) {
+    return (
+      <div className="rounded border border-border bg-bg-secondary p-3 space-y-2">
+        <div className="text-xs text-text-muted">Annotate <span className="font-mono text-text-secondary">{target}</span></div>
+        <input
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          placeholder="Description"
+          className={inputClass}
+          autoFocus
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            value={draft.owner}
+            onChange={(e) => setDraft({ ...draft, owner: e.target.value })}
+            placeholder="Owner"
+            className={inputClass}
+          />
+          <input
+            value={draft.tags}
+            onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+            placeholder="Tags (comma-separated)"
+            className={inputClass}
+          />
+        </div>
+        <textarea
+          value={draft.notes}
+          onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+          placeholder="Notes"
+          rows={3}
+          className={`${inputClass} resize-y`}
+        />
+        <div className="flex gap-2">
+          <button onClick={handleSave} className={buttonClass}>Save</button>
+          <button onClick={close} className={buttonClass}>Cancel</button>
+          {annotation && (
+            <button
+              onClick={handleClear}
+              className="ml-auto px-3 py-1.5 rounded text-xs text-text-secondary hover:text-severity-error border border-border hover:border-severity-error/50 transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (!annotation) {
+    return (
+      <button onClick={startEdit} className="text-xs text-text-muted hover:text-accent transition-colors">
+        + Add description, owner, tags or notes
+      </button>
+    );
+  }
+
+  return (
+    <div className="group/annotation rounded border border-border bg-bg-secondary px-3 py-2 space-y-1.5">
+      <div className="flex items-start gap-2">
+        <p className={`flex-1 text-sm ${annotation.description ? 'text-text-primary' : 'text-text-muted italic'}`}>
+          {annotation.description || 'No description'}
+        </p>
+        <button
+          onClick={startEdit}
+          className="text-xs text-text-muted hover:text-accent transition-colors opacity-0 group-hover/annotation:opacity-100"
+        >
+          Edit
+        </button>
+      </div>
+      {(annotation.owner || annotation.tags.length > 0) && (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs text-text-secondary">
+          {annotation.owner && <span>Owner: <span className="text-text-primary">{annotation.owner}</span></span>}
+          <AnnotationTags tags={annotation.tags} />
+        </div>
+      )}
+      {annotation.notes && (
+        <p className="text-xs text-text-secondary whitespace-pre-wrap">{annotation.notes}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import type { ChangeKind } from '../../hooks/useSchemaDiff';
+
+export const CHANGE_CONFIG: Record<ChangeKind, { color: string; icon: string; label: string }> = {
+  added: { color: '#4ecca3', icon: '+', label: 'Added' },
+  removed: { color: '#e94560', icon: '−', label: 'Removed' },
+  changed: { color: '#f0a500', icon: '~', label: 'Changed' },
+};
+
+export function ChangeBadge({ kind }: { kind: ChangeKind }) {
+  const cfg = CHANGE_CONFIG[kind];
+  return (
+    <span
+      className="text-[10px] px-1 rounded font-medium flex-shrink-0"
+      style={{ color: cfg.color, backgroundColor: `${cfg.color}26` }}
+      title={cfg.label}
+    >
+      {cfg.icon} {cfg.label.toLowerCase()}
+    </span>
+  );
+}
@@ -1,17 +1,61 @@
-import { useState, useEffect, useMemo, useRef, type JSX } from 'react';
+import { Fragment, useState, useEffect, useMemo, useRef, type JSX } from 'react';
 import { useStore } from '../../hooks/useStore';
 import { OBJECT_TYPE_COLORS } from '../../api/types';
 import { DataTable } from './DataTable';
+import { ChangeBadge } from './ChangeBadge';
+import { AnnotationEditor } from './AnnotationEditor';
+import { SqlCode } from './SqlCode';
+import { useBaselineChanges } from '../../hooks/useBaseline';
+import { annotationLines, useColumnAnnotations } from '../../hooks/useAnnotations';
+import { contextSnippets, generateCodeSearchCsv, useCodeSearch } from '../../hooks/useCodeSearch';
+import { buildSearchPattern, type CodeSearchLine } from '../../workers/codeSearch';
+import type { Annotation } from '../../api/types';
 import type { ColumnDef } from '@tanstack/react-table';
 import type { ColumnInfo, IndexInfo, ForeignKeyInfo, TableInfo, ViewInfo } from '../../api/types';
 
 interface SearchItem {
   name: string;
   type: string;
+  database?: string;
   definition?: string;
   matchLine?: string;
 }
 
+const CODE_TYPES = ['View', 'Procedure', 'Function', 'Trigger'];
+const CODE_CONTEXT_LINES = 1;
+const MAX_CODE_RESULTS = 100;
+// Snippets shown per object; the rest are counted, and the CSV export still has every match
+const MAX_CODE_SNIPPETS = 5;
+
+// Wrap each match in a highlight span
+function highlightRanges(text: string, ranges: [number, number][]) {
+  if (ranges.length === 0) return text;
+  const parts: (string | JSX.Element)[] = [];
+  let last = 0;
+  ranges.forEach(([start, end], k) => {
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <span key={k} className="bg-accent/30 text-accent rounded px-0.5">
+        {text.slice(start, end)}
+      </span>
+    );
+    last = end;
+  });
+  if (last < text.length) parts.push(text.slice(last));
+  return <>{parts}</>;
+}
+
+// A whole definition with the match ranges the search worker found on each line
+function highlightDefinition(definition: string, lines: CodeSearchLine[]) {
+  const ranges = new Map(lines.map((l) => [l.number, l.ranges]));
+  return definition.split('\n').map((text, i) => (
+    <Fragment key={i}>
+      {i > 0 && '\n'}
+      {highlightRanges(text, ranges.get(i + 1) ?? [])}
+    </Fragment>
+  ));
+}
+
 function formatColumnType(r: ColumnInfo): string {
   let t = r.dataType;
   if (r.maxLength !== null && r.maxLength > 0 && !['int', 'bigint', 'bit', 'datetime', 'date', 'float', 'real', 'uniqueidentifier'].includes(r.dataType))
@@ -24,14 +68,23 @@ function formatColumnType(r: ColumnInfo): string {
 export function SearchDialog() {
   const open = useStore((s) => s.searchOpen);
   const toggleSearch = useStore((s) => s.toggleSearch);
+  const searchTarget = useStore((s) => s.searchTarget);
+  const openObject = useStore((s) => s.openObject);
   const result = useStore((s) => s.result);
+  const annotations = useStore((s) => s.annotations);
+  const baselineChanges = useBaselineChanges();
   const [query, setQuery] = useState('');
   const [mode, setMode] = useState<'name' | 'code'>('name');
   const [expanded, setExpanded] = useState<string | null>(null);
   const [detail, setDetail] = useState<SearchItem | null>(null);
+  const [focus, setFocus] = useState<{ name: string; line?: number } | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [copied, setCopied] = useState(false);
+  const [regex, setRegex] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [codeTypes, setCodeTypes] = useState<Set<string>>(() => new Set(CODE_TYPES));
+  const [database, setDatabase] = useState('');
 
   // Ctrl+K shortcut
   useEffect(() => {
@@ -69,64 +122,123 @@ export function SearchDialog() {
     const items: SearchItem[] = [];
 
     result.schema?.tables.forEach((t) =>
-      items.push({ name: t.fullName, type: 'Table' })
+      items.push({ name: t.fullName, type: 'Table', database: t.databaseName })
     );
     result.schema?.views.forEach((v) =>
-      items.push({ name: v.fullName, type: 'View', definition: v.definition })
+      items.push({ name: v.fullName, type: 'View', database: v.databaseName, definition: v.definition })
     );
     result.schema?.storedProcedures.forEach((p) =>
-      items.push({ name: p.fullName, type: 'Procedure', definition: p.definition })
+      items.push({ name: p.fullName, type: 'Procedure', database: p.databaseName, definition: p.definition })
     );
     result.schema?.functions.forEach((f) =>
-      items.push({ name: f.fullName, type: 'Function', definition: f.definition })
+      items.push({ name: f.fullName, type: 'Function', database: f.databaseName, definition: f.definition })
     );
     result.schema?.triggers.forEach((t) =>
-      items.push({ name: t.fullName, type: 'Trigger', definition: t.definition })
+      items.push({ name: t.fullName, type: 'Trigger', database: t.databaseName, definition: t.definition })
     );
     result.schema?.synonyms.forEach((s) =>
-      items.push({ name: s.fullName, type: 'Synonym' })
+      items.push({ name: s.fullName, type: 'Synonym', database: s.databaseName })
     );
 
     return items;
   }, [result]);
 
-  const filtered = useMemo(() => {
-    if (!query.trim()) return mode === 'name' ? allItems.slice(0, 20) : [];
+  // Objects opened from elsewhere (names linked in SQL code, code issues) go straight to the detail view
+  useEffect(() => {
+    if (!open || !searchTarget) return;
+    const item = allItems.find((i) => i.name === searchTarget.name);
+    if (item) setDetail(item);
+    setFocus(searchTarget);
+    openObject(null);
+  }, [open, searchTarget, allItems, openObject]);
+
+  // Object and column annotations grouped by object, column '' being the object itself
+  const annotationsByObject = useMemo(() => {
+    const byObject = new Map<string, [string, Annotation][]>();
+    Object.entries(annotations).forEach(([key, value]) => {
+      const sep = key.indexOf(':');
+      const object = sep === -1 ? key : key.slice(0, sep);
+      const column = sep === -1 ? '' : key.slice(sep + 1);
+      if (!byObject.has(object)) byObject.set(object, []);
+      byObject.get(object)!.push([column, value]);
+    });
+    return byObject;
+  }, [annotations]);
+
+  // Databases that own code, for the server-mode filter
+  const codeDatabases = useMemo(
+    () => [...new Set(allItems.flatMap((i) => (i.definition && i.database ? [i.database] : [])))].sort(),
+    [allItems],
+  );
+
+  const pattern = useMemo(
+    () => (mode === 'code' && query.trim() ? buildSearchPattern(query, { regex, wholeWord }) : null),
+    [mode, query, regex, wholeWord],
+  );
+  const patternError = pattern && !(pattern instanceof RegExp) ? pattern.error : null;
+
+  const codeScope = useMemo(
+    () => allItems.filter((i) => i.definition && codeTypes.has(i.type) && (!database || i.database === database)),
+    [allItems, codeTypes, database],
+  );
+  const { hits: codeHits, searching } = useCodeSearch(codeScope, mode === 'code' ? query : '', { regex, wholeWord });
+  const hitsByName = useMemo(() => new Map(codeHits.map((h) => [h.object.name, h])), [codeHits]);
+
+  // Snippets of the listed objects, with a count of the matching lines left out
+  const snippetsByName = useMemo(() => {
+    const snippets = new Map<string, { snippets: CodeSearchLine[][]; more: CodeSearchLine[] }>();
+    codeHits.slice(0, MAX_CODE_RESULTS).forEach((hit) => {
+      const shown = contextSnippets(hit, CODE_CONTEXT_LINES, MAX_CODE_SNIPPETS);
+      const last = shown[shown.length - 1]?.at(-1)?.number ?? 0;
+      snippets.set(hit.object.name, { snippets: shown, more: hit.lines.filter((l) => l.number > last) });
+    });
+    return snippets;
+  }, [codeHits]);
+
+  const filtered = useMemo<SearchItem[]>(() => {
+    if (mode === 'code') return codeHits.slice(0, MAX_CODE_RESULTS).map((h) => h.object);
+    if (!query.trim()) return allItems.slice(0, 20);
     const q = query.toLowerCase();
 
-    if (mode === 'name') {
-      return allItems.filter((item) => item.name.toLowerCase().includes(q)).slice(0, 20);
+    // Names first, then objects whose annotations mention the query
+    const byName = allItems.filter((item) => item.name.toLowerCase().includes(q));
+    const byAnnotation: SearchItem[] = [];
+    for (const item of allItems) {
+      if (byName.length + byAnnotation.length >= 20) break;
+      if (item.name.toLowerCase().includes(q)) continue;
+      const hit = annotationsByObject.get(item.name)?.flatMap(([column, a]) =>
+        annotationLines(a).map((line) => (column ? `${column}: ${line}` : line))
+      ).find((line) => line.toLowerCase().includes(q));
+      if (hit) byAnnotation.push({ ...item, matchLine: hit });
     }
+    return [...byName, ...byAnnotation].slice(0, 20);
+  }, [allItems, annotationsByObject, codeHits, query, mode]);
 
-    // Code search: search in definitions
-    const results: SearchItem[] = [];
-    for (const item of allItems) {
-      if (!item.definition) continue;
-      const defLower = item.definition.toLowerCase();
-      const idx = defLower.indexOf(q);
-      if (idx === -1) continue;
-
-      const lines = item.definition.split('\n');
-      let matchLine: string | undefined;
-      let pos = 0;
-      for (const line of lines) {
-        if (pos + line.length >= idx) {
-          matchLine = line.trim();
-          break;
-        }
-        pos += line.length + 1;
-      }
+  const totalMatches = codeHits.reduce((sum, h) => sum + h.matches, 0);
 
-      results.push({ ...item, matchLine });
-      if (results.length >= 30) break;
-    }
-    return results;
-  }, [allItems, query, mode]);
+  // Open an object's detail view, scrolled to a line of its definition
+  const openDetail = (item: SearchItem, line?: number) => {
+    setFocus({ name: item.name, line });
+    setDetail(item);
+  };
+
+  const toggleCodeType = (type: string) => {
+    setCodeTypes((prev) => {
+      const next = new Set(prev);
+      if (next.has(type)) next.delete(type); else next.add(type);
+      return next;
+    });
+  };
+
+  const exportCodeSearch = async () => {
+    const databaseName = result?.schema?.databaseName ?? 'database';
+    await window.electronAPI?.exportFile(generateCodeSearchCsv(codeHits), `${databaseName}-code-search.csv`, [{ name: 'CSV Files', extensions: ['csv'] }]);
+  };
 
   useEffect(() => {
     setSelectedIndex(0);
     setExpanded(null);
-  }, [query, mode]);
+  }, [query, mode, regex, wholeWord, codeTypes, database]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'ArrowDown') {
@@ -137,7 +249,13 @@ export function SearchDialog() {
       setSelectedIndex((prev) => Math.max(prev - 1, 0));
     } else if (e.key === 'Enter' && filtered[selectedIndex]) {
       const item = filtered[selectedIndex];
-      setDetail(item);
+      openDetail(item, hitsByName.get(item.name)?.lines[0].number);
+    } else if (e.altKey && e.key.toLowerCase() === 'r') {
+      e.preventDefault();
+      setRegex((prev) => !prev);
+    } else if (e.altKey && e.key.toLowerCase() === 'w') {
+      e.preventDefault();
+      setWholeWord((prev) => !prev);
     } else if (e.key === 'Tab') {
       e.preventDefault();
       setMode((prev) => (prev === 'name' ? 'code' : 'name'));
@@ -159,33 +277,11 @@ export function SearchDialog() {
     );
   }
 
-  function highlightCode(code: string, q: string) {
-    if (!q) return code;
-    const parts: (string | JSX.Element)[] = [];
-    const lower = code.toLowerCase();
-    const qLower = q.toLowerCase();
-    let lastIdx = 0;
-    let idx = lower.indexOf(qLower);
-    let key = 0;
-    while (idx !== -1) {
-      if (idx > lastIdx) parts.push(code.slice(lastIdx, idx));
-      parts.push(
-        <span key={key++} className="bg-accent/30 text-accent rounded px-0.5">
-          {code.slice(idx, idx + q.length)}
-        </span>
-      );
-      lastIdx = idx + q.length;
-      idx = lower.indexOf(qLower, lastIdx);
-    }
-    if (lastIdx < code.length) parts.push(code.slice(lastIdx));
-    return <>{parts}</>;
-  }
-
   return (
     <div className="fixed inset-0 z-50 flex items-start justify-center pt-[10vh] bg-black/60" onClick={() => { if (!detail && !expanded) toggleSearch(); }}>
       <div
         className={`w-full bg-bg-card border border-border rounded-lg shadow-2xl overflow-hidden transition-all ${
-          detail ? 'max-w-4xl' : expanded ? 'max-w-4xl' : 'max-w-lg'
+          detail ? 'max-w-4xl' : expanded ? 'max-w-4xl' : mode === 'code' ? 'max-w-3xl' : 'max-w-lg'
         }`}
         onClick={(e) => e.stopPropagation()}
       >
@@ -194,6 +290,7 @@ export function SearchDialog() {
           <DetailPanel
             item={detail}
             result={result}
+            line={focus?.name === detail.name ? focus.line : undefined}
             onBack={() => setDetail(null)}
           />
         ) : (
@@ -228,15 +325,77 @@ export function SearchDialog() {
               </div>
             </div>
 
-            <div className={`overflow-y-auto ${expanded ? 'max-h-[70vh]' : 'max-h-96'}`}>
+            {/* Code search options */}
+            {mode === 'code' && (
+              <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-border text-[10px]">
+                {([['.*', 'Regular expression (Alt+R)', regex, setRegex], ['ab', 'Whole word (Alt+W)', wholeWord, setWholeWord]] as const).map(([label, title, on, set]) => (
+                  <button
+                    key={label}
+                    onClick={() => set(!on)}
+                    className={`px-1.5 py-0.5 rounded font-mono border transition-colors ${
+                      on ? 'border-accent/50 bg-accent/20 text-accent' : 'border-border text-text-muted hover:text-text-secondary'
+                    } ${label === 'ab' ? 'underline underline-offset-2' : ''}`}
+                    title={title}
+                  >
+                    {label}
+                  </button>
+                ))}
+                <span className="w-px h-4 bg-border mx-1" />
+                {CODE_TYPES.map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => toggleCodeType(type)}
+                    className={`px-1.5 py-0.5 rounded border transition-all ${
+                      codeTypes.has(type) ? 'border-current opacity-100' : 'border-border opacity-40 hover:opacity-60'
+                    }`}
+                    style={{ color: OBJECT_TYPE_COLORS[type] }}
+                  >
+                    {type}s
+                  </button>
+                ))}
+                {codeDatabases.length > 1 && (
+                  <select
+                    value={database}
+                    onChange={(e) => setDatabase(e.target.value)}
+                    className="bg-bg-primary border border-border rounded px-1.5 py-0.5 text-text-secondary focus:border-accent focus:outline-none"
+                  >
+                    <option value="">All databases</option>
+                    {codeDatabases.map((db) => <option key={db} value={db}>{db}</option>)}
+                  </select>
+                )}
+                <span className="ml-auto flex items-center gap-2">
+                  {patternError ? (
+                    <span className="text-severity-error truncate max-w-64" title={patternError}>{patternError}</span>
+                  ) : searching ? (
+                    <span className="text-text-muted">Searching...</span>
+                  ) : query.trim() && (
+                    <span className="text-text-muted">
+                      {totalMatches.toLocaleString()} {totalMatches === 1 ? 'match' : 'matches'} in {codeHits.length.toLocaleString()} {codeHits.length === 1 ? 'object' : 'objects'}
+                    </span>
+                  )}
+                  <button
+                    onClick={exportCodeSearch}
+                    disabled={codeHits.length === 0}
+                    className="px-2 py-0.5 rounded border border-border text-text-secondary hover:text-text-primary hover:border-accent/50 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+                    title="Export every match to CSV"
+                  >
+                    Export CSV
+                  </button>
+                </span>
+              </div>
+            )}
+
+            <div className={`overflow-y-auto ${expanded ? 'max-h-[70vh]' : mode === 'code' ? 'max-h-[60vh]' : 'max-h-96'}`}>
               {filtered.map((item, i) => {
                 const isExpanded = expanded === item.name;
                 const hasDef = !!item.definition;
+                const hit = mode === 'code' ? hitsByName.get(item.name) : undefined;
+                const snippets = hit && snippetsByName.get(item.name);
 
                 return (
                   <div key={`${item.name}-${i}`}>
                     <button
-                      onClick={() => setDetail(item)}
+                      onClick={() => openDetail(item, hit?.lines[0].number)}
                       onDoubleClick={() => {
                         if (hasDef) {
                           setExpanded(isExpanded ? null : item.name);
@@ -255,16 +414,54 @@ export function SearchDialog() {
                           {mode === 'name' ? highlightMatch(item.name, query) : item.name}
                         </span>
                         <span className="ml-auto flex items-center gap-2">
+                          {baselineChanges?.objects.has(item.name) && (
+                            <ChangeBadge kind={baselineChanges.objects.get(item.name)!} />
+                          )}
+                          {hit && (
+                            <span className="text-[10px] text-text-muted">
+                              {hit.matches} {hit.matches === 1 ? 'match' : 'matches'}
+                            </span>
+                          )}
                           <span className="text-xs text-text-muted">{item.type}</span>
                         </span>
                       </div>
-                      {mode === 'code' && item.matchLine && !isExpanded && (
-                        <div className="ml-5 text-[11px] text-text-muted font-mono truncate">
+                      {item.matchLine && !isExpanded && (
+                        <div className="ml-5 text-[11px] text-text-muted truncate">
                           {highlightMatch(item.matchLine, query)}
                         </div>
                       )}
                     </button>
 
+                    {/* The first matching lines with their context; a line opens the definition there */}
+                    {snippets && !isExpanded && (
+                      <div className="ml-9 mr-4 mb-2 rounded border border-border/50 bg-bg-secondary text-[11px] font-mono leading-relaxed overflow-x-auto">
+                        {snippets.snippets.map((snippet, k) => (
+                          <div key={k} className={k > 0 ? 'border-t border-border/50' : ''}>
+                            {snippet.map((line) => (
+                              <button
+                                key={line.number}
+                                onClick={() => openDetail(item, line.number)}
+                                className={`w-full flex min-w-max text-left hover:bg-bg-hover/50 ${
+                                  line.ranges.length > 0 ? 'text-text-secondary' : 'text-text-muted'
+                                }`}
+                              >
+                                <span className="w-10 shrink-0 pr-2 text-right text-text-muted select-none">{line.number}</span>
+                                <span className="whitespace-pre pr-4">{highlightRanges(line.text, line.ranges)}</span>
+                              </button>
+                            ))}
+                          </div>
+                        ))}
+                        {snippets.more.length > 0 && (
+                          <button
+                            onClick={() => openDetail(item, snippets.more[0].number)}
+                            className="w-full border-t border-border/50 px-2 py-0.5 text-left font-sans text-text-muted hover:text-accent hover:bg-bg-hover/50"
+                          >
+                            +{snippets.more.length} more {snippets.more.length === 1 ? 'line' : 'lines'}
+                          </button>
+                        )}
+                      </div>
+                    )}
+
                     {isExpanded && item.definition && (
                       <div className="border-t border-border/50 bg-bg-secondary relative group/code">
                         <button
@@ -278,18 +475,21 @@ export function SearchDialog() {
                           {copied ? 'Copied!' : 'Copy'}
                         </button>
                         <pre className="px-4 py-3 text-[11px] font-mono text-text-secondary overflow-x-auto whitespace-pre leading-relaxed max-h-[50vh] overflow-y-auto select-text">
-                          {mode === 'code' && query.trim()
-                            ? highlightCode(item.definition, query)
-                            : item.definition}
+                          {hit ? highlightDefinition(item.definition, hit.lines) : item.definition}
                         </pre>
                       </div>
                     )}
                   </div>
                 );
               })}
-              {filtered.length === 0 && query.trim() && (
+              {filtered.length === 0 && query.trim() && !patternError && !searching && (
                 <p className="px-4 py-6 text-sm text-text-muted text-center">No results found</p>
               )}
+              {codeHits.length > filtered.length && mode === 'code' && (
+                <p className="px-4 py-3 text-[11px] text-text-muted text-center">
+                  Showing the first {filtered.length} of {codeHits.length.toLocaleString()} objects; export to CSV for every match
+                </p>
+              )}
               {mode === 'code' && !query.trim() && (
                 <p className="px-4 py-6 text-sm text-text-muted text-center">Type to search in SQL definitions...</p>
               )}
@@ -303,12 +503,13 @@ export function SearchDialog() {
 
 /* ── Detail Panel ──────────────────────────────────────────────────────── */
 
-function DetailPanel({ item, result, onBack }: {
+function DetailPanel({ item, result, line, onBack }: {
   item: SearchItem;
   result: import('../../api/types').AnalysisResult | null;
+  line?: number;
   onBack: () => void;
 }) {
-  const [copied, setCopied] = useState(false);
+  const columnAnnotations = useColumnAnnotations(item.name);
 
   const table = useMemo<TableInfo | null>(() => {
     if (item.type !== 'Table' || !result?.schema) return null;
@@ -350,6 +551,7 @@ function DetailPanel({ item, result, onBack }: {
     { header: 'Type', accessorFn: (r) => formatColumnType(r) },
     { header: 'Nullable', accessorKey: 'isNullable', cell: ({ getValue }) => getValue() ? 'Yes' : 'No' },
     { header: 'Default', accessorKey: 'defaultValue', cell: ({ getValue }) => getValue() ?? '' },
+    { header: 'Description', accessorFn: (r) => columnAnnotations.get(r.name)?.description ?? '' },
   ];
 
   const indexCols: ColumnDef<IndexInfo, any>[] = [
@@ -389,6 +591,10 @@ function DetailPanel({ item, result, onBack }: {
 
       {/* Content */}
       <div className="overflow-y-auto p-4 space-y-5">
+        {['Table', 'View', 'Procedure', 'Function', 'Trigger'].includes(item.type) && (
+          <AnnotationEditor key={item.name} objectName={item.name} />
+        )}
+
         {/* Usage badge */}
         {usage && (
           <div className="flex items-center gap-2">
@@ -446,21 +652,7 @@ function DetailPanel({ item, result, onBack }: {
         {item.definition && (
           <div>
             <h4 className="text-xs font-medium text-text-secondary mb-2">SQL Definition</h4>
-            <div className="relative group/code rounded border border-border bg-bg-secondary">
-              <button
-                onClick={() => {
-                  navigator.clipboard.writeText(item.definition!);
-                  setCopied(true);
-                  setTimeout(() => setCopied(false), 2000);
-                }}
-                className="absolute top-2 right-2 px-2 py-1 rounded text-[10px] bg-bg-card border border-border text-text-muted hover:text-text-primary hover:border-accent/50 transition-colors opacity-0 group-hover/code:opacity-100"
-              >
-                {copied ? 'Copied!' : 'Copy'}
-              </button>
-              <pre className="px-4 py-3 text-[11px] font-mono text-text-secondary overflow-x-auto whitespace-pre leading-relaxed max-h-[40vh] overflow-y-auto select-text">
-                {item.definition}
-              </pre>
-            </div>
+            <SqlCode key={item.name} code={item.definition} objectName={item.name} line={line} maxHeight="max-h-[40vh]" />
           </div>
         )}
 
@@ -483,8 +675,6 @@ function DetailPanel({ item, result, onBack }: {
 /* ── Table DDL generator ───────────────────────────────────────────────── */
 
 function TableDdl({ table }: { table: TableInfo }) {
-  const [copied, setCopied] = useState(false);
-
   const ddl = useMemo(() => {
     const lines: string[] = [];
     lines.push(`CREATE TABLE [${table.schemaName}].[${table.tableName}] (`);
@@ -521,21 +711,7 @@ function TableDdl({ table }: { table: TableInfo }) {
   return (
     <div>
       <h4 className="text-xs font-medium text-text-secondary mb-2">SQL Definition</h4>
-      <div className="relative group/code rounded border border-border bg-bg-secondary">
-        <button
-          onClick={() => {
-            navigator.clipboard.writeText(ddl);
-            setCopied(true);
-            setTimeout(() => setCopied(false), 2000);
-          }}
-          className="absolute top-2 right-2 px-2 py-1 rounded text-[10px] bg-bg-card border border-border text-text-muted hover:text-text-primary hover:border-accent/50 transition-colors opacity-0 group-hover/code:opacity-100"
-        >
-          {copied ? 'Copied!' : 'Copy'}
-        </button>
-        <pre className="px-4 py-3 text-[11px] font-mono text-text-secondary overflow-x-auto whitespace-pre leading-relaxed max-h-[40vh] overflow-y-auto select-text">
-          {ddl}
-        </pre>
-      </div>
+      <SqlCode code={ddl} objectName={table.fullName} maxHeight="max-h-[40vh]" />
     </div>
   );
 }
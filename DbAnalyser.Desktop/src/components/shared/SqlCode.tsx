@@ -0,0 +1,186 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useStore } from '../../hooks/useStore';
+import { OBJECT_TYPE_COLORS } from '../../api/types';
+import { formatSql } from '../../hooks/useSqlFormatter';
+import {
+  findFoldRanges,
+  findObjectRefs,
+  highlightOf,
+  tokenizeDefinition,
+  useSqlObjectLookup,
+  type SqlFoldRange,
+  type SqlHighlight,
+  type SqlObjectLookup,
+  type SqlObjectTarget,
+} from '../../hooks/useSqlHighlight';
+
+const HIGHLIGHT_CLASSES: Record<SqlHighlight, string> = {
+  keyword: 'text-accent',
+  type: 'text-node-function',
+  function: 'text-text-primary',
+  identifier: '',
+  string: 'text-node-view',
+  number: 'text-node-procedure',
+  variable: 'text-node-trigger',
+  comment: 'text-text-muted italic',
+  plain: '',
+};
+
+interface Segment {
+  text: string;
+  highlight: SqlHighlight;
+  target?: SqlObjectTarget;
+}
+
+// Split highlighted tokens into display lines; a reference spanning dbo.[Name] stays one segment
+function buildLines(code: string, lookup: SqlObjectLookup | null, objectName?: string): { lines: Segment[][]; folds: SqlFoldRange[] } {
+  const tokens = tokenizeDefinition(code);
+  const targets = new Map<number, SqlObjectTarget>();
+  if (lookup) {
+    findObjectRefs(tokens, lookup).forEach((ref) => {
+      if (ref.name === objectName) return;
+      for (let k = ref.start; k < ref.end; k++) targets.set(k, ref);
+    });
+  }
+
+  const lines: Segment[][] = [[]];
+  tokens.forEach((t, i) => {
+    const highlight = highlightOf(tokens, i);
+    const target = targets.get(i);
+    t.text.split('\n').forEach((piece, p) => {
+      if (p > 0) lines.push([]);
+      if (!piece) return;
+      const line = lines[lines.length - 1];
+      const last = line[line.length - 1];
+      if (target && last?.target === target) last.text += piece;
+      else line.push({ text: piece, highlight, target });
+    });
+  });
+  return { lines, folds: findFoldRanges(tokens) };
+}
+
+interface SqlCodeProps {
+  code: string;
+  objectName?: string;   // the object shown; references to itself are not links
+  line?: number;         // 1-based line to scroll to and mark
+  maxHeight?: string;
+}
+
+/**
+ * Read-only SQL view with highlighting, line numbers, folding and a format toggle. Names of
+ * known objects in the code open that object in the search dialog.
+ */
+export function SqlCode({ code, objectName, line, maxHeight = 'max-h-[50vh]' }: SqlCodeProps) {
+  const [formatted, setFormatted] = useState(false);
+  const [folded, setFolded] = useState<Set<number>>(() => new Set());
+  const [copied, setCopied] = useState(false);
+  const lookup = useSqlObjectLookup();
+  const openObject = useStore((s) => s.openObject);
+  const markedRef = useRef<HTMLDivElement>(null);
+
+  const text = useMemo(() => (formatted ? formatSql(code) : code), [code, formatted]);
+  const { lines, folds } = useMemo(() => buildLines(text, lookup, objectName), [text, lookup, objectName]);
+  const foldAt = useMemo(() => new Map(folds.map((f) => [f.start, f])), [folds]);
+
+  useEffect(() => setFolded(new Set()), [text]);
+
+  // Line numbers refer to the original text, so the mark only applies unformatted
+  const marked = formatted ? undefined : line;
+  useEffect(() => {
+    markedRef.current?.scrollIntoView({ block: 'center' });
+  }, [marked]);
+
+  const toggleFold = (line: number) => {
+    setFolded((prev) => {
+      const next = new Set(prev);
+      if (next.has(line)) next.delete(line); else next.add(line);
+      return next;
+    });
+  };
+
+  // Lines to draw, skipping the inside of folded regions
+  const visible: number[] = [];
+  for (let n = 1; n <= lines.length; n++) {
+    visible.push(n);
+    const fold = folded.has(n) ? foldAt.get(n) : undefined;
+    if (fold) n = fold.end;
+  }
+  const gutterWidth = `${String(lines.length).length + 1}ch`;
+
+  return (
+    <div className="relative group/code rounded border border-border bg-bg-secondary">
+      <div className="absolute top-2 right-2 z-10 flex items-center gap-1">
+        <button
+          onClick={() => setFormatted(!formatted)}
+          className={`px-2 py-1 rounded text-[10px] bg-bg-card border transition-colors ${
+            formatted
+              ? 'text-accent border-accent/50'
+              : 'border-border text-text-muted hover:text-text-primary hover:border-accent/50 opacity-0 group-hover/code:opacity-100'
+          }`}
+          title="Lay the code out one clause per line with keywords in upper case"
+        >
+          Format
+        </button>
+        <button
+          onClick={() => {
+            navigator.clipboard.writeText(text);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+          }}
+          className="px-2 py-1 rounded text-[10px] bg-bg-card border border-border text-text-muted hover:text-text-primary hover:border-accent/50 transition-colors opacity-0 group-hover/code:opacity-100"
+        >
+          {copied ? 'Copied!' : 'Copy'}
+        </button>
+      </div>
+      <div className={`py-3 text-[11px] font-mono text-text-secondary leading-relaxed overflow-auto ${maxHeight} select-text`}>
+        {visible.map((n) => {
+          const fold = foldAt.get(n);
+          const isFolded = !!fold && folded.has(n);
+          return (
+            <div
+              key={n}
+              ref={n === marked ? markedRef : undefined}
+              className={`flex min-w-max ${n === marked ? 'bg-accent/10' : 'hover:bg-bg-hover/30'}`}
+            >
+              <span className={`sticky left-0 flex shrink-0 bg-bg-secondary select-none ${n === marked ? 'text-accent' : 'text-text-muted'}`}>
+                <span className="text-right" style={{ width: gutterWidth }}>{n}</span>
+                <button
+                  onClick={() => fold && toggleFold(n)}
+                  className={`w-4 text-center ${fold ? 'hover:text-accent' : 'cursor-default'}`}
+                  tabIndex={fold ? 0 : -1}
+                  title={fold ? (isFolded ? 'Unfold' : 'Fold') : undefined}
+                >
+                  {fold ? (isFolded ? '▸' : '▾') : ''}
+                </button>
+              </span>
+              <span className="whitespace-pre pl-1 pr-4">
+                {lines[n - 1].map((seg, k) => seg.target ? (
+                  <span
+                    key={k}
+                    onClick={() => openObject(seg.target!.name)}
+                    className="cursor-pointer underline decoration-dotted underline-offset-2 hover:decoration-solid"
+                    style={{ color: OBJECT_TYPE_COLORS[seg.target.type] }}
+                    title={`${seg.target.type} ${seg.target.name}`}
+                  >
+                    {seg.text}
+                  </span>
+                ) : (
+                  <span key={k} className={HIGHLIGHT_CLASSES[seg.highlight]}>{seg.text}</span>
+                ))}
+                {isFolded && (
+                  <button
+                    onClick={() => toggleFold(n)}
+                    className="ml-2 px-1 rounded bg-bg-card border border-border text-text-muted hover:text-accent"
+                    title={`${fold.end - n} lines folded`}
+                  >
+                    ⋯
+                  </button>
+                )}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
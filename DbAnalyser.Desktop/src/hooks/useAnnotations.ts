@@ -0,0 +1,106 @@
+import { useStore } from './useStore';
+import type { Annotation, AnnotationMap, DeletionMap } from '../api/types';
+
+const ANNOTATIONS_KEY = 'dbanalyser-annotations';
+
+export function annotationKey(objectName: string, column?: string): string {
+  return column ? `${objectName}:${column}` : objectName;
+}
+
+// Annotations follow the database, not the session: a live connection and a .dba
+// saved from it share the same scope.
+export function annotationScope(serverName: string | null, databaseName: string | null): string {
+  return `${serverName ?? ''}|${databaseName ?? ''}`.toLowerCase();
+}
+
+export function isEmptyAnnotation(a: Omit<Annotation, 'updatedAt'>): boolean {
+  return !a.description.trim() && !a.owner.trim() && a.tags.length === 0 && !a.notes.trim();
+}
+
+/** Searchable one-line summaries of an annotation, most specific first. */
+export function annotationLines(a: Annotation): string[] {
+  return [
+    a.description,
+    a.owner && `owner: ${a.owner}`,
+    a.tags.length > 0 && a.tags.map((t) => `#${t}`).join(' '),
+    a.notes,
+  ].filter((l): l is string => !!l && !!l.trim());
+}
+
+/**
+ * Merge two annotation (or decision) sets, keeping the most recently edited entry per key.
+ * An entry deleted after its last edit stays deleted.
+ */
+export function mergeAnnotations<T extends { updatedAt: string }>(a: Record<string, T>, b: Record<string, T>, deleted: DeletionMap = {}): Record<string, T> {
+  const merged: Record<string, T> = { ...a };
+  Object.entries(b).forEach(([key, value]) => {
+    if (!merged[key] || merged[key].updatedAt < value.updatedAt) merged[key] = value;
+  });
+  Object.entries(deleted).forEach(([key, deletedAt]) => {
+    if (merged[key] && merged[key].updatedAt <= deletedAt) delete merged[key];
+  });
+  return merged;
+}
+
+/** Merge two deletion sets, keeping the latest deletion per key. */
+export function mergeDeletions(a: DeletionMap, b: DeletionMap): DeletionMap {
+  const merged: DeletionMap = { ...a };
+  Object.entries(b).forEach(([key, deletedAt]) => {
+    if (!merged[key] || merged[key] < deletedAt) merged[key] = deletedAt;
+  });
+  return merged;
+}
+
+/** Record a key as deleted now, or clear its deletion when it is set again. */
+export function markDeleted(deleted: DeletionMap, key: string, isDeleted: boolean): DeletionMap {
+  const { [key]: _previous, ...rest } = deleted;
+  return isDeleted ? { ...rest, [key]: new Date().toISOString() } : rest;
+}
+
+// ── Local per-connection store ──────────────────────────────────────────────
+
+// localStorage entries under `storageKey` hold one map per annotation scope
+export function loadScoped<T>(storageKey: string, scope: string): Record<string, T> {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    const all = raw ? (JSON.parse(raw) as Record<string, Record<string, T>>) : {};
+    return all[scope] ?? {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveScoped<T>(storageKey: string, scope: string, entries: Record<string, T>) {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    const all = raw ? (JSON.parse(raw) as Record<string, Record<string, T>>) : {};
+    if (Object.keys(entries).length > 0) all[scope] = entries;
+    else delete all[scope];
+    localStorage.setItem(storageKey, JSON.stringify(all));
+  } catch { /* ignore */ }
+}
+
+export function loadLocalAnnotations(scope: string): AnnotationMap {
+  return loadScoped<Annotation>(ANNOTATIONS_KEY, scope);
+}
+
+export function saveLocalAnnotations(scope: string, annotations: AnnotationMap) {
+  saveScoped(ANNOTATIONS_KEY, scope, annotations);
+}
+
+// ── Hooks ───────────────────────────────────────────────────────────────────
+
+export function useAnnotation(objectName: string, column?: string): Annotation | undefined {
+  return useStore((s) => s.annotations[annotationKey(objectName, column)]);
+}
+
+/** Annotations on the columns of one object, keyed by column name. */
+export function useColumnAnnotations(objectName: string): Map<string, Annotation> {
+  const annotations = useStore((s) => s.annotations);
+  const prefix = `${objectName}:`;
+  const columns = new Map<string, Annotation>();
+  Object.entries(annotations).forEach(([key, value]) => {
+    if (key.startsWith(prefix)) columns.set(key.slice(prefix.length), value);
+  });
+  return columns;
+}
@@ -0,0 +1,48 @@
+import { useStore } from './useStore';
+import { diffSchemas, countChanges, type SchemaDiff, type ChangeKind, type DiffCategory } from './useSchemaDiff';
+import type { DatabaseSchema } from '../api/types';
+
+export interface BaselineChanges {
+  diff: SchemaDiff;
+  totals: Record<ChangeKind, number>;
+  byCategory: Record<DiffCategory, Record<ChangeKind, number>>;
+  objects: Map<string, ChangeKind>;                    // fullName -> change
+  columns: Map<string, Map<string, ChangeKind>>;       // table/view fullName -> column -> change
+}
+
+// Every page asks for the same diff; compute it once per (baseline, schema) pair
+let cached: { before: DatabaseSchema; after: DatabaseSchema; changes: BaselineChanges } | null = null;
+
+export function buildChanges(before: DatabaseSchema, after: DatabaseSchema): BaselineChanges {
+  const diff = diffSchemas(before, after);
+  const objects = new Map<string, ChangeKind>();
+  const columns = new Map<string, Map<string, ChangeKind>>();
+  const byCategory = {} as BaselineChanges['byCategory'];
+
+  (Object.keys(diff) as DiffCategory[]).forEach((cat) => {
+    const counts: Record<ChangeKind, number> = { added: 0, removed: 0, changed: 0 };
+    diff[cat].forEach((c) => {
+      counts[c.kind]++;
+      objects.set(c.name, c.kind);
+    });
+    byCategory[cat] = counts;
+  });
+
+  diff.tables.forEach((t) => {
+    if (t.columns.length === 0) return;
+    columns.set(t.name, new Map(t.columns.map((c) => [c.name, c.kind])));
+  });
+
+  return { diff, totals: countChanges(diff), byCategory, objects, columns };
+}
+
+// Changes of the current schema relative to the pinned baseline, or null when no baseline is pinned
+export function useBaselineChanges(): BaselineChanges | null {
+  const before = useStore((s) => s.baseline?.file.result.schema ?? null);
+  const after = useStore((s) => s.result?.schema ?? null);
+  if (!before || !after) return null;
+  if (!cached || cached.before !== before || cached.after !== after) {
+    cached = { before, after, changes: buildChanges(before, after) };
+  }
+  return cached.changes;
+}
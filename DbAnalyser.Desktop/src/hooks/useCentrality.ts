@@ -0,0 +1,219 @@
+import { useStore } from './useStore';
+import type { RelationshipMap } from '../api/types';
+
+export interface CentralityScores {
+  pageRank: number;           // 1 = average object
+  betweenness: number;        // share of shortest paths passing through the object, 0-1
+  inDegree: number;
+  outDegree: number;
+  isArticulation: boolean;
+}
+
+export type CentralityMetric = 'importance' | 'pageRank' | 'betweenness' | 'inDegree' | 'outDegree';
+
+export const CENTRALITY_METRICS: Record<CentralityMetric, { label: string; description: string }> = {
+  importance: {
+    label: 'Score',
+    description: 'Importance score from the analysis, combining direct and transitive dependents',
+  },
+  pageRank: {
+    label: 'PageRank',
+    description: 'How much is built on this object, counting dependents of dependents. 1.0 is average; higher means more of the schema ultimately relies on it',
+  },
+  betweenness: {
+    label: 'Betweenness',
+    description: 'Share of shortest paths between other objects that pass through this one. High values mark bridges between parts of the schema',
+  },
+  inDegree: {
+    label: 'In-degree',
+    description: 'Number of objects that reference or depend on this one',
+  },
+  outDegree: {
+    label: 'Out-degree',
+    description: 'Number of objects this one references or depends on',
+  },
+};
+
+export const ARTICULATION_DESCRIPTION = 'Cut point: removing this object splits the relationship graph into disconnected parts';
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-6;
+// Exact betweenness is O(n·m); above this size it is estimated from a sample of source objects
+const BETWEENNESS_SAMPLE = 500;
+
+interface CentralityGraph {
+  names: string[];
+  out: number[][];            // i depends on out[i]
+  undirected: number[][];
+}
+
+function buildGraph(rels: RelationshipMap): CentralityGraph {
+  const names = rels.dependencies.map((d) => d.fullName);
+  const index = new Map(names.map((n, i) => [n, i]));
+  const outSets = names.map(() => new Set<number>());
+  rels.dependencies.forEach((d, i) => d.dependsOn.forEach((target) => {
+    const j = index.get(target);
+    if (j !== undefined && j !== i) outSets[i].add(j);
+  }));
+  const undirectedSets = names.map(() => new Set<number>());
+  outSets.forEach((targets, i) => targets.forEach((j) => {
+    undirectedSets[i].add(j);
+    undirectedSets[j].add(i);
+  }));
+  return { names, out: outSets.map((s) => [...s]), undirected: undirectedSets.map((s) => [...s]) };
+}
+
+/** PageRank along dependency edges, so rank collects on the objects everything else is built on. */
+function pageRank(out: number[][]): number[] {
+  const n = out.length;
+  if (n === 0) return [];
+  let rank = new Array<number>(n).fill(1 / n);
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    // Objects that depend on nothing spread their rank evenly
+    let dangling = 0;
+    out.forEach((targets, i) => { if (targets.length === 0) dangling += rank[i]; });
+    const next = new Array<number>(n).fill((1 - DAMPING) / n + (DAMPING * dangling) / n);
+    out.forEach((targets, i) => {
+      const share = (DAMPING * rank[i]) / targets.length;
+      targets.forEach((j) => { next[j] += share; });
+    });
+    const delta = next.reduce((sum, r, i) => sum + Math.abs(r - rank[i]), 0);
+    rank = next;
+    if (delta < TOLERANCE) break;
+  }
+  return rank.map((r) => r * n);
+}
+
+/** Brandes' algorithm on the undirected graph, sampling sources on large graphs. */
+function betweenness(adjacency: number[][]): number[] {
+  const n = adjacency.length;
+  const score = new Array<number>(n).fill(0);
+  if (n < 3) return score;
+
+  let sources = adjacency.map((_, i) => i);
+  if (n > BETWEENNESS_SAMPLE) {
+    // Deterministic sample so the numbers don't change between renders
+    const step = n / BETWEENNESS_SAMPLE;
+    sources = Array.from({ length: BETWEENNESS_SAMPLE }, (_, k) => Math.floor(k * step));
+  }
+
+  const sigma = new Float64Array(n);
+  const dist = new Int32Array(n);
+  const delta = new Float64Array(n);
+  const order = new Int32Array(n);
+  for (const s of sources) {
+    sigma.fill(0);
+    dist.fill(-1);
+    delta.fill(0);
+    sigma[s] = 1;
+    dist[s] = 0;
+    let head = 0;
+    let tail = 0;
+    order[tail++] = s;
+    while (head < tail) {
+      const v = order[head++];
+      for (const w of adjacency[v]) {
+        if (dist[w] < 0) {
+          dist[w] = dist[v] + 1;
+          order[tail++] = w;
+        }
+        if (dist[w] === dist[v] + 1) sigma[w] += sigma[v];
+      }
+    }
+    for (let k = tail - 1; k > 0; k--) {
+      const w = order[k];
+      for (const v of adjacency[w]) {
+        if (dist[v] === dist[w] - 1) delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+      }
+      score[w] += delta[w];
+    }
+  }
+
+  // Each undirected pair is counted from both ends; normalize to the share of all pairs
+  const scale = (n / sources.length) / ((n - 1) * (n - 2));
+  return score.map((b) => b * scale);
+}
+
+/** Tarjan's articulation points, iterative so deep chains don't overflow the stack. */
+function articulationPoints(adjacency: number[][]): boolean[] {
+  const n = adjacency.length;
+  const disc = new Int32Array(n).fill(-1);
+  const low = new Int32Array(n);
+  const parent = new Int32Array(n).fill(-1);
+  const nextEdge = new Int32Array(n);
+  const result = new Array<boolean>(n).fill(false);
+  let time = 0;
+
+  for (let root = 0; root < n; root++) {
+    if (disc[root] >= 0) continue;
+    let rootChildren = 0;
+    const stack = [root];
+    disc[root] = low[root] = time++;
+    while (stack.length > 0) {
+      const v = stack[stack.length - 1];
+      if (nextEdge[v] < adjacency[v].length) {
+        const w = adjacency[v][nextEdge[v]++];
+        if (disc[w] < 0) {
+          parent[w] = v;
+          disc[w] = low[w] = time++;
+          if (v === root) rootChildren++;
+          stack.push(w);
+        } else if (w !== parent[v]) {
+          low[v] = Math.min(low[v], disc[w]);
+        }
+        continue;
+      }
+      stack.pop();
+      const p = parent[v];
+      if (p >= 0) {
+        low[p] = Math.min(low[p], low[v]);
+        if (p !== root && low[v] >= disc[p]) result[p] = true;
+      }
+    }
+    if (rootChildren > 1) result[root] = true;
+  }
+  return result;
+}
+
+export function computeCentrality(rels: RelationshipMap): Map<string, CentralityScores> {
+  const { names, out, undirected } = buildGraph(rels);
+  const inDegree = names.map(() => 0);
+  out.forEach((targets) => targets.forEach((j) => { inDegree[j]++; }));
+  const ranks = pageRank(out);
+  const between = betweenness(undirected);
+  const cuts = articulationPoints(undirected);
+
+  const scores = new Map<string, CentralityScores>();
+  names.forEach((name, i) => scores.set(name, {
+    pageRank: ranks[i],
+    betweenness: between[i],
+    inDegree: inDegree[i],
+    outDegree: out[i].length,
+    isArticulation: cuts[i],
+  }));
+  return scores;
+}
+
+/** Value of a metric for an object, for ranking and node sizing. */
+export function metricValue(metric: CentralityMetric, importanceScore: number, scores: CentralityScores | undefined): number {
+  if (metric === 'importance') return importanceScore;
+  return scores?.[metric] ?? 0;
+}
+
+export function formatMetric(metric: CentralityMetric, value: number): string {
+  if (metric === 'pageRank') return value.toFixed(2);
+  if (metric === 'betweenness') return `${(value * 100).toFixed(value >= 0.01 ? 1 : 2)}%`;
+  return String(Math.round(value));
+}
+
+// Shared by the rankings table and the graph's size-by toggle
+let cache: { rels: RelationshipMap; scores: Map<string, CentralityScores> } | null = null;
+
+/** Pass false to skip the computation while nothing shows the metrics. */
+export function useCentrality(enabled = true): Map<string, CentralityScores> | null {
+  const rels = useStore((s) => s.result?.relationships);
+  if (!rels || !enabled) return null;
+  if (!cache || cache.rels !== rels) cache = { rels, scores: computeCentrality(rels) };
+  return cache.scores;
+}
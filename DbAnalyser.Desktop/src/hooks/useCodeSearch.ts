@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from 'react';
+import { buildSearchPattern, type CodeSearchHit, type CodeSearchLine, type CodeSearchObject, type CodeSearchOptions } from '../workers/codeSearch';
+import type { CodeSearchRequest, CodeSearchResponse } from '../workers/codeSearch.worker';
+
+/**
+ * Group matching lines with `context` lines either side, merging groups that touch.
+ * Each group is a run of consecutive definition lines; context lines carry no ranges.
+ * With a `limit`, stops after that many groups.
+ */
+export function contextSnippets(hit: CodeSearchHit, context: number, limit = Infinity): CodeSearchLine[][] {
+  const source = hit.object.definition?.split('\n').map((l) => l.replace(/\r$/, '')) ?? [];
+  const byNumber = new Map(hit.lines.map((l) => [l.number, l]));
+  const snippets: CodeSearchLine[][] = [];
+  let last = 0;
+  for (const line of hit.lines) {
+    const from = Math.max(1, line.number - context);
+    const to = Math.min(source.length, line.number + context);
+    const current = from <= last + 1 ? snippets[snippets.length - 1] : undefined;
+    if (!current && snippets.length === limit) break;
+    const snippet = current ?? [];
+    if (!current) snippets.push(snippet);
+    for (let n = Math.max(from, last + 1); n <= to; n++) {
+      snippet.push(byNumber.get(n) ?? { number: n, text: source[n - 1], ranges: [] });
+    }
+    last = Math.max(last, to);
+  }
+  return snippets;
+}
+
+// ── Hook ────────────────────────────────────────────────────────────────────
+
+// Typing pause before a search starts
+const SEARCH_DELAY = 200;
+
+/**
+ * Search definitions in a worker once typing pauses. A new query abandons a search still running,
+ * so a runaway regex can't hold the results back.
+ */
+export function useCodeSearch(objects: CodeSearchObject[], query: string, options: CodeSearchOptions) {
+  const { regex, wholeWord } = options;
+  const [state, setState] = useState<{ hits: CodeSearchHit[]; searching: boolean }>({ hits: [], searching: false });
+  const workerRef = useRef<Worker | null>(null);
+  const loadedRef = useRef<CodeSearchObject[] | null>(null);
+  // The search the worker is running; only the latest one's results are kept
+  const pendingRef = useRef<{ id: number; objects: CodeSearchObject[] } | null>(null);
+  const nextIdRef = useRef(0);
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim() || !(buildSearchPattern(query, { regex, wholeWord }) instanceof RegExp)) {
+      nextIdRef.current++;
+      setState({ hits: [], searching: false });
+      return;
+    }
+    setState((prev) => ({ ...prev, searching: true }));
+    const timer = setTimeout(() => {
+      if (pendingRef.current) {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+      }
+      if (!workerRef.current) {
+        const worker = new Worker(new URL('../workers/codeSearch.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (e: MessageEvent<CodeSearchResponse>) => {
+          const msg = e.data;
+          const pending = pendingRef.current;
+          pendingRef.current = null;
+          if (!pending || msg.id !== nextIdRef.current) return;
+          if (msg.type === 'done') {
+            setState({ hits: msg.hits.map((h) => ({ object: pending.objects[h.index], matches: h.matches, lines: h.lines })), searching: false });
+          } else {
+            window.electronAPI?.log.error('Code search failed:', msg.message);
+            setState({ hits: [], searching: false });
+          }
+        };
+        workerRef.current = worker;
+        loadedRef.current = null;
+      }
+      if (loadedRef.current !== objects) {
+        const load: CodeSearchRequest = { type: 'load', objects };
+        workerRef.current.postMessage(load);
+        loadedRef.current = objects;
+      }
+      const id = ++nextIdRef.current;
+      pendingRef.current = { id, objects };
+      const search: CodeSearchRequest = { type: 'search', id, query, options: { regex, wholeWord } };
+      workerRef.current.postMessage(search);
+    }, SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [objects, query, regex, wholeWord]);
+
+  return state;
+}
+
+// ── Export ──────────────────────────────────────────────────────────────────
+
+const csvCell = (value: string | number) => {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** One CSV row per match: object, type, database, line, column, the matched text and its line. */
+export function generateCodeSearchCsv(hits: CodeSearchHit[]): string {
+  const header = ['Object', 'Type', 'Database', 'Line', 'Column', 'Match', 'Code'];
+  const rows = hits.flatMap((hit) => hit.lines.flatMap((line) => line.ranges.map(([start, end]) => [
+    hit.object.name,
+    hit.object.type,
+    hit.object.database ?? '',
+    line.number,
+    start + 1,
+    line.text.slice(start, end),
+    line.text.trim(),
+  ])));
+  return [header, ...rows].map((r) => r.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,689 @@
+import { useStore } from './useStore';
+import { tokenizeSql, unquoteIdentifier, Cursor, splitTopLevel, type SqlToken } from './useSqlTokenizer';
+import type { DatabaseSchema } from '../api/types';
+
+export interface ColumnLineageEdge {
+  from: string;              // `object:column` that feeds the value
+  to: string;                // `object:column` that receives it
+  via: string;               // view or procedure whose definition moves the data
+  kind: 'select' | 'insert' | 'update';
+  direct: boolean;           // copied as-is rather than computed in an expression
+}
+
+export interface ColumnLineageGraph {
+  edges: ColumnLineageEdge[];
+  objectTypes: Map<string, 'Table' | 'View'>;
+  parsed: number;            // definitions that produced at least one edge
+}
+
+export interface ColumnLineageTrace {
+  selected: string;
+  upstream: Map<number, string[]>;   // layer -> column keys
+  downstream: Map<number, string[]>;
+  edges: ColumnLineageEdge[];
+}
+
+export function columnKey(objectName: string, column: string): string {
+  return `${objectName}:${column}`;
+}
+
+export function splitColumnKey(key: string): { objectName: string; column: string } {
+  const sep = key.lastIndexOf(':');
+  return { objectName: key.slice(0, sep), column: key.slice(sep + 1) };
+}
+
+// ── Catalog ─────────────────────────────────────────────────────────────────
+
+interface CatalogObject {
+  fullName: string;
+  schemaName: string;
+  name: string;
+  databaseName?: string;
+  columns: string[];
+  insertable: string[];      // columns an INSERT without a column list fills, in order
+}
+
+interface Context {
+  schemaName: string;
+  databaseName?: string;
+}
+
+class Catalog {
+  private bySchemaName = new Map<string, CatalogObject[]>();
+  private byName = new Map<string, CatalogObject[]>();
+
+  add(obj: CatalogObject) {
+    const push = (map: Map<string, CatalogObject[]>, k: string) => {
+      if (!map.has(k)) map.set(k, []);
+      map.get(k)!.push(obj);
+    };
+    push(this.bySchemaName, `${obj.schemaName}.${obj.name}`.toLowerCase());
+    push(this.byName, obj.name.toLowerCase());
+  }
+
+  resolve(parts: string[], ctx: Context): CatalogObject | null {
+    const name = parts[parts.length - 1];
+    const db = parts.length > 2 ? parts[parts.length - 3] : ctx.databaseName;
+    const pick = (list: CatalogObject[] | undefined) => {
+      if (!list || list.length === 0) return null;
+      return list.find((o) => (o.databaseName ?? '').toLowerCase() === (db ?? '').toLowerCase()) ?? list[0];
+    };
+    if (parts.length > 1) return pick(this.bySchemaName.get(`${parts[parts.length - 2]}.${name}`.toLowerCase()));
+    return pick(this.bySchemaName.get(`${ctx.schemaName}.${name}`.toLowerCase()))
+      ?? pick(this.bySchemaName.get(`dbo.${name}`.toLowerCase()))
+      ?? pick(this.bySchemaName.get(`public.${name}`.toLowerCase()))
+      ?? (this.byName.get(name.toLowerCase())?.length === 1 ? this.byName.get(name.toLowerCase())![0] : null);
+  }
+}
+
+// ── Scopes ──────────────────────────────────────────────────────────────────
+
+interface Origin {
+  refs: Set<string>;         // base column keys
+  direct: boolean;
+}
+
+interface Output {
+  name: string | null;
+  origin: Origin;
+}
+
+// A FROM-clause entry: a catalog table or view, a derived table or CTE, or something we can't see into
+interface Source {
+  object?: CatalogObject;
+  outputs?: Output[];
+}
+
+interface Scope {
+  sources: Map<string, Source>;  // alias (or bare name) -> source, lowercased
+  parent?: Scope;
+}
+
+type Ctes = Map<string, Output[]>;
+
+interface Parser {
+  catalog: Catalog;
+  ctx: Context;
+}
+
+const isIdent = (t: SqlToken | undefined) => t?.type === 'word' || t?.type === 'quoted';
+const upper = (t: SqlToken | undefined) => (t?.type === 'word' ? t.text.toUpperCase() : '');
+
+const SELECT_CLAUSES = new Set(['FROM', 'INTO', 'WHERE', 'GROUP', 'HAVING', 'ORDER', 'OPTION', 'FOR', 'LIMIT', 'OFFSET', 'FETCH', 'WINDOW', 'RETURNING']);
+const FROM_END = new Set(['WHERE', 'GROUP', 'HAVING', 'ORDER', 'OPTION', 'FOR', 'LIMIT', 'OFFSET', 'FETCH', 'WINDOW', 'RETURNING', 'UNION', 'EXCEPT', 'INTERSECT']);
+const NOT_ALIAS = new Set([
+  'ON', 'USING', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER', 'NATURAL', 'APPLY', 'WHERE', 'GROUP', 'ORDER',
+  'HAVING', 'UNION', 'EXCEPT', 'INTERSECT', 'WITH', 'OPTION', 'LIMIT', 'OFFSET', 'FETCH', 'FOR', 'PIVOT', 'UNPIVOT', 'SET',
+  'OUTPUT', 'RETURNING', 'WINDOW', 'TABLESAMPLE', 'LATERAL', 'FROM', 'SELECT', 'END', 'AND', 'OR', 'WHEN', 'THEN', 'ELSE',
+]);
+
+const emptyOrigin = (): Origin => ({ refs: new Set(), direct: false });
+
+// A branch that reads nothing (a literal or NULL) doesn't make the other branch's copy indirect
+function mergeOrigins(a: Origin, b: Origin): Origin {
+  const direct = a.refs.size === 0 ? b.direct : b.refs.size === 0 ? a.direct : a.direct && b.direct;
+  return { refs: new Set([...a.refs, ...b.refs]), direct };
+}
+
+function isPlainReference(tokens: SqlToken[]): boolean {
+  return tokens.length > 0 && tokens.length % 2 === 1 && tokens.every((t, i) => (i % 2 === 0 ? isIdent(t) : t.text === '.'));
+}
+
+function lookupColumn(source: Source, column: string): Origin | null {
+  const lower = column.toLowerCase();
+  if (source.object) {
+    const actual = source.object.columns.find((c) => c.toLowerCase() === lower);
+    return actual ? { refs: new Set([columnKey(source.object.fullName, actual)]), direct: true } : null;
+  }
+  const output = source.outputs?.find((o) => o.name?.toLowerCase() === lower);
+  return output ? output.origin : null;
+}
+
+function resolveColumn(parts: string[], scope: Scope | undefined): Origin | null {
+  const column = parts[parts.length - 1];
+  for (let s = scope; s; s = s.parent) {
+    if (parts.length > 1) {
+      const source = s.sources.get(parts[parts.length - 2].toLowerCase());
+      if (source) return lookupColumn(source, column);
+      continue;
+    }
+    for (const source of new Set(s.sources.values())) {
+      const found = lookupColumn(source, column);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+// ── Expressions ─────────────────────────────────────────────────────────────
+
+function resolveExpression(p: Parser, tokens: SqlToken[], scope: Scope, ctes: Ctes): Origin {
+  const refs = new Set<string>();
+  let references = 0;
+  let directRef: Origin | null = null;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    // Scalar subquery: whatever its select list reads
+    if (t.text === '(' && ['SELECT', 'WITH'].includes(upper(tokens[i + 1]))) {
+      const inner = groupAt(tokens, i);
+      parseQuery(p, inner, ctes, scope).forEach((o) => o.origin.refs.forEach((r) => refs.add(r)));
+      i += inner.length + 1;
+      references += 2;
+      continue;
+    }
+    if (!isIdent(t) || tokens[i - 1]?.text === '::') continue;
+    const parts = [unquoteIdentifier(t.text)];
+    while (tokens[i + 1]?.text === '.' && isIdent(tokens[i + 2])) {
+      parts.push(unquoteIdentifier(tokens[i + 2].text));
+      i += 2;
+    }
+    if (tokens[i + 1]?.text === '(') continue; // function call; its arguments are scanned next
+    const origin = resolveColumn(parts, scope);
+    if (!origin) continue;
+    references++;
+    directRef = origin;
+    origin.refs.forEach((r) => refs.add(r));
+  }
+  const direct = references === 1 && isPlainReference(tokens) && !!directRef?.direct;
+  return { refs, direct };
+}
+
+/** Tokens inside the parenthesised group opening at `start`. */
+function groupAt(tokens: SqlToken[], start: number): SqlToken[] {
+  let depth = 0;
+  for (let j = start; j < tokens.length; j++) {
+    if (tokens[j].text === '(') depth++;
+    else if (tokens[j].text === ')' && --depth === 0) return tokens.slice(start + 1, j);
+  }
+  return tokens.slice(start + 1);
+}
+
+// ── Queries ─────────────────────────────────────────────────────────────────
+
+function parseCtes(p: Parser, c: Cursor, ctes: Ctes): Ctes {
+  const scoped = new Map(ctes);
+  do {
+    const name = c.identifier();
+    if (!name) break;
+    const columns = c.is('(') ? c.group().filter(isIdent).map((t) => unquoteIdentifier(t.text)) : [];
+    if (!c.accept('AS')) break;
+    c.accept('MATERIALIZED') || c.accept('NOT', 'MATERIALIZED');
+    const outputs = parseQuery(p, c.group(), scoped);
+    scoped.set(name.toLowerCase(), columns.length > 0
+      ? columns.map((col, i) => ({ name: col, origin: outputs[i]?.origin ?? emptyOrigin() }))
+      : outputs);
+  } while (c.accept(','));
+  return scoped;
+}
+
+/** Output columns of a query expression: optional CTEs, then SELECTs joined by set operators. */
+function parseQuery(p: Parser, tokens: SqlToken[], ctes: Ctes, outer?: Scope): Output[] {
+  const c = new Cursor(tokens);
+  let scoped = ctes;
+  if (c.accept('WITH')) {
+    c.accept('RECURSIVE');
+    scoped = parseCtes(p, c, ctes);
+  }
+
+  // Split on top-level UNION / EXCEPT / INTERSECT and merge branches by position
+  const branches: SqlToken[][] = [[]];
+  let depth = 0;
+  for (let i = c.pos; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.text === '(') depth++;
+    else if (t.text === ')') depth--;
+    if (depth === 0 && ['UNION', 'EXCEPT', 'INTERSECT'].includes(upper(t))) {
+      if (['ALL', 'DISTINCT'].includes(upper(tokens[i + 1]))) i++;
+      branches.push([]);
+    } else {
+      branches[branches.length - 1].push(t);
+    }
+  }
+
+  let result: Output[] | null = null;
+  for (const branch of branches) {
+    const body = branch[0]?.text === '(' && groupAt(branch, 0).length === branch.length - 2 ? branch.slice(1, -1) : branch;
+    const outputs = upper(body[0]) === 'SELECT' ? parseSelect(p, body, scoped, outer)
+      : ['WITH', '('].includes(upper(body[0]) || body[0]?.text) ? parseQuery(p, body, scoped, outer)
+      : [];
+    if (!result) {
+      result = outputs;
+    } else {
+      result = result.map((o, i) => ({ name: o.name, origin: mergeOrigins(o.origin, outputs[i]?.origin ?? emptyOrigin()) }));
+    }
+  }
+  return result ?? [];
+}
+
+function parseSelect(p: Parser, tokens: SqlToken[], ctes: Ctes, outer?: Scope): Output[] {
+  // Locate clause keywords at depth 0
+  let depth = 0;
+  let listEnd = tokens.length;
+  let fromAt = -1;
+  let fromEnd = tokens.length;
+  for (let i = 1; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.text === '(') depth++;
+    else if (t.text === ')') depth--;
+    if (depth !== 0) continue;
+    const word = upper(t);
+    if (listEnd === tokens.length && SELECT_CLAUSES.has(word)) listEnd = i;
+    if (word === 'FROM' && fromAt < 0) fromAt = i;
+    else if (fromAt >= 0 && FROM_END.has(word)) { fromEnd = i; break; }
+  }
+
+  const scope: Scope = fromAt >= 0 ? parseFrom(p, tokens.slice(fromAt + 1, fromEnd), ctes, outer) : { sources: new Map(), parent: outer };
+
+  const list = new Cursor(tokens.slice(1, listEnd));
+  if (list.accept('DISTINCT')) {
+    if (list.accept('ON')) list.group();
+  }
+  list.accept('ALL');
+  if (list.accept('TOP')) {
+    if (list.is('(')) list.group(); else list.next();
+    list.accept('PERCENT');
+    list.accept('WITH', 'TIES');
+  }
+
+  const outputs: Output[] = [];
+  splitTopLevel(list.tokens.slice(list.pos)).forEach((item) => outputs.push(...parseSelectItem(p, item, scope, ctes)));
+  return outputs;
+}
+
+function parseSelectItem(p: Parser, item: SqlToken[], scope: Scope, ctes: Ctes): Output[] {
+  const last = item[item.length - 1];
+
+  // `*` or `alias.*`
+  if (last.text === '*' && (item.length === 1 || item[item.length - 2]?.text === '.')) {
+    const qualifier = item.length >= 3 ? unquoteIdentifier(item[item.length - 3].text).toLowerCase() : null;
+    const sources = qualifier ? [scope.sources.get(qualifier)] : [...new Set(scope.sources.values())];
+    return sources.flatMap((s) => {
+      if (s?.object) return s.object.columns.map((col) => ({ name: col, origin: { refs: new Set([columnKey(s.object!.fullName, col)]), direct: true } }));
+      return s?.outputs ?? [];
+    });
+  }
+
+  // T-SQL `alias = expression`
+  if (item.length > 2 && isIdent(item[0]) && item[1].text === '=') {
+    return [{ name: unquoteIdentifier(item[0].text), origin: resolveExpression(p, item.slice(2), scope, ctes) }];
+  }
+
+  // `expression [AS] alias`
+  let expr = item;
+  let name: string | null = null;
+  const prev = item[item.length - 2];
+  if (prev && upper(prev) === 'AS' && (isIdent(last) || last.type === 'string')) {
+    name = last.type === 'string' ? last.text.replace(/^N?'|'$/g, '') : unquoteIdentifier(last.text);
+    expr = item.slice(0, -2);
+  } else if (prev && isIdent(last) && !NOT_ALIAS.has(upper(last)) && prev.text !== '.' && prev.text !== '::'
+    && (isIdent(prev) || prev.text === ')' || prev.type === 'string' || prev.type === 'number') && !NOT_ALIAS.has(upper(prev))) {
+    name = unquoteIdentifier(last.text);
+    expr = item.slice(0, -1);
+  }
+  if (name === null && isPlainReference(expr)) name = unquoteIdentifier(expr[expr.length - 1].text);
+  return [{ name, origin: resolveExpression(p, expr, scope, ctes) }];
+}
+
+function parseFrom(p: Parser, tokens: SqlToken[], ctes: Ctes, outer?: Scope): Scope {
+  const scope: Scope = { sources: new Map(), parent: outer };
+  const c = new Cursor(tokens);
+
+  while (!c.done) {
+    let source: Source | null = null;
+    let defaultAlias: string | null = null;
+
+    if (c.is('(')) {
+      const inner = c.group();
+      if (['SELECT', 'WITH'].includes(upper(inner[0]))) {
+        source = { outputs: parseQuery(p, inner, ctes, outer) };
+      } else {
+        // Parenthesised join: pull its sources into this scope
+        parseFrom(p, inner, ctes, outer).sources.forEach((s, k) => scope.sources.set(k, s));
+      }
+    } else if (c.accept('LATERAL')) {
+      continue;
+    } else if (isIdent(c.peek())) {
+      const parts = [c.identifier()!];
+      while (c.is('.') && c.isIdentifier(1)) {
+        c.next();
+        parts.push(c.identifier()!);
+      }
+      defaultAlias = parts[parts.length - 1];
+      if (c.is('(')) {
+        c.group(); // table-valued function
+        source = { outputs: [] };
+      } else if (parts.length === 1 && ctes.has(parts[0].toLowerCase())) {
+        source = { outputs: ctes.get(parts[0].toLowerCase()) };
+      } else {
+        const object = p.catalog.resolve(parts, p.ctx);
+        source = object ? { object } : { outputs: [] };
+      }
+    } else if (c.peek()?.type === 'variable') {
+      defaultAlias = c.next()!.text;
+      source = { outputs: [] };
+    }
+
+    if (source) {
+      c.accept('AS');
+      let alias = defaultAlias;
+      if (isIdent(c.peek()) && !NOT_ALIAS.has(upper(c.peek()))) {
+        alias = c.identifier();
+        if (c.is('(')) c.group(); // alias(column, ...) list
+      }
+      if (c.is('WITH', '(')) {
+        c.next();
+        c.group(); // table hints
+      }
+      if (alias) scope.sources.set(alias.toLowerCase(), source);
+    }
+
+    // Skip ON conditions and join keywords up to the next table factor
+    while (!c.done) {
+      if (c.is('(')) {
+        c.group();
+        continue;
+      }
+      const word = c.next()!.text.toUpperCase();
+      if (word === ',' || word === 'JOIN' || word === 'APPLY') break;
+    }
+  }
+  return scope;
+}
+
+// ── Statements ──────────────────────────────────────────────────────────────
+
+const STATEMENT_STARTS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'IF', 'ELSE', 'BEGIN', 'END', 'RETURN', 'DECLARE', 'SET', 'EXEC', 'EXECUTE',
+  'PRINT', 'RAISERROR', 'THROW', 'COMMIT', 'ROLLBACK', 'WHILE', 'OPEN', 'FETCH', 'CLOSE', 'DEALLOCATE', 'TRUNCATE',
+  'DROP', 'CREATE', 'ALTER', 'GO', 'PERFORM', 'RAISE', 'LOOP', 'CALL', 'GRANT', 'REVOKE',
+]);
+
+/** Index where the statement starting at `from` ends: `;`, an unmatched `)`, or the next statement keyword. */
+function statementEnd(tokens: SqlToken[], from: number): number {
+  let depth = 0;
+  for (let i = from + 1; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.text === '(') depth++;
+    else if (t.text === ')' && --depth < 0) return i;
+    if (depth !== 0) continue;
+    if (t.text === ';') return i;
+    const word = upper(t);
+    const before = upper(tokens[i - 1]);
+    // SET continues an UPDATE, FETCH continues OFFSET .. FETCH, ELSE and END belong to CASE
+    if (word === 'SET' && tokens.slice(from, i).some((x) => upper(x) === 'UPDATE')) continue;
+    if (word === 'FETCH' && tokens.slice(from, i).some((x) => upper(x) === 'OFFSET')) continue;
+    if ((word === 'ELSE' || word === 'END') && caseOpen(tokens, from, i)) continue;
+    if (STATEMENT_STARTS.has(word) && before !== 'ON' && before !== 'DO') return i;
+    if (word === 'SELECT' && !['UNION', 'ALL', 'EXCEPT', 'INTERSECT', 'DISTINCT', '('].includes(before || tokens[i - 1].text)
+      && tokens.slice(from, i).some((x) => upper(x) === 'FROM' || upper(x) === 'SELECT')) return i;
+    if (word === 'WITH' && isIdent(tokens[i + 1]) && !['TIES', 'CHECK', 'ROLLUP', 'CUBE'].includes(upper(tokens[i + 1]))) return i;
+  }
+  return tokens.length;
+}
+
+function caseOpen(tokens: SqlToken[], from: number, to: number): boolean {
+  let open = 0;
+  for (let i = from; i < to; i++) {
+    if (upper(tokens[i]) === 'CASE') open++;
+    else if (upper(tokens[i]) === 'END') open--;
+  }
+  return open > 0;
+}
+
+function objectName(c: Cursor): string[] | null {
+  if (!isIdent(c.peek())) return null;
+  const parts = [c.identifier()!];
+  while (c.is('.') && c.isIdentifier(1)) {
+    c.next();
+    parts.push(c.identifier()!);
+  }
+  return parts;
+}
+
+function insertEdges(p: Parser, tokens: SqlToken[], ctes: Ctes, via: string): ColumnLineageEdge[] {
+  const c = new Cursor(tokens);
+  c.accept('INTO');
+  const parts = objectName(c);
+  const target = parts ? p.catalog.resolve(parts, p.ctx) : null;
+  if (!target) return [];
+  if (c.is('WITH', '(')) {
+    c.next();
+    c.group();
+  }
+  const columns = c.is('(') ? c.group().filter(isIdent).map((t) => unquoteIdentifier(t.text)) : target.insertable;
+  if (c.accept('OUTPUT')) {
+    while (!c.done && !['SELECT', 'WITH', 'VALUES', 'EXEC', 'EXECUTE'].includes(upper(c.peek()))) {
+      if (c.is('(')) c.group(); else c.next();
+    }
+  }
+  if (!['SELECT', 'WITH'].includes(upper(c.peek())) && !c.is('(')) return [];
+
+  const outputs = parseQuery(p, tokens.slice(c.pos), ctes);
+  return columns.flatMap((col, i) => {
+    const actual = target.columns.find((x) => x.toLowerCase() === col.toLowerCase()) ?? col;
+    const origin = outputs[i]?.origin;
+    return origin ? [...origin.refs].map((from) => ({ from, to: columnKey(target.fullName, actual), via, kind: 'insert' as const, direct: origin.direct })) : [];
+  });
+}
+
+function updateEdges(p: Parser, tokens: SqlToken[], ctes: Ctes, via: string): ColumnLineageEdge[] {
+  const c = new Cursor(tokens);
+  if (c.accept('TOP')) {
+    if (c.is('(')) c.group(); else c.next();
+    c.accept('PERCENT');
+  }
+  c.accept('ONLY');
+  const parts = objectName(c);
+  if (!parts) return [];
+  c.accept('AS');
+  const alias = isIdent(c.peek()) && upper(c.peek()) !== 'SET' ? c.identifier() : null;
+  if (c.is('WITH', '(')) {
+    c.next();
+    c.group();
+  }
+  if (!c.accept('SET')) return [];
+
+  // SET list runs to FROM / WHERE / OUTPUT at depth 0
+  const rest = tokens.slice(c.pos);
+  let depth = 0;
+  let setEnd = rest.length;
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i].text === '(') depth++;
+    else if (rest[i].text === ')') depth--;
+    else if (depth === 0 && ['FROM', 'WHERE', 'OUTPUT', 'OPTION', 'RETURNING'].includes(upper(rest[i]))) { setEnd = i; break; }
+  }
+  let fromEnd = rest.length;
+  if (upper(rest[setEnd]) === 'FROM') {
+    depth = 0;
+    for (let i = setEnd + 1; i < rest.length; i++) {
+      if (rest[i].text === '(') depth++;
+      else if (rest[i].text === ')') depth--;
+      else if (depth === 0 && ['WHERE', 'OUTPUT', 'OPTION', 'RETURNING'].includes(upper(rest[i]))) { fromEnd = i; break; }
+    }
+  }
+  const scope = upper(rest[setEnd]) === 'FROM' ? parseFrom(p, rest.slice(setEnd + 1, fromEnd), ctes) : { sources: new Map<string, Source>() };
+
+  // T-SQL `UPDATE alias SET .. FROM table alias` names the target through the FROM clause
+  const fromAlias = parts.length === 1 ? scope.sources.get(parts[0].toLowerCase()) : undefined;
+  const target = fromAlias?.object ?? p.catalog.resolve(parts, p.ctx);
+  if (!target) return [];
+  if (!fromAlias) scope.sources.set((alias ?? parts[parts.length - 1]).toLowerCase(), { object: target });
+
+  return splitTopLevel(rest.slice(0, setEnd)).flatMap((item) => {
+    const eq = item.findIndex((t) => t.text === '=');
+    const lhs = item.slice(0, eq);
+    if (eq < 1 || !isIdent(lhs[lhs.length - 1])) return [];
+    const col = unquoteIdentifier(lhs[lhs.length - 1].text);
+    const actual = target.columns.find((x) => x.toLowerCase() === col.toLowerCase());
+    if (!actual) return [];
+    const origin = resolveExpression(p, item.slice(eq + 1), scope, ctes);
+    return [...origin.refs].map((from) => ({ from, to: columnKey(target.fullName, actual), via, kind: 'update' as const, direct: origin.direct }));
+  });
+}
+
+// PL/pgSQL bodies arrive as one $$dollar-quoted$$ string; parse what's inside it
+function significantTokens(sql: string): SqlToken[] {
+  return tokenizeSql(sql).flatMap((t) => {
+    if (t.type === 'whitespace' || t.type === 'comment') return [];
+    const body = t.type === 'string' ? /^(\$\w*\$)([\s\S]*)\1$/.exec(t.text) : null;
+    return body ? significantTokens(body[2]) : [t];
+  });
+}
+
+function viewEdges(p: Parser, view: { fullName: string; columns: string[] }, definition: string): ColumnLineageEdge[] {
+  const tokens = significantTokens(definition);
+  const c = new Cursor(tokens);
+  let declared: string[] = [];
+  // SQL Server returns the whole CREATE VIEW statement; PostgreSQL only the query
+  if (c.accept('CREATE') || c.accept('ALTER')) {
+    c.accept('OR', 'REPLACE') || c.accept('OR', 'ALTER');
+    while (!c.done && upper(c.peek()) !== 'VIEW') c.next();
+    c.accept('VIEW');
+    objectName(c);
+    if (c.is('(')) declared = c.group().filter(isIdent).map((t) => unquoteIdentifier(t.text));
+    while (!c.done && !c.accept('AS')) c.next();
+  }
+  let end = tokens.length;
+  for (let i = c.pos; i < tokens.length; i++) {
+    if (tokens[i].text === ';' || (upper(tokens[i]) === 'WITH' && upper(tokens[i + 1]) === 'CHECK')) { end = i; break; }
+  }
+  const outputs = parseQuery(p, tokens.slice(c.pos, end), new Map());
+  const names = declared.length > 0 ? declared
+    : view.columns.length === outputs.length ? view.columns
+    : outputs.map((o) => o.name);
+
+  return outputs.flatMap((o, i) => {
+    const name = names[i];
+    if (!name) return [];
+    return [...o.origin.refs].map((from) => ({ from, to: columnKey(view.fullName, name), via: view.fullName, kind: 'select' as const, direct: o.origin.direct }));
+  });
+}
+
+function routineEdges(p: Parser, fullName: string, definition: string): ColumnLineageEdge[] {
+  const tokens = significantTokens(definition);
+  const edges: ColumnLineageEdge[] = [];
+  let ctes: Ctes = new Map();
+  for (let i = 0; i < tokens.length; i++) {
+    const word = upper(tokens[i]);
+    // WITH cte AS (..) applies to the statement that follows it
+    if (word === 'WITH' && isIdent(tokens[i + 1]) && (upper(tokens[i + 2]) === 'AS' || tokens[i + 2]?.text === '(')) {
+      const c = new Cursor(tokens);
+      c.pos = i + 1;
+      ctes = parseCtes(p, c, new Map());
+      i = c.pos - 1;
+      continue;
+    }
+    if (word === 'INSERT' || word === 'UPDATE') {
+      // Skip trigger headers such as AFTER INSERT, UPDATE
+      if (['AFTER', 'FOR', 'OF', 'OR', ','].includes(upper(tokens[i - 1]) || tokens[i - 1]?.text)) continue;
+      const end = statementEnd(tokens, i);
+      const body = tokens.slice(i + 1, end);
+      edges.push(...(word === 'INSERT' ? insertEdges(p, body, ctes, fullName) : updateEdges(p, body, ctes, fullName)));
+      ctes = new Map();
+      i = end - 1;
+    } else if (word === 'SELECT' || word === 'DELETE' || word === 'MERGE') {
+      ctes = new Map();
+    }
+  }
+  return edges;
+}
+
+// ── Graph ───────────────────────────────────────────────────────────────────
+
+/**
+ * Parse every view and stored procedure definition into column-to-column flows:
+ * view columns from their SELECT lists, table columns from INSERT .. SELECT and UPDATE .. SET.
+ * Dynamic SQL, temp tables and table variables are not followed.
+ */
+export function buildColumnLineage(schema: DatabaseSchema): ColumnLineageGraph {
+  const catalog = new Catalog();
+  const objectTypes = new Map<string, 'Table' | 'View'>();
+  schema.tables.forEach((t) => {
+    objectTypes.set(t.fullName, 'Table');
+    catalog.add({
+      fullName: t.fullName, schemaName: t.schemaName, name: t.tableName, databaseName: t.databaseName,
+      columns: [...t.columns].sort((a, b) => a.ordinalPosition - b.ordinalPosition).map((c) => c.name),
+      insertable: [...t.columns].sort((a, b) => a.ordinalPosition - b.ordinalPosition)
+        .filter((c) => !c.isIdentity && !c.isComputed && !/^(timestamp|rowversion)$/i.test(c.dataType)).map((c) => c.name),
+    });
+  });
+  schema.views.forEach((v) => {
+    objectTypes.set(v.fullName, 'View');
+    const columns = [...v.columns].sort((a, b) => a.ordinalPosition - b.ordinalPosition).map((c) => c.name);
+    catalog.add({ fullName: v.fullName, schemaName: v.schemaName, name: v.viewName, databaseName: v.databaseName, columns, insertable: columns });
+  });
+
+  const edges: ColumnLineageEdge[] = [];
+  let parsed = 0;
+  const collect = (found: ColumnLineageEdge[]) => {
+    if (found.length > 0) parsed++;
+    edges.push(...found);
+  };
+  schema.views.forEach((v) => {
+    if (!v.definition) return;
+    const p: Parser = { catalog, ctx: { schemaName: v.schemaName, databaseName: v.databaseName } };
+    collect(viewEdges(p, { fullName: v.fullName, columns: [...v.columns].sort((a, b) => a.ordinalPosition - b.ordinalPosition).map((c) => c.name) }, v.definition));
+  });
+  schema.storedProcedures.forEach((sp) => {
+    if (!sp.definition) return;
+    collect(routineEdges({ catalog, ctx: { schemaName: sp.schemaName, databaseName: sp.databaseName } }, sp.fullName, sp.definition));
+  });
+
+  // One edge per (from, to, via); a column assigned twice in one routine stays direct only if every assignment is
+  const unique = new Map<string, ColumnLineageEdge>();
+  edges.filter((e) => e.from !== e.to).forEach((e) => {
+    const k = `${e.from}|${e.to}|${e.via}`;
+    const existing = unique.get(k);
+    unique.set(k, existing ? { ...existing, direct: existing.direct && e.direct } : e);
+  });
+  return { edges: [...unique.values()], objectTypes, parsed };
+}
+
+/** Layered upstream and downstream columns of one column, with the edges between them. */
+export function traceColumnLineage(graph: ColumnLineageGraph, selected: string): ColumnLineageTrace {
+  const incoming = new Map<string, ColumnLineageEdge[]>();
+  const outgoing = new Map<string, ColumnLineageEdge[]>();
+  graph.edges.forEach((e) => {
+    if (!incoming.has(e.to)) incoming.set(e.to, []);
+    incoming.get(e.to)!.push(e);
+    if (!outgoing.has(e.from)) outgoing.set(e.from, []);
+    outgoing.get(e.from)!.push(e);
+  });
+
+  const walk = (next: (key: string) => ColumnLineageEdge[], end: (e: ColumnLineageEdge) => string) => {
+    const layers = new Map<number, string[]>();
+    const visited = new Set([selected]);
+    const used: ColumnLineageEdge[] = [];
+    let current = [selected];
+    let depth = 0;
+    while (current.length > 0) {
+      const layer: string[] = [];
+      current.forEach((key) => next(key).forEach((e) => {
+        used.push(e);
+        const other = end(e);
+        if (visited.has(other)) return;
+        visited.add(other);
+        layer.push(other);
+      }));
+      if (layer.length > 0) layers.set(++depth, layer);
+      current = layer;
+    }
+    return { layers, used };
+  };
+
+  const up = walk((k) => incoming.get(k) ?? [], (e) => e.from);
+  const down = walk((k) => outgoing.get(k) ?? [], (e) => e.to);
+  return { selected, upstream: up.layers, downstream: down.layers, edges: [...new Set([...up.used, ...down.used])] };
+}
+
+// ── Hook ────────────────────────────────────────────────────────────────────
+
+let cached: { schema: DatabaseSchema; graph: ColumnLineageGraph } | null = null;
+
+// Parsing every definition is the expensive part; do it once per schema
+export function useColumnLineage(): ColumnLineageGraph | null {
+  const schema = useStore((s) => s.result?.schema ?? null);
+  if (!schema) return null;
+  if (!cached || cached.schema !== schema) cached = { schema, graph: buildColumnLineage(schema) };
+  return cached.graph;
+}
@@ -1,11 +1,11 @@
-import type { TableDependency } from '../api/types';
+import type { DatabaseSchema, ForeignKeyInfo, RelationshipMap, TableDependency } from '../api/types';
 
 export interface Cycle {
   nodes: string[];
 }
 
 // Tarjan's SCC algorithm to detect cycles
-export function detectCycles(dependencies: TableDependency[]): Cycle[] {
+export function detectCycles(dependencies: Pick<TableDependency, 'fullName' | 'dependsOn'>[]): Cycle[] {
   const graph = new Map<string, string[]>();
 
   dependencies.forEach((dep) => {
@@ -58,3 +58,221 @@ export function detectCycles(dependencies: TableDependency[]): Cycle[] {
 
   return sccs.map((nodes) => ({ nodes }));
 }
+
+export type CycleEdgeKind = 'fk' | 'dependency';
+
+export interface CycleEdge {
+  from: string;               // the object that depends on `to`
+  to: string;
+  kind: CycleEdgeKind;
+  label: string;              // FK names, or how the dependency was detected
+  nullable: boolean;          // every FK column on this edge allows NULL
+}
+
+export interface CycleAnalysis {
+  nodes: string[];
+  edges: CycleEdge[];
+  elementary: string[][];     // each cycle lists its nodes in dependency order
+  truncated: boolean;         // stopped at the cycle limit
+  feedbackEdges: CycleEdge[]; // removing these makes the component acyclic
+}
+
+const qualified = (db: string | null | undefined, schema: string, name: string) => (db ? `${db}.${schema}.${name}` : `${schema}.${name}`);
+
+/**
+ * How hard an edge is to defer: a nullable FK can be filled in by a later UPDATE, a dependency
+ * only needs a deploy-order change or a stub, a NOT NULL FK has to be disabled.
+ */
+function deferCost(edge: CycleEdge): number {
+  if (edge.kind === 'fk') return edge.nullable ? 1 : 3;
+  return 2;
+}
+
+function cycleEdges(nodes: Set<string>, dependencies: Pick<TableDependency, 'fullName' | 'dependsOn'>[], rels: RelationshipMap, schema: DatabaseSchema | null | undefined): CycleEdge[] {
+  const nullableColumns = new Set<string>();
+  schema?.tables.forEach((t) => t.columns.forEach((c) => {
+    if (c.isNullable) nullableColumns.add(`${t.fullName}.${c.name}`);
+  }));
+
+  const fks = new Map<string, ForeignKeyInfo[]>();
+  rels.explicitRelationships.forEach((fk) => {
+    const key = `${qualified(fk.fromDatabase, fk.fromSchema, fk.fromTable)}|${qualified(fk.toDatabase, fk.toSchema, fk.toTable)}`;
+    if (!fks.has(key)) fks.set(key, []);
+    fks.get(key)!.push(fk);
+  });
+  const via = new Map<string, string>();
+  rels.viewDependencies.forEach((d) => {
+    via.set(`${d.fromFullName}|${d.toFullName}`, d.detectedVia ?? `${d.fromType} → ${d.toType}`);
+  });
+
+  const edges: CycleEdge[] = [];
+  dependencies.forEach((dep) => {
+    if (!nodes.has(dep.fullName)) return;
+    new Set(dep.dependsOn).forEach((to) => {
+      if (!nodes.has(to) || to === dep.fullName) return;
+      const key = `${dep.fullName}|${to}`;
+      const keyFks = fks.get(key);
+      if (keyFks) {
+        const names = [...new Set(keyFks.map((fk) => fk.name))];
+        edges.push({
+          from: dep.fullName,
+          to,
+          kind: 'fk',
+          label: names.join(', '),
+          nullable: keyFks.every((fk) => nullableColumns.has(`${dep.fullName}.${fk.fromColumn}`)),
+        });
+      } else {
+        edges.push({ from: dep.fullName, to, kind: 'dependency', label: via.get(key) ?? 'depends on', nullable: false });
+      }
+    });
+  });
+  return edges;
+}
+
+/** Johnson's algorithm: every elementary cycle, up to `limit`. */
+function elementaryCycles(names: string[], adjacency: number[][], limit: number): { cycles: string[][]; truncated: boolean } {
+  const cycles: string[][] = [];
+  let truncated = false;
+  const blocked = new Set<number>();
+  const blockedBy = new Map<number, Set<number>>();
+  const stack: number[] = [];
+
+  const unblock = (u: number) => {
+    blocked.delete(u);
+    const waiting = blockedBy.get(u);
+    if (!waiting) return;
+    blockedBy.delete(u);
+    waiting.forEach((w) => { if (blocked.has(w)) unblock(w); });
+  };
+
+  const circuit = (v: number, start: number): boolean => {
+    let found = false;
+    stack.push(v);
+    blocked.add(v);
+    for (const w of adjacency[v]) {
+      if (truncated) break;
+      if (w < start) continue;
+      if (w === start) {
+        cycles.push(stack.map((i) => names[i]));
+        if (cycles.length >= limit) truncated = true;
+        found = true;
+      } else if (!blocked.has(w) && circuit(w, start)) {
+        found = true;
+      }
+    }
+    if (found) {
+      unblock(v);
+    } else {
+      adjacency[v].forEach((w) => {
+        if (w < start) return;
+        if (!blockedBy.has(w)) blockedBy.set(w, new Set());
+        blockedBy.get(w)!.add(v);
+      });
+    }
+    stack.pop();
+    return found;
+  };
+
+  for (let start = 0; start < names.length && !truncated; start++) {
+    blocked.clear();
+    blockedBy.clear();
+    circuit(start, start);
+  }
+  cycles.sort((a, b) => a.length - b.length);
+  return { cycles, truncated };
+}
+
+/**
+ * A minimal feedback edge set: the Eades-Lin-Smyth ordering gives a small set of back edges, then
+ * every edge that can be restored without closing a cycle is put back, hardest to defer first.
+ */
+function feedbackEdges(names: string[], edges: CycleEdge[]): CycleEdge[] {
+  const index = new Map(names.map((n, i) => [n, i]));
+  const out = names.map(() => new Set<number>());
+  const inc = names.map(() => new Set<number>());
+  edges.forEach((e) => {
+    out[index.get(e.from)!].add(index.get(e.to)!);
+    inc[index.get(e.to)!].add(index.get(e.from)!);
+  });
+
+  const remaining = new Set(names.map((_, i) => i));
+  const head: number[] = [];
+  const tail: number[] = [];
+  const remove = (v: number) => {
+    remaining.delete(v);
+    out[v].forEach((w) => inc[w].delete(v));
+    inc[v].forEach((w) => out[w].delete(v));
+  };
+  while (remaining.size > 0) {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const v of [...remaining]) {
+        if (out[v].size === 0) { tail.unshift(v); remove(v); changed = true; }
+        else if (inc[v].size === 0) { head.push(v); remove(v); changed = true; }
+      }
+    }
+    if (remaining.size === 0) break;
+    let best = -1;
+    let bestDelta = -Infinity;
+    remaining.forEach((v) => {
+      const delta = out[v].size - inc[v].size;
+      if (delta > bestDelta) { best = v; bestDelta = delta; }
+    });
+    head.push(best);
+    remove(best);
+  }
+  const position = new Map([...head, ...tail].map((v, i) => [names[v], i]));
+
+  // Back edges against the ordering break every cycle
+  const kept = new Map(names.map((n) => [n, [] as string[]]));
+  const feedback: CycleEdge[] = [];
+  edges.forEach((e) => {
+    if (position.get(e.from)! < position.get(e.to)!) kept.get(e.from)!.push(e.to);
+    else feedback.push(e);
+  });
+
+  const reaches = (from: string, to: string): boolean => {
+    const seen = new Set([from]);
+    const queue = [from];
+    while (queue.length > 0) {
+      const v = queue.pop()!;
+      if (v === to) return true;
+      kept.get(v)!.forEach((w) => {
+        if (!seen.has(w)) {
+          seen.add(w);
+          queue.push(w);
+        }
+      });
+    }
+    return false;
+  };
+
+  feedback.sort((a, b) => deferCost(b) - deferCost(a));
+  const result: CycleEdge[] = [];
+  feedback.forEach((e) => {
+    if (reaches(e.to, e.from)) result.push(e);
+    else kept.get(e.from)!.push(e.to);
+  });
+  return result.sort((a, b) => deferCost(a) - deferCost(b));
+}
+
+export function analyzeCycle(cycle: Cycle, dependencies: Pick<TableDependency, 'fullName' | 'dependsOn'>[], rels: RelationshipMap, schema?: DatabaseSchema | null, limit = 500): CycleAnalysis {
+  const nodes = [...cycle.nodes].sort();
+  const edges = cycleEdges(new Set(nodes), dependencies, rels, schema);
+  const index = new Map(nodes.map((n, i) => [n, i]));
+  const adjacency = nodes.map(() => [] as number[]);
+  edges.forEach((e) => adjacency[index.get(e.from)!].push(index.get(e.to)!));
+  const { cycles, truncated } = elementaryCycles(nodes, adjacency, limit);
+  return { nodes, edges, elementary: cycles, truncated, feedbackEdges: feedbackEdges(nodes, edges) };
+}
+
+/** What to do about an edge in the feedback set. */
+export function describeBreak(edge: CycleEdge): string {
+  if (edge.kind === 'fk') {
+    return edge.nullable
+      ? `Insert ${edge.from} with the FK column NULL, then UPDATE it once ${edge.to} exists`
+      : `Disable ${edge.label} (ALTER TABLE ... NOCHECK CONSTRAINT) while loading, or create it after both tables`;
+  }
+  return `Deploy ${edge.from} after ${edge.to}, or create ${edge.to} as a stub first and alter it later`;
+}
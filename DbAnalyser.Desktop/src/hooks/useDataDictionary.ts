@@ -0,0 +1,459 @@
+import type { AnalysisResult, Annotation, AnnotationMap, ColumnInfo, ColumnProfile, ForeignKeyInfo, IndexInfo, QualityIssue, TableDependency } from '../api/types';
+import { formatColumnType } from './useDdlGenerator';
+import { annotationKey } from './useAnnotations';
+
+export type DictionaryFormat = 'markdown' | 'html';
+
+export const DICTIONARY_FORMATS: Record<DictionaryFormat, string> = {
+  markdown: 'Markdown tree',
+  html: 'Static HTML site',
+};
+
+export interface DictionaryFile {
+  path: string;        // relative to the export folder, always '/'-separated
+  content: string;
+}
+
+// One page per table or view, with everything the analysis knows about it
+interface ObjectPage {
+  fullName: string;
+  kind: 'Table' | 'View';
+  slug: string;
+  columns: ColumnInfo[];
+  indexes: IndexInfo[];
+  outgoing: ForeignKeyInfo[];
+  incoming: ForeignKeyInfo[];
+  dependency: TableDependency | null;
+  rowCount: number | null;
+  profiles: Map<string, ColumnProfile>;
+  issues: QualityIssue[];
+  definition: string | null;
+  annotation: Annotation | null;
+  columnAnnotations: Map<string, Annotation>;
+}
+
+const SEVERITY_ORDER = { error: 0, warning: 1, info: 2 } as const;
+
+// Names that map to the same file name (also on case-insensitive file systems) get a numeric suffix
+function slugify(fullName: string, taken: Set<string>): string {
+  const base = fullName.replace(/[^\w.-]/g, '_');
+  let slug = base;
+  for (let n = 2; taken.has(slug.toLowerCase()); n++) slug = `${base}_${n}`;
+  taken.add(slug.toLowerCase());
+  return slug;
+}
+
+function fkTarget(fk: ForeignKeyInfo): string {
+  return fk.toDatabase ? `${fk.toDatabase}.${fk.toSchema}.${fk.toTable}` : `${fk.toSchema}.${fk.toTable}`;
+}
+
+function fkSource(fk: ForeignKeyInfo): string {
+  return fk.fromDatabase ? `${fk.fromDatabase}.${fk.fromSchema}.${fk.fromTable}` : `${fk.fromSchema}.${fk.fromTable}`;
+}
+
+function keyFlags(col: ColumnInfo, fkColumns: Set<string>): string[] {
+  return [
+    col.isPrimaryKey && 'PK',
+    fkColumns.has(col.name) && 'FK',
+    col.isIdentity && 'Identity',
+    col.isComputed && 'Computed',
+  ].filter((f): f is string => !!f);
+}
+
+function buildPages(result: AnalysisResult, annotations: AnnotationMap): ObjectPage[] {
+  const schema = result.schema;
+  if (!schema) return [];
+  const fks = result.relationships?.explicitRelationships ?? schema.tables.flatMap((t) => t.foreignKeys);
+  const deps = new Map((result.relationships?.dependencies ?? []).map((d) => [d.fullName, d]));
+  const profiles = new Map((result.profiles ?? []).map((p) => [p.fullName, p]));
+  const issuesFor = (fullName: string) => (result.qualityIssues ?? [])
+    .filter((i) => i.objectName === fullName || i.objectName.startsWith(`${fullName}.`))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+  const annotationsFor = (fullName: string, columns: ColumnInfo[]) => ({
+    annotation: annotations[fullName] ?? null,
+    columnAnnotations: new Map(columns
+      .filter((c) => annotations[annotationKey(fullName, c.name)])
+      .map((c) => [c.name, annotations[annotationKey(fullName, c.name)]])),
+  });
+
+  // Tables and views are written to separate folders
+  const tableSlugs = new Set<string>();
+  const viewSlugs = new Set<string>();
+
+  const tables: ObjectPage[] = schema.tables.map((t) => {
+    const profile = profiles.get(t.fullName);
+    return {
+      fullName: t.fullName,
+      kind: 'Table',
+      slug: slugify(t.fullName, tableSlugs),
+      columns: t.columns,
+      indexes: t.indexes,
+      outgoing: t.foreignKeys,
+      incoming: fks.filter((fk) => fkTarget(fk) === t.fullName),
+      dependency: deps.get(t.fullName) ?? null,
+      rowCount: profile?.rowCount ?? null,
+      profiles: new Map((profile?.columnProfiles ?? []).map((c) => [c.columnName, c])),
+      issues: issuesFor(t.fullName),
+      definition: null,
+      ...annotationsFor(t.fullName, t.columns),
+    };
+  });
+  const views: ObjectPage[] = schema.views.map((v) => ({
+    fullName: v.fullName,
+    kind: 'View',
+    slug: slugify(v.fullName, viewSlugs),
+    columns: v.columns,
+    indexes: [],
+    outgoing: [],
+    incoming: [],
+    dependency: deps.get(v.fullName) ?? null,
+    rowCount: null,
+    profiles: new Map(),
+    issues: issuesFor(v.fullName),
+    definition: v.definition || null,
+    ...annotationsFor(v.fullName, v.columns),
+  }));
+  return [...tables, ...views];
+}
+
+function groupFks(fks: ForeignKeyInfo[]): { name: string; from: string; to: string; fromColumns: string[]; toColumns: string[]; deleteRule: string }[] {
+  const grouped = new Map<string, { name: string; from: string; to: string; fromColumns: string[]; toColumns: string[]; deleteRule: string }>();
+  fks.forEach((fk) => {
+    const k = `${fkSource(fk)}|${fk.name}`;
+    const existing = grouped.get(k);
+    if (existing) {
+      existing.fromColumns.push(fk.fromColumn);
+      existing.toColumns.push(fk.toColumn);
+    } else {
+      grouped.set(k, { name: fk.name, from: fkSource(fk), to: fkTarget(fk), fromColumns: [fk.fromColumn], toColumns: [fk.toColumn], deleteRule: fk.deleteRule });
+    }
+  });
+  return [...grouped.values()];
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 10) / 10}%`;
+}
+
+// Column annotations collapse into one table cell
+function columnNote(a: Annotation | undefined): string {
+  if (!a) return '';
+  return [a.description, a.tags.length > 0 && a.tags.map((t) => `#${t}`).join(' '), a.notes].filter(Boolean).join(' — ');
+}
+
+// ── Markdown ────────────────────────────────────────────────────────────────
+
+function mdCell(value: string | number | null | undefined): string {
+  return String(value ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function mdTable(headers: string[], rows: (string | number | null)[][]): string[] {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((r) => `| ${r.map(mdCell).join(' | ')} |`),
+    '',
+  ];
+}
+
+function markdownPage(page: ObjectPage, linkTo: (fullName: string) => string | null): string {
+  const link = (fullName: string) => {
+    const href = linkTo(fullName);
+    return href ? `[${fullName}](${href})` : fullName;
+  };
+  const fkColumns = new Set(page.outgoing.map((fk) => fk.fromColumn));
+  const lines = [`# ${page.fullName}`, '', `[← Data dictionary](../README.md)`, '', `**Type:** ${page.kind}  `];
+  if (page.rowCount !== null) lines.push(`**Rows:** ${page.rowCount.toLocaleString()}  `);
+  if (page.annotation?.owner) lines.push(`**Owner:** ${page.annotation.owner}  `);
+  if (page.annotation?.tags.length) lines.push(`**Tags:** ${page.annotation.tags.map((t) => `\`${t}\``).join(' ')}  `);
+  lines.push('');
+  if (page.annotation?.description) lines.push(page.annotation.description, '');
+  if (page.annotation?.notes) lines.push(...page.annotation.notes.split(/\r?\n/).map((l) => `> ${l}`), '');
+
+  const hasProfile = page.profiles.size > 0;
+  const hasNotes = page.columnAnnotations.size > 0;
+  lines.push('## Columns', '');
+  lines.push(...mdTable(
+    ['#', 'Name', 'Type', 'Nullable', 'Default', 'Keys', ...(hasNotes ? ['Description'] : []), ...(hasProfile ? ['Distinct', 'Null %', 'Min', 'Max'] : [])],
+    page.columns.map((c) => {
+      const p = page.profiles.get(c.name);
+      return [
+        c.ordinalPosition, `\`${c.name}\``, formatColumnType(c), c.isNullable ? 'yes' : 'no', c.defaultValue, keyFlags(c, fkColumns).join(', '),
+        ...(hasNotes ? [columnNote(page.columnAnnotations.get(c.name))] : []),
+        ...(hasProfile ? [p?.distinctCount ?? null, p ? percent(p.nullPercentage) : null, p?.minValue ?? null, p?.maxValue ?? null] : []),
+      ];
+    }),
+  ));
+
+  if (page.indexes.length > 0) {
+    lines.push('## Indexes', '');
+    lines.push(...mdTable(['Name', 'Type', 'Unique', 'Columns'],
+      page.indexes.map((i) => [i.name, i.type, i.isUnique ? 'yes' : 'no', i.columns.join(', ')])));
+  }
+
+  const outgoing = groupFks(page.outgoing);
+  if (outgoing.length > 0) {
+    lines.push('## References', '');
+    lines.push(...mdTable(['Constraint', 'Columns', 'Referenced table', 'On delete'],
+      outgoing.map((fk) => [fk.name, fk.fromColumns.join(', '), `${link(fk.to)} (${fk.toColumns.join(', ')})`, fk.deleteRule])));
+  }
+
+  const incoming = groupFks(page.incoming);
+  if (incoming.length > 0) {
+    lines.push('## Referenced by', '');
+    lines.push(...mdTable(['Constraint', 'Table', 'Columns'],
+      incoming.map((fk) => [fk.name, link(fk.from), fk.fromColumns.join(', ')])));
+  }
+
+  if (page.dependency && (page.dependency.dependsOn.length > 0 || page.dependency.referencedBy.length > 0)) {
+    lines.push('## Dependencies', '');
+    if (page.dependency.dependsOn.length > 0) lines.push(`**Depends on:** ${page.dependency.dependsOn.map(link).join(', ')}`, '');
+    if (page.dependency.referencedBy.length > 0) lines.push(`**Used by:** ${page.dependency.referencedBy.map(link).join(', ')}`, '');
+  }
+
+  if (page.issues.length > 0) {
+    lines.push('## Quality issues', '');
+    lines.push(...mdTable(['Severity', 'Category', 'Object', 'Description', 'Recommendation'],
+      page.issues.map((i) => [i.severity, i.category, i.objectName, i.description, i.recommendation])));
+  }
+
+  if (page.definition) {
+    lines.push('## Definition', '', '```sql', page.definition.trim(), '```', '');
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+function markdownIndex(result: AnalysisResult, pages: ObjectPage[]): string {
+  const lines = [`# ${result.databaseName} data dictionary`, '', `Generated ${new Date().toLocaleString()} from an analysis taken ${new Date(result.analyzedAt).toLocaleString()}.`, ''];
+  (['Table', 'View'] as const).forEach((kind) => {
+    const items = pages.filter((p) => p.kind === kind);
+    if (items.length === 0) return;
+    lines.push(`## ${kind}s (${items.length})`, '');
+    lines.push(...mdTable(
+      ['Name', 'Description', 'Columns', ...(kind === 'Table' ? ['Rows'] : []), 'Issues'],
+      items.map((p) => [
+        `[${p.fullName}](${kind.toLowerCase()}s/${p.slug}.md)`, p.annotation?.description ?? null, p.columns.length,
+        ...(kind === 'Table' ? [p.rowCount?.toLocaleString() ?? null] : []),
+        p.issues.length || null,
+      ]),
+    ));
+  });
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+// ── HTML ────────────────────────────────────────────────────────────────────
+
+const HTML_STYLE = `
+  body { margin: 0; font: 14px/1.5 -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1a1a2e; background: #f7f7fa; }
+  header { background: #12121a; color: #e0e0e0; padding: 12px 24px; display: flex; gap: 16px; align-items: center; }
+  header a { color: #4fc3f7; text-decoration: none; }
+  header form { margin-left: auto; }
+  main { max-width: 1100px; margin: 0 auto; padding: 24px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 8px; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; background: #fff; font-size: 13px; }
+  th, td { border: 1px solid #e2e2ea; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #eef0f6; font-weight: 600; }
+  code, pre { font-family: Consolas, 'Courier New', monospace; font-size: 12px; }
+  pre { background: #fff; border: 1px solid #e2e2ea; padding: 12px; overflow-x: auto; }
+  a { color: #0277bd; }
+  input[type=search] { padding: 6px 10px; border-radius: 4px; border: 1px solid #2a2a40; background: #1a1a2e; color: #e0e0e0; width: 260px; }
+  main input[type=search] { width: 100%; box-sizing: border-box; font-size: 15px; padding: 8px 12px; }
+  .meta { color: #666; font-size: 13px; }
+  .description { font-size: 15px; margin: 12px 0; }
+  .notes { white-space: pre-wrap; border-left: 3px solid #ccd; padding-left: 10px; color: #444; }
+  .badge { display: inline-block; padding: 0 6px; border-radius: 3px; font-size: 11px; background: #e1f5fe; color: #0277bd; margin-right: 4px; }
+  .sev-error { color: #c62828; font-weight: 600; } .sev-warning { color: #ef6c00; font-weight: 600; } .sev-info { color: #0277bd; }
+  #results li { margin: 2px 0; } #results .hit { color: #666; font-size: 12px; }
+`;
+
+function esc(s: string | number | null | undefined): string {
+  return String(s ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function htmlDocument(title: string, databaseName: string, root: string, body: string, script = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+  <a href="${root}index.html"><strong>${esc(databaseName)}</strong> data dictionary</a>
+  <form action="${root}index.html" method="get"><input type="search" name="q" placeholder="Search tables and columns…"></form>
+</header>
+<main>
+${body}
+</main>
+${script ? `<script>${script}</script>` : ''}
+</body>
+</html>
+`;
+}
+
+function htmlTable(headers: string[], rows: string[][]): string {
+  return `<table><thead><tr>${headers.map((h) => `<th>${esc(h)}</th>`).join('')}</tr></thead><tbody>\n${
+    rows.map((r) => `<tr>${r.map((c) => `<td>${c}</td>`).join('')}</tr>`).join('\n')
+  }\n</tbody></table>`;
+}
+
+function htmlPage(page: ObjectPage, databaseName: string, linkTo: (fullName: string) => string | null): string {
+  const link = (fullName: string) => {
+    const href = linkTo(fullName);
+    return href ? `<a href="${esc(href)}">${esc(fullName)}</a>` : esc(fullName);
+  };
+  const fkColumns = new Set(page.outgoing.map((fk) => fk.fromColumn));
+  const hasProfile = page.profiles.size > 0;
+  const hasNotes = page.columnAnnotations.size > 0;
+  const a = page.annotation;
+  const parts = [
+    `<h1>${esc(page.fullName)}</h1>`,
+    `<p class="meta">${page.kind}${page.rowCount !== null ? ` &middot; ${esc(page.rowCount.toLocaleString())} rows` : ''} &middot; ${page.columns.length} columns${
+      a?.owner ? ` &middot; owner ${esc(a.owner)}` : ''} ${a ? a.tags.map((t) => `<span class="badge">#${esc(t)}</span>`).join('') : ''}</p>`,
+    a?.description ? `<p class="description">${esc(a.description)}</p>` : '',
+    a?.notes ? `<p class="notes">${esc(a.notes)}</p>` : '',
+    '<h2>Columns</h2>',
+    htmlTable(
+      ['#', 'Name', 'Type', 'Nullable', 'Default', 'Keys', ...(hasNotes ? ['Description'] : []), ...(hasProfile ? ['Distinct', 'Null %', 'Min', 'Max'] : [])],
+      page.columns.map((c) => {
+        const p = page.profiles.get(c.name);
+        return [
+          esc(c.ordinalPosition), `<code id="col-${esc(c.name)}">${esc(c.name)}</code>`, esc(formatColumnType(c)), c.isNullable ? 'yes' : 'no',
+          c.defaultValue ? `<code>${esc(c.defaultValue)}</code>` : '',
+          keyFlags(c, fkColumns).map((f) => `<span class="badge">${f}</span>`).join(''),
+          ...(hasNotes ? [esc(columnNote(page.columnAnnotations.get(c.name)))] : []),
+          ...(hasProfile ? [esc(p?.distinctCount), p ? esc(percent(p.nullPercentage)) : '', esc(p?.minValue), esc(p?.maxValue)] : []),
+        ];
+      }),
+    ),
+  ];
+
+  if (page.indexes.length > 0) {
+    parts.push('<h2>Indexes</h2>', htmlTable(['Name', 'Type', 'Unique', 'Columns'],
+      page.indexes.map((i) => [esc(i.name), esc(i.type), i.isUnique ? 'yes' : 'no', esc(i.columns.join(', '))])));
+  }
+
+  const outgoing = groupFks(page.outgoing);
+  if (outgoing.length > 0) {
+    parts.push('<h2>References</h2>', htmlTable(['Constraint', 'Columns', 'Referenced table', 'On delete'],
+      outgoing.map((fk) => [esc(fk.name), esc(fk.fromColumns.join(', ')), `${link(fk.to)} (${esc(fk.toColumns.join(', '))})`, esc(fk.deleteRule)])));
+  }
+
+  const incoming = groupFks(page.incoming);
+  if (incoming.length > 0) {
+    parts.push('<h2>Referenced by</h2>', htmlTable(['Constraint', 'Table', 'Columns'],
+      incoming.map((fk) => [esc(fk.name), link(fk.from), esc(fk.fromColumns.join(', '))])));
+  }
+
+  if (page.dependency && (page.dependency.dependsOn.length > 0 || page.dependency.referencedBy.length > 0)) {
+    parts.push('<h2>Dependencies</h2>');
+    if (page.dependency.dependsOn.length > 0) parts.push(`<p><strong>Depends on:</strong> ${page.dependency.dependsOn.map(link).join(', ')}</p>`);
+    if (page.dependency.referencedBy.length > 0) parts.push(`<p><strong>Used by:</strong> ${page.dependency.referencedBy.map(link).join(', ')}</p>`);
+  }
+
+  if (page.issues.length > 0) {
+    parts.push('<h2>Quality issues</h2>', htmlTable(['Severity', 'Category', 'Object', 'Description', 'Recommendation'],
+      page.issues.map((i) => [`<span class="sev-${i.severity}">${esc(i.severity)}</span>`, esc(i.category), esc(i.objectName), esc(i.description), esc(i.recommendation)])));
+  }
+
+  if (page.definition) {
+    parts.push('<h2>Definition</h2>', `<pre>${esc(page.definition.trim())}</pre>`);
+  }
+
+  return htmlDocument(page.fullName, databaseName, '../', parts.join('\n'));
+}
+
+// Client-side search over object names, descriptions and columns; reads ?q= so every page's header box works
+const SEARCH_SCRIPT = `
+var input = document.getElementById('search');
+var results = document.getElementById('results');
+var lists = document.getElementById('lists');
+function render() {
+  var q = input.value.trim().toLowerCase();
+  lists.style.display = q ? 'none' : '';
+  results.innerHTML = '';
+  if (!q) return;
+  var count = 0;
+  INDEX.forEach(function (o) {
+    var nameHit = o.name.toLowerCase().indexOf(q) >= 0 || o.description.toLowerCase().indexOf(q) >= 0;
+    var cols = o.columns.filter(function (c) { return c.toLowerCase().indexOf(q) >= 0; });
+    if (!nameHit && cols.length === 0) return;
+    count++;
+    var li = document.createElement('li');
+    var a = document.createElement('a');
+    a.href = o.href;
+    a.textContent = o.name;
+    li.appendChild(a);
+    li.appendChild(document.createTextNode(' (' + o.kind + ')' + (o.description ? ' \u2014 ' + o.description : '')));
+    if (cols.length > 0) {
+      var hit = document.createElement('div');
+      hit.className = 'hit';
+      hit.textContent = 'columns: ' + cols.join(', ');
+      li.appendChild(hit);
+    }
+    results.appendChild(li);
+  });
+  if (count === 0) results.innerHTML = '<li class="meta">No matches</li>';
+}
+input.addEventListener('input', render);
+var initial = new URLSearchParams(location.search).get('q');
+if (initial) input.value = initial;
+render();
+`;
+
+function htmlIndex(result: AnalysisResult, pages: ObjectPage[]): string {
+  const searchIndex = pages.map((p) => ({
+    name: p.fullName, kind: p.kind, href: `${p.kind.toLowerCase()}s/${p.slug}.html`, columns: p.columns.map((c) => c.name),
+    description: p.annotation?.description ?? '',
+  }));
+  const sections = (['Table', 'View'] as const).map((kind) => {
+    const items = pages.filter((p) => p.kind === kind);
+    if (items.length === 0) return '';
+    return `<h2>${kind}s (${items.length})</h2>` + htmlTable(
+      ['Name', 'Description', 'Columns', ...(kind === 'Table' ? ['Rows'] : []), 'Issues'],
+      items.map((p) => [
+        `<a href="${kind.toLowerCase()}s/${esc(p.slug)}.html">${esc(p.fullName)}</a>`, esc(p.annotation?.description), esc(p.columns.length),
+        ...(kind === 'Table' ? [esc(p.rowCount?.toLocaleString())] : []),
+        p.issues.length > 0 ? esc(p.issues.length) : '',
+      ]),
+    );
+  }).join('\n');
+
+  const body = [
+    `<h1>${esc(result.databaseName)}</h1>`,
+    `<p class="meta">Generated ${esc(new Date().toLocaleString())} from an analysis taken ${esc(new Date(result.analyzedAt).toLocaleString())}</p>`,
+    '<p><input type="search" id="search" placeholder="Search tables, views and columns…" autofocus></p>',
+    '<ul id="results"></ul>',
+    `<div id="lists">${sections}</div>`,
+  ].join('\n');
+  // Escape '<' so a name containing </script> cannot end the inline script
+  const script = `var INDEX = ${JSON.stringify(searchIndex).replace(/</g, '\\u003c')};\n${SEARCH_SCRIPT}`;
+  return htmlDocument(`${result.databaseName} data dictionary`, result.databaseName, '', body, script);
+}
+
+// ── Entry point ─────────────────────────────────────────────────────────────
+
+/** Build a browsable data dictionary: an index page plus one page per table and view. */
+export function generateDataDictionary(result: AnalysisResult, format: DictionaryFormat, annotations: AnnotationMap = {}): DictionaryFile[] {
+  const pages = buildPages(result, annotations);
+  const ext = format === 'markdown' ? 'md' : 'html';
+  const byName = new Map(pages.map((p) => [p.fullName, p]));
+  // Pages live one folder down (tables/, views/), so links go up first
+  const linkTo = (fullName: string) => {
+    const target = byName.get(fullName);
+    return target ? `../${target.kind.toLowerCase()}s/${target.slug}.${ext}` : null;
+  };
+
+  const files: DictionaryFile[] = pages.map((p) => ({
+    path: `${p.kind.toLowerCase()}s/${p.slug}.${ext}`,
+    content: format === 'markdown' ? markdownPage(p, linkTo) : htmlPage(p, result.databaseName, linkTo),
+  }));
+  files.unshift(format === 'markdown'
+    ? { path: 'README.md', content: markdownIndex(result, pages) }
+    : { path: 'index.html', content: htmlIndex(result, pages) });
+  return files;
+}
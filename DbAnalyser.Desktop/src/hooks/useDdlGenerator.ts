@@ -0,0 +1,439 @@
+import type { DatabaseSchema, TableInfo, ColumnInfo, IndexInfo, ForeignKeyInfo } from '../api/types';
+import { diffSchemas, type DiffCategory } from './useSchemaDiff';
+
+export type SqlDialect = 'sqlserver' | 'postgresql';
+
+export const SQL_DIALECT_LABELS: Record<SqlDialect, string> = {
+  sqlserver: 'SQL Server',
+  postgresql: 'PostgreSQL',
+};
+
+// ── Column types ────────────────────────────────────────────────────────────
+
+export function formatColumnType(r: ColumnInfo): string {
+  let t = r.dataType;
+  if (r.maxLength !== null && r.maxLength > 0 && !['int', 'bigint', 'bit', 'datetime', 'date', 'float', 'real', 'uniqueidentifier'].includes(r.dataType))
+    t += `(${r.maxLength === -1 ? 'max' : r.maxLength})`;
+  if (r.precision !== null && r.scale !== null && ['decimal', 'numeric'].includes(r.dataType))
+    t += `(${r.precision},${r.scale})`;
+  return t;
+}
+
+// Inverse of formatColumnType for types typed into the ERD designer, e.g. "nvarchar(100)" or "decimal(18,2)"
+export function parseColumnType(text: string): Pick<ColumnInfo, 'dataType' | 'maxLength' | 'precision' | 'scale'> {
+  const match = /^\s*([a-z_][\w ]*?)\s*(?:\(\s*(max|\d+)\s*(?:,\s*(\d+)\s*)?\))?\s*$/i.exec(text);
+  if (!match) return { dataType: text.trim(), maxLength: null, precision: null, scale: null };
+  const [, name, size, scale] = match;
+  const dataType = name.toLowerCase();
+  if (scale !== undefined || ['decimal', 'numeric'].includes(dataType)) {
+    return { dataType, maxLength: null, precision: size ? Number(size) : null, scale: scale !== undefined ? Number(scale) : size ? 0 : null };
+  }
+  return { dataType, maxLength: size === undefined ? null : size.toLowerCase() === 'max' ? -1 : Number(size), precision: null, scale: null };
+}
+
+// Snapshots keep the source provider's type names; translate the common ones
+// so a script can target the other dialect. Entries with a length are emitted as-is.
+const TO_POSTGRES: Record<string, string> = {
+  int: 'integer',
+  tinyint: 'smallint',
+  bit: 'boolean',
+  nvarchar: 'varchar',
+  nchar: 'char',
+  ntext: 'text',
+  datetime: 'timestamp',
+  datetime2: 'timestamp',
+  smalldatetime: 'timestamp',
+  datetimeoffset: 'timestamptz',
+  uniqueidentifier: 'uuid',
+  float: 'double precision',
+  money: 'numeric(19,4)',
+  smallmoney: 'numeric(10,4)',
+  binary: 'bytea',
+  varbinary: 'bytea',
+  image: 'bytea',
+  sql_variant: 'text',
+};
+
+const TO_SQLSERVER: Record<string, string> = {
+  integer: 'int',
+  boolean: 'bit',
+  'character varying': 'nvarchar',
+  character: 'nchar',
+  text: 'nvarchar(max)',
+  json: 'nvarchar(max)',
+  jsonb: 'nvarchar(max)',
+  'timestamp without time zone': 'datetime2',
+  'timestamp with time zone': 'datetimeoffset',
+  'time without time zone': 'time',
+  'double precision': 'float',
+  bytea: 'varbinary(max)',
+  uuid: 'uniqueidentifier',
+};
+
+const POSTGRES_LENGTH_TYPES = new Set(['varchar', 'char', 'character varying', 'character', 'bit varying']);
+
+function columnType(col: ColumnInfo, dialect: SqlDialect): string {
+  const source = col.dataType.toLowerCase();
+
+  if (dialect === 'sqlserver') {
+    const mapped = TO_SQLSERVER[source];
+    if (mapped?.includes('(')) return mapped.toUpperCase();
+    if (col.maxLength === -1 && ['varchar', 'nvarchar', 'varbinary'].includes(mapped ?? source)) return `${mapped ?? source}(max)`.toUpperCase();
+    return formatColumnType({ ...col, dataType: mapped ?? col.dataType }).toUpperCase();
+  }
+
+  const mapped = TO_POSTGRES[source] ?? source;
+  if (mapped.includes('(')) return mapped;
+  if (col.maxLength === -1) {
+    if (mapped === 'varchar' || mapped === 'char') return 'text';
+    return mapped;
+  }
+  if (col.maxLength !== null && col.maxLength > 0 && POSTGRES_LENGTH_TYPES.has(mapped)) return `${mapped}(${col.maxLength})`;
+  if (col.precision !== null && col.scale !== null && (mapped === 'numeric' || mapped === 'decimal')) return `${mapped}(${col.precision},${col.scale})`;
+  return mapped;
+}
+
+// ── Dialect primitives ──────────────────────────────────────────────────────
+
+export function quote(name: string, dialect: SqlDialect): string {
+  return dialect === 'sqlserver' ? `[${name.replace(/]/g, ']]')}]` : `"${name.replace(/"/g, '""')}"`;
+}
+
+export function tableRef(schemaName: string, tableName: string, dialect: SqlDialect): string {
+  return `${quote(schemaName, dialect)}.${quote(tableName, dialect)}`;
+}
+
+function columnList(columns: string[], dialect: SqlDialect): string {
+  return columns.map((c) => quote(c, dialect)).join(', ');
+}
+
+function columnDefinition(col: ColumnInfo, dialect: SqlDialect): string {
+  let line = `${quote(col.name, dialect)} ${columnType(col, dialect)}`;
+  if (col.isComputed) return `${line} /* computed */`;
+  if (col.isIdentity) line += dialect === 'sqlserver' ? ' IDENTITY' : ' GENERATED BY DEFAULT AS IDENTITY';
+  line += col.isNullable ? ' NULL' : ' NOT NULL';
+  // PostgreSQL serial columns report their sequence as default; identity replaces it
+  if (col.defaultValue && !(dialect === 'postgresql' && col.isIdentity)) line += ` DEFAULT ${col.defaultValue}`;
+  return line;
+}
+
+function primaryKeyName(table: TableInfo, dialect: SqlDialect): string {
+  return primaryKeyIndex(table)?.name ?? (dialect === 'sqlserver' ? `PK_${table.tableName}` : `${table.tableName}_pkey`);
+}
+
+// The index backing the primary key is reported alongside regular indexes
+function primaryKeyIndex(table: TableInfo): IndexInfo | undefined {
+  const pk = table.columns.filter((c) => c.isPrimaryKey).map((c) => c.name);
+  if (pk.length === 0) return undefined;
+  const candidates = table.indexes.filter((i) => i.isUnique && sameColumns(i.columns, pk));
+  return candidates.find((i) => /^pk/i.test(i.name) || i.name.endsWith('_pkey')) ?? candidates[0];
+}
+
+function sameColumns(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join('\u0000') === [...b].sort().join('\u0000');
+}
+
+// ── Foreign keys ────────────────────────────────────────────────────────────
+
+// Composite keys arrive as one ForeignKeyInfo per column sharing the constraint name
+interface ForeignKeyGroup {
+  name: string;
+  fromSchema: string;
+  fromTable: string;
+  fromColumns: string[];
+  toSchema: string;
+  toTable: string;
+  toColumns: string[];
+  deleteRule: string;
+  updateRule: string;
+  fromKey: string;  // owning table's fullName
+  toKey: string;    // referenced table's fullName
+}
+
+function groupForeignKeys(table: TableInfo): ForeignKeyGroup[] {
+  const groups = new Map<string, ForeignKeyGroup>();
+  table.foreignKeys.forEach((fk: ForeignKeyInfo) => {
+    const existing = groups.get(fk.name);
+    if (existing) {
+      existing.fromColumns.push(fk.fromColumn);
+      existing.toColumns.push(fk.toColumn);
+      return;
+    }
+    groups.set(fk.name, {
+      name: fk.name,
+      fromSchema: fk.fromSchema || table.schemaName,
+      fromTable: fk.fromTable || table.tableName,
+      fromColumns: [fk.fromColumn],
+      toSchema: fk.toSchema,
+      toTable: fk.toTable,
+      toColumns: [fk.toColumn],
+      deleteRule: fk.deleteRule,
+      updateRule: fk.updateRule,
+      fromKey: table.fullName,
+      toKey: fk.toDatabase ? `${fk.toDatabase}.${fk.toSchema}.${fk.toTable}` : `${fk.toSchema}.${fk.toTable}`,
+    });
+  });
+  return [...groups.values()];
+}
+
+function foreignKeySignature(fk: ForeignKeyGroup): string {
+  return [fk.fromColumns.join(','), fk.toKey, fk.toColumns.join(','), fk.deleteRule, fk.updateRule].join('|');
+}
+
+function referentialAction(rule: string): string | null {
+  const action = rule.replace(/_/g, ' ').toUpperCase();
+  return action && action !== 'NO ACTION' ? action : null;
+}
+
+function addForeignKey(fk: ForeignKeyGroup, dialect: SqlDialect): string {
+  const lines = [
+    `ALTER TABLE ${tableRef(fk.fromSchema, fk.fromTable, dialect)}`,
+    `    ADD CONSTRAINT ${quote(fk.name, dialect)} FOREIGN KEY (${columnList(fk.fromColumns, dialect)})`,
+    `    REFERENCES ${tableRef(fk.toSchema, fk.toTable, dialect)} (${columnList(fk.toColumns, dialect)})`,
+  ];
+  const onDelete = referentialAction(fk.deleteRule);
+  const onUpdate = referentialAction(fk.updateRule);
+  if (onDelete) lines.push(`    ON DELETE ${onDelete}`);
+  if (onUpdate) lines.push(`    ON UPDATE ${onUpdate}`);
+  return `${lines.join('\n')};`;
+}
+
+function dropForeignKey(fk: ForeignKeyGroup, dialect: SqlDialect): string {
+  return `ALTER TABLE ${tableRef(fk.fromSchema, fk.fromTable, dialect)} DROP CONSTRAINT ${quote(fk.name, dialect)};`;
+}
+
+// ── Tables and indexes ──────────────────────────────────────────────────────
+
+function createTable(table: TableInfo, dialect: SqlDialect): string {
+  const colLines = table.columns.map((c) => `    ${columnDefinition(c, dialect)}`);
+  const pkCols = table.columns.filter((c) => c.isPrimaryKey).map((c) => c.name);
+  if (pkCols.length > 0) {
+    colLines.push(`    CONSTRAINT ${quote(primaryKeyName(table, dialect), dialect)} PRIMARY KEY (${columnList(pkCols, dialect)})`);
+  }
+  return [`CREATE TABLE ${tableRef(table.schemaName, table.tableName, dialect)} (`, colLines.join(',\n'), ');'].join('\n');
+}
+
+const POSTGRES_INDEX_METHODS = new Set(['hash', 'gin', 'gist', 'brin', 'spgist']);
+
+function createIndex(table: TableInfo, index: IndexInfo, dialect: SqlDialect): string {
+  const unique = index.isUnique ? 'UNIQUE ' : '';
+  const target = tableRef(table.schemaName, table.tableName, dialect);
+  if (dialect === 'sqlserver') {
+    const kind = index.isClustered ? 'CLUSTERED ' : 'NONCLUSTERED ';
+    return `CREATE ${unique}${kind}INDEX ${quote(index.name, dialect)} ON ${target} (${columnList(index.columns, dialect)});`;
+  }
+  const method = POSTGRES_INDEX_METHODS.has(index.type.toLowerCase()) ? ` USING ${index.type.toLowerCase()}` : '';
+  return `CREATE ${unique}INDEX ${quote(index.name, dialect)} ON ${target}${method} (${columnList(index.columns, dialect)});`;
+}
+
+function dropIndex(table: TableInfo, index: IndexInfo, dialect: SqlDialect): string {
+  return dialect === 'sqlserver'
+    ? `DROP INDEX ${quote(index.name, dialect)} ON ${tableRef(table.schemaName, table.tableName, dialect)};`
+    : `DROP INDEX ${tableRef(table.schemaName, index.name, dialect)};`;
+}
+
+// Single-table CREATE script including its foreign keys, as shown in TableDetail
+export function generateDdl(table: TableInfo, dialect: SqlDialect = 'sqlserver'): string {
+  const parts = [createTable(table, dialect)];
+  const fks = groupForeignKeys(table);
+  if (fks.length > 0) {
+    parts.push('');
+    fks.forEach((fk) => parts.push(addForeignKey(fk, dialect)));
+  }
+  return parts.join('\n');
+}
+
+// SQL Server names default constraints itself, so the script looks the name up before dropping it
+const DROP_DEFAULT_VARIABLE = '@dropDefault';
+
+const sqlLiteral = (value: string) => `N'${value.replace(/'/g, "''")}'`;
+
+function dropDefaultConstraint(table: TableInfo, column: string): string {
+  const target = tableRef(table.schemaName, table.tableName, 'sqlserver');
+  return [
+    `SET ${DROP_DEFAULT_VARIABLE} = NULL;`,
+    `SELECT ${DROP_DEFAULT_VARIABLE} = N'ALTER TABLE ${target.replace(/'/g, "''")} DROP CONSTRAINT ' + QUOTENAME(dc.name)`,
+    '  FROM sys.default_constraints dc',
+    '  JOIN sys.columns c ON c.object_id = dc.parent_object_id AND c.column_id = dc.parent_column_id',
+    `  WHERE dc.parent_object_id = OBJECT_ID(${sqlLiteral(target)}) AND c.name = ${sqlLiteral(column)};`,
+    `IF ${DROP_DEFAULT_VARIABLE} IS NOT NULL EXEC sp_executesql ${DROP_DEFAULT_VARIABLE};`,
+  ].join('\n');
+}
+
+function alterColumn(table: TableInfo, a: ColumnInfo, b: ColumnInfo, dialect: SqlDialect): string[] {
+  const target = tableRef(table.schemaName, table.tableName, dialect);
+  const col = quote(b.name, dialect);
+  const typeA = columnType(a, dialect), typeB = columnType(b, dialect);
+  const statements: string[] = [];
+
+  if (a.isComputed || b.isComputed) {
+    if (a.isComputed !== b.isComputed || typeA !== typeB)
+      statements.push(`-- ${target}.${col}: computed column changed; expression is not captured in the snapshot, rebuild manually`);
+    return statements;
+  }
+
+  if (dialect === 'sqlserver') {
+    // A default constraint also blocks changing the column's type, so it is dropped and re-added around that
+    const resetDefault = (a.defaultValue ?? '') !== (b.defaultValue ?? '') || typeA !== typeB;
+    if (resetDefault && a.defaultValue) statements.push(dropDefaultConstraint(table, a.name));
+    if (typeA !== typeB || a.isNullable !== b.isNullable)
+      statements.push(`ALTER TABLE ${target} ALTER COLUMN ${col} ${typeB}${b.isNullable ? ' NULL' : ' NOT NULL'};`);
+    if (resetDefault && b.defaultValue) statements.push(`ALTER TABLE ${target} ADD DEFAULT ${b.defaultValue} FOR ${col};`);
+    if (a.isIdentity !== b.isIdentity)
+      statements.push(`-- ${target}.${col}: IDENTITY ${b.isIdentity ? 'added' : 'removed'}; SQL Server requires rebuilding the column`);
+    return statements;
+  }
+
+  if (typeA !== typeB)
+    statements.push(`ALTER TABLE ${target} ALTER COLUMN ${col} TYPE ${typeB} USING ${col}::${typeB};`);
+  if (a.isNullable !== b.isNullable)
+    statements.push(`ALTER TABLE ${target} ALTER COLUMN ${col} ${b.isNullable ? 'DROP' : 'SET'} NOT NULL;`);
+  if (a.isIdentity !== b.isIdentity) {
+    statements.push(b.isIdentity
+      ? `ALTER TABLE ${target} ALTER COLUMN ${col} ADD GENERATED BY DEFAULT AS IDENTITY;`
+      : `ALTER TABLE ${target} ALTER COLUMN ${col} DROP IDENTITY IF EXISTS;`);
+  } else if (!b.isIdentity && (a.defaultValue ?? '') !== (b.defaultValue ?? '')) {
+    statements.push(b.defaultValue
+      ? `ALTER TABLE ${target} ALTER COLUMN ${col} SET DEFAULT ${b.defaultValue};`
+      : `ALTER TABLE ${target} ALTER COLUMN ${col} DROP DEFAULT;`);
+  }
+  return statements;
+}
+
+// ── Migration ───────────────────────────────────────────────────────────────
+
+/**
+ * Build a script that migrates `before` into `after`; `title` heads the script.
+ * Order: drop affected foreign keys, apply table changes, re-create foreign keys.
+ * Changed views and routines are listed for review; their definitions are dialect-specific.
+ */
+export function generateMigration(before: DatabaseSchema, after: DatabaseSchema, dialect: SqlDialect, title = 'Migration script'): string {
+  const diff = diffSchemas(before, after);
+  const tablesBefore = new Map(before.tables.map((t) => [t.fullName, t]));
+  const tablesAfter = new Map(after.tables.map((t) => [t.fullName, t]));
+
+  const fksBefore = new Map(before.tables.flatMap(groupForeignKeys).map((fk) => [`${fk.fromKey}.${fk.name}`, fk]));
+  const fksAfter = new Map(after.tables.flatMap(groupForeignKeys).map((fk) => [`${fk.fromKey}.${fk.name}`, fk]));
+
+  // Columns whose type changes and tables whose primary key is rebuilt invalidate FKs that touch them
+  const retypedColumns = new Set<string>();
+  const rebuiltKeys = new Set<string>();
+  diff.tables.filter((t) => t.kind === 'changed').forEach((t) => {
+    t.columns.forEach((c) => {
+      if (c.before && c.after && columnType(c.before, dialect) !== columnType(c.after, dialect))
+        retypedColumns.add(`${t.name}.${c.name}`);
+    });
+    const pkA = t.before!.columns.filter((c) => c.isPrimaryKey).map((c) => c.name);
+    const pkB = t.after!.columns.filter((c) => c.isPrimaryKey).map((c) => c.name);
+    if (!sameColumns(pkA, pkB) || pkB.some((c) => retypedColumns.has(`${t.name}.${c}`))) rebuiltKeys.add(t.name);
+  });
+
+  const touchesRebuild = (fk: ForeignKeyGroup): boolean =>
+    rebuiltKeys.has(fk.toKey)
+      || fk.fromColumns.some((c) => retypedColumns.has(`${fk.fromKey}.${c}`))
+      || fk.toColumns.some((c) => retypedColumns.has(`${fk.toKey}.${c}`));
+
+  const fkDrops: ForeignKeyGroup[] = [];
+  const fkCreates: ForeignKeyGroup[] = [];
+  for (const [key, fk] of fksBefore) {
+    const next = fksAfter.get(key);
+    if (!next || foreignKeySignature(next) !== foreignKeySignature(fk) || touchesRebuild(next)) fkDrops.push(fk);
+  }
+  for (const [key, fk] of fksAfter) {
+    const prev = fksBefore.get(key);
+    if (!prev || foreignKeySignature(prev) !== foreignKeySignature(fk) || touchesRebuild(fk)) fkCreates.push(fk);
+  }
+
+  const tableStatements: string[] = [];
+  diff.tables.forEach((change) => {
+    if (change.kind === 'removed') {
+      const t = change.before!;
+      tableStatements.push(`DROP TABLE ${tableRef(t.schemaName, t.tableName, dialect)};`);
+      return;
+    }
+    if (change.kind === 'added') {
+      const t = change.after!;
+      const pkIndex = primaryKeyIndex(t);
+      tableStatements.push(createTable(t, dialect));
+      t.indexes.filter((i) => i !== pkIndex).forEach((i) => tableStatements.push(createIndex(t, i, dialect)));
+      return;
+    }
+
+    const a = tablesBefore.get(change.name)!;
+    const b = tablesAfter.get(change.name)!;
+    const target = tableRef(b.schemaName, b.tableName, dialect);
+    const pkIndexA = primaryKeyIndex(a);
+    const pkIndexB = primaryKeyIndex(b);
+    const rebuildKey = rebuiltKeys.has(change.name);
+    const statements: string[] = [];
+
+    // Unchanged indexes over a retyped column block the ALTER COLUMN, so rebuild them too
+    const changedIndexes = new Set(change.indexes.map((i) => i.name));
+    const retypedIndexes = b.indexes.filter((i) =>
+      !changedIndexes.has(i.name) && i.columns.some((c) => retypedColumns.has(`${change.name}.${c}`)));
+    const indexDrops = [
+      ...change.indexes.filter((i) => i.kind !== 'added').map((i) => i.before!),
+      ...retypedIndexes,
+    ].filter((i) => i.name !== pkIndexA?.name);
+    const indexCreates = [
+      ...change.indexes.filter((i) => i.kind !== 'removed').map((i) => i.after!),
+      ...retypedIndexes,
+    ].filter((i) => i.name !== pkIndexB?.name);
+
+    indexDrops.forEach((i) => statements.push(dropIndex(a, i, dialect)));
+    if (rebuildKey && a.columns.some((c) => c.isPrimaryKey))
+      statements.push(`ALTER TABLE ${target} DROP CONSTRAINT ${quote(primaryKeyName(a, dialect), dialect)};`);
+
+    change.columns.filter((c) => c.kind === 'removed').forEach((c) => {
+      if (dialect === 'sqlserver' && c.before!.defaultValue) statements.push(dropDefaultConstraint(a, c.name));
+      statements.push(`ALTER TABLE ${target} DROP COLUMN ${quote(c.name, dialect)};`);
+    });
+    change.columns.filter((c) => c.kind === 'added').forEach((c) =>
+      statements.push(`ALTER TABLE ${target} ADD ${dialect === 'postgresql' ? 'COLUMN ' : ''}${columnDefinition(c.after!, dialect)};`));
+    change.columns.filter((c) => c.kind === 'changed').forEach((c) =>
+      statements.push(...alterColumn(b, c.before!, c.after!, dialect)));
+
+    const pkB = b.columns.filter((c) => c.isPrimaryKey).map((c) => c.name);
+    if (rebuildKey && pkB.length > 0)
+      statements.push(`ALTER TABLE ${target} ADD CONSTRAINT ${quote(primaryKeyName(b, dialect), dialect)} PRIMARY KEY (${columnList(pkB, dialect)});`);
+    indexCreates.forEach((i) => statements.push(createIndex(b, i, dialect)));
+
+    if (statements.length > 0) tableStatements.push(`-- ${change.name}\n${statements.join('\n')}`);
+  });
+
+  const reviewCategories: { category: DiffCategory; label: string }[] = [
+    { category: 'views', label: 'View' },
+    { category: 'procedures', label: 'Procedure' },
+    { category: 'functions', label: 'Function' },
+    { category: 'triggers', label: 'Trigger' },
+  ];
+  const review = reviewCategories.flatMap(({ category, label }) =>
+    diff[category].map((c) => `--   ${label} ${c.name} (${c.kind})`));
+
+  const sections: string[] = [
+    `-- ${title} (${SQL_DIALECT_LABELS[dialect]})\n-- Generated by DbAnalyser on ${new Date().toISOString()}`,
+    // Without XACT_ABORT a failing statement doesn't stop the batch, and the rest would still commit
+    dialect === 'sqlserver' ? 'SET XACT_ABORT ON;\nBEGIN TRANSACTION;' : 'BEGIN;',
+  ];
+  if (tableStatements.some((s) => s.includes(DROP_DEFAULT_VARIABLE))) {
+    sections.push(`DECLARE ${DROP_DEFAULT_VARIABLE} nvarchar(max);`);
+  }
+  if (fkDrops.length === 0 && tableStatements.length === 0 && fkCreates.length === 0) {
+    sections.push('-- No table changes');
+  }
+  if (fkDrops.length > 0) {
+    sections.push(`-- ── Drop foreign keys ──\n${fkDrops.map((fk) => dropForeignKey(fk, dialect)).join('\n')}`);
+  }
+  if (tableStatements.length > 0) {
+    sections.push(`-- ── Table changes ──\n${tableStatements.join('\n\n')}`);
+  }
+  if (fkCreates.length > 0) {
+    sections.push(`-- ── Create foreign keys ──\n${fkCreates.map((fk) => addForeignKey(fk, dialect)).join('\n\n')}`);
+  }
+  sections.push(dialect === 'sqlserver' ? 'COMMIT TRANSACTION;' : 'COMMIT;');
+  if (review.length > 0) {
+    sections.push(`-- Review manually, definitions are not migrated:\n${review.join('\n')}`);
+  }
+
+  return sections.join('\n\n') + '\n';
+}
@@ -0,0 +1,1056 @@
+import type {
+  DatabaseSchema, TableInfo, ColumnInfo, IndexInfo, ForeignKeyInfo, ViewInfo, StoredProcedureInfo,
+  FunctionInfo, TriggerInfo, SynonymInfo, RelationshipMap, ImplicitRelationship, TableDependency, ObjectDependency,
+} from '../api/types';
+import { tokenizeSql, unquoteIdentifier, isBatchSeparator, Cursor, splitTopLevel, type SqlToken } from './useSqlTokenizer';
+
+export interface SqlScriptFile {
+  path: string;
+  content: string;
+}
+
+export interface ParsedDdlScripts {
+  schema: DatabaseSchema;
+  relationships: RelationshipMap;
+  warnings: string[];
+}
+
+type Dialect = 'tsql' | 'postgres';
+
+interface QualifiedName {
+  database?: string;
+  schema: string;
+  name: string;
+}
+
+interface KeyDraft {
+  name: string;
+  columns: string[];
+  clustered: boolean;
+}
+
+interface ForeignKeyDraft {
+  name: string;
+  columns: string[];
+  ref: QualifiedName;
+  refColumns: string[];    // empty = the referenced table's primary key
+  deleteRule: string;
+  updateRule: string;
+}
+
+interface TableDraft {
+  schemaName: string;
+  tableName: string;
+  declared: boolean;       // false while only ALTER TABLE / CREATE INDEX statements have mentioned it
+  dialect: Dialect;
+  columns: ColumnInfo[];
+  primaryKey: KeyDraft | null;
+  uniques: KeyDraft[];
+  indexes: IndexInfo[];
+  foreignKeys: ForeignKeyDraft[];
+}
+
+interface ViewDraft {
+  info: ViewInfo;
+  columnNames: string[];   // explicit `CREATE VIEW v (a, b)` list
+  body: SqlToken[];        // significant tokens after AS
+}
+
+interface ParseState {
+  tables: Map<string, TableDraft>;
+  views: Map<string, ViewDraft>;
+  procedures: Map<string, StoredProcedureInfo>;
+  functions: Map<string, FunctionInfo>;
+  triggers: Map<string, TriggerInfo>;
+  synonyms: Map<string, SynonymInfo>;
+  warnings: string[];
+}
+
+const key = (schema: string, name: string) => `${schema}.${name}`.toLowerCase();
+
+function columnList(tokens: SqlToken[]): string[] {
+  return splitTopLevel(tokens)
+    .map((part) => part.find((t) => t.type === 'word' || t.type === 'quoted'))
+    .filter((t): t is SqlToken => !!t)
+    .map((t) => unquoteIdentifier(t.text));
+}
+
+function qualifiedName(c: Cursor, dialect: Dialect): QualifiedName | null {
+  const parts: string[] = [];
+  const first = c.identifier();
+  if (first === null) return null;
+  parts.push(first);
+  while (c.is('.') && c.isIdentifier(1)) {
+    c.next();
+    parts.push(c.identifier()!);
+  }
+  const name = parts[parts.length - 1];
+  const schema = parts.length > 1 ? parts[parts.length - 2] : dialect === 'tsql' ? 'dbo' : 'public';
+  return { database: parts.length > 2 ? parts[parts.length - 3] : undefined, schema, name };
+}
+
+// ── Column definitions ──────────────────────────────────────────────────────
+
+// PostgreSQL reports the long-form names from information_schema
+const POSTGRES_TYPE_ALIASES: Record<string, string> = {
+  int: 'integer',
+  int4: 'integer',
+  int2: 'smallint',
+  int8: 'bigint',
+  bool: 'boolean',
+  varchar: 'character varying',
+  char: 'character',
+  float8: 'double precision',
+  float4: 'real',
+  decimal: 'numeric',
+  timestamp: 'timestamp without time zone',
+  timestamptz: 'timestamp with time zone',
+  time: 'time without time zone',
+  timetz: 'time with time zone',
+};
+
+const SERIAL_TYPES: Record<string, string> = {
+  smallserial: 'smallint',
+  serial: 'integer',
+  serial4: 'integer',
+  bigserial: 'bigint',
+  serial8: 'bigint',
+};
+
+// Keywords that end a DEFAULT expression inside a column definition
+const COLUMN_CONSTRAINT_WORDS = new Set([
+  'CONSTRAINT', 'NOT', 'NULL', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'CHECK', 'COLLATE', 'IDENTITY', 'GENERATED', 'DEFAULT',
+]);
+
+interface ParsedType {
+  dataType: string;
+  maxLength: number | null;
+  precision: number | null;
+  scale: number | null;
+  serial: boolean;
+}
+
+function parseDataType(c: Cursor, dialect: Dialect): ParsedType {
+  const name = qualifiedName(c, dialect);
+  let base = (name?.name ?? '').toLowerCase();
+  // Multi-word PostgreSQL types
+  if (base === 'double' && c.accept('PRECISION')) base = 'double precision';
+  if ((base === 'character' || base === 'char' || base === 'bit') && c.accept('VARYING')) base = base === 'bit' ? 'bit varying' : 'character varying';
+
+  const args = c.group().filter((t) => t.text !== ',').map((t) => t.text.toLowerCase());
+  if ((base === 'timestamp' || base === 'time') && (c.is('WITH', 'TIME', 'ZONE') || c.is('WITHOUT', 'TIME', 'ZONE'))) {
+    base = `${base} ${c.next()!.text.toLowerCase()} time zone`;
+    c.pos += 2;
+  }
+
+  let dataType = base;
+  const serial = dialect === 'postgres' && base in SERIAL_TYPES;
+  if (serial) dataType = SERIAL_TYPES[base];
+  else if (dialect === 'postgres') dataType = POSTGRES_TYPE_ALIASES[base] ?? base;
+  while (/^\[\d*\]$/.test(c.peek()?.text ?? '')) { c.next(); dataType += '[]'; }
+
+  const numeric = ['decimal', 'numeric'].includes(dataType);
+  const first = args[0] === 'max' ? -1 : args[0] !== undefined ? Number(args[0]) : null;
+  return {
+    dataType,
+    // Only character and binary types report a length; time(7) and friends carry precision
+    maxLength: /char|binary|bit varying/.test(dataType) && first !== null && !Number.isNaN(first) ? first : null,
+    precision: numeric && first !== null ? first : null,
+    scale: numeric ? (args[1] !== undefined ? Number(args[1]) : first !== null ? 0 : null) : null,
+    serial,
+  };
+}
+
+function normalizeRule(words: string, dialect: Dialect): string {
+  const rule = words.toUpperCase();
+  return dialect === 'tsql' ? rule.replace(/ /g, '_') : rule;
+}
+
+function parseReferences(c: Cursor, dialect: Dialect): Omit<ForeignKeyDraft, 'name' | 'columns'> | null {
+  const ref = qualifiedName(c, dialect);
+  if (!ref) return null;
+  const refColumns = columnList(c.group());
+  let deleteRule = 'NO ACTION';
+  let updateRule = 'NO ACTION';
+  while (c.is('ON', 'DELETE') || c.is('ON', 'UPDATE') || c.is('MATCH') || c.is('NOT', 'FOR', 'REPLICATION') || c.is('DEFERRABLE') || c.is('INITIALLY')) {
+    if (c.accept('ON')) {
+      const isDelete = c.next()!.text.toUpperCase() === 'DELETE';
+      const action = c.accept('NO', 'ACTION') ? 'NO ACTION'
+        : c.accept('SET', 'NULL') ? 'SET NULL'
+        : c.accept('SET', 'DEFAULT') ? 'SET DEFAULT'
+        : c.next()?.text.toUpperCase() ?? 'NO ACTION';
+      if (isDelete) deleteRule = action; else updateRule = action;
+    } else {
+      c.pos += c.is('NOT', 'FOR', 'REPLICATION') ? 3 : 2;
+    }
+  }
+  return { ref, refColumns, deleteRule: normalizeRule(deleteRule, dialect), updateRule: normalizeRule(updateRule, dialect) };
+}
+
+function sourceText(source: string, tokens: SqlToken[]): string {
+  if (tokens.length === 0) return '';
+  const last = tokens[tokens.length - 1];
+  return source.slice(tokens[0].start, last.start + last.text.length);
+}
+
+/**
+ * Parse one element of a CREATE TABLE body or ALTER TABLE ADD clause:
+ * a column definition or a table constraint.
+ */
+function parseTableItem(tokens: SqlToken[], table: TableDraft, source: string) {
+  const c = new Cursor(tokens);
+  const dialect = table.dialect;
+  let constraintName = c.accept('CONSTRAINT') ? c.identifier() : null;
+
+  const keyColumns = () => {
+    c.accept('CLUSTERED'); c.accept('NONCLUSTERED');
+    const clustered = tokens[c.pos - 1]?.text.toUpperCase() !== 'NONCLUSTERED';
+    return { columns: columnList(c.group()), clustered };
+  };
+
+  if (c.accept('PRIMARY', 'KEY')) {
+    const { columns, clustered } = keyColumns();
+    table.primaryKey = { name: constraintName ?? defaultKeyName(table, 'pk', columns), columns, clustered: dialect === 'tsql' && clustered };
+    return;
+  }
+  if (c.accept('UNIQUE')) {
+    const { columns } = keyColumns();
+    table.uniques.push({ name: constraintName ?? defaultKeyName(table, 'unique', columns), columns, clustered: false });
+    return;
+  }
+  if (c.accept('FOREIGN', 'KEY')) {
+    const columns = columnList(c.group());
+    if (!c.accept('REFERENCES')) return;
+    const refs = parseReferences(c, dialect);
+    if (refs) table.foreignKeys.push({ name: constraintName ?? defaultKeyName(table, 'fk', columns, refs.ref.name), columns, ...refs });
+    return;
+  }
+  if (c.accept('INDEX')) {
+    const name = c.identifier() ?? '';
+    const isUnique = c.accept('UNIQUE');
+    const clustered = c.accept('CLUSTERED');
+    c.accept('NONCLUSTERED');
+    table.indexes.push({ name, type: clustered ? 'CLUSTERED' : 'NONCLUSTERED', isUnique, isClustered: clustered, columns: columnList(c.group()) });
+    return;
+  }
+  if (constraintName !== null || c.is('CHECK') || c.is('EXCLUDE') || c.is('PERIOD') || c.is('LIKE')) return;
+
+  // Column definition
+  const name = c.identifier();
+  if (name === null) return;
+  const column: ColumnInfo = {
+    name, dataType: '', maxLength: null, precision: null, scale: null,
+    isNullable: true, isPrimaryKey: false, isIdentity: false, isComputed: false,
+    defaultValue: null, ordinalPosition: table.columns.length + 1,
+  };
+
+  if (c.accept('AS')) {
+    // T-SQL computed column: `Total AS (Qty * Price) PERSISTED`
+    column.isComputed = true;
+  } else {
+    const type = parseDataType(c, dialect);
+    Object.assign(column, { dataType: type.dataType, maxLength: type.maxLength, precision: type.precision, scale: type.scale });
+    if (type.serial) {
+      column.isIdentity = true;
+      column.isNullable = false;
+    }
+  }
+
+  while (!c.done) {
+    if (c.accept('CONSTRAINT')) {
+      constraintName = c.identifier();
+    } else if (c.accept('NOT', 'NULL')) {
+      column.isNullable = false;
+    } else if (c.accept('NULL')) {
+      column.isNullable = true;
+    } else if (c.accept('IDENTITY')) {
+      c.group();
+      column.isIdentity = true;
+      column.isNullable = false;
+    } else if (c.accept('GENERATED')) {
+      while (!c.done && !c.is('AS')) c.next();
+      c.accept('AS');
+      if (c.accept('IDENTITY')) {
+        c.group();
+        column.isIdentity = true;
+        column.isNullable = false;
+      } else {
+        c.group();
+        column.isComputed = true;
+      }
+    } else if (c.accept('PRIMARY', 'KEY')) {
+      c.accept('CLUSTERED');
+      const clustered = !c.accept('NONCLUSTERED');
+      table.primaryKey = { name: constraintName ?? defaultKeyName(table, 'pk', [name]), columns: [name], clustered: dialect === 'tsql' && clustered };
+      column.isNullable = false;
+    } else if (c.accept('UNIQUE')) {
+      c.accept('CLUSTERED'); c.accept('NONCLUSTERED');
+      table.uniques.push({ name: constraintName ?? defaultKeyName(table, 'unique', [name]), columns: [name], clustered: false });
+    } else if (c.accept('REFERENCES')) {
+      const refs = parseReferences(c, dialect);
+      if (refs) table.foreignKeys.push({ name: constraintName ?? defaultKeyName(table, 'fk', [name], refs.ref.name), columns: [name], ...refs });
+    } else if (c.accept('DEFAULT')) {
+      const start = c.pos;
+      let depth = 0;
+      while (!c.done) {
+        const t = c.peek()!;
+        if (depth === 0 && t.type === 'word' && COLUMN_CONSTRAINT_WORDS.has(t.text.toUpperCase()) && c.pos > start) break;
+        if (t.text === '(') depth++;
+        else if (t.text === ')') depth--;
+        c.next();
+      }
+      column.defaultValue = sourceText(source, tokens.slice(start, c.pos)) || null;
+    } else if (c.is('CHECK') || c.is('COLLATE') || c.is('WITH')) {
+      c.next();
+      if (c.is('(')) c.group(); else c.next();
+    } else {
+      const t = c.next()!;
+      if (t.text === '(') { c.pos--; c.group(); }
+    }
+  }
+
+  table.columns.push(column);
+}
+
+// Names the engines would generate, so diffs against a live database line up where possible
+function defaultKeyName(table: TableDraft, kind: 'pk' | 'unique' | 'fk', columns: string[], refTable?: string): string {
+  if (table.dialect === 'postgres') {
+    const suffix = kind === 'pk' ? 'pkey' : kind === 'unique' ? 'key' : 'fkey';
+    return kind === 'pk' ? `${table.tableName}_${suffix}` : `${table.tableName}_${columns.join('_')}_${suffix}`;
+  }
+  if (kind === 'pk') return `PK_${table.tableName}`;
+  if (kind === 'unique') return `UQ_${table.tableName}_${columns.join('_')}`;
+  return `FK_${table.tableName}_${refTable}`;
+}
+
+// ── Statements ──────────────────────────────────────────────────────────────
+
+function tableDraft(state: ParseState, name: QualifiedName, dialect: Dialect): TableDraft {
+  const k = key(name.schema, name.name);
+  let draft = state.tables.get(k);
+  if (!draft) {
+    draft = {
+      schemaName: name.schema, tableName: name.name, declared: false, dialect,
+      columns: [], primaryKey: null, uniques: [], indexes: [], foreignKeys: [],
+    };
+    state.tables.set(k, draft);
+  }
+  return draft;
+}
+
+function parseCreateTable(c: Cursor, state: ParseState, dialect: Dialect, source: string) {
+  c.accept('IF', 'NOT', 'EXISTS');
+  const name = qualifiedName(c, dialect);
+  if (!name || name.name.startsWith('#') || !c.is('(')) return;
+  const table = tableDraft(state, name, dialect);
+  if (table.declared) state.warnings.push(`Table ${name.schema}.${name.name} is defined more than once; the last definition wins`);
+  Object.assign(table, { declared: true, columns: [], primaryKey: null, uniques: [], foreignKeys: [] });
+  splitTopLevel(c.group()).forEach((item) => parseTableItem(item, table, source));
+}
+
+function parseAlterTable(c: Cursor, state: ParseState, dialect: Dialect, source: string, end: number) {
+  c.accept('ONLY');
+  c.accept('IF', 'EXISTS');
+  const name = qualifiedName(c, dialect);
+  if (!name || name.name.startsWith('#')) return;
+  c.accept('WITH', 'CHECK');
+  c.accept('WITH', 'NOCHECK');
+  if (!c.accept('ADD')) return;
+
+  // Everything up to the end of the statement is a comma-separated list of additions
+  const rest = c.tokens.slice(c.pos, end);
+  const table = tableDraft(state, name, dialect);
+  splitTopLevel(rest).forEach((item) => {
+    const trimmed = item[0]?.text.toUpperCase() === 'ADD' ? item.slice(1) : item;
+    parseTableItem(trimmed[0]?.text.toUpperCase() === 'COLUMN' ? trimmed.slice(1) : trimmed, table, source);
+  });
+}
+
+function parseCreateIndex(c: Cursor, state: ParseState, dialect: Dialect, isUnique: boolean, clustered: boolean) {
+  c.accept('CONCURRENTLY');
+  c.accept('IF', 'NOT', 'EXISTS');
+  const indexName = c.is('ON') ? '' : c.identifier() ?? '';
+  if (!c.accept('ON')) return;
+  c.accept('ONLY');
+  const name = qualifiedName(c, dialect);
+  if (!name || name.name.startsWith('#')) return;
+  let method = 'btree';
+  if (c.accept('USING')) method = c.next()?.text.toLowerCase() ?? method;
+  const table = tableDraft(state, name, dialect);
+  table.indexes.push({
+    name: indexName,
+    type: dialect === 'tsql' ? (clustered ? 'CLUSTERED' : 'NONCLUSTERED') : method,
+    isUnique,
+    isClustered: clustered,
+    columns: columnList(c.group()),
+  });
+}
+
+function parseTriggerHeader(c: Cursor, dialect: Dialect) {
+  let parent: QualifiedName | null = null;
+  let timing = 'AFTER';
+  const events: string[] = [];
+  while (!c.done && !c.is('AS') && !c.is('EXECUTE') && !c.is('BEGIN')) {
+    if (c.accept('ON')) {
+      parent = qualifiedName(c, dialect);
+    } else if (c.accept('INSTEAD', 'OF')) {
+      timing = 'INSTEAD OF';
+    } else if (c.is('BEFORE') || c.is('AFTER') || c.is('FOR')) {
+      const word = c.next()!.text.toUpperCase();
+      if (word !== 'FOR' || !c.is('EACH')) timing = word === 'BEFORE' ? 'BEFORE' : 'AFTER';
+    } else if (c.is('INSERT') || c.is('UPDATE') || c.is('DELETE') || c.is('TRUNCATE')) {
+      events.push(c.next()!.text.toUpperCase());
+    } else {
+      c.next();
+    }
+  }
+  return { parent, timing, events };
+}
+
+function functionType(c: Cursor, dialect: Dialect): string {
+  while (!c.done && !c.is('RETURNS')) c.next();
+  if (!c.accept('RETURNS')) return 'Scalar';
+  if (dialect === 'postgres') return c.is('TABLE') || c.is('SETOF') ? 'Set-Returning' : 'Scalar';
+  if (c.is('TABLE')) return 'Inline Table';
+  if (c.peek()?.type === 'variable' && c.peek(1)?.text.toUpperCase() === 'TABLE') return 'Table';
+  return 'Scalar';
+}
+
+function parseModule(kind: string, c: Cursor, state: ParseState, dialect: Dialect, definition: string) {
+  if (dialect === 'postgres') c.accept('IF', 'NOT', 'EXISTS');
+  const name = qualifiedName(c, dialect);
+  if (!name) return;
+  const k = key(name.schema, name.name);
+  const fullName = `${name.schema}.${name.name}`;
+
+  if (kind === 'VIEW') {
+    const columnNames = c.is('(') ? columnList(c.group()) : [];
+    while (!c.done && !c.is('AS')) c.next();
+    c.accept('AS');
+    state.views.set(k, {
+      info: { schemaName: name.schema, viewName: name.name, fullName, definition, columns: [] },
+      columnNames,
+      body: c.tokens.slice(c.pos),
+    });
+  } else if (kind === 'PROCEDURE' || kind === 'PROC') {
+    state.procedures.set(k, { schemaName: name.schema, procedureName: name.name, fullName, definition, lastModified: null });
+  } else if (kind === 'FUNCTION') {
+    const type = functionType(c, dialect);
+    // PostgreSQL trigger functions are listed with their triggers, not as callable functions
+    if (dialect === 'postgres' && c.is('TRIGGER')) return;
+    state.functions.set(k, { schemaName: name.schema, functionName: name.name, fullName, functionType: type, definition, lastModified: null });
+  } else if (kind === 'TRIGGER') {
+    const { parent, timing, events } = parseTriggerHeader(c, dialect);
+    if (!parent) return;
+    // Triggers live in their parent table's schema
+    const schemaName = parent.schema;
+    state.triggers.set(key(schemaName, name.name), {
+      schemaName,
+      triggerName: name.name,
+      fullName: `${schemaName}.${name.name}`,
+      parentTable: parent.name,
+      parentFullName: `${parent.schema}.${parent.name}`,
+      triggerType: timing,
+      triggerEvents: events.join(', '),
+      isEnabled: true,
+      definition,
+    });
+  }
+}
+
+function parseCreateSynonym(c: Cursor, state: ParseState, dialect: Dialect) {
+  const name = qualifiedName(c, dialect);
+  if (!name || !c.accept('FOR')) return;
+  const start = c.pos;
+  qualifiedName(c, dialect);
+  const baseObjectName = c.tokens.slice(start, c.pos).map((t) => t.text).join('');
+  state.synonyms.set(key(name.schema, name.name), {
+    schemaName: name.schema, synonymName: name.name, fullName: `${name.schema}.${name.name}`, baseObjectName,
+  });
+}
+
+// ── Scripts ─────────────────────────────────────────────────────────────────
+
+// Files with GO separators, [brackets] or @variables are T-SQL; $$ bodies or :: casts mean PostgreSQL
+function detectDialect(tokens: SqlToken[]): Dialect {
+  let postgres = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (isBatchSeparator(tokens, i) || t.type === 'variable' || /^\[.*\D.*\]$/.test(t.text)) return 'tsql';
+    if ((t.type === 'string' && t.text.startsWith('$')) || t.text === '::' || (t.type === 'word' && /^(serial|bigserial|jsonb|timestamptz|plpgsql)$/i.test(t.text))) postgres++;
+  }
+  return postgres > 0 ? 'postgres' : 'tsql';
+}
+
+const MODULE_KINDS = new Set(['VIEW', 'PROCEDURE', 'PROC', 'FUNCTION', 'TRIGGER']);
+const STATEMENT_STARTS = new Set(['CREATE', 'ALTER', 'DROP', 'INSERT', 'EXEC', 'EXECUTE', 'PRINT', 'IF', 'BEGIN', 'DECLARE', 'USE', 'GRANT']);
+
+function parseScript(file: SqlScriptFile, state: ParseState) {
+  const source = file.content;
+  const all = tokenizeSql(source);
+  const dialect = detectDialect(all);
+
+  // T-SQL batches end at GO; PostgreSQL scripts are one batch of ;-terminated statements
+  const batches: SqlToken[][] = [[]];
+  all.forEach((t, i) => {
+    if (dialect === 'tsql' && isBatchSeparator(all, i)) batches.push([]);
+    else if (t.type !== 'whitespace' && t.type !== 'comment') batches[batches.length - 1].push(t);
+  });
+
+  batches.forEach((batch) => {
+    const c = new Cursor(batch);
+    // Statements end at ';' or, in T-SQL where it is optional, where the next one begins
+    const statementEnd = (from: number) => {
+      let depth = 0;
+      for (let i = from; i < batch.length; i++) {
+        const t = batch[i].text.toUpperCase();
+        if (t === '(') depth++;
+        else if (t === ')') depth--;
+        else if (depth === 0 && t === ';') return i;
+        else if (depth === 0 && dialect === 'tsql' && batch[i].type === 'word' && i > from
+          && (STATEMENT_STARTS.has(t) || (t === 'SET' && !/^(DELETE|UPDATE)$/i.test(batch[i - 1].text)))) return i;
+      }
+      return batch.length;
+    };
+
+    while (!c.done) {
+      const start = c.pos;
+      if (c.accept('CREATE') || c.is('ALTER', 'VIEW') || c.is('ALTER', 'PROCEDURE') || c.is('ALTER', 'PROC') || c.is('ALTER', 'FUNCTION') || c.is('ALTER', 'TRIGGER')) {
+        if (batch[start].text.toUpperCase() === 'ALTER') c.next();
+        c.accept('OR', 'ALTER');
+        c.accept('OR', 'REPLACE');
+        c.accept('CONSTRAINT');
+        const isUnique = c.accept('UNIQUE');
+        const clustered = c.accept('CLUSTERED');
+        c.accept('NONCLUSTERED');
+        c.accept('TEMP'); c.accept('TEMPORARY'); c.accept('UNLOGGED'); c.accept('MATERIALIZED');
+        const kind = c.next()?.text.toUpperCase() ?? '';
+
+        if (MODULE_KINDS.has(kind)) {
+          // A T-SQL module runs to the end of its batch; PostgreSQL bodies are single $$ tokens
+          const end = dialect === 'tsql' ? batch.length : statementEnd(c.pos);
+          const definition = sourceText(source, batch.slice(start, end)).trim();
+          parseModule(kind, new Cursor(batch.slice(c.pos, end)), state, dialect, definition);
+          c.pos = end;
+        } else if (kind === 'TABLE') {
+          parseCreateTable(c, state, dialect, source);
+        } else if (kind === 'INDEX') {
+          parseCreateIndex(c, state, dialect, isUnique, clustered);
+        } else if (kind === 'SYNONYM') {
+          parseCreateSynonym(c, state, dialect);
+        }
+      } else if (c.accept('ALTER', 'TABLE')) {
+        parseAlterTable(c, state, dialect, source, statementEnd(c.pos));
+      } else {
+        c.next();
+      }
+      if (c.pos === start) c.next();
+    }
+  });
+}
+
+// ── View columns ────────────────────────────────────────────────────────────
+
+// Derive view columns from the outermost SELECT list, copying types where a column maps straight to a table
+function deriveViewColumns(view: ViewDraft, tables: Map<string, TableInfo>): ColumnInfo[] {
+  const body = view.body;
+  let depth = 0;
+  let selectAt = -1;
+  let fromAt = body.length;
+  for (let i = 0; i < body.length; i++) {
+    const t = body[i].text.toUpperCase();
+    if (t === '(') depth++;
+    else if (t === ')') depth--;
+    else if (depth === 0 && t === 'SELECT' && selectAt < 0) selectAt = i;
+    else if (depth === 0 && selectAt >= 0 && (t === 'FROM' || t === 'UNION' || t === 'EXCEPT' || t === 'INTERSECT' || t === ';')) { fromAt = i; break; }
+  }
+  if (selectAt < 0) return [];
+
+  // Table aliases from the FROM clause
+  const sources = new Map<string, TableInfo>();
+  const fromClause = new Cursor(body.slice(fromAt));
+  while (!fromClause.done) {
+    const t = fromClause.next()!.text.toUpperCase();
+    if (t !== 'FROM' && t !== 'JOIN' && t !== ',') continue;
+    if (!fromClause.isIdentifier()) continue;
+    const name = qualifiedName(fromClause, 'tsql');
+    if (!name) continue;
+    const table = tables.get(key(name.schema, name.name)) ?? tables.get(key('public', name.name));
+    if (!table) continue;
+    fromClause.accept('AS');
+    const alias = fromClause.isIdentifier() && !/^(WHERE|JOIN|INNER|LEFT|RIGHT|FULL|CROSS|OUTER|NATURAL|ON|GROUP|ORDER|HAVING|UNION|WITH|LIMIT|OFFSET)$/i.test(fromClause.peek()!.text)
+      ? unquoteIdentifier(fromClause.next()!.text)
+      : table.tableName;
+    sources.set(alias.toLowerCase(), table);
+    sources.set(table.tableName.toLowerCase(), table);
+  }
+
+  const list = new Cursor(body.slice(selectAt + 1, fromAt));
+  list.accept('DISTINCT');
+  list.accept('ALL');
+  if (list.accept('TOP')) {
+    if (list.is('(')) list.group(); else list.next();
+    list.accept('PERCENT');
+    list.accept('WITH', 'TIES');
+  }
+
+  const columns: ColumnInfo[] = [];
+  const add = (name: string, from: ColumnInfo | undefined) => {
+    const base: ColumnInfo = from
+      ? { ...from, isPrimaryKey: false, isIdentity: false, defaultValue: null }
+      : { name, dataType: '', maxLength: null, precision: null, scale: null, isNullable: true, isPrimaryKey: false, isIdentity: false, isComputed: false, defaultValue: null, ordinalPosition: 0 };
+    columns.push({ ...base, name, ordinalPosition: columns.length + 1 });
+  };
+  const lookup = (qualifier: string | null, column: string) => {
+    const candidates = qualifier ? [sources.get(qualifier.toLowerCase())] : [...new Set(sources.values())];
+    for (const table of candidates) {
+      const found = table?.columns.find((col) => col.name.toLowerCase() === column.toLowerCase());
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  splitTopLevel(list.tokens.slice(list.pos)).forEach((item) => {
+    const texts = item.map((t) => t.text);
+    const last = item[item.length - 1];
+    const isIdent = (t: SqlToken | undefined) => t?.type === 'word' || t?.type === 'quoted';
+
+    if (texts[texts.length - 1] === '*') {
+      const qualifier = item.length >= 3 ? unquoteIdentifier(item[item.length - 3].text) : null;
+      const expanded = qualifier ? [sources.get(qualifier.toLowerCase())] : [...new Set(sources.values())];
+      expanded.forEach((table) => table?.columns.forEach((col) => add(col.name, col)));
+      return;
+    }
+    // T-SQL `Alias = expression`
+    if (item.length > 2 && isIdent(item[0]) && texts[1] === '=') {
+      add(unquoteIdentifier(item[0].text), undefined);
+      return;
+    }
+    // Plain [qualifier.]column reference
+    if (item.every((t, i) => (i % 2 === 0 ? isIdent(t) : t.text === '.'))) {
+      const column = unquoteIdentifier(last.text);
+      const qualifier = item.length >= 3 ? unquoteIdentifier(item[item.length - 3].text) : null;
+      add(column, lookup(qualifier, column));
+      return;
+    }
+    // `expression [AS] alias`
+    const prev = item[item.length - 2];
+    if (isIdent(last) && prev && (prev.text.toUpperCase() === 'AS' || isIdent(prev) || prev.text === ')' || prev.type === 'string' || prev.type === 'number')) {
+      const expr = prev.text.toUpperCase() === 'AS' ? item.slice(0, -2) : item.slice(0, -1);
+      const plain = expr.every((t, i) => (i % 2 === 0 ? isIdent(t) : t.text === '.'));
+      const source = plain ? lookup(expr.length >= 3 ? unquoteIdentifier(expr[expr.length - 3].text) : null, unquoteIdentifier(expr[expr.length - 1].text)) : undefined;
+      add(unquoteIdentifier(last.text), source);
+    }
+  });
+
+  if (view.columnNames.length === 0) return columns;
+  return view.columnNames.map((name, i) => columns[i]
+    ? { ...columns[i], name }
+    : { name, dataType: '', maxLength: null, precision: null, scale: null, isNullable: true, isPrimaryKey: false, isIdentity: false, isComputed: false, defaultValue: null, ordinalPosition: i + 1 });
+}
+
+// ── Schema assembly ─────────────────────────────────────────────────────────
+
+function finalizeTable(draft: TableDraft, drafts: Map<string, TableDraft>): TableInfo {
+  const pkColumns = new Set((draft.primaryKey?.columns ?? []).map((c) => c.toLowerCase()));
+  const columns = draft.columns.map((col) => pkColumns.has(col.name.toLowerCase())
+    ? { ...col, isPrimaryKey: true, isNullable: false }
+    : col);
+
+  const keyIndex = (k: KeyDraft, isPk: boolean): IndexInfo => ({
+    name: k.name,
+    type: draft.dialect === 'tsql' ? (k.clustered ? 'CLUSTERED' : 'NONCLUSTERED') : 'btree',
+    isUnique: true,
+    isClustered: isPk && k.clustered,
+    columns: k.columns,
+  });
+  const indexes = [
+    ...(draft.primaryKey ? [keyIndex(draft.primaryKey, true)] : []),
+    ...draft.uniques.map((u) => keyIndex(u, false)),
+    ...draft.indexes,
+  ];
+
+  const foreignKeys: ForeignKeyInfo[] = [];
+  draft.foreignKeys.forEach((fk) => {
+    const target = drafts.get(key(fk.ref.schema, fk.ref.name));
+    const refColumns = fk.refColumns.length > 0 ? fk.refColumns : target?.primaryKey?.columns ?? [];
+    fk.columns.forEach((column, i) => {
+      foreignKeys.push({
+        name: fk.name,
+        fromSchema: draft.schemaName,
+        fromTable: draft.tableName,
+        fromColumn: column,
+        toSchema: target?.schemaName ?? fk.ref.schema,
+        toTable: target?.tableName ?? fk.ref.name,
+        toColumn: refColumns[i] ?? refColumns[0] ?? '',
+        deleteRule: fk.deleteRule,
+        updateRule: fk.updateRule,
+      });
+    });
+  });
+
+  return {
+    schemaName: draft.schemaName,
+    tableName: draft.tableName,
+    fullName: `${draft.schemaName}.${draft.tableName}`,
+    columns,
+    indexes,
+    foreignKeys,
+  };
+}
+
+const byFullName = <T extends { fullName: string }>(items: Iterable<T>) =>
+  [...items].sort((a, b) => a.fullName.localeCompare(b.fullName));
+
+/**
+ * Build a schema and relationship map from CREATE TABLE/VIEW/PROCEDURE/FUNCTION/TRIGGER
+ * scripts. Statements may be spread over any number of files in any order.
+ */
+export function parseDdlScripts(files: SqlScriptFile[], databaseName: string): ParsedDdlScripts {
+  const state: ParseState = {
+    tables: new Map(), views: new Map(), procedures: new Map(), functions: new Map(),
+    triggers: new Map(), synonyms: new Map(), warnings: [],
+  };
+  files.forEach((file) => {
+    try {
+      parseScript(file, state);
+    } catch (err) {
+      state.warnings.push(`${file.path}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+
+  state.tables.forEach((draft) => {
+    if (!draft.declared) state.warnings.push(`ALTER TABLE or CREATE INDEX refers to ${draft.schemaName}.${draft.tableName}, which no script creates`);
+  });
+  const declared = new Map([...state.tables].filter(([, d]) => d.declared));
+  const tables = byFullName([...declared.values()].map((d) => finalizeTable(d, declared)));
+  const tableLookup = new Map(tables.map((t) => [key(t.schemaName, t.tableName), t]));
+  const views = byFullName([...state.views.values()].map((v) => ({ ...v.info, columns: deriveViewColumns(v, tableLookup) })));
+
+  const schema: DatabaseSchema = {
+    databaseName,
+    tables,
+    views,
+    storedProcedures: byFullName(state.procedures.values()),
+    functions: byFullName(state.functions.values()),
+    triggers: byFullName(state.triggers.values()),
+    synonyms: byFullName(state.synonyms.values()),
+    sequences: [],
+    userDefinedTypes: [],
+    jobs: [],
+  };
+
+  return { schema, relationships: buildRelationshipMap(schema), warnings: state.warnings };
+}
+
+// ── Relationships ───────────────────────────────────────────────────────────
+// Mirrors RelationshipAnalyzer on the server, minus the catalog dependency query.
+
+export function buildRelationshipMap(schema: DatabaseSchema): RelationshipMap {
+  const explicitRelationships = schema.tables.flatMap((t) => t.foreignKeys);
+  const implicitRelationships = detectImplicitRelationships(schema.tables, explicitRelationships);
+
+  const seen = new Set<string>();
+  const viewDependencies = [...parseObjectDependencies(schema), ...resolveSynonymDependencies(schema)].filter((d) => {
+    const k = `${d.fromSchema}.${d.fromName}->${d.toFullName}`.toLowerCase();
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+
+  return {
+    explicitRelationships,
+    implicitRelationships,
+    dependencies: buildDependencyGraph(schema, explicitRelationships, viewDependencies),
+    viewDependencies,
+  };
+}
+
+function objectDependency(
+  fromSchema: string, fromName: string, fromType: string,
+  toSchema: string, toName: string, toType: string, toDatabase: string | null, detectedVia: string,
+): ObjectDependency {
+  return {
+    fromSchema, fromName, fromType, toSchema, toName, toType, toDatabase, detectedVia,
+    isCrossDatabase: toDatabase !== null,
+    toFullName: toDatabase ? `${toDatabase}.${toSchema}.${toName}` : `${toSchema}.${toName}`,
+    fromFullName: `${fromSchema}.${fromName}`,
+  };
+}
+
+// ── Implicit relationships ──
+
+type TypeCompatibility = 'exact' | 'compatible' | 'mismatch';
+
+const INT_TYPES = new Set(['tinyint', 'smallint', 'int', 'bigint', 'integer']);
+const STRING_TYPES = new Set(['char', 'varchar', 'nchar', 'nvarchar', 'character', 'character varying', 'text']);
+const DECIMAL_TYPES = new Set(['decimal', 'numeric', 'float', 'real', 'money', 'smallmoney', 'double precision']);
+
+function checkTypeCompatibility(candidate: ColumnInfo, pk: ColumnInfo): TypeCompatibility {
+  const a = candidate.dataType.toLowerCase();
+  const b = pk.dataType.toLowerCase();
+  if (a === b) return 'exact';
+  if ((INT_TYPES.has(a) && INT_TYPES.has(b)) || (STRING_TYPES.has(a) && STRING_TYPES.has(b)) || (DECIMAL_TYPES.has(a) && DECIMAL_TYPES.has(b)))
+    return 'compatible';
+  return 'mismatch';
+}
+
+interface PkTarget {
+  schema: string;
+  table: string;
+  pkColumn: ColumnInfo;
+}
+
+const PREFIXES_TO_STRIP = ['Ref', 'Fk', 'Source', 'Target', 'Parent', 'Child'];
+
+function matchColumnToTable(columnName: string, pkLookup: Map<string, PkTarget>): { target: PkTarget; confidence: number; reason: string } | null {
+  const col = columnName.toLowerCase();
+  const singularOf = (name: string) => (name.toLowerCase().endsWith('s') ? name.slice(0, -1) : null);
+
+  for (const target of pkLookup.values()) {
+    const t = target.table;
+    if (col === `${t}id`.toLowerCase() || col === `${t}_id`.toLowerCase())
+      return { target, confidence: 0.9, reason: `Column name '${columnName}' matches pattern '{TableName}Id'` };
+    const singular = singularOf(t);
+    if (singular && (col === `${singular}id`.toLowerCase() || col === `${singular}_id`.toLowerCase()))
+      return { target, confidence: 0.8, reason: `Column name '${columnName}' matches singular form of table '${t}'` };
+  }
+
+  if (col.startsWith('fk_')) {
+    const target = pkLookup.get(col.slice(3));
+    if (target) return { target, confidence: 0.7, reason: `Column name '${columnName}' has FK_ prefix matching table '${columnName.slice(3)}'` };
+  }
+
+  for (const target of pkLookup.values()) {
+    const t = target.table;
+    if (columnName === `${t}ID`)
+      return { target, confidence: 0.85, reason: `Column name '${columnName}' matches pattern '{TableName}ID'` };
+    const singular = singularOf(t);
+    if (singular && columnName === `${singular}ID`)
+      return { target, confidence: 0.85, reason: `Column name '${columnName}' matches singular form of table '${t}' (ID variant)` };
+  }
+
+  for (const prefix of PREFIXES_TO_STRIP) {
+    if (!col.startsWith(prefix.toLowerCase()) || col.length <= prefix.length) continue;
+    const stripped = columnName.slice(prefix.length);
+    const lower = stripped.toLowerCase();
+    if (!lower.endsWith('id')) continue;
+    const candidate = lower.endsWith('_id') ? stripped.slice(0, -3) : stripped.slice(0, -2);
+    const target = pkLookup.get(candidate.toLowerCase()) ?? pkLookup.get(`${candidate}s`.toLowerCase());
+    if (target) return { target, confidence: 0.75, reason: `Column name '${columnName}' matches table '${target.table}' after stripping prefix '${prefix}'` };
+  }
+
+  for (const target of pkLookup.values()) {
+    const t = target.table;
+    const names = singularOf(t) ? [t, singularOf(t)!] : [t];
+    for (const name of names) {
+      const n = name.toLowerCase();
+      if (col === `${n}key` || col === `${n}_key`)
+        return { target, confidence: 0.7, reason: name === t ? `Column name '${columnName}' matches pattern '{TableName}Key'` : `Column name '${columnName}' matches singular form of table '${t}' (Key variant)` };
+    }
+  }
+
+  for (const target of pkLookup.values()) {
+    const t = target.table;
+    const names = singularOf(t) ? [t, singularOf(t)!] : [t];
+    for (const name of names) {
+      const n = name.toLowerCase();
+      if (['no', 'number', 'code', '_no', '_number', '_code'].some((s) => col === `${n}${s}`))
+        return { target, confidence: 0.65, reason: `Column name '${columnName}' matches pattern '{TableName}No/Number/Code' for table '${t}'` };
+    }
+  }
+
+  return null;
+}
+
+function detectImplicitRelationships(tables: TableInfo[], explicitFks: ForeignKeyInfo[]): ImplicitRelationship[] {
+  const pkLookup = new Map<string, PkTarget>();
+  tables.forEach((t) => {
+    const pk = t.columns.find((c) => c.isPrimaryKey);
+    if (pk) pkLookup.set(t.tableName.toLowerCase(), { schema: t.schemaName, table: t.tableName, pkColumn: pk });
+  });
+
+  const existing = new Set(explicitFks.map((fk) =>
+    `${fk.fromSchema}.${fk.fromTable}.${fk.fromColumn}->${fk.toSchema}.${fk.toTable}.${fk.toColumn}`.toLowerCase()));
+
+  const result: ImplicitRelationship[] = [];
+  tables.forEach((table) => {
+    table.columns.forEach((column) => {
+      if (column.isPrimaryKey) return;
+      const match = matchColumnToTable(column.name, pkLookup);
+      if (!match) return;
+
+      const compatibility = checkTypeCompatibility(column, match.target.pkColumn);
+      if (compatibility === 'mismatch') return;
+
+      let confidence = match.confidence;
+      if (compatibility === 'compatible') confidence -= 0.1;
+      if (table.indexes.some((idx) => idx.columns[0]?.toLowerCase() === column.name.toLowerCase())) confidence += 0.05;
+      confidence += column.isNullable ? -0.05 : 0.05;
+      confidence = Math.min(confidence, 0.95);
+
+      const { schema, table: toTable, pkColumn } = match.target;
+      if (existing.has(`${table.schemaName}.${table.tableName}.${column.name}->${schema}.${toTable}.${pkColumn.name}`.toLowerCase())) return;
+      if (table.tableName.toLowerCase() === toTable.toLowerCase() && column.name.toLowerCase() === pkColumn.name.toLowerCase()) return;
+
+      result.push({
+        fromSchema: table.schemaName, fromTable: table.tableName, fromColumn: column.name,
+        toSchema: schema, toTable, toColumn: pkColumn.name,
+        confidence, reason: match.reason,
+      });
+    });
+  });
+  return result;
+}
+
+// ── Object dependencies ──
+
+interface KnownObject {
+  schema: string;
+  name: string;
+  type: string;
+}
+
+const FROM_JOIN_REGEX = /(?:FROM|JOIN)\s+((?:\[?\w+\]?\.)?(?:\[?\w+\]?\.)?(?:\[?\w+\]?\.)?(?:\[?\w+\]?))/gi;
+const EXEC_REGEX = /(?:EXEC|EXECUTE)\s+((?:\[?\w+\]?\.)?(?:\[?\w+\]?\.)?(?:\[?\w+\]?))/gi;
+const STRING_LITERAL_REGEX = /N?'((?:[^']|'')*)'/g;
+
+// Scan the code and, for dynamic SQL, any string literal long enough to hold a statement
+function scanSources(sql: string, via: string): { text: string; via: string }[] {
+  const code = tokenizeSql(sql).filter((t) => t.type !== 'comment').map((t) => t.text).join('');
+  const literals = [...code.matchAll(STRING_LITERAL_REGEX)]
+    .map((m) => m[1].replace(/''/g, "'"))
+    .filter((s) => s.length > 10);
+  return [{ text: code, via }, ...literals.map((text) => ({ text, via: `${via} (dynamic)` }))];
+}
+
+function extractReferences(sql: string, known: Map<string, KnownObject>, currentDatabase: string) {
+  const found = new Map<string, { schema: string; name: string; type: string; database: string | null; via: string }>();
+  const add = (schema: string, name: string, type: string, database: string | null, via: string) =>
+    found.set(`${schema}|${name}|${type}|${database}|${via}`.toLowerCase(), { schema, name, type, database, via });
+
+  scanSources(sql, 'SQL: FROM/JOIN').forEach(({ text, via }) => {
+    for (const m of text.matchAll(FROM_JOIN_REGEX)) {
+      const reference = m[1].trim();
+      const clean = reference.replace(/[[\]]/g, '').trim();
+      const parts = clean.split('.');
+      if (parts.length >= 4) {
+        add(parts[parts.length - 2], parts[parts.length - 1], 'External', parts[parts.length - 3], via);
+      } else if (parts.length === 3) {
+        const local = parts[0].toLowerCase() === currentDatabase.toLowerCase() ? known.get(`${parts[1]}.${parts[2]}`.toLowerCase()) : undefined;
+        if (local) add(local.schema, local.name, local.type, null, via);
+        else add(parts[1], parts[2], 'External', parts[0], via);
+      } else {
+        const obj = known.get(reference.toLowerCase()) ?? known.get(clean.toLowerCase());
+        if (obj) add(obj.schema, obj.name, obj.type, null, via);
+      }
+    }
+  });
+
+  scanSources(sql, 'SQL: EXEC').forEach(({ text, via }) => {
+    for (const m of text.matchAll(EXEC_REGEX)) {
+      const reference = m[1].trim();
+      const clean = reference.replace(/[[\]]/g, '').trim();
+      const obj = known.get(clean.toLowerCase()) ?? known.get(reference.toLowerCase());
+      if (obj) add(obj.schema, obj.name, obj.type, null, via);
+    }
+  });
+
+  return [...found.values()];
+}
+
+function parseObjectDependencies(schema: DatabaseSchema): ObjectDependency[] {
+  const known = new Map<string, KnownObject>();
+  const register = (schemaName: string, name: string, type: string) => {
+    const obj = { schema: schemaName, name, type };
+    [name, `${schemaName}.${name}`, `[${schemaName}].[${name}]`, `[${name}]`].forEach((k) => known.set(k.toLowerCase(), obj));
+  };
+  schema.tables.forEach((t) => register(t.schemaName, t.tableName, 'Table'));
+  schema.views.forEach((v) => register(v.schemaName, v.viewName, 'View'));
+  schema.storedProcedures.forEach((p) => register(p.schemaName, p.procedureName, 'Procedure'));
+  schema.functions.forEach((f) => register(f.schemaName, f.functionName, 'Function'));
+  schema.synonyms.forEach((s) => register(s.schemaName, s.synonymName, 'Synonym'));
+
+  const result: ObjectDependency[] = [];
+  const scan = (fromSchema: string, fromName: string, fromType: string, definition: string) => {
+    if (!definition.trim()) return;
+    extractReferences(definition, known, schema.databaseName).forEach((ref) => {
+      if (ref.database === null && ref.name.toLowerCase() === fromName.toLowerCase() && ref.schema.toLowerCase() === fromSchema.toLowerCase()) return;
+      result.push(objectDependency(fromSchema, fromName, fromType, ref.schema, ref.name, ref.type, ref.database, ref.via));
+    });
+  };
+
+  schema.views.forEach((v) => scan(v.schemaName, v.viewName, 'View', v.definition));
+  schema.storedProcedures.forEach((p) => scan(p.schemaName, p.procedureName, 'Procedure', p.definition));
+  schema.functions.forEach((f) => scan(f.schemaName, f.functionName, 'Function', f.definition));
+  schema.triggers.forEach((tr) => {
+    const parentSchema = tr.parentFullName.split('.')[0] ?? tr.schemaName;
+    result.push(objectDependency(tr.schemaName, tr.triggerName, 'Trigger', parentSchema, tr.parentTable, 'Table', null, 'Trigger parent'));
+    scan(tr.schemaName, tr.triggerName, 'Trigger', tr.definition);
+  });
+  return result;
+}
+
+function resolveSynonymDependencies(schema: DatabaseSchema): ObjectDependency[] {
+  return schema.synonyms.map((syn) => {
+    const parts = syn.baseObjectName.replace(/[[\]]/g, '').split('.');
+    const name = parts[parts.length - 1];
+    const targetSchema = parts.length > 1 ? parts[parts.length - 2] : syn.schemaName;
+    let db: string | null = parts.length > 2 ? parts[parts.length - 3] : null;
+    if (db && db.toLowerCase() === schema.databaseName.toLowerCase()) db = null;
+    return objectDependency(syn.schemaName, syn.synonymName, 'Synonym', targetSchema, name, db ? 'External' : 'Table', db, 'Synonym base object');
+  });
+}
+
+// ── Dependency graph ──
+
+function buildDependencyGraph(schema: DatabaseSchema, fks: ForeignKeyInfo[], objectDeps: ObjectDependency[]): TableDependency[] {
+  const deps = new Map<string, TableDependency>();
+  const node = (schemaName: string, tableName: string, objectType: string, externalDatabase: string | null = null) => {
+    const fullName = externalDatabase ? `${externalDatabase}.${schemaName}.${tableName}` : `${schemaName}.${tableName}`;
+    deps.set(fullName.toLowerCase(), {
+      schemaName, tableName, fullName, objectType, externalDatabase, isExternal: externalDatabase !== null,
+      dependsOn: [], referencedBy: [], transitiveImpact: [], directConnections: 0, importanceScore: 0,
+    });
+  };
+  schema.tables.forEach((t) => node(t.schemaName, t.tableName, 'Table'));
+  schema.views.forEach((v) => node(v.schemaName, v.viewName, 'View'));
+  schema.storedProcedures.forEach((p) => node(p.schemaName, p.procedureName, 'Procedure'));
+  schema.functions.forEach((f) => node(f.schemaName, f.functionName, 'Function'));
+  schema.triggers.forEach((tr) => node(tr.schemaName, tr.triggerName, 'Trigger'));
+  schema.synonyms.forEach((s) => node(s.schemaName, s.synonymName, 'Synonym'));
+
+  const link = (from: string, to: string) => {
+    const fromDep = deps.get(from.toLowerCase());
+    const toDep = deps.get(to.toLowerCase());
+    const target = toDep?.fullName ?? to;
+    const source = fromDep?.fullName ?? from;
+    if (fromDep && !fromDep.dependsOn.some((d) => d.toLowerCase() === target.toLowerCase())) fromDep.dependsOn.push(target);
+    if (toDep && !toDep.referencedBy.some((d) => d.toLowerCase() === source.toLowerCase())) toDep.referencedBy.push(source);
+  };
+
+  fks.forEach((fk) => link(`${fk.fromSchema}.${fk.fromTable}`, `${fk.toSchema}.${fk.toTable}`));
+  objectDeps.forEach((d) => {
+    if (d.isCrossDatabase && !deps.has(d.toFullName.toLowerCase())) node(d.toSchema, d.toName, 'External', d.toDatabase);
+    link(d.fromFullName, d.toFullName);
+  });
+
+  // Transitive impact: everything reachable through referencedBy chains
+  deps.forEach((dep) => {
+    const visited = new Set<string>();
+    const queue = [...dep.referencedBy];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      deps.get(current.toLowerCase())?.referencedBy.forEach((child) => {
+        if (!visited.has(child)) queue.push(child);
+      });
+    }
+    dep.transitiveImpact = [...visited].sort((a, b) => a.localeCompare(b));
+    dep.directConnections = dep.dependsOn.length + dep.referencedBy.length;
+    dep.importanceScore = dep.referencedBy.length * 3 + dep.dependsOn.length + dep.transitiveImpact.length;
+  });
+
+  return [...deps.values()].sort((a, b) => b.importanceScore - a.importanceScore);
+}
@@ -0,0 +1,288 @@
+import type { AnnotationMap, DatabaseSchema, RelationshipMap, ColumnInfo, ForeignKeyInfo, ImplicitRelationship } from '../api/types';
+import { formatColumnType } from './useDdlGenerator';
+import { annotationKey } from './useAnnotations';
+
+export type DiagramFormat = 'dbml' | 'mermaid' | 'plantuml';
+
+export const DIAGRAM_FORMATS: Record<DiagramFormat, { label: string; extension: string; filterName: string }> = {
+  dbml: { label: 'DBML', extension: 'dbml', filterName: 'DBML Files' },
+  mermaid: { label: 'Mermaid', extension: 'mmd', filterName: 'Mermaid Files' },
+  plantuml: { label: 'PlantUML', extension: 'puml', filterName: 'PlantUML Files' },
+};
+
+// Same threshold the ERD uses to draw implicit links
+const IMPLICIT_MIN_CONFIDENCE = 0.7;
+
+export interface DiagramTextOptions {
+  objects: Set<string>;        // fullNames currently shown on the ERD
+  includeImplicit: boolean;
+  annotations?: AnnotationMap; // descriptions become table and column notes
+}
+
+interface Entity {
+  fullName: string;
+  schemaName: string;
+  name: string;
+  isView: boolean;
+  columns: ColumnInfo[];
+  description: string | null;
+  columnNotes: Map<string, string>;
+}
+
+interface Link {
+  name: string | null;
+  from: string;              // fullName of the referencing entity
+  fromColumns: string[];
+  to: string;
+  toColumns: string[];
+  optional: boolean;         // any referencing column nullable
+  implicit: boolean;
+  confidence?: number;
+  deleteRule?: string;
+  updateRule?: string;
+}
+
+// ── Model ───────────────────────────────────────────────────────────────────
+
+function qualified(db: string | undefined, schema: string, table: string): string {
+  return db ? `${db}.${schema}.${table}` : `${schema}.${table}`;
+}
+
+function collectEntities(schema: DatabaseSchema, objects: Set<string>, annotations: AnnotationMap): Entity[] {
+  const notes = (fullName: string, columns: ColumnInfo[]) => ({
+    description: annotations[fullName]?.description || null,
+    columnNotes: new Map(columns
+      .map((c) => [c.name, annotations[annotationKey(fullName, c.name)]?.description] as const)
+      .filter((e): e is readonly [string, string] => !!e[1])),
+  });
+  return [
+    ...schema.tables.filter((t) => objects.has(t.fullName)).map((t) => ({
+      fullName: t.fullName, schemaName: t.schemaName, name: t.tableName, isView: false, columns: t.columns,
+      ...notes(t.fullName, t.columns),
+    })),
+    ...schema.views.filter((v) => objects.has(v.fullName)).map((v) => ({
+      fullName: v.fullName, schemaName: v.schemaName, name: v.viewName, isView: true, columns: v.columns,
+      ...notes(v.fullName, v.columns),
+    })),
+  ];
+}
+
+function collectLinks(schema: DatabaseSchema, relationships: RelationshipMap | null, entities: Entity[], includeImplicit: boolean): Link[] {
+  const byName = new Map(entities.map((e) => [e.fullName, e]));
+  const isOptional = (entity: string, columns: string[]) =>
+    columns.some((c) => byName.get(entity)?.columns.find((col) => col.name === c)?.isNullable ?? false);
+
+  // Composite keys arrive as one ForeignKeyInfo per column sharing the constraint name
+  const fks = relationships?.explicitRelationships ?? schema.tables.flatMap((t) => t.foreignKeys);
+  const grouped = new Map<string, { fk: ForeignKeyInfo; fromColumns: string[]; toColumns: string[] }>();
+  fks.forEach((fk) => {
+    const key = `${qualified(fk.fromDatabase, fk.fromSchema, fk.fromTable)}|${fk.name}`;
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.fromColumns.push(fk.fromColumn);
+      existing.toColumns.push(fk.toColumn);
+    } else {
+      grouped.set(key, { fk, fromColumns: [fk.fromColumn], toColumns: [fk.toColumn] });
+    }
+  });
+
+  const links: Link[] = [];
+  grouped.forEach(({ fk, fromColumns, toColumns }) => {
+    const from = qualified(fk.fromDatabase, fk.fromSchema, fk.fromTable);
+    const to = qualified(fk.toDatabase, fk.toSchema, fk.toTable);
+    if (!byName.has(from) || !byName.has(to)) return;
+    links.push({
+      name: fk.name, from, fromColumns, to, toColumns,
+      optional: isOptional(from, fromColumns),
+      implicit: false,
+      deleteRule: fk.deleteRule,
+      updateRule: fk.updateRule,
+    });
+  });
+
+  if (includeImplicit && relationships) {
+    relationships.implicitRelationships
+      .filter((r: ImplicitRelationship) => r.confidence >= IMPLICIT_MIN_CONFIDENCE)
+      .forEach((r) => {
+        const from = qualified(r.fromDatabase, r.fromSchema, r.fromTable);
+        const to = qualified(r.toDatabase, r.toSchema, r.toTable);
+        if (!byName.has(from) || !byName.has(to)) return;
+        links.push({
+          name: null, from, fromColumns: [r.fromColumn], to, toColumns: [r.toColumn],
+          optional: isOptional(from, [r.fromColumn]),
+          implicit: true,
+          confidence: r.confidence,
+        });
+      });
+  }
+
+  return links;
+}
+
+// Diagram identifiers must be plain words; keep them unique after sanitizing
+function aliasMap(entities: Entity[]): Map<string, string> {
+  const used = new Set<string>();
+  const aliases = new Map<string, string>();
+  entities.forEach((e) => {
+    const base = e.fullName.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(\d)/, '_$1');
+    let alias = base;
+    for (let i = 2; used.has(alias); i++) alias = `${base}_${i}`;
+    used.add(alias);
+    aliases.set(e.fullName, alias);
+  });
+  return aliases;
+}
+
+function referentialAction(rule: string | undefined): string | null {
+  const action = (rule ?? '').replace(/_/g, ' ').toLowerCase();
+  return action && action !== 'no action' ? action : null;
+}
+
+function percent(confidence: number | undefined): string {
+  return `${Math.round((confidence ?? 0) * 100)}%`;
+}
+
+// ── DBML ────────────────────────────────────────────────────────────────────
+
+function dbmlName(name: string): string {
+  return `"${name.replace(/"/g, '\\"')}"`;
+}
+
+function dbmlString(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r?\n/g, ' ')}'`;
+}
+
+function toDbml(entities: Entity[], links: Link[]): string {
+  const lines: string[] = [];
+  entities.forEach((e) => {
+    const pk = e.columns.filter((c) => c.isPrimaryKey);
+    lines.push(`Table ${dbmlName(e.schemaName)}.${dbmlName(e.name)} {`);
+    e.columns.forEach((c) => {
+      const settings: string[] = [];
+      if (c.isPrimaryKey && pk.length === 1) settings.push('pk');
+      if (c.isIdentity) settings.push('increment');
+      if (!c.isNullable && !c.isPrimaryKey) settings.push('not null');
+      if (c.defaultValue) settings.push(`default: \`${c.defaultValue.replace(/`/g, "'")}\``);
+      const note = [c.isComputed && 'computed', e.columnNotes.get(c.name)].filter(Boolean).join(' — ');
+      if (note) settings.push(`note: ${dbmlString(note)}`);
+      lines.push(`  ${dbmlName(c.name)} ${dbmlName(formatColumnType(c))}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`);
+    });
+    if (pk.length > 1) {
+      lines.push('', '  indexes {', `    (${pk.map((c) => dbmlName(c.name)).join(', ')}) [pk]`, '  }');
+    }
+    const tableNote = [e.isView && 'view', e.description].filter(Boolean).join(' — ');
+    if (tableNote) lines.push('', `  Note: ${dbmlString(tableNote)}`);
+    lines.push('}', '');
+  });
+
+  const entityRef = (fullName: string) => {
+    const e = entities.find((x) => x.fullName === fullName)!;
+    return `${dbmlName(e.schemaName)}.${dbmlName(e.name)}`;
+  };
+  const columnRef = (fullName: string, columns: string[]) =>
+    columns.length === 1
+      ? `${entityRef(fullName)}.${dbmlName(columns[0])}`
+      : `${entityRef(fullName)}.(${columns.map(dbmlName).join(', ')})`;
+
+  links.forEach((l) => {
+    // DBML has no dashed style; mark implicit links with a comment
+    if (l.implicit) lines.push(`// implicit relationship (${percent(l.confidence)} confidence)`);
+    const settings = [
+      referentialAction(l.deleteRule) && `delete: ${referentialAction(l.deleteRule)}`,
+      referentialAction(l.updateRule) && `update: ${referentialAction(l.updateRule)}`,
+    ].filter(Boolean);
+    const name = l.name && /^\w+$/.test(l.name) ? ` ${l.name}` : '';
+    lines.push(`Ref${name}: ${columnRef(l.from, l.fromColumns)} > ${columnRef(l.to, l.toColumns)}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`);
+  });
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+// ── Mermaid ─────────────────────────────────────────────────────────────────
+
+function mermaidWord(s: string): string {
+  const word = s.replace(/\s+/g, '_').replace(/[^A-Za-z0-9_\-()[\]]/g, '_');
+  return /^[A-Za-z]/.test(word) ? word : `_${word}`;
+}
+
+function toMermaid(entities: Entity[], links: Link[]): string {
+  const aliases = aliasMap(entities);
+  const fkColumns = new Set(links.filter((l) => !l.implicit).flatMap((l) => l.fromColumns.map((c) => `${l.from}.${c}`)));
+  const lines = ['erDiagram'];
+
+  entities.forEach((e) => {
+    // erDiagram has no entity notes, so object descriptions become comments
+    if (e.description) lines.push(`    %% ${e.fullName}: ${e.description.replace(/\r?\n/g, ' ')}`);
+    lines.push(`    ${aliases.get(e.fullName)}["${e.fullName.replace(/"/g, "'")}"] {`);
+    e.columns.forEach((c) => {
+      const keys = [c.isPrimaryKey && 'PK', fkColumns.has(`${e.fullName}.${c.name}`) && 'FK'].filter(Boolean).join(',');
+      const note = e.columnNotes.get(c.name);
+      const comment = note ? ` "${note.replace(/"/g, "'").replace(/\r?\n/g, ' ')}"` : '';
+      lines.push(`        ${mermaidWord(formatColumnType(c))} ${mermaidWord(c.name)}${keys ? ` ${keys}` : ''}${comment}`);
+    });
+    lines.push('    }');
+  });
+
+  links.forEach((l) => {
+    // Parent side is exactly one (or zero-or-one for nullable FKs); child side is many
+    const parent = l.optional ? '|o' : '||';
+    const line = l.implicit ? '..' : '--';
+    const label = l.implicit ? `implicit ${percent(l.confidence)}` : (l.name ?? '');
+    lines.push(`    ${aliases.get(l.to)} ${parent}${line}o{ ${aliases.get(l.from)} : "${label.replace(/"/g, "'")}"`);
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+// ── PlantUML ────────────────────────────────────────────────────────────────
+
+function toPlantUml(entities: Entity[], links: Link[]): string {
+  const aliases = aliasMap(entities);
+  const fkColumns = new Set(links.filter((l) => !l.implicit).flatMap((l) => l.fromColumns.map((c) => `${l.from}.${c}`)));
+  const lines = ['@startuml', 'hide circle', 'skinparam linetype ortho', ''];
+
+  entities.forEach((e) => {
+    const stereotype = e.isView ? ' <<view>>' : '';
+    lines.push(`entity "${e.fullName}" as ${aliases.get(e.fullName)}${stereotype} {`);
+    const pk = e.columns.filter((c) => c.isPrimaryKey);
+    const rest = e.columns.filter((c) => !c.isPrimaryKey);
+    const column = (c: ColumnInfo) => {
+      const tags = [c.isPrimaryKey && '<<PK>>', fkColumns.has(`${e.fullName}.${c.name}`) && '<<FK>>'].filter(Boolean).join(' ');
+      const note = e.columnNotes.get(c.name);
+      return `  ${c.isNullable ? '' : '* '}${c.name} : ${formatColumnType(c)}${tags ? ` ${tags}` : ''}${note ? ` // ${note.replace(/\r?\n/g, ' ')}` : ''}`;
+    };
+    pk.forEach((c) => lines.push(column(c)));
+    if (pk.length > 0 && rest.length > 0) lines.push('  --');
+    rest.forEach((c) => lines.push(column(c)));
+    lines.push('}');
+    if (e.description) lines.push(`note top of ${aliases.get(e.fullName)}`, `  ${e.description}`, 'end note');
+    lines.push('');
+  });
+
+  links.forEach((l) => {
+    const parent = l.optional ? '|o' : '||';
+    const line = l.implicit ? '..' : '--';
+    const label = l.implicit ? `implicit (${percent(l.confidence)})` : l.name;
+    lines.push(`${aliases.get(l.to)} ${parent}${line}o{ ${aliases.get(l.from)}${label ? ` : ${label}` : ''}`);
+  });
+
+  lines.push('', '@enduml');
+  return lines.join('\n') + '\n';
+}
+
+// ── Entry point ─────────────────────────────────────────────────────────────
+
+export function generateDiagramText(
+  format: DiagramFormat,
+  schema: DatabaseSchema,
+  relationships: RelationshipMap | null,
+  options: DiagramTextOptions,
+): string {
+  const entities = collectEntities(schema, options.objects, options.annotations ?? {});
+  const links = collectLinks(schema, relationships, entities, options.includeImplicit);
+  switch (format) {
+    case 'dbml': return toDbml(entities, links);
+    case 'mermaid': return toMermaid(entities, links);
+    case 'plantuml': return toPlantUml(entities, links);
+  }
+}
@@ -0,0 +1,214 @@
+import { getBezierPath, type Node, type Edge } from '@xyflow/react';
+import type { TableInfo, ColumnInfo } from '../api/types';
+
+// Same palette as the on-screen diagram (styles/global.css)
+const COLORS = {
+  background: '#12121a',
+  card: '#1a1a2e',
+  border: '#2a2a40',
+  textPrimary: '#e0e0e0',
+  textSecondary: '#888',
+  textMuted: '#666',
+  accent: '#4fc3f7',
+  view: '#4ecca3',
+  warning: '#f0a500',
+};
+
+const FONT = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif";
+const PADDING = 40;
+const HEADER_HEIGHT = 32;
+const ROW_HEIGHT = 22;
+const MAX_NON_PK_COLUMNS = 15;   // matches TableNode
+const MIN_TABLE_WIDTH = 180;
+const MIN_COMPACT_WIDTH = 140;
+
+// Chromium refuses canvases beyond this many pixels per side
+const MAX_CANVAS_SIDE = 16384;
+
+export interface ErdSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ── SVG rendering ───────────────────────────────────────────────────────────
+
+/**
+ * Render the diagram as a standalone SVG at 1:1 scale, independent of the current viewport.
+ * Mirrors TableNode/CompactNode so the file looks like the screen.
+ */
+export function renderErdSvg(nodes: Node[], edges: Edge[]): ErdSvg {
+  const boxes = new Map<string, Box>();
+  nodes.forEach((n) => {
+    const width = n.measured?.width ?? n.width ?? (n.type === 'tableNode' ? MIN_TABLE_WIDTH : MIN_COMPACT_WIDTH);
+    const height = n.type === 'tableNode'
+      ? HEADER_HEIGHT + tableRows((n.data as TableNodeData).table, (n.data as TableNodeData).collapsed).length * ROW_HEIGHT
+      : n.measured?.height ?? n.height ?? HEADER_HEIGHT;
+    boxes.set(n.id, { x: n.position.x, y: n.position.y, width, height });
+  });
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  boxes.forEach((b) => {
+    minX = Math.min(minX, b.x);
+    minY = Math.min(minY, b.y);
+    maxX = Math.max(maxX, b.x + b.width);
+    maxY = Math.max(maxY, b.y + b.height);
+  });
+  if (boxes.size === 0) { minX = minY = maxX = maxY = 0; }
+
+  const width = Math.ceil(maxX - minX + PADDING * 2);
+  const height = Math.ceil(maxY - minY + PADDING * 2);
+  const offsetX = PADDING - minX;
+  const offsetY = PADDING - minY;
+
+  const parts: string[] = [];
+  parts.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(FONT)}">`);
+  parts.push(`<rect width="100%" height="100%" fill="${COLORS.background}"/>`);
+  parts.push(`<g transform="translate(${fmt(offsetX)} ${fmt(offsetY)})">`);
+
+  // Edges first so nodes sit on top, like React Flow
+  edges.forEach((e) => {
+    const s = boxes.get(e.source);
+    const t = boxes.get(e.target);
+    if (!s || !t) return;
+    const [path, labelX, labelY] = getBezierPath({
+      sourceX: s.x + s.width / 2,
+      sourceY: s.y + s.height,
+      targetX: t.x + t.width / 2,
+      targetY: t.y,
+    });
+    const style = (e.style ?? {}) as { stroke?: string; strokeWidth?: number; strokeDasharray?: string };
+    const dash = style.strokeDasharray ? ` stroke-dasharray="${style.strokeDasharray}"` : '';
+    parts.push(`<path d="${path}" fill="none" stroke="${style.stroke ?? '#b1b1b7'}" stroke-width="${style.strokeWidth ?? 1}"${dash}/>`);
+    if (typeof e.label === 'string' && e.label) {
+      parts.push(`<text x="${fmt(labelX)}" y="${fmt(labelY)}" font-size="9" fill="${COLORS.textSecondary}" text-anchor="middle" dominant-baseline="middle">${escapeXml(e.label)}</text>`);
+    }
+  });
+
+  nodes.forEach((n, i) => {
+    const box = boxes.get(n.id)!;
+    parts.push(n.type === 'tableNode'
+      ? renderTableNode(n.data as TableNodeData, box, `clip-${i}`)
+      : renderCompactNode(n.data as { label: string; type: string; detail?: string; color: string }, box, `clip-${i}`));
+  });
+
+  parts.push('</g></svg>');
+  return { svg: parts.join('\n'), width, height };
+}
+
+type TableNodeData = { table: TableInfo; color: string; collapsed?: boolean };
+
+type TableRow = { kind: 'column'; col: ColumnInfo; isPk: boolean; isFk: boolean } | { kind: 'separator' } | { kind: 'more'; count: number };
+
+// Collapsed tables keep only their key columns
+function tableRows(table: TableInfo, collapsed = false): TableRow[] {
+  const fkColumnNames = new Set(table.foreignKeys.map((fk) => fk.fromColumn));
+  const pkColumns = table.columns.filter((c) => c.isPrimaryKey);
+  const nonPkColumns = table.columns.filter((c) => !c.isPrimaryKey);
+  const shown = collapsed ? nonPkColumns.filter((c) => fkColumnNames.has(c.name)) : nonPkColumns.slice(0, MAX_NON_PK_COLUMNS);
+  const rows: TableRow[] = pkColumns.map((col) => ({ kind: 'column', col, isPk: true, isFk: fkColumnNames.has(col.name) }));
+  if (pkColumns.length > 0 && shown.length > 0) rows.push({ kind: 'separator' });
+  shown.forEach((col) => rows.push({ kind: 'column', col, isPk: false, isFk: fkColumnNames.has(col.name) }));
+  if (nonPkColumns.length > shown.length) rows.push({ kind: 'more', count: nonPkColumns.length - shown.length });
+  return rows;
+}
+
+function renderTableNode(data: TableNodeData, box: Box, clipId: string): string {
+  const { table, color, collapsed } = data;
+  const parts: string[] = [nodeFrame(box, clipId, color)];
+  parts.push(`<text x="12" y="${HEADER_HEIGHT / 2}" font-size="12" font-weight="600" fill="#fff" dominant-baseline="middle">${escapeXml(table.fullName)}</text>`);
+
+  let y = HEADER_HEIGHT;
+  tableRows(table, collapsed).forEach((row) => {
+    if (row.kind === 'separator') {
+      parts.push(`<line x1="0" y1="${y}" x2="${box.width}" y2="${y}" stroke="${COLORS.border}"/>`);
+      return;
+    }
+    const mid = y + ROW_HEIGHT / 2;
+    if (row.kind === 'more') {
+      parts.push(`<text x="${box.width / 2}" y="${mid}" font-size="11" fill="${COLORS.textMuted}" text-anchor="middle" dominant-baseline="middle">... ${row.count} more</text>`);
+    } else {
+      if (row.isPk) parts.push(badge(12, mid, 'PK', COLORS.accent));
+      if (row.isFk) parts.push(badge(row.isPk ? 28 : 12, mid, 'FK', COLORS.view));
+      parts.push(`<text x="46" y="${mid}" font-size="11" fill="${row.isPk ? COLORS.textPrimary : COLORS.textSecondary}"${row.isPk ? ' font-weight="500"' : ''} dominant-baseline="middle">${escapeXml(row.col.name)}</text>`);
+      const typeX = box.width - (row.col.isNullable ? 12 : 20);
+      parts.push(`<text x="${typeX}" y="${mid}" font-size="10" fill="${COLORS.textMuted}" text-anchor="end" dominant-baseline="middle">${escapeXml(row.col.dataType)}</text>`);
+      if (!row.col.isNullable) parts.push(`<text x="${box.width - 10}" y="${mid}" font-size="9" fill="${COLORS.warning}" text-anchor="end" dominant-baseline="middle">*</text>`);
+    }
+    parts.push(`<line x1="0" y1="${y + ROW_HEIGHT}" x2="${box.width}" y2="${y + ROW_HEIGHT}" stroke="${COLORS.border}" stroke-opacity="0.5"/>`);
+    y += ROW_HEIGHT;
+  });
+
+  parts.push('</g></g>');
+  return parts.join('\n');
+}
+
+function renderCompactNode(data: { label: string; type: string; detail?: string; color: string }, box: Box, clipId: string): string {
+  const headerHeight = data.detail ? box.height - 18 : box.height;
+  const parts: string[] = [nodeFrame(box, clipId, data.color, headerHeight)];
+  parts.push(`<text x="12" y="${headerHeight / 2}" font-size="9" fill="#fff" fill-opacity="0.7" dominant-baseline="middle">${escapeXml(data.type)}</text>`);
+  parts.push(`<text x="36" y="${headerHeight / 2}" font-size="12" font-weight="600" fill="#fff" dominant-baseline="middle">${escapeXml(data.label)}</text>`);
+  if (data.detail) {
+    parts.push(`<text x="12" y="${headerHeight + 9}" font-size="10" fill="${COLORS.textMuted}" dominant-baseline="middle">${escapeXml(data.detail)}</text>`);
+  }
+  parts.push('</g></g>');
+  return parts.join('\n');
+}
+
+// Opens <g> for the node and its clipped content; callers close both groups
+function nodeFrame(box: Box, clipId: string, headerColor: string, headerHeight = HEADER_HEIGHT): string {
+  return [
+    `<g transform="translate(${fmt(box.x)} ${fmt(box.y)})">`,
+    `<clipPath id="${clipId}"><rect width="${fmt(box.width)}" height="${fmt(box.height)}" rx="6"/></clipPath>`,
+    `<rect width="${fmt(box.width)}" height="${fmt(box.height)}" rx="6" fill="${COLORS.card}" stroke="${COLORS.border}"/>`,
+    `<g clip-path="url(#${clipId})">`,
+    `<rect width="${fmt(box.width)}" height="${headerHeight}" fill="${headerColor}"/>`,
+  ].join('\n');
+}
+
+function badge(x: number, midY: number, text: string, color: string): string {
+  return `<rect x="${x}" y="${midY - 6}" width="14" height="12" rx="2" fill="${color}" fill-opacity="0.2"/>`
+    + `<text x="${x + 7}" y="${midY}" font-size="8" fill="${color}" text-anchor="middle" dominant-baseline="middle">${text}</text>`;
+}
+
+function fmt(n: number): string {
+  return String(Math.round(n * 10) / 10);
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// ── Raster ──────────────────────────────────────────────────────────────────
+
+/** Rasterize the SVG to PNG bytes at `scale`, reduced if the canvas would exceed Chromium's limit. */
+export async function svgToPng({ svg, width, height }: ErdSvg, scale = 2): Promise<Uint8Array> {
+  const effective = Math.min(scale, MAX_CANVAS_SIDE / width, MAX_CANVAS_SIDE / height);
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(width * effective);
+    canvas.height = Math.floor(height * effective);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.scale(effective, effective);
+    ctx.drawImage(img, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Diagram is too large to export as PNG');
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useReactFlow, Position, type Node, type Edge, type XYPosition } from '@xyflow/react';
+import ELK, { type ELK as ElkInstance, type ElkNode, type ElkPort, type ElkExtendedEdge } from 'elkjs/lib/elk-api';
+import elkWorkerUrl from 'elkjs/lib/elk-worker.min.js?url';
+import type { ErdLayoutRequest, ErdLayoutResponse, ErdWorkerEngine } from '../workers/erdLayout.worker';
+
+export type ErdLayoutEngine = 'dagre' | 'elk' | 'force' | 'grid';
+
+export interface ErdLayoutResult {
+  nodes: Node[];
+  routes: Map<string, XYPosition[]>;    // ELK edge routes by edge id, start to end
+}
+
+export const ERD_LAYOUT_ENGINES: { key: ErdLayoutEngine; label: string; title: string }[] = [
+  { key: 'dagre', label: 'Layered', title: 'Layered layout per connected component (dagre)' },
+  { key: 'elk', label: 'ELK', title: 'ELK layered layout with orthogonal edge routing' },
+  { key: 'force', label: 'Force', title: 'Force-directed layout; related tables cluster together' },
+  { key: 'grid', label: 'Grid', title: 'Compact packing, including tables without relationships' },
+];
+
+const ELK_OPTIONS = {
+  'elk.algorithm': 'layered',
+  'elk.direction': 'DOWN',
+  'elk.edgeRouting': 'ORTHOGONAL',
+  'elk.spacing.nodeNode': '40',
+  'elk.spacing.componentComponent': '80',
+  'elk.layered.spacing.nodeNodeBetweenLayers': '120',
+  'elk.layered.spacing.edgeNodeBetweenLayers': '30',
+  'elk.separateConnectedComponents': 'true',
+};
+
+const PORT_SIDES: Record<Position, string> = {
+  [Position.Top]: 'NORTH',
+  [Position.Right]: 'EAST',
+  [Position.Bottom]: 'SOUTH',
+  [Position.Left]: 'WEST',
+};
+
+const nodeSize = (n: Node) => ({
+  width: n.measured?.width ?? n.width ?? 240,
+  height: n.measured?.height ?? n.height ?? 250,
+});
+
+type Pending = { resolve: (positions: Float32Array) => void; reject: (err: Error) => void };
+
+/**
+ * Lays out ERD nodes off the renderer thread. ELK runs in elkjs' own worker, the other engines
+ * share the ERD layout worker; both start on first use and stop when the page unmounts.
+ * ELK also hands back its orthogonal edge routes.
+ */
+export function useErdLayout() {
+  const workerRef = useRef<Worker | null>(null);
+  const elkRef = useRef<ElkInstance | null>(null);
+  const pendingRef = useRef(new Map<number, Pending>());
+  const nextIdRef = useRef(0);
+  const { getInternalNode } = useReactFlow();
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    elkRef.current?.terminateWorker();
+    elkRef.current = null;
+    pendingRef.current.clear();
+  }, []);
+
+  const runWorker = useCallback((engine: ErdWorkerEngine, sizes: Float32Array, edges: Uint32Array) => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('../workers/erdLayout.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<ErdLayoutResponse>) => {
+        const msg = e.data;
+        const pending = pendingRef.current.get(msg.id);
+        pendingRef.current.delete(msg.id);
+        if (msg.type === 'done') pending?.resolve(msg.positions);
+        else pending?.reject(new Error(msg.message));
+      };
+      workerRef.current = worker;
+    }
+    const id = ++nextIdRef.current;
+    return new Promise<Float32Array>((resolve, reject) => {
+      pendingRef.current.set(id, { resolve, reject });
+      const request: ErdLayoutRequest = { type: 'layout', id, engine, sizes, edges };
+      workerRef.current!.postMessage(request, { transfer: [sizes.buffer, edges.buffer] });
+    });
+  }, []);
+
+  return useCallback(async (nodes: Node[], edges: Edge[], engine: ErdLayoutEngine): Promise<ErdLayoutResult> => {
+    const index = new Map(nodes.map((n, i) => [n.id, i]));
+    const links = edges.filter((e) => index.has(e.source) && index.has(e.target));
+
+    if (engine === 'elk') {
+      // Edges start and end at fixed ports on the handles React Flow will draw them from, so the
+      // routes ELK returns line up with the rendered handles. Unmeasured nodes have no ports yet.
+      const ports = new Map<string, Map<string, ElkPort>>();
+      const portOf = (nodeId: string, type: 'source' | 'target', handleId: string | null | undefined) => {
+        const bounds = getInternalNode(nodeId)?.internals.handleBounds;
+        // Matches React Flow's lookup in loose connection mode
+        const candidates = type === 'source' ? bounds?.source ?? [] : [...bounds?.target ?? [], ...bounds?.source ?? []];
+        const handle = handleId ? candidates.find((h) => h.id === handleId) : candidates[0];
+        if (!handle) return nodeId;
+        const id = `${nodeId}::${type}::${handle.id ?? ''}`;
+        const nodePorts = ports.get(nodeId) ?? new Map<string, ElkPort>();
+        ports.set(nodeId, nodePorts);
+        if (!nodePorts.has(id)) {
+          const anchor = {
+            [Position.Top]: { x: handle.x + handle.width / 2, y: handle.y },
+            [Position.Right]: { x: handle.x + handle.width, y: handle.y + handle.height / 2 },
+            [Position.Bottom]: { x: handle.x + handle.width / 2, y: handle.y + handle.height },
+            [Position.Left]: { x: handle.x, y: handle.y + handle.height / 2 },
+          }[handle.position];
+          nodePorts.set(id, { id, ...anchor, width: 0, height: 0, layoutOptions: { 'elk.port.side': PORT_SIDES[handle.position] } });
+        }
+        return id;
+      };
+
+      elkRef.current ??= new ELK({ workerUrl: elkWorkerUrl });
+      const elkEdges: ElkExtendedEdge[] = links.map((e) => ({
+        id: e.id,
+        sources: [portOf(e.source, 'source', e.sourceHandle)],
+        targets: [portOf(e.target, 'target', e.targetHandle)],
+      }));
+      const graph: ElkNode = {
+        id: 'root',
+        layoutOptions: ELK_OPTIONS,
+        children: nodes.map((n) => {
+          const nodePorts = ports.get(n.id);
+          return nodePorts
+            ? { id: n.id, ...nodeSize(n), ports: [...nodePorts.values()], layoutOptions: { 'elk.portConstraints': 'FIXED_POS' } }
+            : { id: n.id, ...nodeSize(n) };
+        }),
+        edges: elkEdges,
+      };
+      const laid = await elkRef.current.layout(graph);
+      const positions = new Map((laid.children ?? []).map((c) => [c.id, { x: c.x ?? 0, y: c.y ?? 0 }]));
+      // The graph is flat, so section coordinates are already in flow coordinates
+      const routes = new Map<string, XYPosition[]>();
+      (laid.edges ?? []).forEach((e) => {
+        const points = (e.sections ?? []).flatMap((s) => [s.startPoint, ...s.bendPoints ?? [], s.endPoint]);
+        if (points.length >= 2) routes.set(e.id, points.map(({ x, y }) => ({ x, y })));
+      });
+      return { nodes: nodes.map((n) => ({ ...n, position: positions.get(n.id) ?? n.position })), routes };
+    }
+
+    const sizes = new Float32Array(nodes.length * 2);
+    nodes.forEach((n, i) => {
+      const { width, height } = nodeSize(n);
+      sizes[i * 2] = width;
+      sizes[i * 2 + 1] = height;
+    });
+    const edgeList = new Uint32Array(links.length * 2);
+    links.forEach((e, i) => {
+      edgeList[i * 2] = index.get(e.source)!;
+      edgeList[i * 2 + 1] = index.get(e.target)!;
+    });
+
+    const positions = await runWorker(engine, sizes, edgeList);
+    return {
+      nodes: nodes.map((n, i) => ({ ...n, position: { x: positions[i * 2], y: positions[i * 2 + 1] } })),
+      routes: new Map(),
+    };
+  }, [runWorker, getInternalNode]);
+}
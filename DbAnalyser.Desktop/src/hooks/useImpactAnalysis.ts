@@ -0,0 +1,264 @@
+import { useMemo } from 'react';
+import { useStore } from './useStore';
+import { columnKey, useColumnLineage, type ColumnLineageGraph } from './useColumnLineage';
+import type { AnalysisResult, TableInfo } from '../api/types';
+
+export type ImpactChange = 'drop' | 'rename';
+
+export interface ImpactTarget {
+  table: TableInfo;
+  column: string | null;     // null for the whole table
+  change: ImpactChange;
+}
+
+export type ImpactItemType = 'View' | 'Procedure' | 'Function' | 'Trigger' | 'Job Step' | 'Foreign Key' | 'Index';
+
+export interface ImpactItem {
+  name: string;
+  type: ImpactItemType;
+  depth: number;             // 1 = references the target itself
+  via: string | null;        // dependent it is reached through
+  certainty: 'confirmed' | 'possible';
+  reason: string;
+  importanceScore: number;
+}
+
+export type ImpactChecklistFormat = 'markdown' | 'csv';
+
+interface Routine {
+  fullName: string;
+  type: ImpactItemType;
+  definition: string;
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Whole-identifier match that also accepts [bracketed] and "quoted" forms. */
+function mentions(text: string, identifier: string): boolean {
+  return new RegExp(`(^|[^\\w@#$])[\\["\`]?${escapeRegex(identifier)}[\\]"\`]?(?![\\w$])`, 'i').test(text);
+}
+
+const SELECT_STAR = /\bSELECT\s+(?:DISTINCT\s+)?(?:TOP\s*\(?\s*\d+\s*\)?\s+)?\*|\.\*/i;
+
+export function describeTarget(target: ImpactTarget): string {
+  const what = target.column ? `column ${target.table.fullName}.${target.column}` : `table ${target.table.fullName}`;
+  return `${target.change} ${what}`;
+}
+
+/**
+ * Everything that breaks when a table or column is dropped or renamed: dependent views, routines
+ * and triggers (followed transitively through the dependency graph), SQL Agent job steps whose
+ * command names an affected object, and on drop the foreign keys and indexes in the way.
+ * Column-level matches come from column lineage and whole-word searches of each definition;
+ * a match is only `possible` when the reference is ambiguous or goes through `SELECT *`.
+ * Dropping a whole table covers every object in its transitive impact, so the list agrees with
+ * the dependency views; objects only reached through another table are `possible`. A rename
+ * leaves the referencing tables, and what is built on them, working.
+ */
+export function analyzeImpact(result: AnalysisResult, target: ImpactTarget, lineage: ColumnLineageGraph | null): ImpactItem[] {
+  const schema = result.schema;
+  const deps = result.relationships?.dependencies ?? [];
+  if (!schema) return [];
+  const { table, column, change } = target;
+
+  const depByName = new Map(deps.map((d) => [d.fullName.toLowerCase(), d]));
+  const tableDep = depByName.get(table.fullName.toLowerCase());
+  const score = (name: string) => depByName.get(name.toLowerCase())?.importanceScore ?? 0;
+
+  const routines = new Map<string, Routine>();
+  schema.views.forEach((v) => routines.set(v.fullName.toLowerCase(), { fullName: v.fullName, type: 'View', definition: v.definition }));
+  schema.storedProcedures.forEach((p) => routines.set(p.fullName.toLowerCase(), { fullName: p.fullName, type: 'Procedure', definition: p.definition }));
+  schema.functions.forEach((f) => routines.set(f.fullName.toLowerCase(), { fullName: f.fullName, type: 'Function', definition: f.definition }));
+  schema.triggers.forEach((t) => routines.set(t.fullName.toLowerCase(), { fullName: t.fullName, type: 'Trigger', definition: t.definition }));
+
+  const tableColumns = new Map(schema.tables.map((t) => [t.fullName.toLowerCase(), t.columns.map((c) => c.name.toLowerCase())]));
+  const viewColumns = new Map(schema.views.map((v) => [v.fullName.toLowerCase(), v.columns.map((c) => c.name.toLowerCase())]));
+  const lineageVia = new Set(
+    column ? (lineage?.edges ?? []).filter((e) => e.from === columnKey(table.fullName, column) || e.to === columnKey(table.fullName, column)).map((e) => e.via.toLowerCase()) : [],
+  );
+
+  // Objects that reference the table directly: the dependency graph, plus triggers defined on it
+  const direct = new Set<string>();
+  tableDep?.referencedBy.forEach((n) => direct.add(n.toLowerCase()));
+  schema.triggers.filter((t) => t.parentFullName.toLowerCase() === table.fullName.toLowerCase()).forEach((t) => direct.add(t.fullName.toLowerCase()));
+  if (deps.length === 0) {
+    routines.forEach((r, key) => { if (mentions(r.definition, table.tableName)) direct.add(key); });
+  }
+
+  const items = new Map<string, ImpactItem>();
+  // Objects to follow referencedBy from; on a table drop, tables are passed through but not listed
+  const queue: { name: string; depth: number; certainty: ImpactItem['certainty']; isTable?: boolean }[] = [];
+  const passedTables = new Set<string>([table.fullName.toLowerCase()]);
+  const passTable = (name: string, depth: number) => {
+    if (column || change !== 'drop' || passedTables.has(name.toLowerCase())) return;
+    passedTables.add(name.toLowerCase());
+    queue.push({ name, depth, certainty: 'possible', isTable: true });
+  };
+  const reach = (item: ImpactItem) => {
+    const key = `${item.type}|${item.name}`.toLowerCase();
+    const existing = items.get(key);
+    // Keep the shortest, most certain path
+    if (existing && (existing.depth < item.depth || (existing.depth === item.depth && existing.certainty === 'confirmed'))) return;
+    items.set(key, item);
+    if (item.type !== 'Foreign Key' && item.type !== 'Index' && item.type !== 'Job Step') queue.push(item);
+  };
+
+  direct.forEach((key) => {
+    const routine = routines.get(key);
+    // Referencing tables are listed through their foreign keys, but what uses them may depend on the table's rows
+    if (!routine) {
+      if (depByName.get(key)?.objectType === 'Table') passTable(depByName.get(key)!.fullName, 1);
+      return;
+    }
+    const isTrigger = routine.type === 'Trigger' && schema.triggers.some((t) => t.fullName === routine.fullName && t.parentFullName === table.fullName);
+    if (!column) {
+      reach({
+        name: routine.fullName, type: routine.type, depth: 1, via: null, certainty: 'confirmed', importanceScore: score(routine.fullName),
+        reason: isTrigger && change === 'drop' ? 'Defined on the table; dropped with it' : `References ${table.fullName}`,
+      });
+      return;
+    }
+    if (lineageVia.has(key)) {
+      reach({ name: routine.fullName, type: routine.type, depth: 1, via: null, certainty: 'confirmed', importanceScore: score(routine.fullName), reason: `Reads or writes ${column}` });
+      return;
+    }
+    if (mentions(routine.definition, column)) {
+      // Ambiguous when another object the routine uses has a column with the same name
+      const others = (depByName.get(key)?.dependsOn ?? [])
+        .filter((n) => n.toLowerCase() !== table.fullName.toLowerCase())
+        .filter((n) => (tableColumns.get(n.toLowerCase()) ?? viewColumns.get(n.toLowerCase()) ?? []).includes(column.toLowerCase()));
+      reach({
+        name: routine.fullName, type: routine.type, depth: 1, via: null, certainty: others.length > 0 ? 'possible' : 'confirmed', importanceScore: score(routine.fullName),
+        reason: others.length > 0 ? `Mentions ${column}, which ${others.join(', ')} also has` : `References ${column}`,
+      });
+    } else if (SELECT_STAR.test(routine.definition)) {
+      reach({ name: routine.fullName, type: routine.type, depth: 1, via: null, certainty: 'possible', importanceScore: score(routine.fullName), reason: 'Uses SELECT * and references the table' });
+    }
+  });
+
+  // Anything built on a broken object breaks with it
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    depByName.get(current.name.toLowerCase())?.referencedBy.forEach((name) => {
+      const routine = routines.get(name.toLowerCase());
+      if (!routine) {
+        if (depByName.get(name.toLowerCase())?.objectType === 'Table') passTable(depByName.get(name.toLowerCase())!.fullName, current.depth + 1);
+        return;
+      }
+      reach({
+        name: routine.fullName, type: routine.type, depth: current.depth + 1, via: current.name, certainty: current.certainty, importanceScore: score(routine.fullName),
+        reason: current.isTable
+          ? `${routine.type === 'View' ? 'Selects from' : 'Uses'} ${current.name}, which references ${table.fullName}`
+          : `${routine.type === 'View' ? 'Selects from' : 'Uses'} ${current.name}`,
+      });
+    });
+  }
+
+  // The walk follows the same graph as the table's transitive impact; anything it still missed is listed to check
+  if (!column && change === 'drop') {
+    tableDep?.transitiveImpact.forEach((name) => {
+      const routine = routines.get(name.toLowerCase());
+      if (!routine || items.has(`${routine.type}|${routine.fullName}`.toLowerCase())) return;
+      reach({
+        name: routine.fullName, type: routine.type, depth: 1, via: null, certainty: 'possible', importanceScore: score(routine.fullName),
+        reason: `In the transitive impact of ${table.fullName}`,
+      });
+    });
+  }
+
+  // Job steps that touch the target or run an affected object
+  const affected = [...items.values()];
+  (schema.jobs ?? []).forEach((job) => job.steps.forEach((step) => {
+    if (!step.command) return;
+    const name = `${job.jobName} › ${step.stepName}`;
+    const base = { name, type: 'Job Step' as const, importanceScore: 0 };
+    if (mentions(step.command, table.tableName) && (!column || mentions(step.command, column))) {
+      reach({ ...base, depth: 1, via: null, certainty: column ? 'possible' : 'confirmed', reason: `Command references ${column ? `${table.tableName}.${column}` : table.fullName}` });
+      return;
+    }
+    const runs = affected.find((a) => mentions(step.command, a.name.split('.').pop()!));
+    if (runs) reach({ ...base, depth: runs.depth + 1, via: runs.name, certainty: runs.certainty, reason: `Command runs ${runs.name}` });
+  }));
+
+  // Constraints in the way of a drop; a rename carries them along
+  if (change === 'drop') {
+    const sameDb = (db: string | undefined) => (db ?? '').toLowerCase() === (table.databaseName ?? '').toLowerCase();
+    schema.tables.forEach((t) => t.foreignKeys.forEach((fk) => {
+      const inbound = fk.toSchema.toLowerCase() === table.schemaName.toLowerCase()
+        && fk.toTable.toLowerCase() === table.tableName.toLowerCase()
+        && sameDb(fk.toDatabase ?? t.databaseName)
+        && (!column || fk.toColumn.toLowerCase() === column.toLowerCase());
+      if (inbound && t.fullName !== table.fullName) {
+        reach({
+          name: fk.name, type: 'Foreign Key', depth: 1, via: null, certainty: 'confirmed', importanceScore: score(t.fullName),
+          reason: `${t.fullName}.${fk.fromColumn} references ${fk.toTable}.${fk.toColumn}; drop or re-point it first`,
+        });
+      }
+    }));
+    if (column) {
+      table.foreignKeys.filter((fk) => fk.fromColumn.toLowerCase() === column.toLowerCase()).forEach((fk) => {
+        reach({
+          name: fk.name, type: 'Foreign Key', depth: 1, via: null, certainty: 'confirmed', importanceScore: score(table.fullName),
+          reason: `Constrains ${column} to ${fk.toSchema}.${fk.toTable}.${fk.toColumn}; drop it first`,
+        });
+      });
+      table.indexes.filter((ix) => ix.columns.some((c) => c.toLowerCase() === column.toLowerCase())).forEach((ix) => {
+        reach({
+          name: ix.name, type: 'Index', depth: 1, via: null, certainty: 'confirmed', importanceScore: 0,
+          reason: `${ix.isClustered ? 'Clustered index' : 'Index'} on ${ix.columns.join(', ')}; drop it first`,
+        });
+      });
+    }
+  }
+
+  return [...items.values()].sort((a, b) =>
+    b.importanceScore - a.importanceScore || a.depth - b.depth || a.name.localeCompare(b.name));
+}
+
+export function useImpactAnalysis(target: ImpactTarget | null): ImpactItem[] {
+  const result = useStore((s) => s.result);
+  const lineage = useColumnLineage();
+  return useMemo(
+    () => (result && target ? analyzeImpact(result, target, target.column ? lineage : null) : []),
+    [result, target, lineage],
+  );
+}
+
+// ── Checklist export ────────────────────────────────────────────────────────
+
+const TYPE_ORDER: ImpactItemType[] = ['Foreign Key', 'Index', 'View', 'Function', 'Procedure', 'Trigger', 'Job Step'];
+
+const csvCell = (value: string | number) => {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** A change-review checklist: one unticked item per affected object, grouped by type and ranked as shown. */
+export function generateImpactChecklist(target: ImpactTarget, items: ImpactItem[], format: ImpactChecklistFormat): string {
+  if (format === 'csv') {
+    const header = ['Done', 'Type', 'Object', 'Certainty', 'Depth', 'Via', 'Importance', 'Reason'];
+    const rows = items.map((i) => ['', i.type, i.name, i.certainty, i.depth, i.via ?? '', i.importanceScore, i.reason]);
+    return [header, ...rows].map((r) => r.map(csvCell).join(',')).join('\n') + '\n';
+  }
+
+  const confirmed = items.filter((i) => i.certainty === 'confirmed').length;
+  const lines = [
+    `# Change review: ${describeTarget(target)}`,
+    '',
+    `Generated ${new Date().toISOString().slice(0, 10)} by DbAnalyser. ${items.length} affected (${confirmed} confirmed, ${items.length - confirmed} to check).`,
+    '',
+  ];
+  if (items.length === 0) lines.push('No dependents found.', '');
+  TYPE_ORDER.forEach((type) => {
+    const group = items.filter((i) => i.type === type);
+    if (group.length === 0) return;
+    lines.push(`## ${type === 'Index' ? 'Indexes' : `${type}s`}`, '');
+    group.forEach((i) => {
+      const meta = [i.certainty === 'possible' ? 'check' : null, i.depth > 1 ? `via ${i.via}` : null, i.importanceScore > 0 ? `importance ${i.importanceScore}` : null]
+        .filter(Boolean).join(', ');
+      lines.push(`- [ ] **${i.name}** — ${i.reason}${meta ? ` _(${meta})_` : ''}`);
+    });
+    lines.push('');
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,188 @@
+import { analyzeCycle, detectCycles } from './useCycleDetection';
+import { quote, tableRef, type SqlDialect } from './useDdlGenerator';
+import type { DatabaseSchema, ForeignKeyInfo, RelationshipMap } from '../api/types';
+
+export interface LoadOrderTable {
+  fullName: string;
+  databaseName?: string;
+  schemaName: string;
+  tableName: string;
+  wave: number;               // 1-based; tables in the same wave can be loaded in parallel
+}
+
+export interface LoadOrderCycle {
+  tables: string[];
+  disable: ForeignKeyInfo[];  // one entry per constraint; disable these to load the cycle
+}
+
+export interface LoadOrder {
+  insertOrder: LoadOrderTable[];
+  deleteOrder: LoadOrderTable[];
+  waves: string[][];
+  cycles: LoadOrderCycle[];
+  selfReferences: ForeignKeyInfo[]; // rows within these tables must be loaded parents first
+}
+
+export type LoadOrderFormat = 'csv' | 'json' | 'sql';
+
+const qualified = (db: string | null | undefined, schema: string, name: string) => (db ? `${db}.${schema}.${name}` : `${schema}.${name}`);
+
+/** Keep one row per constraint; multi-column FKs arrive as one row per column. */
+const uniqueConstraints = (fks: ForeignKeyInfo[]) => [...new Map(fks.map((fk) => [`${fk.fromSchema}.${fk.fromTable}.${fk.name}`, fk])).values()];
+
+/**
+ * Order in which tables can be filled without violating foreign keys: parents before children,
+ * grouped into waves of tables that don't reference each other. FK cycles are broken at the
+ * cheapest constraints (nullable ones first), which then have to be disabled during the load.
+ */
+export function computeLoadOrder(rels: RelationshipMap, schema?: DatabaseSchema | null): LoadOrder {
+  const tables = new Map<string, Omit<LoadOrderTable, 'fullName' | 'wave'>>();
+  rels.dependencies
+    .filter((d) => d.objectType === 'Table')
+    .forEach((d) => tables.set(d.fullName, { databaseName: d.databaseName, schemaName: d.schemaName, tableName: d.tableName }));
+
+  const parents = new Map<string, Set<string>>();
+  const byEdge = new Map<string, ForeignKeyInfo[]>();
+  const selfReferences: ForeignKeyInfo[] = [];
+  rels.explicitRelationships.forEach((fk) => {
+    const from = qualified(fk.fromDatabase, fk.fromSchema, fk.fromTable);
+    const to = qualified(fk.toDatabase, fk.toSchema, fk.toTable);
+    if (!tables.has(from)) tables.set(from, { databaseName: fk.fromDatabase, schemaName: fk.fromSchema, tableName: fk.fromTable });
+    if (!tables.has(to)) tables.set(to, { databaseName: fk.toDatabase, schemaName: fk.toSchema, tableName: fk.toTable });
+    if (from === to) {
+      selfReferences.push(fk);
+      return;
+    }
+    if (!parents.has(from)) parents.set(from, new Set());
+    parents.get(from)!.add(to);
+    const key = `${from}|${to}`;
+    if (!byEdge.has(key)) byEdge.set(key, []);
+    byEdge.get(key)!.push(fk);
+  });
+
+  // Cycles over foreign keys only; other dependencies don't constrain row order
+  const fkGraph = [...tables.keys()].map((fullName) => ({ fullName, dependsOn: [...(parents.get(fullName) ?? [])] }));
+  const cycles: LoadOrderCycle[] = detectCycles(fkGraph).map((cycle) => {
+    const { nodes, feedbackEdges } = analyzeCycle(cycle, fkGraph, rels, schema, 1);
+    feedbackEdges.forEach((e) => parents.get(e.from)!.delete(e.to));
+    return {
+      tables: nodes,
+      disable: uniqueConstraints(feedbackEdges.flatMap((e) => byEdge.get(`${e.from}|${e.to}`) ?? [])),
+    };
+  });
+
+  // Kahn's algorithm, one wave per round
+  const waves: string[][] = [];
+  const placed = new Set<string>();
+  let pending = [...tables.keys()];
+  while (pending.length > 0) {
+    const wave = pending.filter((t) => [...(parents.get(t) ?? [])].every((p) => placed.has(p))).sort();
+    wave.forEach((t) => placed.add(t));
+    waves.push(wave);
+    pending = pending.filter((t) => !placed.has(t));
+  }
+
+  const insertOrder = waves.flatMap((wave, i) => wave.map((fullName) => ({ fullName, ...tables.get(fullName)!, wave: i + 1 })));
+  return {
+    insertOrder,
+    deleteOrder: [...insertOrder].reverse(),
+    waves,
+    cycles,
+    selfReferences: uniqueConstraints(selfReferences),
+  };
+}
+
+// ── Export ──────────────────────────────────────────────────────────────────
+
+const csvCell = (value: string | number) => {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/** Three-part names on SQL Server when the analysis spans databases. */
+function target(t: Pick<LoadOrderTable, 'databaseName' | 'schemaName' | 'tableName'>, dialect: SqlDialect): string {
+  const ref = tableRef(t.schemaName, t.tableName, dialect);
+  return t.databaseName && dialect === 'sqlserver' ? `${quote(t.databaseName, dialect)}.${ref}` : ref;
+}
+
+function disableConstraint(fk: ForeignKeyInfo, dialect: SqlDialect): string {
+  const table = target({ databaseName: fk.fromDatabase, schemaName: fk.fromSchema, tableName: fk.fromTable }, dialect);
+  return dialect === 'sqlserver'
+    ? `ALTER TABLE ${table} NOCHECK CONSTRAINT ${quote(fk.name, dialect)};`
+    : `ALTER TABLE ${table} DISABLE TRIGGER ALL;`;
+}
+
+function enableConstraint(fk: ForeignKeyInfo, dialect: SqlDialect): string {
+  const table = target({ databaseName: fk.fromDatabase, schemaName: fk.fromSchema, tableName: fk.fromTable }, dialect);
+  return dialect === 'sqlserver'
+    ? `ALTER TABLE ${table} WITH CHECK CHECK CONSTRAINT ${quote(fk.name, dialect)};`
+    : `ALTER TABLE ${table} ENABLE TRIGGER ALL;`;
+}
+
+function generateScript(order: LoadOrder, dialect: SqlDialect): string {
+  const disable = order.cycles.flatMap((c) => c.disable);
+  const lines = [
+    `-- Table load order generated ${new Date().toISOString().slice(0, 10)} by DbAnalyser`,
+    `-- ${order.insertOrder.length} tables in ${order.waves.length} waves; tables in the same wave can be loaded in parallel.`,
+    '-- The constraint, purge and load statements are commented out; uncomment the constraint changes around the loads you fill in, and the purge only to empty every table.',
+    '',
+  ];
+  if (dialect === 'postgresql' && disable.length > 0) {
+    lines.push('-- PostgreSQL cannot disable a single foreign key; DISABLE TRIGGER ALL turns off every FK check on the table and needs superuser rights.', '');
+  }
+  if (order.selfReferences.length > 0) {
+    lines.push('-- Self-referencing tables: load parent rows before child rows within the table');
+    order.selfReferences.forEach((fk) => lines.push(`--   ${qualified(fk.fromDatabase, fk.fromSchema, fk.fromTable)} (${fk.name})`));
+    lines.push('');
+  }
+
+  lines.push(dialect === 'sqlserver' ? 'BEGIN TRANSACTION;' : 'BEGIN;', '');
+  if (disable.length > 0) {
+    // PostgreSQL disables per table, so several FKs can share one statement
+    lines.push('-- Break circular foreign keys', ...new Set(disable.map((fk) => `-- ${disableConstraint(fk, dialect)}`)), '');
+  }
+
+  lines.push('-- Purge (children first)');
+  order.deleteOrder.forEach((t) => lines.push(`-- DELETE FROM ${target(t, dialect)};`));
+  lines.push('');
+
+  lines.push('-- Load (parents first)');
+  order.insertOrder.forEach((t, i) => {
+    if (i === 0 || order.insertOrder[i - 1].wave !== t.wave) lines.push(`-- Wave ${t.wave}`);
+    lines.push(`-- INSERT INTO ${target(t, dialect)} ...`);
+  });
+  lines.push('');
+
+  if (disable.length > 0) {
+    lines.push('-- Restore circular foreign keys', ...new Set(disable.map((fk) => `-- ${enableConstraint(fk, dialect)}`)), '');
+  }
+  lines.push(dialect === 'sqlserver' ? 'COMMIT TRANSACTION;' : 'COMMIT;', '');
+  return lines.join('\n');
+}
+
+export function generateLoadOrderExport(order: LoadOrder, format: LoadOrderFormat, dialect: SqlDialect = 'sqlserver'): string {
+  if (format === 'json') {
+    const constraint = (fk: ForeignKeyInfo) => ({ name: fk.name, table: qualified(fk.fromDatabase, fk.fromSchema, fk.fromTable), references: qualified(fk.toDatabase, fk.toSchema, fk.toTable) });
+    return JSON.stringify({
+      insertOrder: order.insertOrder.map((t) => t.fullName),
+      deleteOrder: order.deleteOrder.map((t) => t.fullName),
+      waves: order.waves,
+      cycles: order.cycles.map((c) => ({ tables: c.tables, disable: c.disable.map(constraint) })),
+      selfReferences: order.selfReferences.map(constraint),
+    }, null, 2);
+  }
+
+  if (format === 'csv') {
+    const disabledBy = new Map<string, string[]>();
+    order.cycles.forEach((c) => c.disable.forEach((fk) => {
+      const table = qualified(fk.fromDatabase, fk.fromSchema, fk.fromTable);
+      disabledBy.set(table, [...(disabledBy.get(table) ?? []), fk.name]);
+    }));
+    const header = ['Insert Order', 'Delete Order', 'Wave', 'Table', 'Disable FKs'];
+    const count = order.insertOrder.length;
+    const rows = order.insertOrder.map((t, i) => [i + 1, count - i, t.wave, t.fullName, (disabledBy.get(t.fullName) ?? []).join('; ')]);
+    return [header, ...rows].map((r) => r.map(csvCell).join(',')).join('\n') + '\n';
+  }
+
+  return generateScript(order, dialect);
+}
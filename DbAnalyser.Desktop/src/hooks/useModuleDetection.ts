@@ -0,0 +1,366 @@
+import { useStore } from './useStore';
+import type { RelationshipMap } from '../api/types';
+
+export interface ModuleLink {
+  module: string;
+  edges: number;
+}
+
+export interface DetectedModule {
+  name: string;
+  members: string[];          // full names, most important first
+  tables: number;
+  internalEdges: number;
+  externalEdges: number;
+  cohesion: number;           // share of the module's edges that stay inside it, 0-1
+  links: ModuleLink[];        // other modules this one is connected to, most edges first
+}
+
+export interface ModuleDetection {
+  modules: DetectedModule[];  // largest first
+  standalone: string[];       // objects with no relationships at all
+  moduleOf: Map<string, string>;
+  modularity: number;
+}
+
+export type ModuleExportFormat = 'markdown' | 'csv' | 'json';
+
+export type ModuleGranularity = 'coarse' | 'normal' | 'fine';
+
+// Modularity resolution: higher values produce more, smaller modules
+export const MODULE_RESOLUTION: Record<ModuleGranularity, number> = {
+  coarse: 0.5,
+  normal: 1,
+  fine: 2,
+};
+
+// Implicit relationships are guesses, so they pull objects together less than declared ones
+const EDGE_WEIGHTS = { fk: 1, dependency: 1, implicit: 0.5 };
+const MAX_PASSES = 20;
+
+interface WeightedGraph {
+  adjacency: Map<number, number>[];   // neighbour -> weight, self loops excluded
+  degree: number[];                   // weighted degree, including collapsed internal edges
+  totalWeight: number;                // sum of edge weights (m)
+}
+
+const qualified = (db: string | null | undefined, schema: string, name: string) => (db ? `${db}.${schema}.${name}` : `${schema}.${name}`);
+
+/** Undirected weighted graph over all objects; parallel relations between the same pair add up. */
+function buildModuleGraph(rels: RelationshipMap): { names: string[]; graph: WeightedGraph } {
+  const names = rels.dependencies.map((d) => d.fullName);
+  const index = new Map(names.map((n, i) => [n, i]));
+  const adjacency = names.map(() => new Map<number, number>());
+  const degree = names.map(() => 0);
+  let totalWeight = 0;
+
+  const add = (from: string, to: string, weight: number) => {
+    const a = index.get(from);
+    const b = index.get(to);
+    if (a === undefined || b === undefined || a === b) return;
+    adjacency[a].set(b, (adjacency[a].get(b) ?? 0) + weight);
+    adjacency[b].set(a, (adjacency[b].get(a) ?? 0) + weight);
+    degree[a] += weight;
+    degree[b] += weight;
+    totalWeight += weight;
+  };
+
+  rels.explicitRelationships.forEach((fk) => add(
+    qualified(fk.fromDatabase, fk.fromSchema, fk.fromTable),
+    qualified(fk.toDatabase, fk.toSchema, fk.toTable),
+    EDGE_WEIGHTS.fk,
+  ));
+  rels.implicitRelationships.filter((r) => r.confidence >= 0.7).forEach((r) => add(
+    qualified(r.fromDatabase, r.fromSchema, r.fromTable),
+    qualified(r.toDatabase, r.toSchema, r.toTable),
+    EDGE_WEIGHTS.implicit,
+  ));
+  rels.viewDependencies.forEach((d) => add(d.fromFullName ?? `${d.fromSchema}.${d.fromName}`, d.toFullName, EDGE_WEIGHTS.dependency));
+
+  return { names, graph: { adjacency, degree, totalWeight } };
+}
+
+/** Louvain local moving: each node joins the neighbouring community with the best modularity gain. */
+function moveNodes(graph: WeightedGraph, resolution: number): number[] {
+  const { adjacency, degree, totalWeight } = graph;
+  const community = degree.map((_, i) => i);
+  const total = [...degree];
+  const m2 = totalWeight * 2;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let moved = false;
+    for (let i = 0; i < adjacency.length; i++) {
+      const current = community[i];
+      total[current] -= degree[i];
+
+      const toCommunity = new Map<number, number>();
+      adjacency[i].forEach((w, j) => toCommunity.set(community[j], (toCommunity.get(community[j]) ?? 0) + w));
+
+      let best = current;
+      let bestGain = (toCommunity.get(current) ?? 0) - (resolution * total[current] * degree[i]) / m2;
+      toCommunity.forEach((w, c) => {
+        const gain = w - (resolution * total[c] * degree[i]) / m2;
+        if (gain > bestGain + 1e-12) {
+          best = c;
+          bestGain = gain;
+        }
+      });
+
+      community[i] = best;
+      total[best] += degree[i];
+      if (best !== current) moved = true;
+    }
+    if (!moved) break;
+  }
+  return community;
+}
+
+/**
+ * Leiden's refinement guarantee: a community must be connected within itself. Louvain can leave
+ * communities whose bridging node moved away; split those into their connected parts.
+ */
+function splitDisconnected(graph: WeightedGraph, community: number[]): number[] {
+  const refined = community.map(() => -1);
+  let next = 0;
+  for (let start = 0; start < community.length; start++) {
+    if (refined[start] >= 0) continue;
+    const id = next++;
+    refined[start] = id;
+    const stack = [start];
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      graph.adjacency[i].forEach((_, j) => {
+        if (refined[j] < 0 && community[j] === community[start]) {
+          refined[j] = id;
+          stack.push(j);
+        }
+      });
+    }
+  }
+  return refined;
+}
+
+/** Collapse each community into a single node for the next level. */
+function aggregate(graph: WeightedGraph, community: number[], count: number): WeightedGraph {
+  const adjacency = Array.from({ length: count }, () => new Map<number, number>());
+  const degree = new Array<number>(count).fill(0);
+  graph.adjacency.forEach((neighbours, i) => {
+    degree[community[i]] += graph.degree[i];
+    neighbours.forEach((w, j) => {
+      const a = community[i];
+      const b = community[j];
+      if (a !== b) adjacency[a].set(b, (adjacency[a].get(b) ?? 0) + w);
+    });
+  });
+  return { adjacency, degree, totalWeight: graph.totalWeight };
+}
+
+/** Community detection: Louvain levels with a connectivity refinement after each level. Returns a community per node. */
+function detectCommunities(graph: WeightedGraph, resolution: number): number[] {
+  let assignment = graph.degree.map((_, i) => i);
+  if (graph.totalWeight === 0) return assignment;
+
+  let level = graph;
+  for (;;) {
+    const refined = splitDisconnected(level, moveNodes(level, resolution));
+    const count = refined.reduce((max, c) => Math.max(max, c + 1), 0);
+    assignment = assignment.map((c) => refined[c]);
+    if (count === level.adjacency.length) break;
+    level = aggregate(level, refined, count);
+  }
+  return assignment;
+}
+
+function modularity(graph: WeightedGraph, community: number[], resolution: number): number {
+  const m2 = graph.totalWeight * 2;
+  if (m2 === 0) return 0;
+  const internal = new Map<number, number>();
+  const total = new Map<number, number>();
+  graph.adjacency.forEach((neighbours, i) => {
+    const c = community[i];
+    total.set(c, (total.get(c) ?? 0) + graph.degree[i]);
+    neighbours.forEach((w, j) => {
+      if (community[j] === c) internal.set(c, (internal.get(c) ?? 0) + w);
+    });
+  });
+  let q = 0;
+  total.forEach((t, c) => { q += (internal.get(c) ?? 0) / m2 - resolution * (t / m2) ** 2; });
+  return q;
+}
+
+// Hungarian-notation prefixes that say nothing about the business area
+const NOISE_PREFIXES = new Set(['tbl', 'tb', 't', 'vw', 'v', 'usp', 'sp', 'fn', 'udf', 'ufn', 'trg', 'tr', 'syn', 'dbo']);
+
+function nameTokens(fullName: string): string[] {
+  const name = fullName.split('.').pop() ?? fullName;
+  const tokens = name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .split(/[_\s-]+/)
+    .filter(Boolean);
+  while (tokens.length > 1 && NOISE_PREFIXES.has(tokens[0].toLowerCase())) tokens.shift();
+  return tokens;
+}
+
+/**
+ * Name a module after the table-name prefix most of its members share ("Order" for Order,
+ * OrderLine, tblOrderStatus). Tables count double since they define the data a service would own.
+ * Falls back to the most important member when no prefix is common enough.
+ */
+export function nameModule(members: { name: string; isTable: boolean }[]): string {
+  const weightOf = (m: { isTable: boolean }) => (m.isTable ? 2 : 1);
+  const totalWeight = members.reduce((sum, m) => sum + weightOf(m), 0);
+  const counts = new Map<string, { label: string; weight: number; depth: number }>();
+  members.forEach((m) => {
+    const tokens = nameTokens(m.name);
+    for (let depth = 1; depth <= Math.min(2, tokens.length); depth++) {
+      const label = tokens.slice(0, depth).join('');
+      const key = label.toLowerCase();
+      const entry = counts.get(key) ?? { label, weight: 0, depth };
+      entry.weight += weightOf(m);
+      counts.set(key, entry);
+    }
+  });
+
+  const candidates = [...counts.values()]
+    .filter((c) => c.weight / totalWeight >= (c.depth === 2 ? 0.5 : 0.3))
+    .sort((a, b) => b.depth - a.depth || b.weight - a.weight);
+  if (candidates.length > 0) {
+    const label = candidates[0].label;
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  }
+  return members[0]?.name.split('.').pop() ?? 'Module';
+}
+
+export function detectModules(rels: RelationshipMap, resolution = MODULE_RESOLUTION.normal): ModuleDetection {
+  const { names, graph } = buildModuleGraph(rels);
+  const community = detectCommunities(graph, resolution);
+  const byName = new Map(rels.dependencies.map((d) => [d.fullName, d]));
+
+  const groups = new Map<number, number[]>();
+  community.forEach((c, i) => {
+    if (!groups.has(c)) groups.set(c, []);
+    groups.get(c)!.push(i);
+  });
+
+  const standalone: string[] = [];
+  const clusters: number[][] = [];
+  groups.forEach((members) => {
+    if (members.length === 1 && graph.adjacency[members[0]].size === 0) standalone.push(names[members[0]]);
+    else clusters.push(members);
+  });
+  clusters.sort((a, b) => b.length - a.length);
+
+  // Names first, so cross-module links can refer to them; duplicates get a number
+  const used = new Map<string, number>();
+  const moduleNames = clusters.map((members) => {
+    const sorted = [...members].sort((a, b) => (byName.get(names[b])?.importanceScore ?? 0) - (byName.get(names[a])?.importanceScore ?? 0));
+    const base = nameModule(sorted.map((i) => ({ name: names[i], isTable: byName.get(names[i])?.objectType === 'Table' })));
+    const seen = (used.get(base) ?? 0) + 1;
+    used.set(base, seen);
+    return seen === 1 ? base : `${base} ${seen}`;
+  });
+
+  const moduleOf = new Map<string, string>();
+  const clusterOf = new Map<number, number>();
+  clusters.forEach((members, k) => members.forEach((i) => {
+    moduleOf.set(names[i], moduleNames[k]);
+    clusterOf.set(i, k);
+  }));
+
+  const modules = clusters.map((members, k): DetectedModule => {
+    let internal = 0;
+    let external = 0;
+    const links = new Map<number, number>();
+    members.forEach((i) => graph.adjacency[i].forEach((_, j) => {
+      const other = clusterOf.get(j);
+      if (other === k) internal++;
+      else {
+        external++;
+        if (other !== undefined) links.set(other, (links.get(other) ?? 0) + 1);
+      }
+    }));
+    internal /= 2; // each internal edge was seen from both ends
+    const sorted = members
+      .map((i) => names[i])
+      .sort((a, b) => (byName.get(b)?.importanceScore ?? 0) - (byName.get(a)?.importanceScore ?? 0));
+    return {
+      name: moduleNames[k],
+      members: sorted,
+      tables: sorted.filter((n) => byName.get(n)?.objectType === 'Table').length,
+      internalEdges: internal,
+      externalEdges: external,
+      cohesion: internal + external > 0 ? internal / (internal + external) : 1,
+      links: [...links.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([other, edges]) => ({ module: moduleNames[other], edges })),
+    };
+  });
+
+  return { modules, standalone, moduleOf, modularity: modularity(graph, community, resolution) };
+}
+
+export function generateModuleExport(detection: ModuleDetection, rels: RelationshipMap, format: ModuleExportFormat): string {
+  const typeOf = new Map(rels.dependencies.map((d) => [d.fullName, d.objectType]));
+
+  if (format === 'json') {
+    return JSON.stringify({
+      modularity: Number(detection.modularity.toFixed(4)),
+      modules: detection.modules.map((m) => ({
+        name: m.name,
+        cohesion: Number(m.cohesion.toFixed(3)),
+        internalEdges: m.internalEdges,
+        externalEdges: m.externalEdges,
+        members: m.members.map((name) => ({ name, type: typeOf.get(name) ?? '' })),
+        links: m.links,
+      })),
+      standalone: detection.standalone,
+    }, null, 2);
+  }
+
+  if (format === 'csv') {
+    const escape = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+    const rows = [['Module', 'Object', 'Type', 'Cohesion']];
+    detection.modules.forEach((m) => m.members.forEach((name) => {
+      rows.push([m.name, name, typeOf.get(name) ?? '', m.cohesion.toFixed(2)]);
+    }));
+    detection.standalone.forEach((name) => rows.push(['(standalone)', name, typeOf.get(name) ?? '', '']));
+    return rows.map((r) => r.map(escape).join(',')).join('\n');
+  }
+
+  const lines = [
+    '# Module Decomposition',
+    '',
+    `${detection.modules.length} modules detected (modularity ${detection.modularity.toFixed(2)}).`,
+    '',
+  ];
+  detection.modules.forEach((m) => {
+    lines.push(`## ${m.name}`, '');
+    lines.push(`${m.members.length} objects, ${m.tables} tables. Cohesion ${Math.round(m.cohesion * 100)}% (${m.internalEdges} internal, ${m.externalEdges} external relations).`, '');
+    m.members.forEach((name) => lines.push(`- ${name} (${typeOf.get(name) ?? 'Unknown'})`));
+    if (m.links.length > 0) {
+      lines.push('', 'Connected to:');
+      m.links.forEach((l) => lines.push(`- ${l.module}: ${l.edges} relation${l.edges !== 1 ? 's' : ''}`));
+    }
+    lines.push('');
+  });
+  if (detection.standalone.length > 0) {
+    lines.push('## Standalone objects', '');
+    detection.standalone.forEach((name) => lines.push(`- ${name} (${typeOf.get(name) ?? 'Unknown'})`));
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+// Detection walks the whole graph; the graph page and the Modules panel share one result
+let cache: { rels: RelationshipMap; granularity: ModuleGranularity; detection: ModuleDetection } | null = null;
+
+/** Pass null to skip detection while nothing shows modules. */
+export function useModuleDetection(granularity: ModuleGranularity | null): ModuleDetection | null {
+  const rels = useStore((s) => s.result?.relationships);
+  if (!rels || !granularity) return null;
+  if (!cache || cache.rels !== rels || cache.granularity !== granularity) {
+    cache = { rels, granularity, detection: detectModules(rels, MODULE_RESOLUTION[granularity]) };
+  }
+  return cache.detection;
+}
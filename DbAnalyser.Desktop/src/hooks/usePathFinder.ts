@@ -0,0 +1,172 @@
+import type { RelationshipMap } from '../api/types';
+
+export type PathEdgeKind = 'fk' | 'implicit' | 'dependency';
+
+export interface PathHop {
+  from: string;
+  to: string;
+  kind: PathEdgeKind;
+  label: string;              // FK name, matched columns, or how the dependency was detected
+  reversed: boolean;          // walked against the edge direction (e.g. from the referenced table to the referencing one)
+}
+
+export interface ObjectPath {
+  nodes: string[];
+  hops: PathHop[];
+}
+
+export interface PathGraphOptions {
+  kinds: Set<PathEdgeKind>;
+  minConfidence: number;      // for implicit relationships
+  directed: boolean;          // follow edges only from referencing to referenced object
+}
+
+export interface PathSearchResult {
+  shortest: ObjectPath | null;
+  paths: ObjectPath[];        // simple paths up to maxHops, shortest first
+  truncated: boolean;         // stopped at the result limit
+}
+
+export const PATH_EDGE_LABELS: Record<PathEdgeKind, string> = {
+  fk: 'Foreign keys',
+  implicit: 'Implicit FKs',
+  dependency: 'Dependencies',
+};
+
+export const PATH_HIGHLIGHT_COLOR = '#ffd54f';
+
+type Adjacency = Map<string, PathHop[]>;
+
+const qualified = (db: string | null | undefined, schema: string, name: string) => (db ? `${db}.${schema}.${name}` : `${schema}.${name}`);
+
+/** Unordered key for an edge between two objects, for matching path hops against drawn edges. */
+export function pathEdgeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+export function buildPathGraph(rels: RelationshipMap, options: PathGraphOptions): Adjacency {
+  const adjacency: Adjacency = new Map();
+  const add = (from: string, to: string, kind: PathEdgeKind, label: string) => {
+    if (from === to) return;
+    if (!adjacency.has(from)) adjacency.set(from, []);
+    if (!adjacency.has(to)) adjacency.set(to, []);
+    adjacency.get(from)!.push({ from, to, kind, label, reversed: false });
+    if (!options.directed) adjacency.get(to)!.push({ from: to, to: from, kind, label, reversed: true });
+  };
+
+  if (options.kinds.has('fk')) {
+    rels.explicitRelationships.forEach((fk) => add(
+      qualified(fk.fromDatabase, fk.fromSchema, fk.fromTable),
+      qualified(fk.toDatabase, fk.toSchema, fk.toTable),
+      'fk', fk.name,
+    ));
+  }
+  if (options.kinds.has('implicit')) {
+    rels.implicitRelationships.filter((r) => r.confidence >= options.minConfidence).forEach((r) => add(
+      qualified(r.fromDatabase, r.fromSchema, r.fromTable),
+      qualified(r.toDatabase, r.toSchema, r.toTable),
+      'implicit', `${r.fromColumn} → ${r.toColumn} (${Math.round(r.confidence * 100)}%)`,
+    ));
+  }
+  if (options.kinds.has('dependency')) {
+    rels.viewDependencies.forEach((d) => add(
+      d.fromFullName ?? `${d.fromSchema}.${d.fromName}`,
+      d.toFullName,
+      'dependency', d.detectedVia ?? `${d.fromType} → ${d.toType}`,
+    ));
+  }
+  return adjacency;
+}
+
+function toPath(start: string, hops: PathHop[]): ObjectPath {
+  return { nodes: [start, ...hops.map((h) => h.to)], hops };
+}
+
+/** Breadth-first: the path with the fewest hops, or null when the objects are not connected. */
+export function findShortestPath(graph: Adjacency, from: string, to: string): ObjectPath | null {
+  if (from === to || !graph.has(from) || !graph.has(to)) return null;
+  const via = new Map<string, PathHop>();
+  const visited = new Set([from]);
+  let frontier = [from];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const node of frontier) {
+      for (const hop of graph.get(node) ?? []) {
+        if (visited.has(hop.to)) continue;
+        visited.add(hop.to);
+        via.set(hop.to, hop);
+        if (hop.to === to) {
+          const hops: PathHop[] = [];
+          for (let at = to; at !== from; at = via.get(at)!.from) hops.unshift(via.get(at)!);
+          return toPath(from, hops);
+        }
+        next.push(hop.to);
+      }
+    }
+    frontier = next;
+  }
+  return null;
+}
+
+/**
+ * Depth-first enumeration of simple paths with at most `maxHops` edges. Parallel edges between
+ * the same pair (several FKs, or an FK and a dependency) count as one step so results stay readable.
+ */
+export function findSimplePaths(graph: Adjacency, from: string, to: string, maxHops: number, limit: number): { paths: ObjectPath[]; truncated: boolean } {
+  const paths: ObjectPath[] = [];
+  if (from === to || !graph.has(from) || !graph.has(to)) return { paths, truncated: false };
+
+  // Distance to the target bounds the search: skip nodes that can't reach it in the hops left
+  const distance = new Map<string, number>([[to, 0]]);
+  let frontier = [to];
+  const reverse = new Map<string, string[]>();
+  graph.forEach((hops) => hops.forEach((h) => {
+    if (!reverse.has(h.to)) reverse.set(h.to, []);
+    reverse.get(h.to)!.push(h.from);
+  }));
+  for (let d = 1; d <= maxHops && frontier.length > 0; d++) {
+    const next: string[] = [];
+    frontier.forEach((n) => (reverse.get(n) ?? []).forEach((m) => {
+      if (distance.has(m)) return;
+      distance.set(m, d);
+      next.push(m);
+    }));
+    frontier = next;
+  }
+
+  let truncated = false;
+  const onPath = new Set([from]);
+  const hops: PathHop[] = [];
+  const walk = (node: string) => {
+    if (truncated) return;
+    const seen = new Set<string>();
+    for (const hop of graph.get(node) ?? []) {
+      if (onPath.has(hop.to) || seen.has(hop.to)) continue;
+      seen.add(hop.to);
+      const left = maxHops - hops.length - 1;
+      if ((distance.get(hop.to) ?? Infinity) > left) continue;
+      hops.push(hop);
+      if (hop.to === to) {
+        paths.push(toPath(from, [...hops]));
+        if (paths.length >= limit) truncated = true;
+      } else {
+        onPath.add(hop.to);
+        walk(hop.to);
+        onPath.delete(hop.to);
+      }
+      hops.pop();
+      if (truncated) return;
+    }
+  };
+  walk(from);
+
+  paths.sort((a, b) => a.hops.length - b.hops.length);
+  return { paths, truncated };
+}
+
+export function searchPaths(rels: RelationshipMap, from: string, to: string, options: PathGraphOptions, maxHops: number, limit = 200): PathSearchResult {
+  const graph = buildPathGraph(rels, options);
+  const shortest = findShortestPath(graph, from, to);
+  const { paths, truncated } = findSimplePaths(graph, from, to, maxHops, limit);
+  return { shortest, paths, truncated };
+}
@@ -0,0 +1,278 @@
+import { useStore } from './useStore';
+import { annotationKey } from './useAnnotations';
+import type { ColumnInfo, ColumnProfile, DatabaseSchema, PiiCategory, PiiDecisionMap, TableProfile } from '../api/types';
+
+export const PII_CATEGORIES: Record<PiiCategory, { label: string; color: string }> = {
+  email: { label: 'Email', color: '#4fc3f7' },
+  phone: { label: 'Phone', color: '#81c784' },
+  nationalId: { label: 'National ID', color: '#e94560' },
+  iban: { label: 'IBAN / bank account', color: '#f0a500' },
+  name: { label: 'Person name', color: '#ba68c8' },
+  birthDate: { label: 'Birth date', color: '#ff8a65' },
+};
+
+export interface PiiSuggestion {
+  key: string;                 // `fullName:column`, same key as annotations and decisions
+  objectName: string;
+  column: string;
+  dataType: string;
+  category: PiiCategory;
+  confidence: number;          // 0..1
+  reasons: string[];
+}
+
+export type PiiReviewStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface PiiReviewItem extends PiiSuggestion {
+  suggested: PiiCategory | null; // null when the column was classified without a current suggestion
+  status: PiiReviewStatus;
+}
+
+// Below this the evidence is too thin to bother a reviewer with
+const MIN_CONFIDENCE = 0.4;
+
+type TypeClass = 'text' | 'date' | 'number' | 'other';
+
+interface Rule {
+  names: RegExp;               // strong match on the normalized column name
+  weakNames?: RegExp;          // only counts on tables that look like they hold people
+  types: TypeClass[];
+  describe: string;
+  value?: (v: string) => boolean;
+  valueOnly?: boolean;         // value pattern is distinctive enough without a name match
+}
+
+// Column names are matched lowercased with separators removed: E_Mail_Address -> emailaddress
+const RULES: Record<PiiCategory, Rule> = {
+  email: {
+    names: /email|^mail(addr|address)?$/,
+    types: ['text'],
+    describe: 'email addresses',
+    value: (v) => /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i.test(v),
+    valueOnly: true,
+  },
+  phone: {
+    names: /phone|mobile|cellular|^cell(no|number)?$|^fax|^tel(no|nr|number)?\d*$|telefon/,
+    types: ['text', 'number'],
+    describe: 'phone numbers',
+    value: (v) => /^\+?[\d\s().\/-]+$/.test(v) && (v.match(/\d/g)?.length ?? 0) >= 7 && (v.match(/\d/g)?.length ?? 0) <= 15,
+  },
+  nationalId: {
+    names: /ssn|socialsecurity|nationalid|nationalinsurance|^nin(o)?$|taxid|taxnumber|^tin$|passport|idcard|identitycard|personalnumber|personnummer|^bsn$|^svnr$|driverslicen[cs]e/,
+    types: ['text', 'number'],
+    describe: 'national identifiers',
+    // US SSN or UK National Insurance number
+    value: (v) => /^\d{3}-\d{2}-\d{4}$/.test(v) || /^[A-CEGHJ-PR-TW-Z]{2}\d{6}[A-D]$/i.test(v.replace(/\s/g, '')),
+    valueOnly: true,
+  },
+  iban: {
+    names: /iban|bankaccount|accountnumber|accountno/,
+    types: ['text'],
+    describe: 'IBANs',
+    value: isIban,
+    valueOnly: true,
+  },
+  name: {
+    names: /firstname|lastname|surname|givenname|familyname|fullname|middlename|maidenname|forename|vorname|nachname|contactname|customername|employeename|personname/,
+    weakNames: /^(name|displayname)$/,
+    types: ['text'],
+    describe: 'person names',
+    value: (v) => /^[A-ZÀ-Þ][a-zß-ÿ'’-]+( [A-ZÀ-Þ][a-zß-ÿ'’-]+){0,3}$/.test(v),
+  },
+  birthDate: {
+    names: /birth|^dob$|dateofbirth|geburts/,
+    types: ['date', 'text'],
+    describe: 'birth dates',
+    value: (v) => {
+      const year = new Date(v).getFullYear();
+      return !Number.isNaN(year) && year >= 1900 && year <= new Date().getFullYear();
+    },
+  },
+};
+
+const PERSON_TABLE = /customer|person|people|employee|user|contact|member|patient|student|client|staff|applicant|guest/i;
+
+function typeClass(dataType: string): TypeClass {
+  const t = dataType.toLowerCase();
+  if (/char|text|string|citext|varchar2|clob/.test(t)) return 'text';
+  if (/date|time/.test(t)) return 'date';
+  if (/int|decimal|numeric|number|money|float|real|double/.test(t)) return 'number';
+  return 'other';
+}
+
+// ISO 13616 mod-97 check
+function isIban(value: string): boolean {
+  const v = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(v)) return false;
+  const digits = (v.slice(4) + v.slice(0, 4)).replace(/[A-Z]/g, (c) => String(c.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const d of digits) remainder = (remainder * 10 + Number(d)) % 97;
+  return remainder === 1;
+}
+
+function classifyColumn(tableName: string, col: ColumnInfo, profile: ColumnProfile | undefined): { category: PiiCategory; confidence: number; reasons: string[] } | null {
+  const name = col.name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const kind = typeClass(col.dataType);
+  const samples = [profile?.minValue, profile?.maxValue].filter((v): v is string => !!v && !!v.trim());
+  let best: { category: PiiCategory; confidence: number; reasons: string[] } | null = null;
+
+  for (const category of Object.keys(RULES) as PiiCategory[]) {
+    const rule = RULES[category];
+    if (!rule.types.includes(kind)) continue;
+    const reasons: string[] = [];
+    let confidence = 0;
+
+    if (rule.names.test(name)) {
+      confidence = 0.6;
+      reasons.push(`column name "${col.name}" suggests ${rule.describe}`);
+    } else if (rule.weakNames?.test(name) && PERSON_TABLE.test(tableName)) {
+      confidence = 0.35;
+      reasons.push(`generic "${col.name}" column on a table that looks like it holds people`);
+    }
+
+    if (rule.value && samples.length > 0) {
+      const matching = samples.filter(rule.value).length;
+      if (matching === samples.length) {
+        if (confidence === 0 && rule.valueOnly) confidence = 0.5;
+        else if (confidence > 0) confidence += 0.3;
+        if (confidence > 0) reasons.push(`profiled min/max values look like ${rule.describe}`);
+      } else if (matching > 0 && confidence > 0) {
+        confidence += 0.15;
+        reasons.push(`one profiled sample looks like ${rule.describe}`);
+      } else if (confidence > 0) {
+        confidence -= 0.2;
+        reasons.push(`profiled min/max values do not look like ${rule.describe}`);
+      }
+    }
+
+    if (confidence === 0) continue;
+    confidence += 0.1;
+    reasons.push(`${col.dataType} type fits`);
+    confidence = Math.min(Math.round(confidence * 100) / 100, 0.99);
+    if (!best || confidence > best.confidence) best = { category, confidence, reasons };
+  }
+
+  return best && best.confidence >= MIN_CONFIDENCE ? best : null;
+}
+
+/**
+ * Suggest PII categories for table columns from names, types and profiled min/max values.
+ * Views are skipped: they expose the same stored data and would repeat every finding.
+ */
+export function classifyColumns(schema: DatabaseSchema, profiles: TableProfile[] | null): PiiSuggestion[] {
+  const profilesByTable = new Map((profiles ?? []).map((p) => [p.fullName, new Map(p.columnProfiles.map((c) => [c.columnName, c]))]));
+  const suggestions: PiiSuggestion[] = [];
+  schema.tables.forEach((t) => {
+    t.columns.forEach((col) => {
+      const hit = classifyColumn(t.tableName, col, profilesByTable.get(t.fullName)?.get(col.name));
+      if (!hit) return;
+      suggestions.push({ key: annotationKey(t.fullName, col.name), objectName: t.fullName, column: col.name, dataType: col.dataType, ...hit });
+    });
+  });
+  return suggestions.sort((a, b) => b.confidence - a.confidence || a.key.localeCompare(b.key));
+}
+
+/** Combine fresh suggestions with the reviewer's decisions. */
+export function buildPiiReview(schema: DatabaseSchema, profiles: TableProfile[] | null, decisions: PiiDecisionMap): PiiReviewItem[] {
+  const items: PiiReviewItem[] = classifyColumns(schema, profiles).map((s) => {
+    const decision = decisions[s.key];
+    return { ...s, suggested: s.category, category: decision?.category ?? s.category, status: decision?.status ?? 'pending' };
+  });
+
+  // Keep decisions whose column no longer triggers a suggestion, as long as it still exists
+  const seen = new Set(items.map((i) => i.key));
+  schema.tables.forEach((t) => {
+    t.columns.forEach((col) => {
+      const key = annotationKey(t.fullName, col.name);
+      const decision = decisions[key];
+      if (!decision || seen.has(key)) return;
+      items.push({
+        key, objectName: t.fullName, column: col.name, dataType: col.dataType,
+        category: decision.category, confidence: 0, reasons: ['classified by a reviewer'],
+        suggested: null, status: decision.status,
+      });
+    });
+  });
+  return items;
+}
+
+// ── Report ──────────────────────────────────────────────────────────────────
+
+export type PiiReportFormat = 'csv' | 'markdown';
+
+function csvCell(value: string | number): string {
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function generatePiiReport(items: PiiReviewItem[], format: PiiReportFormat, databaseName: string): string {
+  const sorted = [...items].sort((a, b) => a.objectName.localeCompare(b.objectName) || a.column.localeCompare(b.column));
+  if (format === 'csv') {
+    const rows = [['Object', 'Column', 'Type', 'Category', 'Status', 'Confidence', 'Evidence']];
+    sorted.forEach((i) => rows.push([
+      i.objectName, i.column, i.dataType, PII_CATEGORIES[i.category].label, i.status,
+      i.suggested ? `${Math.round(i.confidence * 100)}%` : '', i.reasons.join('; '),
+    ]));
+    return rows.map((r) => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+  }
+
+  const md = (s: string) => s.replace(/\|/g, '\\|');
+  const lines = [`# ${databaseName} sensitive data classification`, '', `Generated ${new Date().toLocaleString()}.`, ''];
+  lines.push('| Category | Accepted | Pending |', '| --- | --- | --- |');
+  (Object.keys(PII_CATEGORIES) as PiiCategory[]).forEach((c) => {
+    const accepted = items.filter((i) => i.category === c && i.status === 'accepted').length;
+    const pending = items.filter((i) => i.category === c && i.status === 'pending').length;
+    if (accepted + pending > 0) lines.push(`| ${PII_CATEGORIES[c].label} | ${accepted} | ${pending} |`);
+  });
+  lines.push('');
+
+  const section = (title: string, status: PiiReviewStatus) => {
+    const group = sorted.filter((i) => i.status === status);
+    if (group.length === 0) return;
+    lines.push(`## ${title} (${group.length})`, '', '| Object | Column | Type | Category | Confidence | Evidence |', '| --- | --- | --- | --- | --- | --- |');
+    group.forEach((i) => lines.push(
+      `| ${md(i.objectName)} | ${md(i.column)} | ${md(i.dataType)} | ${PII_CATEGORIES[i.category].label} | ${i.suggested ? `${Math.round(i.confidence * 100)}%` : '—'} | ${md(i.reasons.join('; '))} |`,
+    ));
+    lines.push('');
+  };
+  section('Confirmed personal data', 'accepted');
+  section('Awaiting review', 'pending');
+  section('Rejected suggestions', 'rejected');
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+// ── Hooks ───────────────────────────────────────────────────────────────────
+
+interface PiiReview {
+  items: PiiReviewItem[];
+  byObject: Map<string, Map<string, PiiReviewItem>>; // non-rejected, objectName -> column -> item
+}
+
+// Every ERD node asks for the same review; compute it once per (schema, profiles, decisions)
+let cached: { schema: DatabaseSchema; profiles: TableProfile[] | null; decisions: PiiDecisionMap; review: PiiReview } | null = null;
+
+function usePiiReviewState(): PiiReview {
+  const schema = useStore((s) => s.result?.schema ?? null);
+  const profiles = useStore((s) => s.result?.profiles ?? null);
+  const decisions = useStore((s) => s.piiDecisions);
+  if (!schema) return { items: [], byObject: new Map() };
+  if (!cached || cached.schema !== schema || cached.profiles !== profiles || cached.decisions !== decisions) {
+    const items = buildPiiReview(schema, profiles, decisions);
+    const byObject = new Map<string, Map<string, PiiReviewItem>>();
+    items.filter((i) => i.status !== 'rejected').forEach((i) => {
+      if (!byObject.has(i.objectName)) byObject.set(i.objectName, new Map());
+      byObject.get(i.objectName)!.set(i.column, i);
+    });
+    cached = { schema, profiles, decisions, review: { items, byObject } };
+  }
+  return cached.review;
+}
+
+export function usePiiReview(): PiiReviewItem[] {
+  return usePiiReviewState().items;
+}
+
+/** Pending and accepted classifications of one object's columns, for the ERD overlay. */
+export function usePiiColumns(objectName: string): Map<string, PiiReviewItem> | undefined {
+  return usePiiReviewState().byObject.get(objectName);
+}
@@ -0,0 +1,201 @@
+import { useStore } from './useStore';
+import { unquoteIdentifier, type SqlToken } from './useSqlTokenizer';
+import { buildObjectLookup, findObjectRefs, tokenizeDefinition, type SqlObjectLookup } from './useSqlHighlight';
+import type { DatabaseSchema } from '../api/types';
+
+export interface RoutineComplexity {
+  name: string;
+  type: 'Procedure' | 'Function';
+  linesOfCode: number;      // lines holding code, not blank or comment-only
+  statements: number;
+  cyclomatic: number;       // 1 + decision points
+  nesting: number;          // deepest control block below the body
+  tables: string[];         // distinct tables read or written
+  writes: number;           // INSERT / UPDATE / DELETE / MERGE / TRUNCATE / SELECT INTO targets
+  reads: number;            // table references per statement outside those targets
+}
+
+// Words that start a statement
+const STATEMENTS = new Set([
+  'SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE', 'SET', 'DECLARE', 'IF', 'WHILE', 'RETURN', 'EXEC',
+  'EXECUTE', 'PRINT', 'RAISERROR', 'THROW', 'OPEN', 'FETCH', 'CLOSE', 'DEALLOCATE', 'COMMIT', 'ROLLBACK', 'SAVE',
+  'WAITFOR', 'GOTO', 'BREAK', 'CONTINUE', 'WITH', 'CREATE', 'ALTER', 'DROP', 'PERFORM', 'RAISE', 'CALL', 'FOR',
+  'FOREACH', 'EXIT', 'GET', 'NULL',
+]);
+
+// A statement word that belongs to the statement already open: INSERT … SELECT, UPDATE … SET,
+// DECLARE c CURSOR FOR SELECT, DROP TABLE IF EXISTS, ON CONFLICT DO UPDATE
+const CONTINUES: Record<string, string[]> = {
+  SELECT: ['INSERT', 'WITH', 'FOR', 'RETURN', 'OPEN'],
+  SET: ['UPDATE', 'MERGE', 'INSERT'],
+  INSERT: ['MERGE', 'WITH'],
+  UPDATE: ['MERGE', 'WITH', 'INSERT'],
+  DELETE: ['MERGE', 'WITH'],
+  MERGE: ['WITH'],
+  EXEC: ['INSERT'],
+  EXECUTE: ['INSERT'],
+  FOR: ['DECLARE', 'OPEN', 'SELECT', 'RETURN'],
+  IF: ['DROP', 'CREATE', 'ALTER'],
+};
+
+// BEGIN TRAN and friends are statements, not blocks
+const BEGIN_STATEMENTS = new Set(['TRAN', 'TRANSACTION', 'DISTRIBUTED', 'DIALOG', 'CONVERSATION', 'ISOLATION', 'WORK']);
+
+const upper = (t: SqlToken | undefined) => t?.text.toUpperCase() ?? '';
+
+/** Measure one procedure or function definition. */
+export function measureRoutine(
+  name: string,
+  type: RoutineComplexity['type'],
+  definition: string,
+  lookup: SqlObjectLookup,
+): RoutineComplexity {
+  const all = tokenizeDefinition(definition);
+  const code = all.filter((t) => t.type !== 'whitespace' && t.type !== 'comment');
+  const codeIndex = new Map(code.map((t, i) => [t, i]));
+  const linesOfCode = new Set(code.map((t) => t.line)).size;
+
+  // One pass over the code: statements, decision points and block nesting
+  const statementAt: number[] = [];    // statement number of each code token
+  const blocks: ('BEGIN' | 'CASE' | 'IF' | 'LOOP')[] = [];
+  let statements = 0;
+  let declares = 0;
+  let decisions = 0;
+  let nesting = 0;
+  let body = false;             // past the CREATE … AS header
+  let dollar = false;           // inside a PostgreSQL $tag$ body
+  let outer = false;            // the body is wrapped in one BEGIN … END
+  let current: string | null = null;
+  let parens = 0;
+
+  code.forEach((t, i) => {
+    const word = t.type === 'word' && code[i - 1]?.text !== '.' ? upper(t) : '';
+    const next = upper(code[i + 1]);
+    const top = blocks[blocks.length - 1];
+
+    if (t.text === '(') parens++;
+    else if (t.text === ')') parens = Math.max(0, parens - 1);
+    else if (t.text === ';' && parens === 0) {
+      // A PL/pgSQL DECLARE section runs up to its BEGIN
+      if (!(current === 'DECLARE' && dollar && blocks.length === 0)) current = null;
+    } else if (t.type === 'string' && /^\$[A-Za-z_]*\$$/.test(t.text)) {
+      body = true;
+      dollar = !dollar;
+      current = null;
+    } else if (!body) {
+      if (word === 'AS' && parens === 0) body = true;
+    } else if (word === 'BEGIN' && !BEGIN_STATEMENTS.has(next)) {
+      if (blocks.length === 0 && statements === declares) outer = true;
+      blocks.push('BEGIN');
+      current = null;
+      if (next === 'CATCH') decisions++;
+    } else if (word === 'CASE') {
+      blocks.push('CASE');
+    } else if (word === 'END') {
+      // END IF / END LOOP close PL/pgSQL blocks; in T-SQL an IF after END is the next statement
+      const suffixed = (next === 'IF' || next === 'LOOP') && blocks.includes(next);
+      const kind = suffixed ? next : top === 'CASE' ? 'CASE' : 'BEGIN';
+      const at = blocks.lastIndexOf(kind);
+      if (at >= 0) blocks.length = at;
+      if (kind !== 'CASE') current = suffixed ? `END ${kind}` : 'END';
+    } else if (current?.startsWith('END ') && word === current.slice(4)) {
+      current = 'END';
+    } else if (word === 'WHEN') {
+      decisions++;
+    } else if (word === 'THEN' && current === 'IF' && top !== 'CASE') {
+      // PL/pgSQL IF … THEN … END IF
+      blocks.push('IF');
+      current = null;
+    } else if ((word === 'ELSIF' || word === 'ELSEIF') && top === 'IF') {
+      blocks.pop();
+      decisions++;
+      current = 'IF';
+    } else if (word === 'ELSE' && top !== 'CASE') {
+      current = null;
+    } else if (word === 'LOOP') {
+      blocks.push('LOOP');
+      current = null;
+    } else if (word === 'IIF' && next === '(') {
+      decisions++;
+    } else if (t.text === ':' && next === '=' && current === null && parens === 0) {
+      // PL/pgSQL assignment
+      statements++;
+      current = 'ASSIGN';
+    } else if (parens === 0 && STATEMENTS.has(word)) {
+      const continues = current !== null && (CONTINUES[word]?.includes(current)
+        || word === 'WITH' || word === 'NULL'
+        || (word === 'SELECT' && ['UNION', 'ALL', 'EXCEPT', 'INTERSECT'].includes(upper(code[i - 1]))));
+      if (!continues) {
+        statements++;
+        if (word === 'DECLARE') declares++;
+        if (word === 'IF' || word === 'WHILE' || word === 'FOR' || word === 'FOREACH') decisions++;
+        current = word;
+      }
+    }
+    nesting = Math.max(nesting, blocks.filter((b) => b !== 'CASE').length - (outer ? 1 : 0));
+    statementAt.push(statements);
+  });
+
+  // Table references: targets of writes, everything else a read (once per statement)
+  const tables = new Set<string>();
+  const written = new Set<string>();
+  const read = new Set<string>();
+  const writeAliases = new Map<string, number>();   // UPDATE c … FROM dbo.T c
+  const refs = findObjectRefs(all, lookup).filter((r) => r.type === 'Table');
+  const isWriteTarget = (k: number) => {
+    const prev = upper(code[k - 1]);
+    const prev2 = upper(code[k - 2]);
+    return prev === 'UPDATE' || prev === 'INTO' || prev === 'INSERT' || prev === 'MERGE'
+      || (prev === 'TABLE' && prev2 === 'TRUNCATE') || (prev === 'FROM' && prev2 === 'DELETE') || prev === 'DELETE';
+  };
+  code.forEach((t, k) => {
+    if ((t.type === 'word' || t.type === 'quoted') && isWriteTarget(k) && code[k + 1]?.text !== '.') {
+      writeAliases.set(unquoteIdentifier(t.text).toLowerCase(), statementAt[k]);
+    }
+  });
+  refs.forEach((ref) => {
+    const k = codeIndex.get(all[ref.start]);
+    const end = codeIndex.get(all[ref.end - 1]);
+    if (k === undefined || end === undefined) return;
+    tables.add(ref.name);
+    const statement = statementAt[k];
+    const alias = code[end + 1] && upper(code[end + 1]) === 'AS' ? code[end + 2] : code[end + 1];
+    const aliasWritten = alias && writeAliases.get(unquoteIdentifier(alias.text).toLowerCase()) === statement;
+    if (isWriteTarget(k) || aliasWritten) written.add(`${statement}:${ref.name}`);
+    else read.add(`${statement}:${ref.name}`);
+  });
+  written.forEach((key) => read.delete(key));
+
+  return {
+    name,
+    type,
+    linesOfCode,
+    statements,
+    cyclomatic: 1 + decisions,
+    nesting,
+    tables: [...tables].sort(),
+    writes: written.size,
+    reads: read.size,
+  };
+}
+
+/** Metrics for every stored procedure and function with a definition. */
+export function measureSchema(schema: DatabaseSchema): RoutineComplexity[] {
+  const lookup = buildObjectLookup(schema);
+  return [
+    ...schema.storedProcedures.filter((p) => p.definition).map((p) => measureRoutine(p.fullName, 'Procedure', p.definition, lookup)),
+    ...schema.functions.filter((f) => f.definition).map((f) => measureRoutine(f.fullName, 'Function', f.definition, lookup)),
+  ];
+}
+
+// ── Hook ────────────────────────────────────────────────────────────────────
+
+let cached: { schema: DatabaseSchema; metrics: RoutineComplexity[] } | null = null;
+
+// Tokenizing every routine is the expensive part; do it once per schema
+export function useRoutineComplexity(): RoutineComplexity[] | null {
+  const schema = useStore((s) => s.result?.schema ?? null);
+  if (!schema) return null;
+  if (!cached || cached.schema !== schema) cached = { schema, metrics: measureSchema(schema) };
+  return cached.metrics;
+}
@@ -0,0 +1,277 @@
+import type {
+  DatabaseSchema,
+  TableInfo,
+  ColumnInfo,
+  IndexInfo,
+  ForeignKeyInfo,
+  ViewInfo,
+  StoredProcedureInfo,
+  FunctionInfo,
+  TriggerInfo,
+} from '../api/types';
+import { formatColumnType } from './useDdlGenerator';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ItemChange<T> {
+  name: string;
+  kind: ChangeKind;
+  before: T | null;
+  after: T | null;
+  details: string[];   // human-readable property changes, empty for added/removed
+}
+
+export interface TableChange extends ItemChange<TableInfo> {
+  columns: ItemChange<ColumnInfo>[];
+  indexes: ItemChange<IndexInfo>[];
+  foreignKeys: ItemChange<ForeignKeyInfo>[];
+}
+
+export interface SchemaDiff {
+  tables: TableChange[];
+  views: ItemChange<ViewInfo>[];
+  procedures: ItemChange<StoredProcedureInfo>[];
+  functions: ItemChange<FunctionInfo>[];
+  triggers: ItemChange<TriggerInfo>[];
+}
+
+export type DiffCategory = keyof SchemaDiff;
+
+export interface LineChange {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+// ── Schema diff ─────────────────────────────────────────────────────────────
+
+export function diffSchemas(before: DatabaseSchema, after: DatabaseSchema): SchemaDiff {
+  return {
+    tables: diffTables(before.tables, after.tables),
+    views: diffByKey(before.views, after.views, (v) => v.fullName, (a, b) => [
+      ...definitionDetails(a.definition, b.definition),
+      ...diffByKey(a.columns, b.columns, (c) => c.name, columnDetails).map(describeChange('column')),
+    ]),
+    procedures: diffByKey(before.storedProcedures, after.storedProcedures, (p) => p.fullName, (a, b) =>
+      definitionDetails(a.definition, b.definition)),
+    functions: diffByKey(before.functions, after.functions, (f) => f.fullName, (a, b) => [
+      ...(a.functionType !== b.functionType ? [`type ${a.functionType} → ${b.functionType}`] : []),
+      ...definitionDetails(a.definition, b.definition),
+    ]),
+    triggers: diffByKey(before.triggers, after.triggers, (t) => t.fullName, (a, b) => [
+      ...(a.triggerEvents !== b.triggerEvents ? [`events ${a.triggerEvents} → ${b.triggerEvents}`] : []),
+      ...(a.isEnabled !== b.isEnabled ? [b.isEnabled ? 'enabled' : 'disabled'] : []),
+      ...definitionDetails(a.definition, b.definition),
+    ]),
+  };
+}
+
+export function countChanges(diff: SchemaDiff): Record<ChangeKind, number> {
+  const counts: Record<ChangeKind, number> = { added: 0, removed: 0, changed: 0 };
+  (Object.keys(diff) as DiffCategory[]).forEach((cat) => {
+    diff[cat].forEach((c) => { counts[c.kind]++; });
+  });
+  return counts;
+}
+
+function diffTables(before: TableInfo[], after: TableInfo[]): TableChange[] {
+  const beforeMap = new Map(before.map((t) => [t.fullName, t]));
+  const afterMap = new Map(after.map((t) => [t.fullName, t]));
+  const changes: TableChange[] = [];
+
+  for (const [name, a] of beforeMap) {
+    const b = afterMap.get(name);
+    if (!b) {
+      changes.push({ name, kind: 'removed', before: a, after: null, details: [], columns: [], indexes: [], foreignKeys: [] });
+      continue;
+    }
+    const columns = diffByKey(a.columns, b.columns, (c) => c.name, columnDetails);
+    const indexes = diffByKey(a.indexes, b.indexes, (i) => i.name, indexDetails);
+    const foreignKeys = diffByKey(a.foreignKeys, b.foreignKeys, (fk) => fk.name, foreignKeyDetails);
+    if (columns.length + indexes.length + foreignKeys.length > 0) {
+      const details = [
+        ...columns.map(describeChange('column')),
+        ...indexes.map(describeChange('index')),
+        ...foreignKeys.map(describeChange('foreign key')),
+      ];
+      changes.push({ name, kind: 'changed', before: a, after: b, details, columns, indexes, foreignKeys });
+    }
+  }
+
+  for (const [name, b] of afterMap) {
+    if (!beforeMap.has(name)) {
+      changes.push({ name, kind: 'added', before: null, after: b, details: [], columns: [], indexes: [], foreignKeys: [] });
+    }
+  }
+
+  return changes.sort(byName);
+}
+
+function diffByKey<T>(
+  before: T[],
+  after: T[],
+  key: (item: T) => string,
+  details: (a: T, b: T) => string[],
+): ItemChange<T>[] {
+  const beforeMap = new Map(before.map((i) => [key(i), i]));
+  const afterMap = new Map(after.map((i) => [key(i), i]));
+  const changes: ItemChange<T>[] = [];
+
+  for (const [name, a] of beforeMap) {
+    const b = afterMap.get(name);
+    if (!b) {
+      changes.push({ name, kind: 'removed', before: a, after: null, details: [] });
+      continue;
+    }
+    const d = details(a, b);
+    if (d.length > 0) changes.push({ name, kind: 'changed', before: a, after: b, details: d });
+  }
+
+  for (const [name, b] of afterMap) {
+    if (!beforeMap.has(name)) changes.push({ name, kind: 'added', before: null, after: b, details: [] });
+  }
+
+  return changes.sort(byName);
+}
+
+function byName(a: { name: string }, b: { name: string }): number {
+  return a.name.localeCompare(b.name);
+}
+
+function describeChange(label: string) {
+  return (c: ItemChange<unknown>): string =>
+    c.kind === 'changed'
+      ? `${label} ${c.name}: ${c.details.join(', ')}`
+      : `${label} ${c.name} ${c.kind}`;
+}
+
+function columnDetails(a: ColumnInfo, b: ColumnInfo): string[] {
+  const d: string[] = [];
+  const ta = formatColumnType(a), tb = formatColumnType(b);
+  if (ta !== tb) d.push(`type ${ta} → ${tb}`);
+  if (a.isNullable !== b.isNullable) d.push(b.isNullable ? 'now nullable' : 'now NOT NULL');
+  if (a.isPrimaryKey !== b.isPrimaryKey) d.push(b.isPrimaryKey ? 'added to PK' : 'removed from PK');
+  if (a.isIdentity !== b.isIdentity) d.push(b.isIdentity ? 'now identity' : 'no longer identity');
+  if (a.isComputed !== b.isComputed) d.push(b.isComputed ? 'now computed' : 'no longer computed');
+  if ((a.defaultValue ?? '') !== (b.defaultValue ?? '')) d.push(`default ${a.defaultValue ?? 'none'} → ${b.defaultValue ?? 'none'}`);
+  return d;
+}
+
+function indexDetails(a: IndexInfo, b: IndexInfo): string[] {
+  const d: string[] = [];
+  if (a.type !== b.type) d.push(`type ${a.type} → ${b.type}`);
+  if (a.isUnique !== b.isUnique) d.push(b.isUnique ? 'now unique' : 'no longer unique');
+  if (a.isClustered !== b.isClustered) d.push(b.isClustered ? 'now clustered' : 'no longer clustered');
+  if (a.columns.join(',') !== b.columns.join(',')) d.push(`columns (${a.columns.join(', ')}) → (${b.columns.join(', ')})`);
+  return d;
+}
+
+function foreignKeyDetails(a: ForeignKeyInfo, b: ForeignKeyInfo): string[] {
+  const d: string[] = [];
+  const toA = `${a.toSchema}.${a.toTable}.${a.toColumn}`, toB = `${b.toSchema}.${b.toTable}.${b.toColumn}`;
+  if (a.fromColumn !== b.fromColumn) d.push(`column ${a.fromColumn} → ${b.fromColumn}`);
+  if (toA !== toB) d.push(`references ${toA} → ${toB}`);
+  if (a.deleteRule !== b.deleteRule) d.push(`on delete ${a.deleteRule} → ${b.deleteRule}`);
+  if (a.updateRule !== b.updateRule) d.push(`on update ${a.updateRule} → ${b.updateRule}`);
+  return d;
+}
+
+function definitionDetails(a: string, b: string): string[] {
+  if (normalizeDefinition(a) === normalizeDefinition(b)) return [];
+  const lines = diffLines(a, b);
+  const added = lines.filter((l) => l.type === 'added').length;
+  const removed = lines.filter((l) => l.type === 'removed').length;
+  return [`definition +${added} −${removed} lines`];
+}
+
+// Ignore line-ending and trailing-whitespace noise between environments
+function normalizeDefinition(def: string | null | undefined): string {
+  return splitLines(def ?? '').join('\n').trim();
+}
+
+function splitLines(text: string): string[] {
+  return text.replace(/\r\n?/g, '\n').split('\n').map((l) => l.replace(/\s+$/, ''));
+}
+
+// ── Line diff (Myers O(ND)) ─────────────────────────────────────────────────
+
+// Beyond this many edits the trace gets large; fall back to a block replace
+const MAX_EDIT_DISTANCE = 2000;
+
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = splitLines(before ?? '');
+  const b = splitLines(after ?? '');
+
+  // Trim common prefix/suffix so the O(ND) core only sees the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length, endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const ops: { type: LineChange['type']; text: string }[] = [];
+  for (let i = 0; i < start; i++) ops.push({ type: 'same', text: a[i] });
+  ops.push(...myers(a.slice(start, endA), b.slice(start, endB)));
+  for (let i = endA; i < a.length; i++) ops.push({ type: 'same', text: a[i] });
+
+  let oldLine = 1, newLine = 1;
+  return ops.map((op) => {
+    if (op.type === 'same') return { ...op, oldLine: oldLine++, newLine: newLine++ };
+    if (op.type === 'removed') return { ...op, oldLine: oldLine++, newLine: null };
+    return { ...op, oldLine: null, newLine: newLine++ };
+  });
+}
+
+function myers(a: string[], b: string[]): { type: LineChange['type']; text: string }[] {
+  const n = a.length, m = b.length;
+  if (n === 0) return b.map((text) => ({ type: 'added' as const, text }));
+  if (m === 0) return a.map((text) => ({ type: 'removed' as const, text }));
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let done = false;
+  for (let d = 0; d <= max && !done; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return [
+        ...a.map((text) => ({ type: 'removed' as const, text })),
+        ...b.map((text) => ({ type: 'added' as const, text })),
+      ];
+    }
+    // Step d only reads diagonals -d-1..d+1, so keep just those rather than the whole array
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]        // step down (insertion)
+        : v[offset + k - 1] + 1;   // step right (deletion)
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) { done = true; break; }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: { type: LineChange['type']; text: string }[] = [];
+  let x = n, y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];   // diagonal k at index k + d + 1
+    const k = x - y;
+    const prevK = (k === -d || (k !== d && vd[d + k] < vd[d + k + 2])) ? k + 1 : k - 1;
+    const prevX = vd[d + 1 + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'same', text: a[x - 1] });
+      x--; y--;
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ type: 'added', text: b[y - 1] });
+      else ops.push({ type: 'removed', text: a[x - 1] });
+    }
+    x = prevX; y = prevY;
+  }
+
+  return ops.reverse();
+}
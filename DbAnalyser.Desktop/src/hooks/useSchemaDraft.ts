@@ -0,0 +1,94 @@
+import { generateMigration, parseColumnType, type SqlDialect } from './useDdlGenerator';
+import type { ColumnInfo, DatabaseSchema, ForeignKeyInfo, SchemaDraft, TableInfo } from '../api/types';
+
+/** The loaded schema with the draft's tables added or replaced. */
+export function applyDraft(schema: DatabaseSchema, draft: SchemaDraft): DatabaseSchema {
+  const existing = new Set(schema.tables.map((t) => t.fullName));
+  return {
+    ...schema,
+    tables: [
+      ...schema.tables.map((t) => draft.tables[t.fullName] ?? t),
+      ...Object.values(draft.tables).filter((t) => !existing.has(t.fullName)),
+    ],
+  };
+}
+
+export function draftColumn(name: string, type: string, ordinalPosition: number, overrides: Partial<ColumnInfo> = {}): ColumnInfo {
+  return {
+    name,
+    ...parseColumnType(type),
+    isNullable: true,
+    isPrimaryKey: false,
+    isIdentity: false,
+    isComputed: false,
+    defaultValue: null,
+    ordinalPosition,
+    ...overrides,
+  };
+}
+
+/** A new table with an identity primary key, ready for more columns. */
+export function draftTable(schemaName: string, tableName: string, databaseName?: string): TableInfo {
+  return {
+    schemaName,
+    tableName,
+    databaseName,
+    fullName: databaseName ? `${databaseName}.${schemaName}.${tableName}` : `${schemaName}.${tableName}`,
+    columns: [draftColumn('Id', 'int', 1, { isNullable: false, isPrimaryKey: true, isIdentity: true })],
+    indexes: [],
+    foreignKeys: [],
+  };
+}
+
+/**
+ * Add an FK from `from` to `to`. Without a column on either end it references the single-column
+ * primary key of `to`, adding a matching nullable column to `from` when none is named after it.
+ * Returns the updated `from` table, or null when `to` has no single-column key to point at.
+ */
+export function addDraftForeignKey(from: TableInfo, to: TableInfo, fromColumn?: string, toColumn?: string): TableInfo | null {
+  const pk = to.columns.filter((c) => c.isPrimaryKey);
+  const target = toColumn ? to.columns.find((c) => c.name === toColumn) : pk.length === 1 ? pk[0] : undefined;
+  if (!target) return null;
+
+  let columns = from.columns;
+  let sourceName = fromColumn;
+  if (!sourceName) {
+    sourceName = `${to.tableName}${target.name}`;
+    if (!columns.some((c) => c.name === sourceName)) {
+      columns = [...columns, {
+        ...target,
+        name: sourceName,
+        isNullable: true,
+        isPrimaryKey: false,
+        isIdentity: false,
+        defaultValue: null,
+        ordinalPosition: columns.length + 1,
+      }];
+    }
+  }
+
+  const taken = new Set(from.foreignKeys.map((fk) => fk.name));
+  const base = `FK_${from.tableName}_${to.tableName}`;
+  let name = base;
+  for (let i = 2; taken.has(name); i++) name = `${base}_${i}`;
+
+  const fk: ForeignKeyInfo = {
+    name,
+    fromSchema: from.schemaName,
+    fromTable: from.tableName,
+    fromColumn: sourceName,
+    toSchema: to.schemaName,
+    toTable: to.tableName,
+    toColumn: target.name,
+    deleteRule: 'NO_ACTION',
+    updateRule: 'NO_ACTION',
+    fromDatabase: from.databaseName,
+    toDatabase: to.databaseName,
+  };
+  return { ...from, columns, foreignKeys: [...from.foreignKeys, fk] };
+}
+
+/** DDL that turns the loaded schema into the drafted one, in the same format as the table scripts. */
+export function generateDraftDdl(schema: DatabaseSchema, name: string, draft: SchemaDraft, dialect: SqlDialect): string {
+  return generateMigration(schema, applyDraft(schema, draft), dialect, `Draft "${name}"`);
+}
@@ -0,0 +1,260 @@
+import { isBatchSeparator, type SqlToken } from './useSqlTokenizer';
+import { SQL_DATA_TYPES, SQL_KEYWORDS, tokenizeDefinition } from './useSqlHighlight';
+
+const INDENT = '    ';
+
+// Words that start a new line at the current block indent
+const CLAUSES = new Set([
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'ORDER', 'HAVING', 'UNION', 'EXCEPT', 'INTERSECT', 'LIMIT', 'OFFSET',
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'VALUES', 'SET', 'USING', 'DECLARE', 'IF', 'ELSE', 'WHILE', 'RETURN',
+  'RETURNS', 'LANGUAGE', 'PRINT', 'EXEC', 'EXECUTE', 'OPEN', 'FETCH', 'CLOSE', 'DEALLOCATE', 'RAISERROR', 'THROW',
+  'CREATE', 'ALTER', 'DROP', 'TRUNCATE', 'GRANT', 'DENY', 'REVOKE', 'COMMIT', 'ROLLBACK', 'PERFORM', 'RAISE',
+  'EXCEPTION',
+]);
+
+// A clause word right after one of these belongs to the same phrase (ON DELETE SET NULL, DELETE FROM, ELSE IF)
+const NO_BREAK_AFTER = new Set([
+  'ON', 'FOR', 'AFTER', 'BEFORE', 'OF', 'INSTEAD', 'OR', 'NOT', 'IS', 'TABLE', 'END', 'ELSE', 'DELETE', 'INSERT',
+  'EACH', 'CREATE', 'ALTER', 'DROP', 'WITH', 'OPEN', 'CLOSE', 'FETCH', 'NEXT', 'PRIOR', 'FIRST', 'LAST', 'ABSOLUTE',
+  'RELATIVE', 'IN', '(', ',', '.', '=',
+]);
+
+const JOIN_PREFIXES = new Set(['INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'OUTER']);
+const JOIN_HINTS = new Set([...JOIN_PREFIXES, 'HASH', 'MERGE', 'LOOP', 'REMOTE']);
+// Comma-separated lists in these clauses get one item per line
+const LIST_CLAUSES = new Set(['SELECT', 'GROUP', 'ORDER', 'SET', 'DECLARE', 'VALUES']);
+// Conditions in these clauses get one AND / OR per line
+const CONDITION_CLAUSES = new Set(['WHERE', 'ON', 'HAVING']);
+const BEGIN_STATEMENTS = new Set(['TRAN', 'TRANSACTION', 'DISTRIBUTED', 'DIALOG', 'CONVERSATION', 'ISOLATION', 'WORK']);
+
+interface Block {
+  kind: 'BEGIN' | 'CASE' | 'IF' | 'LOOP' | '(' | 'SUB' | '$';
+  indent: number;
+  clause: string;
+  tag?: string;
+}
+
+/**
+ * Lay a T-SQL or PostgreSQL definition out one clause per line, indented by block
+ * (BEGIN … END, PL/pgSQL IF and LOOP, subqueries), with keywords upper-cased. Spacing within
+ * a line follows the original, and comments and blank lines between statements are kept.
+ */
+export function formatSql(sql: string): string {
+  const tokens = tokenizeDefinition(sql);
+  const lines: string[] = [];
+  const stack: Block[] = [];
+  let line = '';
+  let indent = 0;
+  let clause = '';
+  let gap = '';
+  let prev = '';             // upper-cased text of the last emitted code token
+  let mustBreak = false;     // after a line comment
+  let breakNext = false;     // next token starts a line unless it is punctuation
+  let breakExtra = 0;
+  let blank = false;
+  let pendingIf: number | null = null;   // stack depth of an IF still waiting for THEN
+  let elsif = false;
+  let between = false;
+  let suffix = '';          // TRY, CATCH, IF, LOOP or CASE completing the BEGIN or END just emitted
+
+  const lineAt = (level: number) => {
+    if (line.trim()) lines.push(line.trimEnd());
+    if (blank && lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+    blank = false;
+    line = INDENT.repeat(Math.max(0, level));
+  };
+  const newline = (extra = 0) => lineAt(indent + extra);
+  const emit = (text: string, space: boolean) => {
+    if (line.trim() && space) line += ' ';
+    line += text;
+  };
+  const popTo = (kinds: Block['kind'][]): Block | undefined => {
+    for (let k = stack.length - 1; k >= 0; k--) {
+      if (kinds.includes(stack[k].kind)) {
+        const block = stack[k];
+        stack.length = k;
+        return block;
+      }
+    }
+    return undefined;
+  };
+  const nextCode = (i: number): SqlToken | undefined => {
+    for (let j = i + 1; j < tokens.length; j++) if (tokens[j].type !== 'whitespace' && tokens[j].type !== 'comment') return tokens[j];
+    return undefined;
+  };
+
+  tokens.forEach((t, i) => {
+    if (t.type === 'whitespace') {
+      gap += t.text;
+      return;
+    }
+    const before = gap;
+    gap = '';
+    if ((before.match(/\n/g)?.length ?? 0) >= 2 && (lines.length > 0 || line.trim())) {
+      blank = true;
+      breakNext = true;
+    }
+    const space = before.length > 0 || prev === ',';
+
+    if (t.type === 'comment') {
+      if (mustBreak || breakNext || before.includes('\n')) newline(breakNext ? breakExtra : 0);
+      mustBreak = false;
+      breakNext = false;
+      breakExtra = 0;
+      emit(t.text, true);
+      if (t.text.startsWith('--') || tokens[i + 1]?.text.includes('\n')) mustBreak = true;
+      return;
+    }
+
+    const upper = t.text.toUpperCase();
+    const word = t.type === 'word' && prev !== '.' ? upper : '';
+    const next = nextCode(i);
+    const nextUpper = next?.text.toUpperCase() ?? '';
+    const top = stack[stack.length - 1];
+    const nested = top?.kind === '(' || top?.kind === 'CASE';
+    const text = word && (SQL_KEYWORDS.has(word) || SQL_DATA_TYPES.has(word)) ? word : t.text;
+
+    if (mustBreak || (breakNext && ![',', ';', ')'].includes(t.text))) newline(breakNext ? breakExtra : 0);
+    mustBreak = false;
+    breakNext = false;
+    breakExtra = 0;
+
+    const startLine = (extra = 0) => newline(extra);
+
+    if (word === 'GO' && isBatchSeparator(tokens, i)) {
+      stack.length = 0;
+      indent = 0;
+      clause = '';
+      startLine();
+      emit(text, false);
+      breakNext = true;
+    } else if (t.type === 'string' && /^\$[A-Za-z_]*\$$/.test(t.text)) {
+      // PostgreSQL function body delimiters
+      const open = stack.find((b) => b.kind === '$' && b.tag === t.text);
+      if (open) {
+        popTo(['$']);
+        indent = open.indent;
+        clause = open.clause;
+        startLine();
+        emit(text, false);
+      } else {
+        emit(text, space);
+        stack.push({ kind: '$', indent, clause, tag: t.text });
+        clause = '';
+        breakNext = true;
+      }
+    } else if (word === 'BEGIN' && !BEGIN_STATEMENTS.has(nextUpper) && nextUpper !== ';') {
+      if (prev !== 'ELSE') startLine();
+      emit(text, space);
+      stack.push({ kind: 'BEGIN', indent, clause });
+      indent++;
+      clause = '';
+      suffix = nextUpper === 'TRY' || nextUpper === 'CATCH' ? nextUpper : '';
+      breakNext = !suffix;
+    } else if (word === 'END') {
+      // END IF / END LOOP / END CASE close PL/pgSQL blocks; in T-SQL an IF after END is the next statement
+      const suffixed = ['IF', 'LOOP', 'CASE'].includes(nextUpper) && stack.some((b) => b.kind === nextUpper);
+      const block = suffixed ? popTo([nextUpper as Block['kind']]) : popTo(top?.kind === 'CASE' ? ['CASE'] : ['BEGIN', 'CASE']);
+      if (block?.kind === 'CASE' && !suffixed) {
+        emit(text, space);
+      } else {
+        if (block) {
+          indent = block.indent;
+          clause = block.clause;
+        }
+        startLine();
+        emit(text, false);
+        suffix = suffixed || nextUpper === 'TRY' || nextUpper === 'CATCH' ? nextUpper : '';
+        breakNext = !suffix;
+      }
+    } else if (word && word === suffix && (prev === 'BEGIN' || prev === 'END')) {
+      emit(text, space);
+      suffix = '';
+      breakNext = true;
+    } else if (word === 'CASE') {
+      emit(text, space);
+      stack.push({ kind: 'CASE', indent, clause });
+    } else if (word === 'THEN' && top?.kind !== 'CASE') {
+      // PL/pgSQL IF … THEN opens a block; MERGE and EXCEPTION handlers just continue on the next line
+      emit(text, space);
+      if (pendingIf === stack.length && !elsif) {
+        stack.push({ kind: 'IF', indent, clause });
+        indent++;
+      }
+      pendingIf = null;
+      elsif = false;
+      breakNext = true;
+    } else if ((word === 'ELSIF' || word === 'ELSEIF' || word === 'ELSE') && top?.kind === 'IF') {
+      lineAt(top.indent);
+      emit(text, false);
+      if (word === 'ELSE') breakNext = true;
+      else elsif = true;
+    } else if (word === 'LOOP' && prev !== 'END') {
+      emit(text, space);
+      stack.push({ kind: 'LOOP', indent, clause });
+      indent++;
+      breakNext = true;
+    } else if (t.text === '(') {
+      emit(text, space);
+      if (nextUpper === 'SELECT' || nextUpper === 'WITH') {
+        stack.push({ kind: 'SUB', indent, clause });
+        indent++;
+        clause = '';
+        breakNext = true;
+      } else {
+        stack.push({ kind: '(', indent, clause });
+      }
+    } else if (t.text === ')') {
+      const block = popTo(['(', 'SUB']);
+      if (block?.kind === 'SUB') {
+        indent = block.indent;
+        clause = block.clause;
+        startLine();
+        emit(text, false);
+      } else {
+        emit(text, space);
+      }
+    } else if (t.text === ';') {
+      emit(text, false);
+      pendingIf = null;
+      between = false;
+      clause = '';
+      breakNext = true;
+    } else if (t.text === ',') {
+      emit(text, false);
+      if (!nested && LIST_CLAUSES.has(clause)) {
+        breakNext = true;
+        breakExtra = 1;
+      }
+    } else if (word && !nested) {
+      const isJoin = (JOIN_PREFIXES.has(word) && nextUpper !== '(' && !JOIN_PREFIXES.has(prev))
+        || (word === 'JOIN' && !JOIN_HINTS.has(prev));
+      const isCondition = (word === 'AND' || word === 'OR') && CONDITION_CLAUSES.has(clause) && !between;
+      if (isJoin) {
+        startLine();
+        clause = 'JOIN';
+      } else if (isCondition) {
+        startLine(1);
+      } else if (CLAUSES.has(word)) {
+        if (!NO_BREAK_AFTER.has(prev)) startLine();
+        if (pendingIf === stack.length) pendingIf = null;
+        clause = word;
+      } else if (word === 'ON') {
+        clause = 'ON';
+      }
+      if (word === 'IF') pendingIf = stack.length;
+      if (word === 'BETWEEN') between = true;
+      else if (word === 'AND') between = false;
+      emit(text, space);
+    } else {
+      if (word === 'BETWEEN') between = true;
+      else if (word === 'AND') between = false;
+      emit(text, space);
+    }
+
+    prev = word || t.text;
+  });
+
+  newline();
+  return lines.join('\n');
+}
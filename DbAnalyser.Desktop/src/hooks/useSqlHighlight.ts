@@ -0,0 +1,250 @@
+import { useMemo } from 'react';
+import { useStore } from './useStore';
+import { tokenizeSql, unquoteIdentifier, type SqlToken } from './useSqlTokenizer';
+import type { DatabaseSchema } from '../api/types';
+
+// Reserved and common non-reserved words of T-SQL and PostgreSQL / PL/pgSQL
+export const SQL_KEYWORDS = new Set(`
+  ADD ALL ALTER AND ANY APPLY AS ASC AUTHORIZATION BACKUP BEGIN BETWEEN BREAK BROWSE BULK BY CASCADE CASE CATCH
+  CHECK CHECKPOINT CLOSE CLUSTERED COLLATE COLUMN COMMIT COMPUTE CONSTRAINT CONTAINS CONTINUE CONVERSATION CREATE
+  CROSS CURRENT CURSOR DATABASE DEALLOCATE DECLARE DEFAULT DELETE DENY DESC DISTINCT DISTRIBUTED DO DROP DYNAMIC
+  ELSE ELSIF ELSEIF END ERRLVL ESCAPE EXCEPT EXCEPTION EXEC EXECUTE EXISTS EXIT FAST_FORWARD FETCH FILLFACTOR FIRST
+  FOR FOREIGN FORWARD_ONLY FROM FULL FUNCTION GLOBAL GO GOTO GRANT GROUP HAVING HOLDLOCK IDENTITY IF ILIKE IN INDEX
+  INNER INSERT INSTEAD INTERSECT INTO IS ISOLATION JOIN KEY KEYSET KILL LANGUAGE LAST LEFT LEVEL LIKE LIMIT LOCAL LOOP
+  MATCHED MERGE NEXT NOCHECK NOCOUNT NOLOCK NONCLUSTERED NOT NOWAIT NULL OF OFF OFFSET ON ONLY OPEN OPTION OR ORDER
+  OUT OUTER OUTPUT OVER PARTITION PERFORM PERCENT PIVOT PLAN PRIMARY PRINT PROC PROCEDURE RAISE RAISERROR READ
+  READONLY READ_ONLY RECOMPILE RECORD REFERENCES REPEATABLE REPLACE RETURN RETURNING RETURNS REVERSE REVOKE RIGHT
+  ROLLBACK ROWCOUNT ROWS SAVE SCHEMA SCROLL SELECT SEQUENCE SERIALIZABLE SET SETOF SOME STATIC STRICT TABLE THEN
+  THROW TIES TO TOP TRAN TRANSACTION TRIGGER TRUNCATE TRY TYPE UNCOMMITTED UNION UNIQUE UNPIVOT UPDATE USING VALUES
+  VARYING VIEW VOLATILE STABLE IMMUTABLE WAITFOR WHEN WHERE WHILE WITH WITHIN XACT_ABORT AFTER BEFORE EACH ROW NEW
+  OLD ASYNC NOEXPAND READPAST ROWLOCK TABLOCK TABLOCKX UPDLOCK XLOCK PAGLOCK SECURITY DEFINER INVOKER ENCRYPTION
+  SCHEMABINDING CALLED INPUT QUERY DIAGNOSTICS FOUND NOTICE WARNING USE
+`.trim().split(/\s+/));
+
+export const SQL_DATA_TYPES = new Set(`
+  BIGINT BINARY BIT BOOLEAN BOOL BYTEA CHAR CHARACTER DATE DATETIME DATETIME2 DATETIMEOFFSET DECIMAL DOUBLE
+  FLOAT GEOGRAPHY GEOMETRY HIERARCHYID IMAGE INT INTEGER INTERVAL JSON JSONB MONEY NCHAR NTEXT NUMERIC NVARCHAR
+  PRECISION REAL SERIAL BIGSERIAL SMALLDATETIME SMALLINT SMALLMONEY SQL_VARIANT SYSNAME TEXT TIME TIMESTAMP
+  TIMESTAMPTZ TINYINT UNIQUEIDENTIFIER UUID VARBINARY VARCHAR VOID XML
+`.trim().split(/\s+/));
+
+export type SqlHighlight = 'keyword' | 'type' | 'function' | 'identifier' | 'string' | 'number' | 'variable' | 'comment' | 'plain';
+
+/**
+ * Tokenize a definition for display. PostgreSQL function bodies arrive as one $tag$ string,
+ * so those are split into their delimiters and the code between them.
+ */
+export function tokenizeDefinition(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  tokenizeSql(sql).forEach((t) => {
+    const tag = t.type === 'string' ? /^\$[A-Za-z_]*\$/.exec(t.text)?.[0] : undefined;
+    if (!tag || t.text.length < tag.length * 2 || !t.text.endsWith(tag)) {
+      tokens.push(t);
+      return;
+    }
+    const body = t.text.slice(tag.length, -tag.length);
+    tokens.push({ type: 'string', text: tag, start: t.start, line: t.line });
+    tokenizeSql(body).forEach((inner) => tokens.push({ ...inner, start: inner.start + t.start + tag.length, line: inner.line + t.line - 1 }));
+    tokens.push({ type: 'string', text: tag, start: t.start + t.text.length - tag.length, line: t.line + body.split('\n').length - 1 });
+  });
+  return tokens;
+}
+
+function significant(tokens: SqlToken[], from: number, step: 1 | -1): SqlToken | undefined {
+  for (let j = from + step; j >= 0 && j < tokens.length; j += step) {
+    if (tokens[j].type !== 'whitespace' && tokens[j].type !== 'comment') return tokens[j];
+  }
+  return undefined;
+}
+
+export function highlightOf(tokens: SqlToken[], index: number): SqlHighlight {
+  const t = tokens[index];
+  switch (t.type) {
+    case 'string': return 'string';
+    case 'number': return 'number';
+    case 'variable': return 'variable';
+    case 'comment': return 'comment';
+    case 'quoted': return 'identifier';
+    case 'word': {
+      // Qualified parts (dbo.[Order], t.Name) are names even when they spell a keyword
+      if (significant(tokens, index, -1)?.text === '.') return 'identifier';
+      const upper = t.text.toUpperCase();
+      if (SQL_DATA_TYPES.has(upper)) return 'type';
+      if (SQL_KEYWORDS.has(upper)) return 'keyword';
+      return significant(tokens, index, 1)?.text === '(' ? 'function' : 'identifier';
+    }
+    default: return 'plain';
+  }
+}
+
+// ── Object references ───────────────────────────────────────────────────────
+
+export interface SqlObjectTarget {
+  name: string;   // fullName as used across the app
+  type: string;   // Table, View, Procedure, Function, Trigger or Synonym
+}
+
+export interface SqlObjectRef extends SqlObjectTarget {
+  start: number;  // first token index
+  end: number;    // token index past the last part
+}
+
+export type SqlObjectLookup = Map<string, SqlObjectTarget>;
+
+/** Lower-cased names to objects: full names, names without the database, and unambiguous bare names. */
+export function buildObjectLookup(schema: DatabaseSchema): SqlObjectLookup {
+  const lookup: SqlObjectLookup = new Map();
+  const bare = new Map<string, SqlObjectTarget | null>();
+  const add = (fullName: string, schemaName: string, name: string, type: string) => {
+    const target = { name: fullName, type };
+    lookup.set(fullName.toLowerCase(), target);
+    lookup.set(`${schemaName}.${name}`.toLowerCase(), target);
+    const key = name.toLowerCase();
+    bare.set(key, bare.has(key) ? null : target);
+  };
+  schema.tables.forEach((t) => add(t.fullName, t.schemaName, t.tableName, 'Table'));
+  schema.views.forEach((v) => add(v.fullName, v.schemaName, v.viewName, 'View'));
+  schema.storedProcedures.forEach((p) => add(p.fullName, p.schemaName, p.procedureName, 'Procedure'));
+  schema.functions.forEach((f) => add(f.fullName, f.schemaName, f.functionName, 'Function'));
+  schema.triggers.forEach((t) => add(t.fullName, t.schemaName, t.triggerName, 'Trigger'));
+  schema.synonyms.forEach((s) => add(s.fullName, s.schemaName, s.synonymName, 'Synonym'));
+  bare.forEach((target, key) => {
+    if (target && !lookup.has(key)) lookup.set(key, target);
+  });
+  return lookup;
+}
+
+export function useSqlObjectLookup(): SqlObjectLookup | null {
+  const schema = useStore((s) => s.result?.schema);
+  return useMemo(() => (schema ? buildObjectLookup(schema) : null), [schema]);
+}
+
+/**
+ * Find dotted identifier chains that name a known object. A chain may carry a database
+ * prefix or a trailing column; bare keywords only count when quoted.
+ */
+export function findObjectRefs(tokens: SqlToken[], lookup: SqlObjectLookup): SqlObjectRef[] {
+  const refs: SqlObjectRef[] = [];
+  const isName = (t: SqlToken | undefined) => t?.type === 'word' || t?.type === 'quoted';
+  let i = 0;
+  while (i < tokens.length) {
+    if (!isName(tokens[i]) || tokens[i - 1]?.text === '.') { i++; continue; }
+    // Collect the chain a.b.c (no whitespace around the dots)
+    const parts = [i];
+    let j = i + 1;
+    while (tokens[j]?.text === '.' && isName(tokens[j + 1])) {
+      parts.push(j + 1);
+      j += 2;
+    }
+    const names = parts.map((p) => unquoteIdentifier(tokens[p].text).toLowerCase());
+    // Whole chain, then without the database prefix, then without a trailing column
+    const n = parts.length;
+    const candidates: [number, number][] = n >= 3 ? [[0, n], [1, n], [0, n - 1], [1, n - 1]] : [[0, n], [0, n - 1]];
+    for (const [from, to] of candidates) {
+      if (to - from < 1) continue;
+      if (to - from === 1 && tokens[parts[from]].type === 'word' && SQL_KEYWORDS.has(names[from].toUpperCase())) continue;
+      const target = lookup.get(names.slice(from, to).join('.'));
+      if (target) {
+        refs.push({ ...target, start: parts[from], end: parts[to - 1] + 1 });
+        break;
+      }
+    }
+    i = j;
+  }
+  return refs;
+}
+
+// ── Folding ─────────────────────────────────────────────────────────────────
+
+export interface SqlFoldRange {
+  start: number;  // 1-based line that stays visible
+  end: number;    // last line hidden when folded
+}
+
+// Words after BEGIN that make it a statement rather than a block
+const BEGIN_STATEMENTS = new Set(['TRAN', 'TRANSACTION', 'DISTRIBUTED', 'DIALOG', 'CONVERSATION', 'ISOLATION', 'WORK']);
+
+/**
+ * Foldable regions: BEGIN … END (including TRY/CATCH), CASE … END, PL/pgSQL IF … END IF and
+ * LOOP … END LOOP, multi-line parentheses and block comments. The closing line stays visible.
+ */
+export function findFoldRanges(tokens: SqlToken[]): SqlFoldRange[] {
+  const ranges: SqlFoldRange[] = [];
+  const stack: { kind: string; line: number }[] = [];
+  let pendingIf: number | null = null;
+  let elsif = false;
+
+  const close = (kind: string | string[], line: number) => {
+    const kinds = Array.isArray(kind) ? kind : [kind];
+    let k = stack.length - 1;
+    while (k >= 0 && !kinds.includes(stack[k].kind)) k--;
+    if (k < 0) return;
+    const open = stack[k];
+    stack.length = k;
+    if (line - 1 > open.line) ranges.push({ start: open.line, end: line - 1 });
+  };
+
+  tokens.forEach((t, i) => {
+    if (t.type === 'comment' && t.text.startsWith('/*')) {
+      const last = t.line + t.text.split('\n').length - 1;
+      if (last > t.line) ranges.push({ start: t.line, end: last });
+      return;
+    }
+    if (t.text === ';') pendingIf = null;
+    if (t.text === '(') { stack.push({ kind: '(', line: t.line }); return; }
+    if (t.text === ')') {
+      const top = stack[stack.length - 1];
+      if (top?.kind === '(') {
+        stack.pop();
+        if (t.line - 1 > top.line) ranges.push({ start: top.line, end: t.line - 1 });
+      }
+      return;
+    }
+    if (t.type !== 'word') return;
+
+    const word = t.text.toUpperCase();
+    const prev = significant(tokens, i, -1)?.text.toUpperCase();
+    const next = significant(tokens, i, 1)?.text.toUpperCase();
+    if (prev === '.') return;
+
+    switch (word) {
+      case 'BEGIN':
+        if (!next || !BEGIN_STATEMENTS.has(next)) stack.push({ kind: 'BEGIN', line: t.line });
+        break;
+      case 'CASE':
+        if (prev !== 'END') stack.push({ kind: 'CASE', line: t.line });
+        break;
+      case 'LOOP':
+        if (prev !== 'END') stack.push({ kind: 'LOOP', line: t.line });
+        break;
+      case 'IF':
+        if (prev !== 'END') pendingIf = t.line;
+        break;
+      case 'ELSIF':
+      case 'ELSEIF':
+        elsif = true;
+        break;
+      case 'THEN':
+        // THEN outside CASE belongs to a PL/pgSQL IF
+        if (stack[stack.length - 1]?.kind !== 'CASE') {
+          if (pendingIf !== null && !elsif) stack.push({ kind: 'IF', line: pendingIf });
+          pendingIf = null;
+          elsif = false;
+        }
+        break;
+      case 'END':
+        // In T-SQL an IF after END starts the next statement
+        if ((next === 'IF' || next === 'LOOP' || next === 'CASE') && stack.some((s) => s.kind === next)) close(next, t.line);
+        else close(['BEGIN', 'CASE'], t.line);
+        break;
+    }
+  });
+
+  // Nested regions that start on the same line fold together; keep the outermost
+  const byStart = new Map<number, SqlFoldRange>();
+  ranges.forEach((r) => {
+    const existing = byStart.get(r.start);
+    if (!existing || r.end > existing.end) byStart.set(r.start, r);
+  });
+  return [...byStart.values()].sort((a, b) => a.start - b.start);
+}
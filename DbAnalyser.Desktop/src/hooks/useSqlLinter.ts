@@ -0,0 +1,361 @@
+import { useStore } from './useStore';
+import { unquoteIdentifier, type SqlToken } from './useSqlTokenizer';
+import { SQL_DATA_TYPES, SQL_KEYWORDS, buildObjectLookup, findObjectRefs, tokenizeDefinition, type SqlObjectLookup } from './useSqlHighlight';
+import type { DatabaseSchema, IssueSeverity, QualityIssue, TableInfo } from '../api/types';
+
+export type SqlLintRule = 'select-star' | 'nolock' | 'cursor' | 'dynamic-sql' | 'nocount' | 'implicit-conversion' | 'non-sargable';
+
+export const SQL_LINT_RULES: Record<SqlLintRule, { category: string; severity: IssueSeverity; recommendation: string }> = {
+  'select-star': {
+    category: 'SELECT *',
+    severity: 'warning',
+    recommendation: 'List the columns explicitly so schema changes do not silently change the result and unused columns are not read.',
+  },
+  nolock: {
+    category: 'NOLOCK',
+    severity: 'warning',
+    recommendation: 'Dirty reads can return missing or duplicated rows; use READ COMMITTED SNAPSHOT or SNAPSHOT isolation instead.',
+  },
+  cursor: {
+    category: 'Cursor',
+    severity: 'warning',
+    recommendation: 'Rewrite row-by-row processing as a set-based statement where possible.',
+  },
+  'dynamic-sql': {
+    category: 'Dynamic SQL',
+    severity: 'warning',
+    recommendation: 'Pass values as parameters (sp_executesql with a parameter list, EXECUTE … USING) and quote identifiers with QUOTENAME / quote_ident.',
+  },
+  nocount: {
+    category: 'SET NOCOUNT',
+    severity: 'info',
+    recommendation: 'Start the body with SET NOCOUNT ON to suppress row count messages sent to the client.',
+  },
+  'implicit-conversion': {
+    category: 'Implicit conversion',
+    severity: 'warning',
+    recommendation: 'Compare with a value of the column\'s own type (drop the N prefix, quote the number, or declare the variable with the column type).',
+  },
+  'non-sargable': {
+    category: 'Non-sargable predicate',
+    severity: 'warning',
+    recommendation: 'Keep indexed columns bare in predicates: move functions to the other side, use ranges instead of date functions, avoid leading wildcards.',
+  },
+};
+
+export interface CodeIssue extends QualityIssue {
+  rule: SqlLintRule;
+  objectType: string;   // View, Procedure, Function or Trigger
+  line: number;         // 1-based line in the definition
+}
+
+// Date part names are arguments of DATEADD / DATEDIFF / DATEPART, not columns
+const DATE_PARTS = new Set([
+  'YEAR', 'YY', 'YYYY', 'QUARTER', 'QQ', 'Q', 'MONTH', 'MM', 'M', 'DAYOFYEAR', 'DY', 'Y', 'DAY', 'DD', 'D', 'WEEK',
+  'WK', 'WW', 'WEEKDAY', 'DW', 'HOUR', 'HH', 'MINUTE', 'MI', 'N', 'SECOND', 'SS', 'S', 'MILLISECOND', 'MS',
+  'MICROSECOND', 'MCS', 'NANOSECOND', 'NS', 'ISO_WEEK', 'ISOWK', 'ISOWW',
+]);
+// Keywords that are also string functions: LEFT(Name, 3)
+const KEYWORD_FUNCTIONS = new Set(['LEFT', 'RIGHT', 'REPLACE', 'REVERSE']);
+const COMPARISONS = new Set(['=', '<>', '!=', '<', '>', '<=', '>=', 'LIKE', 'IN', 'BETWEEN', 'IS']);
+const CLAUSE_WORDS = new Set(['SELECT', 'FROM', 'WHERE', 'ON', 'HAVING', 'GROUP', 'ORDER', 'SET', 'VALUES', 'JOIN', 'INTO', 'RETURNING']);
+const STRING_TYPES = new Set(['VARCHAR', 'CHAR', 'TEXT']);
+const UNICODE_TYPES = new Set(['NVARCHAR', 'NCHAR', 'NTEXT']);
+const NUMERIC_TYPES = new Set(['INT', 'BIGINT', 'SMALLINT', 'TINYINT', 'DECIMAL', 'NUMERIC', 'FLOAT', 'REAL', 'MONEY', 'SMALLMONEY', 'BIT']);
+
+interface Definition {
+  name: string;
+  type: string;
+  code: SqlToken[];              // tokens without whitespace and comments
+  all: SqlToken[];
+  postgres: boolean;
+}
+
+type Finding = { rule: SqlLintRule; line: number; description: string; severity?: IssueSeverity };
+
+const upper = (t: SqlToken | undefined) => t?.text.toUpperCase() ?? '';
+const isWord = (t: SqlToken | undefined) => t?.type === 'word' && !SQL_KEYWORDS.has(upper(t)) && !SQL_DATA_TYPES.has(upper(t));
+const isName = (t: SqlToken | undefined) => isWord(t) || t?.type === 'quoted';
+
+// ── Rules ───────────────────────────────────────────────────────────────────
+
+function selectStar({ code }: Definition): Finding[] {
+  const found: Finding[] = [];
+  code.forEach((t, i) => {
+    if (upper(t) !== 'SELECT') return;
+    // EXISTS (SELECT * …) reads no columns
+    if (code[i - 1]?.text === '(' && upper(code[i - 2]) === 'EXISTS') return;
+    // The select list starts after DISTINCT / ALL and TOP (n) [PERCENT] [WITH TIES]
+    let first = i + 1;
+    if (['DISTINCT', 'ALL'].includes(upper(code[first]))) first++;
+    if (upper(code[first]) === 'TOP') {
+      first++;
+      if (code[first]?.text === '(') {
+        for (let depth = 0; first < code.length; first++) {
+          if (code[first].text === '(') depth++;
+          else if (code[first].text === ')' && --depth === 0) break;
+        }
+      }
+      first++;
+      if (upper(code[first]) === 'PERCENT') first++;
+      if (upper(code[first]) === 'WITH' && upper(code[first + 1]) === 'TIES') first += 2;
+    }
+    let depth = 0;
+    for (let k = first; k < code.length; k++) {
+      const text = upper(code[k]);
+      if (text === '(') depth++;
+      else if (text === ')') { if (--depth < 0) break; }
+      else if (depth === 0 && ['FROM', 'INTO', 'WHERE', ';', 'UNION', 'EXCEPT', 'INTERSECT'].includes(text)) break;
+      else if (depth === 0 && text === '*' && (k === first || upper(code[k - 1]) === ',' || (code[k - 1].text === '.' && isName(code[k - 2])))) {
+        found.push({ rule: 'select-star', line: code[k].line, description: 'SELECT * returns every column of the source' });
+        break;
+      }
+    }
+  });
+  return found;
+}
+
+function nolock({ code }: Definition): Finding[] {
+  const found: Finding[] = [];
+  code.forEach((t, i) => {
+    const word = upper(t);
+    if (t.type === 'word' && (word === 'NOLOCK' || word === 'READUNCOMMITTED') && code[i - 1]?.text !== '.') {
+      found.push({ rule: 'nolock', line: t.line, description: `${word} table hint allows dirty reads` });
+    } else if (word === 'READ' && upper(code[i + 1]) === 'UNCOMMITTED') {
+      found.push({ rule: 'nolock', line: t.line, description: 'READ UNCOMMITTED isolation allows dirty reads' });
+    }
+  });
+  return found;
+}
+
+function cursor({ code, postgres }: Definition): Finding[] {
+  const found: Finding[] = [];
+  code.forEach((t, i) => {
+    const word = upper(t);
+    if (t.type !== 'word' || code[i - 1]?.text === '.') return;
+    if (word === 'CURSOR' || (postgres && word === 'REFCURSOR')) {
+      const name = code[i - 1] && (code[i - 1].type === 'variable' || isName(code[i - 1])) ? ` ${code[i - 1].text}` : '';
+      found.push({ rule: 'cursor', line: t.line, description: `Cursor${name} processes rows one at a time` });
+    }
+  });
+  return found;
+}
+
+function dynamicSql({ code, postgres }: Definition): Finding[] {
+  const found: Finding[] = [];
+  code.forEach((t, i) => {
+    const word = upper(t);
+    if (t.type !== 'word') return;
+    if (word === 'SP_EXECUTESQL') {
+      found.push({ rule: 'dynamic-sql', line: t.line, description: 'Dynamic SQL through sp_executesql', severity: 'info' });
+      return;
+    }
+    if (word !== 'EXEC' && word !== 'EXECUTE') return;
+    const next = code[i + 1];
+    const nextWord = upper(next);
+    if (!next || nextWord === 'AS' || nextWord === 'SP_EXECUTESQL' || upper(code[i + 3]) === 'SP_EXECUTESQL') return;
+    if (postgres) {
+      // EXECUTE FUNCTION / PROCEDURE in trigger definitions calls a routine
+      if (nextWord !== 'FUNCTION' && nextWord !== 'PROCEDURE') {
+        found.push({ rule: 'dynamic-sql', line: t.line, description: 'EXECUTE runs a statement built at run time' });
+      }
+    } else if (next.text === '(' || (next.type === 'variable' && code[i + 2]?.text !== '=')) {
+      found.push({ rule: 'dynamic-sql', line: t.line, description: `${word} runs a string built at run time` });
+    }
+  });
+  return found;
+}
+
+function nocount({ code, postgres, type }: Definition): Finding[] {
+  if (postgres || (type !== 'Procedure' && type !== 'Trigger') || code.length === 0) return [];
+  const hasNocount = code.some((t, i) => upper(t) === 'SET' && upper(code[i + 1]) === 'NOCOUNT' && upper(code[i + 2]) === 'ON');
+  return hasNocount ? [] : [{ rule: 'nocount', line: code[0].line, description: `${type} does not SET NOCOUNT ON` }];
+}
+
+// Tables a definition reads or writes, keyed by lower-cased alias and name
+function tableScope(def: Definition, lookup: SqlObjectLookup, tables: Map<string, TableInfo>): Map<string, TableInfo> {
+  const scope = new Map<string, TableInfo>();
+  const codeIndex = new Map(def.code.map((t, i) => [t, i]));
+  findObjectRefs(def.all, lookup).forEach((ref) => {
+    const table = ref.type === 'Table' ? tables.get(ref.name) : undefined;
+    if (!table) return;
+    scope.set(table.tableName.toLowerCase(), table);
+    scope.set(table.fullName.toLowerCase(), table);
+    let k = codeIndex.get(def.all[ref.end - 1]);
+    if (k === undefined) return;
+    if (upper(def.code[k + 1]) === 'AS') k++;
+    const alias = def.code[k + 1];
+    if (isName(alias)) scope.set(unquoteIdentifier(alias.text).toLowerCase(), table);
+  });
+  return scope;
+}
+
+// The column named by the identifier chain ending at `end`, with the table it belongs to
+function columnAt(code: SqlToken[], end: number, scope: Map<string, TableInfo>) {
+  const t = code[end];
+  if ((t?.type !== 'word' && t?.type !== 'quoted') || code[end + 1]?.text === '(') return null;
+  const column = unquoteIdentifier(code[end].text).toLowerCase();
+  const qualifier = code[end - 1]?.text === '.' && isName(code[end - 2]) ? unquoteIdentifier(code[end - 2].text).toLowerCase() : null;
+  const candidates = qualifier ? [scope.get(qualifier)] : [...new Set(scope.values())];
+  const matches = candidates.flatMap((table) => {
+    const col = table?.columns.find((c) => c.name.toLowerCase() === column);
+    return table && col ? [{ table, col }] : [];
+  });
+  return matches.length === 1 ? matches[0] : null;
+}
+
+function implicitConversion(def: Definition, scope: Map<string, TableInfo>): Finding[] {
+  if (def.postgres || scope.size === 0) return [];
+  const { code } = def;
+
+  // Parameter and DECLARE types: @name [AS] type
+  const variables = new Map<string, string>();
+  code.forEach((t, i) => {
+    if (t.type !== 'variable') return;
+    const type = upper(code[i + 1]) === 'AS' ? code[i + 2] : code[i + 1];
+    if (type?.type === 'word' && SQL_DATA_TYPES.has(upper(type)) && !variables.has(t.text.toLowerCase())) {
+      variables.set(t.text.toLowerCase(), upper(type));
+    }
+  });
+
+  const valueType = (t: SqlToken | undefined): string | null => {
+    if (!t) return null;
+    if (t.type === 'number') return 'INT';
+    if (t.type === 'string') return /^n'/i.test(t.text) ? 'NVARCHAR' : null;
+    if (t.type === 'variable') return variables.get(t.text.toLowerCase()) ?? null;
+    return null;
+  };
+
+  const found: Finding[] = [];
+  code.forEach((t, i) => {
+    const op = upper(t);
+    if (!['=', '<>', '!=', '<', '>', '<=', '>=', 'LIKE'].includes(op)) return;
+    // column op value, or value op column
+    let right = i + 1;
+    while (code[right + 1]?.text === '.' && isName(code[right + 2])) right += 2;
+    const sides: [number, SqlToken | undefined][] = [[i - 1, code[i + 1]], [right, code[i - 1]]];
+    for (const [end, value] of sides) {
+      const ref = columnAt(code, end, scope);
+      const other = valueType(value);
+      if (!ref || !other) continue;
+      const columnType = ref.col.dataType.toUpperCase();
+      const converts = (STRING_TYPES.has(columnType) && (UNICODE_TYPES.has(other) || NUMERIC_TYPES.has(other)))
+        || (UNICODE_TYPES.has(columnType) && NUMERIC_TYPES.has(other));
+      const indexed = ref.col.isPrimaryKey || ref.table.indexes.some((ix) => ix.columns.some((c) => c.toLowerCase() === ref.col.name.toLowerCase()));
+      if (converts && indexed) {
+        found.push({
+          rule: 'implicit-conversion',
+          line: t.line,
+          description: `Indexed column ${ref.table.fullName}.${ref.col.name} (${ref.col.dataType}) is compared with ${value!.text} (${other.toLowerCase()}), so the column is converted and its index cannot be used for a seek`,
+        });
+        break;
+      }
+    }
+  });
+  return found;
+}
+
+function nonSargable({ code }: Definition): Finding[] {
+  const found: Finding[] = [];
+  const clauses: string[] = [''];
+  code.forEach((t, i) => {
+    const word = upper(t);
+    if (t.text === '(') { clauses.push(clauses[clauses.length - 1]); return; }
+    if (t.text === ')') { if (clauses.length > 1) clauses.pop(); return; }
+    if (t.type === 'word' && CLAUSE_WORDS.has(word) && code[i - 1]?.text !== '.') clauses[clauses.length - 1] = word;
+    const clause = clauses[clauses.length - 1];
+    if (clause !== 'WHERE' && clause !== 'ON') return;
+
+    // Leading wildcard
+    if (word === 'LIKE' && code[i + 1]?.type === 'string' && /^n?'%/i.test(code[i + 1].text)) {
+      found.push({ rule: 'non-sargable', line: t.line, description: 'LIKE pattern starts with a wildcard' });
+      return;
+    }
+
+    // Function wrapped around a column next to a comparison
+    if (t.type !== 'word' || code[i + 1]?.text !== '(' || code[i - 1]?.text === '.') return;
+    if (SQL_KEYWORDS.has(word) && !KEYWORD_FUNCTIONS.has(word)) return;
+    let depth = 0;
+    let close = i + 1;
+    let hasColumn = false;
+    for (; close < code.length; close++) {
+      const c = code[close];
+      if (c.text === '(') depth++;
+      else if (c.text === ')' && --depth === 0) break;
+      else if (isName(c) && !DATE_PARTS.has(upper(c)) && code[close + 1]?.text !== '(') hasColumn = true;
+    }
+    if (!hasColumn) return;
+    if (COMPARISONS.has(upper(code[close + 1])) || COMPARISONS.has(upper(code[i - 1])) || upper(code[i - 1]) === 'NOT') {
+      found.push({ rule: 'non-sargable', line: t.line, description: `${t.text}() applied to a column in a ${clause} predicate` });
+    }
+  });
+  return found;
+}
+
+// ── Lint ────────────────────────────────────────────────────────────────────
+
+function lintDefinition(def: Definition, lookup: SqlObjectLookup, tables: Map<string, TableInfo>): CodeIssue[] {
+  const scope = tableScope(def, lookup, tables);
+  const findings = [
+    ...selectStar(def),
+    ...nolock(def),
+    ...cursor(def),
+    ...dynamicSql(def),
+    ...nocount(def),
+    ...implicitConversion(def, scope),
+    ...nonSargable(def),
+  ];
+  // One finding per rule and line
+  const seen = new Set<string>();
+  return findings
+    .sort((a, b) => a.line - b.line)
+    .filter((f) => {
+      const key = `${f.rule}:${f.line}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((f) => ({
+      category: SQL_LINT_RULES[f.rule].category,
+      severity: f.severity ?? SQL_LINT_RULES[f.rule].severity,
+      objectName: def.name,
+      description: f.description,
+      recommendation: SQL_LINT_RULES[f.rule].recommendation,
+      rule: f.rule,
+      objectType: def.type,
+      line: f.line,
+    }));
+}
+
+/** Run every lint rule over the view, procedure, function and trigger definitions of a schema. */
+export function lintSchema(schema: DatabaseSchema): CodeIssue[] {
+  const lookup = buildObjectLookup(schema);
+  const tables = new Map(schema.tables.map((t) => [t.fullName, t]));
+  const definitions: { name: string; type: string; definition?: string }[] = [
+    ...schema.views.map((v) => ({ name: v.fullName, type: 'View', definition: v.definition })),
+    ...schema.storedProcedures.map((p) => ({ name: p.fullName, type: 'Procedure', definition: p.definition })),
+    ...schema.functions.map((f) => ({ name: f.fullName, type: 'Function', definition: f.definition })),
+    ...schema.triggers.map((t) => ({ name: t.fullName, type: 'Trigger', definition: t.definition })),
+  ];
+
+  return definitions.flatMap(({ name, type, definition }) => {
+    if (!definition) return [];
+    const all = tokenizeDefinition(definition);
+    const code = all.filter((t) => t.type !== 'whitespace' && t.type !== 'comment');
+    const postgres = all.some((t) => t.type === 'string' && /^\$[A-Za-z_]*\$$/.test(t.text))
+      || code.some((t, i) => upper(t) === 'LANGUAGE' && /^plpgsql$|^sql$/i.test(code[i + 1]?.text ?? ''));
+    return lintDefinition({ name, type, code, all, postgres }, lookup, tables);
+  });
+}
+
+// ── Hook ────────────────────────────────────────────────────────────────────
+
+let cached: { schema: DatabaseSchema; issues: CodeIssue[] } | null = null;
+
+// Linting tokenizes every definition; do it once per schema
+export function useCodeIssues(): CodeIssue[] | null {
+  const schema = useStore((s) => s.result?.schema ?? null);
+  if (!schema) return null;
+  if (!cached || cached.schema !== schema) cached = { schema, issues: lintSchema(schema) };
+  return cached.issues;
+}
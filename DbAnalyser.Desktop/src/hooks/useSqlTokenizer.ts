@@ -0,0 +1,191 @@
+export type SqlTokenType =
+  | 'word'          // keywords and unquoted identifiers
+  | 'quoted'        // [bracketed] or "double-quoted" identifiers
+  | 'string'        // 'literals', N'unicode', $$dollar-quoted$$ bodies
+  | 'number'
+  | 'variable'      // @local, @@global
+  | 'comment'
+  | 'symbol'
+  | 'whitespace';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  text: string;
+  start: number;    // offset into the source
+  line: number;     // 1-based line of the first character
+}
+
+const WORD_START = /[A-Za-z_#À-￿]/;
+const WORD_PART = /[A-Za-z0-9_#$À-￿]/;
+const MULTI_CHAR_SYMBOLS = ['<>', '!=', '<=', '>=', '::', '||', '+=', '-=', '*=', '/='];
+
+/**
+ * Split T-SQL or PostgreSQL source into tokens. Concatenating every token's text
+ * reproduces the input exactly, so the same stream can drive parsing and highlighting.
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+  let line = 1;
+
+  const push = (type: SqlTokenType, end: number) => {
+    const text = sql.slice(i, end);
+    tokens.push({ type, text, start: i, line });
+    for (let k = 0; k < text.length; k++) if (text[k] === '\n') line++;
+    i = end;
+  };
+
+  // Index just past the closing delimiter, doubling it as an escape ('' or ]] or "")
+  const closeQuoted = (from: number, close: string) => {
+    let j = from;
+    while (j < sql.length) {
+      if (sql[j] === close) {
+        if (sql[j + 1] === close) { j += 2; continue; }
+        return j + 1;
+      }
+      j++;
+    }
+    return sql.length;
+  };
+
+  while (i < sql.length) {
+    const c = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(c)) {
+      let j = i + 1;
+      while (j < sql.length && /\s/.test(sql[j])) j++;
+      push('whitespace', j);
+    } else if (c === '-' && next === '-') {
+      const j = sql.indexOf('\n', i);
+      push('comment', j === -1 ? sql.length : j);
+    } else if (c === '/' && next === '*') {
+      // Block comments nest in both dialects
+      let depth = 1;
+      let j = i + 2;
+      while (j < sql.length && depth > 0) {
+        if (sql[j] === '/' && sql[j + 1] === '*') { depth++; j += 2; }
+        else if (sql[j] === '*' && sql[j + 1] === '/') { depth--; j += 2; }
+        else j++;
+      }
+      push('comment', j);
+    } else if (c === "'") {
+      push('string', closeQuoted(i + 1, "'"));
+    } else if ((c === 'N' || c === 'n' || c === 'E' || c === 'e') && next === "'") {
+      push('string', closeQuoted(i + 2, "'"));
+    } else if (c === '[') {
+      push('quoted', closeQuoted(i + 1, ']'));
+    } else if (c === '"') {
+      push('quoted', closeQuoted(i + 1, '"'));
+    } else if (c === '$' && /[$A-Za-z_]/.test(next ?? '')) {
+      const tag = /^\$[A-Za-z_]*\$/.exec(sql.slice(i, i + 64));
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        push('string', close === -1 ? sql.length : close + tag[0].length);
+      } else {
+        push('symbol', i + 1);
+      }
+    } else if (c === '@') {
+      let j = i + 1;
+      while (j < sql.length && (sql[j] === '@' || WORD_PART.test(sql[j]))) j++;
+      push('variable', j);
+    } else if (/[0-9]/.test(c) || (c === '.' && /[0-9]/.test(next ?? ''))) {
+      const m = /^(?:0x[0-9A-Fa-f]*|[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?)/.exec(sql.slice(i));
+      push('number', i + Math.max(1, m?.[0].length ?? 1));
+    } else if (WORD_START.test(c)) {
+      let j = i + 1;
+      while (j < sql.length && WORD_PART.test(sql[j])) j++;
+      push('word', j);
+    } else {
+      const two = sql.slice(i, i + 2);
+      push('symbol', i + (MULTI_CHAR_SYMBOLS.includes(two) ? 2 : 1));
+    }
+  }
+
+  return tokens;
+}
+
+/** Strip [brackets] or "quotes" from an identifier token. */
+export function unquoteIdentifier(text: string): string {
+  if (text.startsWith('[') && text.endsWith(']')) return text.slice(1, -1).replace(/]]/g, ']');
+  if (text.startsWith('"') && text.endsWith('"')) return text.slice(1, -1).replace(/""/g, '"');
+  return text;
+}
+
+/** True for the `GO` batch separator: alone on its line, optionally followed by a repeat count. */
+export function isBatchSeparator(tokens: SqlToken[], index: number): boolean {
+  const token = tokens[index];
+  if (token.type !== 'word' || token.text.toUpperCase() !== 'GO') return false;
+  const before = tokens[index - 1];
+  if (before && !(before.type === 'whitespace' && before.text.includes('\n'))) return false;
+  let j = index + 1;
+  if (tokens[j]?.type === 'whitespace' && !tokens[j].text.includes('\n')) j++;
+  if (tokens[j]?.type === 'number') j++;
+  if (tokens[j]?.type === 'whitespace' && !tokens[j].text.includes('\n')) j++;
+  if (tokens[j]?.type === 'comment' && tokens[j].text.startsWith('--')) j++;
+  return !tokens[j] || (tokens[j].type === 'whitespace' && tokens[j].text.includes('\n'));
+}
+
+// ── Token cursor ────────────────────────────────────────────────────────────
+
+export class Cursor {
+  pos = 0;
+  constructor(readonly tokens: SqlToken[]) {}
+
+  peek(offset = 0): SqlToken | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  get done(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  next(): SqlToken | undefined {
+    return this.tokens[this.pos++];
+  }
+
+  /** True when the upcoming tokens are exactly these words or symbols (case-insensitive). */
+  is(...words: string[]): boolean {
+    return words.every((w, i) => this.peek(i)?.text.toUpperCase() === w);
+  }
+
+  accept(...words: string[]): boolean {
+    if (!this.is(...words)) return false;
+    this.pos += words.length;
+    return true;
+  }
+
+  isIdentifier(offset = 0): boolean {
+    const t = this.peek(offset);
+    return t?.type === 'word' || t?.type === 'quoted';
+  }
+
+  identifier(): string | null {
+    return this.isIdentifier() ? unquoteIdentifier(this.next()!.text) : null;
+  }
+
+  /** Skip a balanced parenthesised group, returning the tokens inside it. */
+  group(): SqlToken[] {
+    if (!this.is('(')) return [];
+    const start = ++this.pos;
+    let depth = 1;
+    while (!this.done && depth > 0) {
+      const t = this.next()!.text;
+      if (t === '(') depth++;
+      else if (t === ')') depth--;
+    }
+    return this.tokens.slice(start, this.pos - 1);
+  }
+}
+
+export function splitTopLevel(tokens: SqlToken[], separator = ','): SqlToken[][] {
+  const parts: SqlToken[][] = [[]];
+  let depth = 0;
+  tokens.forEach((t) => {
+    if (t.text === '(') depth++;
+    else if (t.text === ')') depth--;
+    if (depth === 0 && t.text === separator) parts.push([]);
+    else parts[parts.length - 1].push(t);
+  });
+  return parts.filter((p) => p.length > 0);
+}
@@ -1,7 +1,17 @@
 import { create } from 'zustand';
 import type { HubConnection } from '@microsoft/signalr';
-import type { AnalysisResult, AnalysisProgress, AnalyzerName, AnalyzerStatus, DbaFile } from '../api/types';
+import type { AnalysisResult, AnalysisProgress, AnalyzerName, AnalyzerStatus, Annotation, AnnotationMap, DbaFile, Deletions, PiiDecision, PiiDecisionMap, SchemaDraft, SchemaDraftMap, SubjectArea, SubjectAreaMap } from '../api/types';
 import { api, createSignalRConnection, onProgress } from '../api/client';
+import { annotationScope, loadLocalAnnotations, saveLocalAnnotations, mergeAnnotations, mergeDeletions, markDeleted, loadScoped, saveScoped } from './useAnnotations';
+import type { ObjectPath } from './usePathFinder';
+
+const ANNOTATION_DELETIONS_KEY = 'dbanalyser-annotations-deleted';
+const PII_DECISIONS_KEY = 'dbanalyser-pii';
+const PII_DELETIONS_KEY = 'dbanalyser-pii-deleted';
+const SUBJECT_AREAS_KEY = 'dbanalyser-subject-areas';
+const SUBJECT_AREA_DELETIONS_KEY = 'dbanalyser-subject-areas-deleted';
+const SCHEMA_DRAFTS_KEY = 'dbanalyser-schema-drafts';
+const SCHEMA_DRAFT_DELETIONS_KEY = 'dbanalyser-schema-drafts-deleted';
 
 export interface ConnectionHistoryEntry {
   server: string;
@@ -56,9 +66,23 @@ interface AppState {
   isFileSession: boolean;
   loadedFilePath: string | null;
 
+  // Baseline .dba pinned for drift comparison
+  baseline: { file: DbaFile; filePath: string } | null;
+
+  // User annotations, ERD subject areas and design drafts, persisted locally per server/database and in .dba files
+  annotations: AnnotationMap;
+  annotationScope: string | null;
+  piiDecisions: PiiDecisionMap;
+  subjectAreas: SubjectAreaMap;
+  schemaDrafts: SchemaDraftMap;
+  deletions: Deletions;      // deleted keys per map, saved with them so a merge can't revive them
+
   // UI
   sidebarCollapsed: boolean;
   searchOpen: boolean;
+  searchTarget: { name: string; line?: number } | null;   // object (and line) to show in the search dialog's detail view
+  piiOverlay: boolean;
+  highlightedPath: ObjectPath | null; // drawn on the dependency graph and the ERD
 
   // History
   connectionHistory: ConnectionHistoryEntry[];
@@ -75,9 +99,18 @@ interface AppState {
   runAnalyzer: (name: AnalyzerName, force?: boolean, database?: string) => Promise<void>;
   cancelAnalyzer: (name: AnalyzerName) => void;
   loadFromFile: (data: DbaFile, filePath: string) => void;
+  setBaseline: (file: DbaFile, filePath: string) => void;
+  clearBaseline: () => void;
+  setAnnotation: (key: string, annotation: Annotation | null) => void;
+  setPiiDecision: (key: string, decision: PiiDecision | null) => void;
+  setSubjectArea: (name: string, area: SubjectArea | null) => void;
+  setSchemaDraft: (name: string, draft: SchemaDraft | null) => void;
   disconnect: () => void;
   toggleSidebar: () => void;
   toggleSearch: () => void;
+  openObject: (name: string | null, line?: number) => void;
+  togglePiiOverlay: () => void;
+  setHighlightedPath: (path: ObjectPath | null) => void;
   addToHistory: (fields: { server: string; port: string; database: string; authMode: 'windows' | 'sql'; username: string; password: string }, providerType: string) => Promise<void>;
   loadHistory: () => void;
 }
@@ -99,8 +132,18 @@ export const useStore = create<AppState>((set, get) => ({
   signalRConnectionId: null,
   isFileSession: false,
   loadedFilePath: null,
+  baseline: null,
+  annotations: {},
+  annotationScope: null,
+  piiDecisions: {},
+  subjectAreas: {},
+  schemaDrafts: {},
+  deletions: {},
   sidebarCollapsed: false,
   searchOpen: false,
+  searchTarget: null,
+  piiOverlay: false,
+  highlightedPath: null,
   connectionHistory: [],
 
   initSignalR: async () => {
@@ -130,8 +173,23 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   setConnecting: (isConnecting) => set({ isConnecting, connectionError: null }),
-  setConnected: (sessionId, databaseName, isServerMode = false, serverName = null) =>
-    set({ sessionId, databaseName, isServerMode, serverName, isConnecting: false, connectionError: null }),
+  setConnected: (sessionId, databaseName, isServerMode = false, serverName = null) => {
+    const scope = annotationScope(serverName, databaseName);
+    set({
+      sessionId, databaseName, isServerMode, serverName, isConnecting: false, connectionError: null,
+      annotations: loadLocalAnnotations(scope),
+      annotationScope: scope,
+      piiDecisions: loadScoped<PiiDecision>(PII_DECISIONS_KEY, scope),
+      subjectAreas: loadScoped<SubjectArea>(SUBJECT_AREAS_KEY, scope),
+      schemaDrafts: loadScoped<SchemaDraft>(SCHEMA_DRAFTS_KEY, scope),
+      deletions: {
+        annotations: loadScoped<string>(ANNOTATION_DELETIONS_KEY, scope),
+        piiDecisions: loadScoped<string>(PII_DELETIONS_KEY, scope),
+        subjectAreas: loadScoped<string>(SUBJECT_AREA_DELETIONS_KEY, scope),
+        schemaDrafts: loadScoped<string>(SCHEMA_DRAFT_DELETIONS_KEY, scope),
+      },
+    });
+  },
   setConnectionError: (error) => set({ connectionError: error, isConnecting: false }),
   setAnalyzing: (isAnalyzing) => set({ isAnalyzing }),
   setProgress: (progress) => set({ progress }),
@@ -234,6 +292,26 @@ export const useStore = create<AppState>((set, get) => ({
       connection.stop().catch(() => { /* ignore */ });
     }
 
+    // Annotations edited locally since the file was saved win over the file's copy, and
+    // deletions on either side beat older copies of what they deleted
+    const scope = annotationScope(data.metadata.serverName, data.metadata.databaseName);
+    const annotationDeletions = mergeDeletions(data.deletions?.annotations ?? {}, loadScoped<string>(ANNOTATION_DELETIONS_KEY, scope));
+    saveScoped(ANNOTATION_DELETIONS_KEY, scope, annotationDeletions);
+    const annotations = mergeAnnotations(data.annotations ?? {}, loadLocalAnnotations(scope), annotationDeletions);
+    saveLocalAnnotations(scope, annotations);
+    const piiDeletions = mergeDeletions(data.deletions?.piiDecisions ?? {}, loadScoped<string>(PII_DELETIONS_KEY, scope));
+    saveScoped(PII_DELETIONS_KEY, scope, piiDeletions);
+    const piiDecisions = mergeAnnotations(data.piiDecisions ?? {}, loadScoped<PiiDecision>(PII_DECISIONS_KEY, scope), piiDeletions);
+    saveScoped(PII_DECISIONS_KEY, scope, piiDecisions);
+    const areaDeletions = mergeDeletions(data.deletions?.subjectAreas ?? {}, loadScoped<string>(SUBJECT_AREA_DELETIONS_KEY, scope));
+    saveScoped(SUBJECT_AREA_DELETIONS_KEY, scope, areaDeletions);
+    const subjectAreas = mergeAnnotations(data.subjectAreas ?? {}, loadScoped<SubjectArea>(SUBJECT_AREAS_KEY, scope), areaDeletions);
+    saveScoped(SUBJECT_AREAS_KEY, scope, subjectAreas);
+    const draftDeletions = mergeDeletions(data.deletions?.schemaDrafts ?? {}, loadScoped<string>(SCHEMA_DRAFT_DELETIONS_KEY, scope));
+    saveScoped(SCHEMA_DRAFT_DELETIONS_KEY, scope, draftDeletions);
+    const schemaDrafts = mergeAnnotations(data.schemaDrafts ?? {}, loadScoped<SchemaDraft>(SCHEMA_DRAFTS_KEY, scope), draftDeletions);
+    saveScoped(SCHEMA_DRAFTS_KEY, scope, schemaDrafts);
+
     set({
       sessionId: 'file-session',
       databaseName: data.metadata.databaseName,
@@ -251,9 +329,73 @@ export const useStore = create<AppState>((set, get) => ({
       signalRConnectionId: null,
       isFileSession: true,
       loadedFilePath: filePath,
+      baseline: null,
+      annotations,
+      annotationScope: scope,
+      piiDecisions,
+      subjectAreas,
+      schemaDrafts,
+      deletions: {
+        annotations: annotationDeletions,
+        piiDecisions: piiDeletions,
+        subjectAreas: areaDeletions,
+        schemaDrafts: draftDeletions,
+      },
+      highlightedPath: null,
     });
   },
 
+  setBaseline: (file, filePath) => set({ baseline: { file, filePath } }),
+  clearBaseline: () => set({ baseline: null }),
+
+  setAnnotation: (key, annotation) => {
+    const { [key]: _previous, ...rest } = get().annotations;
+    const annotations = annotation ? { ...rest, [key]: annotation } : rest;
+    const deleted = markDeleted(get().deletions.annotations ?? {}, key, !annotation);
+    set((s) => ({ annotations, deletions: { ...s.deletions, annotations: deleted } }));
+    const scope = get().annotationScope;
+    if (scope) {
+      saveLocalAnnotations(scope, annotations);
+      saveScoped(ANNOTATION_DELETIONS_KEY, scope, deleted);
+    }
+  },
+
+  setPiiDecision: (key, decision) => {
+    const { [key]: _previous, ...rest } = get().piiDecisions;
+    const piiDecisions = decision ? { ...rest, [key]: decision } : rest;
+    const deleted = markDeleted(get().deletions.piiDecisions ?? {}, key, !decision);
+    set((s) => ({ piiDecisions, deletions: { ...s.deletions, piiDecisions: deleted } }));
+    const scope = get().annotationScope;
+    if (scope) {
+      saveScoped(PII_DECISIONS_KEY, scope, piiDecisions);
+      saveScoped(PII_DELETIONS_KEY, scope, deleted);
+    }
+  },
+
+  setSubjectArea: (name, area) => {
+    const { [name]: _previous, ...rest } = get().subjectAreas;
+    const subjectAreas = area ? { ...rest, [name]: area } : rest;
+    const deleted = markDeleted(get().deletions.subjectAreas ?? {}, name, !area);
+    set((s) => ({ subjectAreas, deletions: { ...s.deletions, subjectAreas: deleted } }));
+    const scope = get().annotationScope;
+    if (scope) {
+      saveScoped(SUBJECT_AREAS_KEY, scope, subjectAreas);
+      saveScoped(SUBJECT_AREA_DELETIONS_KEY, scope, deleted);
+    }
+  },
+
+  setSchemaDraft: (name, draft) => {
+    const { [name]: _previous, ...rest } = get().schemaDrafts;
+    const schemaDrafts = draft ? { ...rest, [name]: draft } : rest;
+    const deleted = markDeleted(get().deletions.schemaDrafts ?? {}, name, !draft);
+    set((s) => ({ schemaDrafts, deletions: { ...s.deletions, schemaDrafts: deleted } }));
+    const scope = get().annotationScope;
+    if (scope) {
+      saveScoped(SCHEMA_DRAFTS_KEY, scope, schemaDrafts);
+      saveScoped(SCHEMA_DRAFT_DELETIONS_KEY, scope, deleted);
+    }
+  },
+
   disconnect: () => {
     // Abort all in-flight analyzers
     const controllers = get().analyzerAbortControllers;
@@ -274,6 +416,14 @@ export const useStore = create<AppState>((set, get) => ({
       signalRConnectionId: null,
       isFileSession: false,
       loadedFilePath: null,
+      baseline: null,
+      annotations: {},
+      annotationScope: null,
+      piiDecisions: {},
+      subjectAreas: {},
+      schemaDrafts: {},
+      deletions: {},
+      highlightedPath: null,
       analyzerStatus: { schema: 'idle', profiling: 'idle', relationships: 'idle', quality: 'idle', usage: 'idle', indexing: 'idle' },
       analyzerErrors: {},
       analyzerAbortControllers: {},
@@ -281,7 +431,10 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   toggleSidebar: () => set((s) => ({ sidebarCollapsed: !s.sidebarCollapsed })),
-  toggleSearch: () => set((s) => ({ searchOpen: !s.searchOpen })),
+  toggleSearch: () => set((s) => ({ searchOpen: !s.searchOpen, searchTarget: null })),
+  openObject: (name, line) => set(name ? { searchOpen: true, searchTarget: { name, line } } : { searchTarget: null }),
+  togglePiiOverlay: () => set((s) => ({ piiOverlay: !s.piiOverlay })),
+  setHighlightedPath: (path) => set({ highlightedPath: path }),
 
   addToHistory: async (fields, providerType) => {
     // Encrypt credentials via Electron's safeStorage (OS credential store)
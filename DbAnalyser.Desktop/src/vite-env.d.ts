@@ -13,6 +13,10 @@ interface Window {
     encrypt: (plaintext: string) => Promise<string | null>;
     decrypt: (cipherBase64: string) => Promise<string | null>;
     saveFile: (jsonContent: string, defaultName: string) => Promise<string | null>;
+    exportFile: (content: string | Uint8Array, defaultName: string, filters: { name: string; extensions: string[] }[]) => Promise<string | null>;
+    exportFolder: (files: { path: string; content: string }[], folderName: string) => Promise<string | null>;
+    exportDiagramPdf: (svg: string, width: number, height: number, defaultName: string) => Promise<string | null>;
     openFile: () => Promise<{ filePath: string; content: string } | null>;
+    openSqlFolder: () => Promise<{ folderPath: string; files: { path: string; content: string }[] } | null>;
   };
 }
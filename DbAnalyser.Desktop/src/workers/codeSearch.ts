@@ -0,0 +1,76 @@
+// Code search over object definitions, shared by the search worker and the search dialog.
+// Kept free of React and the store so the worker bundle stays small.
+
+export interface CodeSearchOptions {
+  regex: boolean;
+  wholeWord: boolean;
+}
+
+export interface CodeSearchObject {
+  name: string;
+  type: string;
+  database?: string;
+  definition?: string;
+}
+
+export interface CodeSearchLine {
+  number: number;                 // 1-based
+  text: string;
+  ranges: [number, number][];     // matched [start, end) offsets within the line
+}
+
+export interface CodeSearchHit {
+  object: CodeSearchObject;
+  matches: number;
+  lines: CodeSearchLine[];        // matching lines only
+}
+
+// Identifier characters in T-SQL and PostgreSQL names (@local, #temp, $1)
+const WORD_CHAR = '[\\w@#$]';
+
+/**
+ * Compile the query into a global, case-insensitive pattern. Plain queries match literally;
+ * whole-word mode refuses matches glued to identifier characters. An invalid regex returns its error.
+ */
+export function buildSearchPattern(query: string, options: CodeSearchOptions): RegExp | { error: string } {
+  let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (options.wholeWord) source = `(?<!${WORD_CHAR})(?:${source})(?!${WORD_CHAR})`;
+  try {
+    return new RegExp(source, 'gi');
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/** Every match of the pattern in one line; zero-length matches are skipped. */
+export function matchRanges(text: string, pattern: RegExp): [number, number][] {
+  const ranges: [number, number][] = [];
+  pattern.lastIndex = 0;
+  for (let m = pattern.exec(text); m; m = pattern.exec(text)) {
+    if (m[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    ranges.push([m.index, m.index + m[0].length]);
+  }
+  return ranges;
+}
+
+/** Search definitions line by line, returning every matching line of every object. */
+export function searchDefinitions(objects: CodeSearchObject[], pattern: RegExp): CodeSearchHit[] {
+  const hits: CodeSearchHit[] = [];
+  for (const object of objects) {
+    if (!object.definition) continue;
+    const lines: CodeSearchLine[] = [];
+    let matches = 0;
+    object.definition.split('\n').forEach((raw, i) => {
+      const text = raw.replace(/\r$/, '');
+      const ranges = matchRanges(text, pattern);
+      if (ranges.length === 0) return;
+      matches += ranges.length;
+      lines.push({ number: i + 1, text, ranges });
+    });
+    if (lines.length > 0) hits.push({ object, matches, lines });
+  }
+  return hits;
+}
@@ -0,0 +1,30 @@
+import { buildSearchPattern, searchDefinitions, type CodeSearchLine, type CodeSearchObject, type CodeSearchOptions } from './codeSearch';
+
+export type CodeSearchRequest =
+  | { type: 'load'; objects: CodeSearchObject[] }
+  | { type: 'search'; id: number; query: string; options: CodeSearchOptions };
+
+// Hits point back into the loaded objects by index, so definitions don't travel back
+export type CodeSearchResponse =
+  | { type: 'done'; id: number; hits: { index: number; matches: number; lines: CodeSearchLine[] }[] }
+  | { type: 'error'; id: number; message: string };
+
+let objects: CodeSearchObject[] = [];
+
+self.onmessage = (e: MessageEvent<CodeSearchRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'load') {
+    objects = msg.objects;
+    return;
+  }
+  const pattern = buildSearchPattern(msg.query, msg.options);
+  if (!(pattern instanceof RegExp)) {
+    const message: CodeSearchResponse = { type: 'error', id: msg.id, message: pattern.error };
+    self.postMessage(message);
+    return;
+  }
+  const index = new Map(objects.map((o, i) => [o, i]));
+  const hits = searchDefinitions(objects, pattern).map((h) => ({ index: index.get(h.object)!, matches: h.matches, lines: h.lines }));
+  const message: CodeSearchResponse = { type: 'done', id: msg.id, hits };
+  self.postMessage(message);
+};
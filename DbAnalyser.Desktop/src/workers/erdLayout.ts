@@ -0,0 +1,238 @@
+// ERD layouts that run in the layout worker. Nodes are addressed by index; sizes are the
+// rendered (or estimated) width and height of each table, and results are top-left positions.
+import { type Node, type Edge } from '@xyflow/react';
+import { getLayoutedElements } from '../hooks/useDagreLayout';
+import { ForceSimulation } from './forceSimulation';
+
+export interface ErdLayoutInput {
+  sizes: Float32Array;   // interleaved width, height
+  edges: Uint32Array;    // interleaved source, target node indices
+}
+
+const GAP = 40;
+const FORCE_MAX_TICKS = 800;
+const FORCE_SETTLED = 0.01;
+const OVERLAP_PASSES = 200;
+const SPREAD_QUANTILE = 0.9;
+const SPREAD_MAX = 4;
+
+/** Dagre layered layout per connected component, the components packed in rows. */
+export function layeredLayout({ sizes, edges }: ErdLayoutInput): Float32Array {
+  const n = sizes.length / 2;
+  const nodes: Node[] = Array.from({ length: n }, (_, i) => ({
+    id: String(i),
+    position: { x: 0, y: 0 },
+    data: {},
+    width: sizes[i * 2],
+    height: sizes[i * 2 + 1],
+  }));
+  const links: Edge[] = [];
+  for (let e = 0; e < edges.length; e += 2) {
+    links.push({ id: String(e / 2), source: String(edges[e]), target: String(edges[e + 1]) });
+  }
+
+  const laid = getLayoutedElements(nodes, links, { rankSep: 200, nodeSep: GAP });
+  const positions = new Float32Array(n * 2);
+  laid.nodes.forEach((node) => {
+    const i = Number(node.id);
+    positions[i * 2] = node.position.x;
+    positions[i * 2 + 1] = node.position.y;
+  });
+  return positions;
+}
+
+/**
+ * Force-directed layout on the same Barnes-Hut simulation as the dependency graph, run to rest
+ * in one go. Springs treat tables as points, so a final pass pushes overlapping boxes apart.
+ */
+export function forceLayout({ sizes, edges }: ErdLayoutInput): Float32Array {
+  const n = sizes.length / 2;
+  let meanSize = 0;
+  for (let i = 0; i < n; i++) meanSize += (sizes[i * 2] + sizes[i * 2 + 1]) / 2 / n;
+  const spacing = meanSize + GAP;
+
+  // Seed on a sunflower spiral so the simulation starts untangled and the result is deterministic
+  const centers = new Float32Array(n * 2);
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  for (let i = 0; i < n; i++) {
+    const r = spacing * Math.sqrt(i) * 0.6;
+    centers[i * 2] = Math.cos(i * golden) * r;
+    centers[i * 2 + 1] = Math.sin(i * golden) * r;
+  }
+
+  const simulation = new ForceSimulation({
+    positions: centers,
+    edges,
+    groups: new Int32Array(n).fill(-1),
+    repulsion: spacing * spacing * 2,
+    edgeRestLength: spacing * 1.2,
+    centerX: 0,
+    centerY: 0,
+  });
+  for (let tick = 0; tick < FORCE_MAX_TICKS && simulation.tick() > FORCE_SETTLED; tick++);
+
+  removeOverlaps(centers, sizes);
+  const positions = new Float32Array(n * 2);
+  for (let i = 0; i < n; i++) {
+    positions[i * 2] = centers[i * 2] - sizes[i * 2] / 2;
+    positions[i * 2 + 1] = centers[i * 2 + 1] - sizes[i * 2 + 1] / 2;
+  }
+  return positions;
+}
+
+/** Pairs of boxes (given by their centers) closer than GAP, found by a sweep over x. */
+export function findOverlaps(centers: Float32Array, sizes: Float32Array): [number, number][] {
+  const n = sizes.length / 2;
+  const order = Array.from({ length: n }, (_, i) => i).sort((a, b) => centers[a * 2] - centers[b * 2]);
+  let maxWidth = 0;
+  for (let i = 0; i < n; i++) maxWidth = Math.max(maxWidth, sizes[i * 2]);
+
+  const pairs: [number, number][] = [];
+  for (let a = 0; a < n; a++) {
+    const i = order[a];
+    for (let b = a + 1; b < n; b++) {
+      const j = order[b];
+      const dx = centers[j * 2] - centers[i * 2];
+      if (dx >= maxWidth + GAP) break;
+      const dy = centers[j * 2 + 1] - centers[i * 2 + 1];
+      if (Math.abs(dx) < (sizes[i * 2] + sizes[j * 2]) / 2 + GAP && Math.abs(dy) < (sizes[i * 2 + 1] + sizes[j * 2 + 1]) / 2 + GAP) {
+        pairs.push([i, j]);
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Push overlapping boxes apart along the axis that overlaps least. Pairs are found on a fresh
+ * sort each pass and resolved afterwards, so moves never invalidate the sweep. Anything still
+ * overlapping when the passes run out is settled greedily, which always ends overlap-free.
+ */
+function removeOverlaps(centers: Float32Array, sizes: Float32Array) {
+  const n = sizes.length / 2;
+  spreadApart(centers, sizes);
+  for (let pass = 0; pass < OVERLAP_PASSES + n; pass++) {
+    const pairs = findOverlaps(centers, sizes);
+    if (pairs.length === 0) return;
+    for (const [i, j] of pairs) {
+      const dx = centers[j * 2] - centers[i * 2];
+      const dy = centers[j * 2 + 1] - centers[i * 2 + 1];
+      const overlapX = (sizes[i * 2] + sizes[j * 2]) / 2 + GAP - Math.abs(dx);
+      const overlapY = (sizes[i * 2 + 1] + sizes[j * 2 + 1]) / 2 + GAP - Math.abs(dy);
+      if (overlapX <= 0 || overlapY <= 0) continue;
+      if (overlapX < overlapY) {
+        const shift = (overlapX / 2 + 0.5) * (dx < 0 ? -1 : 1);
+        centers[i * 2] -= shift;
+        centers[j * 2] += shift;
+      } else {
+        const shift = (overlapY / 2 + 0.5) * (dy < 0 ? -1 : 1);
+        centers[i * 2 + 1] -= shift;
+        centers[j * 2 + 1] += shift;
+      }
+    }
+  }
+  settleOverlaps(centers, sizes);
+}
+
+// Springs pack tables tighter than their boxes allow; scale the layout about its centroid by
+// the factor that separates most overlapping pairs, keeping its shape, before pushing pairs apart
+function spreadApart(centers: Float32Array, sizes: Float32Array) {
+  const n = sizes.length / 2;
+  const factors = findOverlaps(centers, sizes).map(([i, j]) => {
+    const dx = Math.abs(centers[j * 2] - centers[i * 2]);
+    const dy = Math.abs(centers[j * 2 + 1] - centers[i * 2 + 1]);
+    const sx = dx > 0 ? ((sizes[i * 2] + sizes[j * 2]) / 2 + GAP) / dx : Infinity;
+    const sy = dy > 0 ? ((sizes[i * 2 + 1] + sizes[j * 2 + 1]) / 2 + GAP) / dy : Infinity;
+    return Math.min(sx, sy);
+  }).sort((a, b) => a - b);
+  if (factors.length === 0) return;
+  const scale = Math.min(SPREAD_MAX, factors[Math.floor((factors.length - 1) * SPREAD_QUANTILE)]);
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < n; i++) {
+    cx += centers[i * 2] / n;
+    cy += centers[i * 2 + 1] / n;
+  }
+  for (let i = 0; i < n; i++) {
+    centers[i * 2] = cx + (centers[i * 2] - cx) * scale;
+    centers[i * 2 + 1] = cy + (centers[i * 2 + 1] - cy) * scale;
+  }
+}
+
+// Place boxes top to bottom, moving each below any already placed box it still overlaps
+function settleOverlaps(centers: Float32Array, sizes: Float32Array) {
+  const n = sizes.length / 2;
+  const order = Array.from({ length: n }, (_, i) => i).sort((a, b) => centers[a * 2 + 1] - centers[b * 2 + 1]);
+  for (let a = 0; a < n; a++) {
+    const i = order[a];
+    for (let moved = true; moved;) {
+      moved = false;
+      for (let b = 0; b < a; b++) {
+        const j = order[b];
+        const minY = (sizes[i * 2 + 1] + sizes[j * 2 + 1]) / 2 + GAP;
+        if (Math.abs(centers[i * 2] - centers[j * 2]) < (sizes[i * 2] + sizes[j * 2]) / 2 + GAP
+          && Math.abs(centers[i * 2 + 1] - centers[j * 2 + 1]) < minY) {
+          centers[i * 2 + 1] = centers[j * 2 + 1] + minY + 1;   // clear of float32 rounding
+          moved = true;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Compact packing: tables in equal-width columns, each placed into the currently shortest one.
+ * Connected tables are visited breadth-first so related tables stay close; tables without any
+ * relationship fill the remaining gaps.
+ */
+export function gridLayout({ sizes, edges }: ErdLayoutInput): Float32Array {
+  const n = sizes.length / 2;
+  const adjacency: number[][] = Array.from({ length: n }, () => []);
+  for (let e = 0; e < edges.length; e += 2) {
+    if (edges[e] === edges[e + 1]) continue;
+    adjacency[edges[e]].push(edges[e + 1]);
+    adjacency[edges[e + 1]].push(edges[e]);
+  }
+
+  // Largest components first, each starting from its best-connected table
+  const seen = new Uint8Array(n);
+  const components: number[][] = [];
+  const byDegree = Array.from({ length: n }, (_, i) => i).sort((a, b) => adjacency[b].length - adjacency[a].length);
+  for (const start of byDegree) {
+    if (seen[start]) continue;
+    const component = [start];
+    seen[start] = 1;
+    for (let k = 0; k < component.length; k++) {
+      for (const next of adjacency[component[k]]) {
+        if (!seen[next]) {
+          seen[next] = 1;
+          component.push(next);
+        }
+      }
+    }
+    components.push(component);
+  }
+  components.sort((a, b) => b.length - a.length);
+  const order = components.flat();
+
+  let columnWidth = 0;
+  let area = 0;
+  for (let i = 0; i < n; i++) {
+    columnWidth = Math.max(columnWidth, sizes[i * 2]);
+    area += (sizes[i * 2] + GAP) * (sizes[i * 2 + 1] + GAP);
+  }
+  columnWidth += GAP;
+  // Aim for a landscape block that fits a typical screen
+  const columns = Math.max(1, Math.min(n, Math.round(Math.sqrt(area * 1.6) / columnWidth)));
+  const heights = new Float64Array(columns);
+
+  const positions = new Float32Array(n * 2);
+  for (const i of order) {
+    let shortest = 0;
+    for (let c = 1; c < columns; c++) if (heights[c] < heights[shortest]) shortest = c;
+    positions[i * 2] = shortest * columnWidth;
+    positions[i * 2 + 1] = heights[shortest];
+    heights[shortest] += sizes[i * 2 + 1] + GAP;
+  }
+  return positions;
+}
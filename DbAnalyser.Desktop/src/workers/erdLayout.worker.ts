@@ -0,0 +1,27 @@
+import { forceLayout, gridLayout, layeredLayout, type ErdLayoutInput } from './erdLayout';
+
+export type ErdWorkerEngine = 'dagre' | 'force' | 'grid';
+
+export type ErdLayoutRequest = { type: 'layout'; id: number; engine: ErdWorkerEngine } & ErdLayoutInput;
+
+export type ErdLayoutResponse =
+  | { type: 'done'; id: number; positions: Float32Array }
+  | { type: 'error'; id: number; message: string };
+
+const ENGINES: Record<ErdWorkerEngine, (input: ErdLayoutInput) => Float32Array> = {
+  dagre: layeredLayout,
+  force: forceLayout,
+  grid: gridLayout,
+};
+
+self.onmessage = (e: MessageEvent<ErdLayoutRequest>) => {
+  const { id, engine, sizes, edges } = e.data;
+  try {
+    const positions = ENGINES[engine]({ sizes, edges });
+    const message: ErdLayoutResponse = { type: 'done', id, positions };
+    self.postMessage(message, { transfer: [positions.buffer] });
+  } catch (err) {
+    const message: ErdLayoutResponse = { type: 'error', id, message: err instanceof Error ? err.message : String(err) };
+    self.postMessage(message);
+  }
+};
@@ -0,0 +1,64 @@
+import { ForceSimulation, type SimulationOptions } from './forceSimulation';
+
+export type ForceLayoutRequest =
+  | { type: 'init'; options: SimulationOptions }
+  | { type: 'drag'; index: number; x: number; y: number }
+  | { type: 'release' }
+  | { type: 'center'; x: number; y: number };
+
+export type ForceLayoutResponse = { type: 'tick'; positions: Float32Array; tick: number; settled: boolean };
+
+const FRAME_MS = 16;
+// Below this mean squared velocity the layout is visually still and the worker goes idle
+const SETTLED_ENERGY = 0.0005;
+
+let simulation: ForceSimulation | null = null;
+let tick = 0;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let dragging = false;
+
+function post(settled: boolean) {
+  if (!simulation) return;
+  const positions = simulation.positions.slice();
+  const message: ForceLayoutResponse = { type: 'tick', positions, tick, settled };
+  self.postMessage(message, { transfer: [positions.buffer] });
+}
+
+function step() {
+  timer = null;
+  if (!simulation) return;
+  const energy = simulation.tick();
+  tick++;
+  const settled = energy <= SETTLED_ENERGY && !dragging;
+  post(settled);
+  if (!settled) timer = setTimeout(step, FRAME_MS);
+}
+
+function wake() {
+  if (!timer) timer = setTimeout(step, FRAME_MS);
+}
+
+self.onmessage = (e: MessageEvent<ForceLayoutRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'init':
+      simulation = new ForceSimulation(msg.options);
+      tick = 0;
+      wake();
+      break;
+    case 'drag':
+      dragging = true;
+      simulation?.fix(msg.index, msg.x, msg.y);
+      wake();
+      break;
+    case 'release':
+      dragging = false;
+      simulation?.fix(-1);
+      wake();
+      break;
+    case 'center':
+      simulation?.setCenter(msg.x, msg.y);
+      wake();
+      break;
+  }
+};
@@ -0,0 +1,276 @@
+// Force-directed layout for the dependency graph. Repulsion uses a Barnes-Hut quadtree
+// (O(n log n) per tick) so the layout stays responsive with tens of thousands of objects;
+// springs, database clustering and gravity are the same as the original per-pair simulation.
+
+export interface SimulationOptions {
+  positions: Float32Array;   // interleaved x, y
+  edges: Uint32Array;        // interleaved source, target node indices
+  groups: Int32Array;        // database group per node, -1 for none
+  repulsion: number;
+  edgeRestLength: number;
+  centerX: number;
+  centerY: number;
+}
+
+const THETA = 0.9;           // accuracy / speed trade-off of the Barnes-Hut approximation
+const DAMPING = 0.85;
+const SPRING = 0.005;
+const GROUP_PULL = 0.003;
+const GRAVITY = 0.001;
+const MIN_DISTANCE = 1;
+// Cooling: forces are scaled by alpha, which decays each tick so large graphs come to rest
+// instead of oscillating; dragging reheats the layout.
+const ALPHA_DECAY = 0.99;
+const ALPHA_MIN = 0.001;
+const ALPHA_REHEAT = 0.3;
+
+/** Quadtree over node positions stored in flat arrays so it can be rebuilt every tick without allocating. */
+class QuadTree {
+  private capacity = 0;
+  private count = 0;
+  private cx = new Float64Array(0);
+  private cy = new Float64Array(0);
+  private half = new Float64Array(0);
+  private mass = new Float64Array(0);
+  private sumX = new Float64Array(0);
+  private sumY = new Float64Array(0);
+  private child = new Int32Array(0);   // 4 per cell, -1 = none
+  private point = new Int32Array(0);   // node index held by a leaf, -1 = empty or internal
+
+  private ensure(cells: number) {
+    if (cells <= this.capacity) return;
+    const grow = <T extends Float64Array | Int32Array>(a: T, size: number, make: (n: number) => T): T => {
+      const next = make(size);
+      next.set(a);
+      return next;
+    };
+    const size = Math.max(cells, this.capacity * 2, 64);
+    this.cx = grow(this.cx, size, (n) => new Float64Array(n));
+    this.cy = grow(this.cy, size, (n) => new Float64Array(n));
+    this.half = grow(this.half, size, (n) => new Float64Array(n));
+    this.mass = grow(this.mass, size, (n) => new Float64Array(n));
+    this.sumX = grow(this.sumX, size, (n) => new Float64Array(n));
+    this.sumY = grow(this.sumY, size, (n) => new Float64Array(n));
+    this.child = grow(this.child, size * 4, (n) => new Int32Array(n));
+    this.point = grow(this.point, size, (n) => new Int32Array(n));
+    this.capacity = size;
+  }
+
+  private cell(cx: number, cy: number, half: number): number {
+    this.ensure(this.count + 1);
+    const c = this.count++;
+    this.cx[c] = cx;
+    this.cy[c] = cy;
+    this.half[c] = half;
+    this.mass[c] = 0;
+    this.sumX[c] = 0;
+    this.sumY[c] = 0;
+    this.child.fill(-1, c * 4, c * 4 + 4);
+    this.point[c] = -1;
+    return c;
+  }
+
+  private quadrant(c: number, x: number, y: number): number {
+    return (x >= this.cx[c] ? 1 : 0) + (y >= this.cy[c] ? 2 : 0);
+  }
+
+  private childFor(c: number, q: number): number {
+    const slot = c * 4 + q;
+    if (this.child[slot] < 0) {
+      const h = this.half[c] / 2;
+      // cell() may reallocate the pool, so create it before writing into `child`
+      const created = this.cell(this.cx[c] + (q & 1 ? h : -h), this.cy[c] + (q & 2 ? h : -h), h);
+      this.child[slot] = created;
+    }
+    return this.child[slot];
+  }
+
+  build(pos: Float32Array, n: number) {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (let i = 0; i < n; i++) {
+      minX = Math.min(minX, pos[i * 2]);
+      maxX = Math.max(maxX, pos[i * 2]);
+      minY = Math.min(minY, pos[i * 2 + 1]);
+      maxY = Math.max(maxY, pos[i * 2 + 1]);
+    }
+    this.count = 0;
+    this.cell((minX + maxX) / 2, (minY + maxY) / 2, Math.max(maxX - minX, maxY - minY, 1) / 2 + 1);
+    for (let i = 0; i < n; i++) this.insert(i, pos[i * 2], pos[i * 2 + 1], pos);
+  }
+
+  private insert(i: number, x: number, y: number, pos: Float32Array) {
+    let c = 0;
+    for (;;) {
+      this.mass[c] += 1;
+      this.sumX[c] += x;
+      this.sumY[c] += y;
+      const hasChildren = this.child[c * 4] >= 0 || this.child[c * 4 + 1] >= 0 || this.child[c * 4 + 2] >= 0 || this.child[c * 4 + 3] >= 0;
+      if (!hasChildren && this.point[c] < 0 && this.mass[c] === 1) {
+        this.point[c] = i;
+        return;
+      }
+      // Nodes sitting on top of each other share a leaf instead of splitting forever
+      if (this.half[c] < 1e-3) return;
+      const existing = this.point[c];
+      if (existing >= 0) {
+        this.point[c] = -1;
+        const ex = pos[existing * 2];
+        const ey = pos[existing * 2 + 1];
+        const e = this.childFor(c, this.quadrant(c, ex, ey));
+        this.mass[e] += 1;
+        this.sumX[e] += ex;
+        this.sumY[e] += ey;
+        this.point[e] = existing;
+      }
+      c = this.childFor(c, this.quadrant(c, x, y));
+    }
+  }
+
+  /** Accumulate the repulsion on node i into (fx, fy). */
+  repel(i: number, x: number, y: number, strength: number, out: { fx: number; fy: number }) {
+    const stack = [0];
+    while (stack.length > 0) {
+      const c = stack.pop()!;
+      const m = this.mass[c];
+      if (m === 0 || this.point[c] === i) continue;
+      const dx = x - this.sumX[c] / m;
+      const dy = y - this.sumY[c] / m;
+      const dist = Math.max(Math.sqrt(dx * dx + dy * dy), MIN_DISTANCE);
+      const isLeaf = this.child[c * 4] < 0 && this.child[c * 4 + 1] < 0 && this.child[c * 4 + 2] < 0 && this.child[c * 4 + 3] < 0;
+      if (isLeaf || (this.half[c] * 2) / dist < THETA) {
+        if (isLeaf && dx === 0 && dy === 0) {
+          // Coincident nodes: push apart in a random direction
+          out.fx += (Math.random() - 0.5) * strength * 0.01;
+          out.fy += (Math.random() - 0.5) * strength * 0.01;
+          continue;
+        }
+        const force = (strength * m) / (dist * dist);
+        out.fx += (dx / dist) * force;
+        out.fy += (dy / dist) * force;
+        continue;
+      }
+      for (let q = 0; q < 4; q++) {
+        const ch = this.child[c * 4 + q];
+        if (ch >= 0) stack.push(ch);
+      }
+    }
+  }
+}
+
+export class ForceSimulation {
+  readonly positions: Float32Array;
+  private velocities: Float32Array;
+  private tree = new QuadTree();
+  private fixedIndex = -1;
+  private fixedX = 0;
+  private fixedY = 0;
+  private alpha = 1;
+  private readonly n: number;
+
+  constructor(private options: SimulationOptions) {
+    this.positions = options.positions;
+    this.n = options.positions.length / 2;
+    this.velocities = new Float32Array(options.positions.length);
+  }
+
+  /** Pin a node under the cursor while it is dragged; -1 releases it. */
+  fix(index: number, x = 0, y = 0) {
+    if (index < 0 && this.fixedIndex >= 0) {
+      this.positions[this.fixedIndex * 2] = this.fixedX;
+      this.positions[this.fixedIndex * 2 + 1] = this.fixedY;
+    }
+    this.fixedIndex = index;
+    this.fixedX = x;
+    this.fixedY = y;
+    this.alpha = Math.max(this.alpha, ALPHA_REHEAT);
+  }
+
+  setCenter(x: number, y: number) {
+    this.options.centerX = x;
+    this.options.centerY = y;
+  }
+
+  /** Advance one step; returns the mean squared velocity so callers can tell when it has settled. */
+  tick(): number {
+    const { edges, groups, repulsion, edgeRestLength, centerX, centerY } = this.options;
+    const pos = this.positions;
+    const vel = this.velocities;
+    const n = this.n;
+    if (n === 0) return 0;
+
+    // Repulsion
+    this.tree.build(pos, n);
+    const force = { fx: 0, fy: 0 };
+    for (let i = 0; i < n; i++) {
+      force.fx = 0;
+      force.fy = 0;
+      this.tree.repel(i, pos[i * 2], pos[i * 2 + 1], repulsion, force);
+      vel[i * 2] += force.fx;
+      vel[i * 2 + 1] += force.fy;
+    }
+
+    // Attraction along edges
+    for (let e = 0; e < edges.length; e += 2) {
+      const s = edges[e];
+      const t = edges[e + 1];
+      const dx = pos[t * 2] - pos[s * 2];
+      const dy = pos[t * 2 + 1] - pos[s * 2 + 1];
+      const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+      const f = (dist - edgeRestLength) * SPRING;
+      const fx = (dx / dist) * f;
+      const fy = (dy / dist) * f;
+      vel[s * 2] += fx;
+      vel[s * 2 + 1] += fy;
+      vel[t * 2] -= fx;
+      vel[t * 2 + 1] -= fy;
+    }
+
+    // Database clustering: same-database nodes drift toward their group centroid
+    const groupCount = groups.reduce((max, g) => Math.max(max, g + 1), 0);
+    if (groupCount > 1) {
+      const gx = new Float64Array(groupCount);
+      const gy = new Float64Array(groupCount);
+      const gn = new Float64Array(groupCount);
+      for (let i = 0; i < n; i++) {
+        const g = groups[i];
+        if (g < 0) continue;
+        gx[g] += pos[i * 2];
+        gy[g] += pos[i * 2 + 1];
+        gn[g]++;
+      }
+      for (let i = 0; i < n; i++) {
+        const g = groups[i];
+        if (g < 0 || gn[g] < 2) continue;
+        vel[i * 2] += (gx[g] / gn[g] - pos[i * 2]) * GROUP_PULL;
+        vel[i * 2 + 1] += (gy[g] / gn[g] - pos[i * 2 + 1]) * GROUP_PULL;
+      }
+    }
+
+    // Center gravity, damping and integration; no node moves further than the edge rest length per tick
+    const maxSpeed = edgeRestLength / 2;
+    let energy = 0;
+    for (let i = 0; i < n; i++) {
+      if (i === this.fixedIndex) {
+        pos[i * 2] = this.fixedX;
+        pos[i * 2 + 1] = this.fixedY;
+        vel[i * 2] = 0;
+        vel[i * 2 + 1] = 0;
+        continue;
+      }
+      let vx = (vel[i * 2] + (centerX - pos[i * 2]) * GRAVITY) * DAMPING * this.alpha;
+      let vy = (vel[i * 2 + 1] + (centerY - pos[i * 2 + 1]) * GRAVITY) * DAMPING * this.alpha;
+      const speed = Math.sqrt(vx * vx + vy * vy);
+      if (speed > maxSpeed) {
+        vx *= maxSpeed / speed;
+        vy *= maxSpeed / speed;
+      }
+      vel[i * 2] = vx;
+      vel[i * 2 + 1] = vy;
+      pos[i * 2] += vel[i * 2];
+      pos[i * 2 + 1] += vel[i * 2 + 1];
+      energy += vel[i * 2] * vel[i * 2] + vel[i * 2 + 1] * vel[i * 2 + 1];
+    }
+    this.alpha = Math.max(ALPHA_MIN, this.alpha * ALPHA_DECAY);
+    return energy / n;
+  }
+}